@@ -1,10 +1,14 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.19;
 
+import "lib/wormhole-solidity-sdk/src/interfaces/IWormholeReceiver.sol";
+
 /**
  * @title MockWormholeRelayer
  * @notice Mock implementation of the Wormhole relayer contract for testing
- * @dev Simulates relayer functionality like message delivery and fee quoting
+ * @dev Simulates relayer functionality like message delivery and fee quoting.
+ *      Sends are only recorded; an off-chain relay (see WormholeRelaySimulator)
+ *      picks up the SendEvent logs and calls deliver on the destination relayer.
  */
 contract MockWormholeRelayer {
     // Fee calculation components
@@ -12,13 +16,34 @@ contract MockWormholeRelayer {
     uint256 private refundPerGasUnused = 0.00001 ether;
     uint256 private pricePerGas = 1 gwei;
     uint256 private pricePerByte = 100 wei;
-    
+
+    uint64 private _sequence;
+
     event DeliveryPriceSet(
         uint16 chainId,
         uint256 nativePriceQuote,
         uint256 targetChainRefundPerGasUnused
     );
 
+    event SendEvent(
+        uint64 indexed sequence,
+        uint16 indexed targetChain,
+        address indexed targetAddress,
+        address sender,
+        bytes payload,
+        uint256 receiverValue,
+        uint256 gasLimit,
+        uint256 deliveryQuote
+    );
+
+    event Delivery(
+        address indexed recipientContract,
+        uint16 indexed sourceChain,
+        uint64 indexed sequence,
+        bytes32 deliveryHash
+    );
+
+
     /**
      * @notice Set the delivery price components
      * @param chainId Target chain ID
@@ -78,4 +103,62 @@ contract MockWormholeRelayer {
         // Always return true for testing
         return true;
     }
-}
\ No newline at end of file
+
+    /**
+     * @notice Record a payload to relay to an EVM chain
+     * @param targetChain Target chain ID
+     * @param targetAddress Receiver on the target chain
+     * @param payload Payload passed to receiveWormholeMessages
+     * @param receiverValue Value to forward to the receiver
+     * @param gasLimit Gas limit for the delivery
+     * @return sequence Sequence number of the send
+     */
+    function sendPayloadToEvm(
+        uint16 targetChain,
+        address targetAddress,
+        bytes memory payload,
+        uint256 receiverValue,
+        uint256 gasLimit
+    ) external payable returns (uint64 sequence) {
+        sequence = ++_sequence;
+
+        emit SendEvent(
+            sequence,
+            targetChain,
+            targetAddress,
+            msg.sender,
+            payload,
+            receiverValue,
+            gasLimit,
+            msg.value
+        );
+    }
+
+    /**
+     * @notice Deliver a relayed payload to its receiver, acting as the destination relayer
+     * @param targetAddress Receiver implementing IWormholeReceiver
+     * @param payload Payload of the send
+     * @param sourceAddress Sender on the source chain, left-padded to 32 bytes
+     * @param sourceChain Wormhole chain ID of the source
+     * @param sequence Sequence number of the send on the source relayer
+     * @param deliveryHash Unique hash of the delivery
+     */
+    function deliver(
+        address targetAddress,
+        bytes memory payload,
+        bytes32 sourceAddress,
+        uint16 sourceChain,
+        uint64 sequence,
+        bytes32 deliveryHash
+    ) external payable {
+        IWormholeReceiver(targetAddress).receiveWormholeMessages{value: msg.value}(
+            payload,
+            new bytes[](0),
+            sourceAddress,
+            sourceChain,
+            deliveryHash
+        );
+
+        emit Delivery(targetAddress, sourceChain, sequence, deliveryHash);
+    }
+}
@@ -0,0 +1,14 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { getProtocolConfig } from "../../src/utils/config-helpers";
+
+const func: DeployFunction = async function ({ network }: HardhatRuntimeEnvironment) {
+    // Throws on an unknown or mismatched PROTOCOL_CONFIG_NAME before anything is deployed.
+    // Nothing is recorded, so the check runs on every deployment.
+    getProtocolConfig(network.name);
+};
+
+func.id = "ProtocolConfig";
+func.tags = ["config", "ProtocolConfig"];
+
+export default func;
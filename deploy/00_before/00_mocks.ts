@@ -2,6 +2,7 @@ import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
 import { COMMON_DEPLOY_PARAMS } from "../../src/env";
 import { isUnitMode } from "../../src/utils/deploy-utils";
+import { usesWormholeMocks } from "../../src/utils/wormhole-helper";
 
 const func: DeployFunction = async function ({
     getNamedAccounts,
@@ -11,13 +12,17 @@ const func: DeployFunction = async function ({
     const { deploy } = deployments;
     const { admin } = await getNamedAccounts();
 
+    // Stand-ins for Wormhole wherever resolveWormholeAddresses uses them, not only in unit mode
+    if (usesWormholeMocks(hre.network.name)) {
+        await deploy("MockWormhole", { from: admin, args: [], ...COMMON_DEPLOY_PARAMS });
+        await deploy("MockWormholeRelayer", { from: admin, args: [], ...COMMON_DEPLOY_PARAMS });
+    }
+
     if (isUnitMode()) {
         await deploy("MockMessageProtocol", { from: admin, args: [], ...COMMON_DEPLOY_PARAMS });
         await deploy("MockMessageRegistry", { from: admin, args: [], ...COMMON_DEPLOY_PARAMS });
         await deploy("MockTargetRegistry", { from: admin, args: [], ...COMMON_DEPLOY_PARAMS });
         await deploy("MockMessageProcessor", { from: admin, args: [], ...COMMON_DEPLOY_PARAMS });
-        await deploy("MockWormhole", { from: admin, args: [], ...COMMON_DEPLOY_PARAMS });
-        await deploy("MockWormholeRelayer", { from: admin, args: [], ...COMMON_DEPLOY_PARAMS });
         await deploy("MockLiquidityPool", { from: admin, args: [], ...COMMON_DEPLOY_PARAMS });
         await deploy("MockSettlementController", { from: admin, args: [], ...COMMON_DEPLOY_PARAMS });
         await deploy("MockMessageRouter", { from: admin, args: [], ...COMMON_DEPLOY_PARAMS });
@@ -3,12 +3,12 @@ import { DeployFunction } from "hardhat-deploy/types";
 import { COMMON_DEPLOY_PARAMS, MARKET_NAME } from "../../src/env";
 import { ConfigNames, getProtocolConfig, loadProtocolConfig } from "../../src/utils/config-helpers";
 import { getContractVariantInstance, isUnitMode } from "../../src/utils/deploy-utils";
-import { eEthereumNetwork, eNetwork } from "../../src/types";
-import { getWormholeAddresses } from "../../src/utils/wormhole-helper";
+import { resolveWormholeAddresses } from "../../src/utils/wormhole-helper";
 import { MessageProcessor, TargetRegistry } from "../../typechain";
 import { BaseContract } from "ethers";
 import { CONTRACT_VARIANTS } from "../../src/constants/deployment";
 import { DeploymentHelper } from "../../src/utils/deploy-helper";
+import { applyRoleManifest, printRoleGrantResults } from "../../src/utils/role-manifest";
 
 const func: DeployFunction = async function ({
     getNamedAccounts,
@@ -22,11 +22,8 @@ const func: DeployFunction = async function ({
     const adminSigner = await hre.ethers.getSigner(admin);
     const environment = { getNamedAccounts, deployments, ...hre };
 
-    const network = (
-        process.env.FORK ? process.env.FORK : hre.network.name
-    ) as eNetwork;
-
-    var { wormholeRelayer, wormhole } = getWormholeAddresses(network, config);
+    // Mocks on local networks and in unit mode, otherwise the configured addresses checked on chain
+    const { wormholeRelayer, wormhole, wormholeChainId } = await resolveWormholeAddresses(environment, config);
 
     // Initialize helper with protocol config
     const helper = new DeploymentHelper(environment, getProtocolConfig());
@@ -56,24 +53,9 @@ const func: DeployFunction = async function ({
     });
 
     if (!isUnitMode()) {
-        // 1. Grant MessageProcessor's PROCESSOR_ROLE to the MessageRouter contract
-        await helper.waitForTx(
-            await messageProcessor.connect(
-                adminSigner).grantRole(await messageProcessor.PROCESSOR_ROLE(), deployment.address)
-        );
-        // 2. Grant TargetRegistry's VALIDATOR_ROLE to the MessageRouter contract
-        await helper.waitForTx(
-            await targetRegistry.connect(
-                adminSigner).grantRole(await targetRegistry.VALIDATOR_ROLE(), deployment.address)
-        );
-
-        console.log("MessageRouter has PROCESSOR_ROLE in MessageProcessor:",
-            await messageProcessor.hasRole(await messageProcessor.PROCESSOR_ROLE(), deployment.address)
-        );
-
-        console.log("MessageRouter has VALIDATOR_ROLE in TargetRegistry:",
-            await targetRegistry.hasRole(await targetRegistry.VALIDATOR_ROLE(), deployment.address)
-        );
+        // Roles held by or on the router, see ROLE_MANIFEST
+        console.log("MessageRouter roles:");
+        printRoleGrantResults(await applyRoleManifest(environment, { involving: ["MessageRouter"] }));
     }
 
     // Log deployment information
@@ -81,6 +63,7 @@ const func: DeployFunction = async function ({
     console.log("Network:", await hre.ethers.provider.getNetwork().then(n => `${n.name} (${n.chainId})`));
     console.log("MessageRouter:", deployment.address);
     console.log("\nDependencies:");
+    console.log("- Wormhole chain ID:", wormholeChainId);
     console.log("- Wormhole:", wormhole);
     console.log("- WormholeRelayer:", wormholeRelayer);
     console.log("- TargetRegistry:", targetRegistryAddr);
@@ -93,6 +76,7 @@ const func: DeployFunction = async function ({
 };
 
 func.dependencies = [
+    "mocks",
     "core",
 ];
 
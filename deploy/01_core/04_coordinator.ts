@@ -5,6 +5,7 @@ import { COMMON_DEPLOY_PARAMS, MARKET_NAME } from "../../src/env";
 import { isUnitMode } from "../../src/utils/deploy-utils";
 import { CONTRACT_VARIANTS } from "../../src/constants/deployment";
 import { DeploymentHelper } from "../../src/utils/deploy-helper";
+import { applyRoleManifest, printRoleGrantResults } from "../../src/utils/role-manifest";
 import { ConfigNames, getProtocolConfig, loadProtocolConfig } from "../../src/utils/config-helpers";
 
 const func: DeployFunction = async function ({
@@ -62,59 +63,10 @@ const func: DeployFunction = async function ({
         deployment.address
     )) as ProtocolCoordinator;
 
-    // Set up roles if this is a fresh deployment
+    // Set up roles if this is a fresh deployment, see ROLE_MANIFEST
     if (!isUnitMode()) {
-        const protocolCoordinator = await hre.ethers.getContractAt(
-            "ProtocolCoordinator",
-            deployment.address
-        );
-
-        // First fetch all required roles
-
-        // 1. Grant MessageProtocol's VALIDATOR_ROLE to the ProtocolCoordinator contract
-
-        await helper.waitForTx(
-            await contracts.messageProtocol.connect(adminSigner)
-                .grantRole(await contracts.messageProtocol.VALIDATOR_ROLE(), deployment.address)
-        );
-
-        // 2. Grant MessageRegistry's REGISTRAR_ROLE and PROCESSOR_ROLE roles to the ProtocolCoordinator contract
-        await helper.waitForTx(
-            await contracts.messageRegistry.connect(adminSigner)
-                .grantRole(await contracts.messageRegistry.REGISTRAR_ROLE(), deployment.address)
-        );
-
-        await helper.waitForTx(
-            await contracts.messageRegistry.connect(adminSigner)
-                .grantRole(await contracts.messageRegistry.PROCESSOR_ROLE(), deployment.address)
-        );
-
-        // 3. Grant MessageRouter's ROUTER_ROLE to the ProtocolCoordinator contract
-        await helper.waitForTx(
-            await contracts.messageRouter.connect(adminSigner)
-                .grantRole(await contracts.messageRouter.ROUTER_ROLE(), deployment.address)
-        );
-
-        // 4. Grant MessageProcessor's PROCESSOR_ROLE to the ProtocolCoordinator contract
-        await helper.waitForTx(
-            await contracts.messageProcessor.connect(adminSigner)
-                .grantRole(await contracts.messageProcessor.PROCESSOR_ROLE(), deployment.address)
-        );
-
-
-        // 2. Grant roles
-        // Fetch ProtocolCoordinator roles
-        // Grant roles to admin
-        await helper.waitForTx(
-            await protocolCoordinator.connect(adminSigner)
-                .grantRole(await protocolCoordinator.OPERATOR_ROLE(), admin)
-        );
-
-        await helper.waitForTx(
-            await protocolCoordinator.connect(adminSigner)
-                .grantRole(await protocolCoordinator.EMERGENCY_ROLE(), admin)
-        );
-
+        console.log("ProtocolCoordinator roles:");
+        printRoleGrantResults(await applyRoleManifest(environment, { involving: ["ProtocolCoordinator"] }));
         console.log("================================\n");
     }
 
@@ -1,7 +1,7 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
 import { MARKET_NAME, COMMON_DEPLOY_PARAMS } from "../../src/env";
-import { MESSAGE_TYPE_PACS008, PACS008_REQUIRED_FIELDS } from "../../src/types";
+import { PACS008_SCHEMA } from "../../src/types";
 import { LOCAL_CHAIN_ID } from "../../src/constants";
 import {
     SettlementController,
@@ -13,7 +13,9 @@ import {
 import { CONTRACT_VARIANTS } from "../../src/constants/deployment";
 import { DeploymentHelper } from "../../src/utils/deploy-helper";
 import { isUnitMode } from "../../src/utils/deploy-utils";
+import { applyRoleManifest, printRoleGrantResults } from "../../src/utils/role-manifest";
 import { ConfigNames, getProtocolConfig, loadProtocolConfig } from "../../src/utils/config-helpers";
+import { createMessageCodec } from "../../src/utils/message-schema";
 
 /**
  * Deploys and configures the PACS008Handler contract
@@ -47,12 +49,11 @@ const func: DeployFunction = async function ({
 
     if (!isUnitMode()) {
         const adminSigner = await hre.ethers.getSigner(admin);
+        const pacs008Codec = createMessageCodec(PACS008_SCHEMA);
 
-        // 1. Setup SettlementController
-        await helper.waitForTx(
-            await settlementController.connect(adminSigner).grantRole(
-                await settlementController.HANDLER_ROLE(), deployment.address)
-        );
+        // 1. Setup roles on and of the handler, see ROLE_MANIFEST
+        console.log("PACS008Handler roles:");
+        printRoleGrantResults(await applyRoleManifest(environment, { involving: ["PACS008Handler"] }));
 
         // 2. Setup MessageProtocol
         const messageProtocol = await helper.getContract<MessageProtocol>(
@@ -61,9 +62,9 @@ const func: DeployFunction = async function ({
 
         await helper.waitForTx(
             await messageProtocol.connect(adminSigner).registerMessageFormat(
-                MESSAGE_TYPE_PACS008,
-                PACS008_REQUIRED_FIELDS,
-                hre.ethers.toUtf8Bytes("PACS008_SCHEMA")
+                pacs008Codec.messageType,
+                pacs008Codec.requiredFields,
+                pacs008Codec.schemaBytes
             )
         );
 
@@ -73,23 +74,17 @@ const func: DeployFunction = async function ({
         );
         await helper.waitForTx(
             await messageProcessor.connect(adminSigner).registerMessageHandler(
-                MESSAGE_TYPE_PACS008,
+                pacs008Codec.messageType,
                 deployment.address
             )
         );
         await helper.waitForTx(
             await messageProcessor.connect(adminSigner).setRequiredAction(
-                MESSAGE_TYPE_PACS008,
+                pacs008Codec.messageType,
                 1
             )
         );
 
-        // Grant PROCESSOR_ROLE to MessageProcessor
-        await helper.waitForTx(
-            await pacs008Handler.connect(adminSigner).grantRole(
-                await pacs008Handler.PROCESSOR_ROLE(), await messageProcessor.getAddress())
-        );
-
         // 4. Setup TargetRegistry
         const targetRegistry = await helper.getContract<TargetRegistry>(
             "TargetRegistry"
@@ -1,45 +1,31 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
-import { getNamedAccounts } from "hardhat";
-import { LiquidityPool, PACS008Handler, SettlementController } from "../../typechain";
-import { getDeployedContract, isUnitMode } from "../../src/utils/deploy-utils";
-import { DeploymentHelper } from "../../src/utils/deploy-helper";
-import { getProtocolConfig } from "../../src/utils/config-helpers";
-
-
-const func: DeployFunction = async function ({
-    getNamedAccounts,
-    deployments,
-    ...hre
-}: HardhatRuntimeEnvironment) {
-    const { deploy, get } = deployments;
-    const { admin } = await getNamedAccounts();
-    const environment = { getNamedAccounts, deployments, ...hre };
-
-    // Initialize helper with protocol config
-    const helper = new DeploymentHelper(environment, getProtocolConfig());
-
-    if (!isUnitMode()) {
-
-        const pacs008Handler = (await getDeployedContract("PACS008Handler", environment) as PACS008Handler);
-        const liquidityPool = (await getDeployedContract("LiquidityPool", environment) as LiquidityPool);
-        const settlementController = (await getDeployedContract("SettlementController", environment) as SettlementController);
+import { isUnitMode } from "../../src/utils/deploy-utils";
+import { applyRoleManifest, printRoleGrantResults } from "../../src/utils/role-manifest";
+
+/**
+ * Applies the role manifest (src/constants/roles.ts)
+ * Roles already in place are skipped, so the step can be rerun safely.
+ * Entries of contracts not deployed on this network stay pending.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+    if (isUnitMode()) {
+        return;
+    }
 
-        // Grant LiquidityPool SETTLEMENT_ROLE to handler
-        await helper.waitForTx(
-            await liquidityPool
-                .grantRole(await liquidityPool.SETTLEMENT_ROLE(), await pacs008Handler.getAddress())
-        );
+    const results = await applyRoleManifest(hre);
 
-        // Grant LiquidityPool SETTLEMENT_ROLE to controller
-        await helper.waitForTx(
-            await liquidityPool
-                .grantRole(await liquidityPool.SETTLEMENT_ROLE(), await settlementController.getAddress())
-        );
-    }
+    console.log("\n=== Role Manifest ===");
+    printRoleGrantResults(results);
+    console.log(
+        `Granted: ${results.filter(r => r.status === "granted").length},`,
+        `held: ${results.filter(r => r.status === "held").length},`,
+        `pending: ${results.filter(r => r.status === "pending").length}`
+    );
+    console.log("=====================\n");
 };
 
-func.tags = ["protocol", "post-deploy"];
+func.tags = ["protocol", "post-deploy", "roles"];
 func.runAtTheEnd = true;
 
-export default func;
\ No newline at end of file
+export default func;
@@ -6,8 +6,7 @@ import { DeploymentHelper } from "../../src/utils/deploy-helper";
 import { CONTRACT_VARIANTS } from "../../src/constants/deployment";
 import { ConfigNames, getProtocolConfig, loadProtocolConfig } from "../../src/utils/config-helpers";
 import { isUnitMode } from "../../src/utils/deploy-utils";
-import { eNetwork } from "../../src/types";
-import { getWormholeAddresses } from "../../src/utils/wormhole-helper";
+import { resolveWormholeAddresses } from "../../src/utils/wormhole-helper";
 
 const func: DeployFunction = async function ({
     getNamedAccounts,
@@ -22,11 +21,7 @@ const func: DeployFunction = async function ({
     // Initialize helper with protocol config
     const helper = new DeploymentHelper(environment, config);
 
-    const network = (
-        process.env.FORK ? process.env.FORK : hre.network.name
-    ) as eNetwork;
-
-    var { wormholeRelayer } = getWormholeAddresses(network, config);
+    const { wormholeRelayer } = await resolveWormholeAddresses(environment, config);
 
 
     // Get the deployed contract
@@ -58,6 +53,7 @@ const func: DeployFunction = async function ({
 
 // Dependencies
 func.dependencies = [
+    "mocks",
     "SettlementController"
 ];
 
@@ -0,0 +1,36 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { buildAddressBookEntries, getAddressBookPath, writeAddressBook } from "../../src/utils/address-book";
+
+/**
+ * Writes the per-chain address book (address-books/<network>.json)
+ * Proxied contracts are listed once, with their proxy and implementation
+ */
+const func: DeployFunction = async function ({
+    deployments,
+    getNamedAccounts,
+    network,
+    ethers,
+}: HardhatRuntimeEnvironment) {
+    // The in-memory network disappears with the process
+    if (network.name === "hardhat" && !process.env.ADDRESS_BOOK_DIR) {
+        return;
+    }
+
+    const { admin } = await getNamedAccounts();
+    const { chainId } = await ethers.provider.getNetwork();
+
+    const book = writeAddressBook({
+        network: network.name,
+        chainId: Number(chainId),
+        deployer: admin,
+        contracts: buildAddressBookEntries(await deployments.all()),
+    });
+
+    console.log(`\nAddress book v${book.version}: ${getAddressBookPath(network.name)}\n`);
+};
+
+func.tags = ["protocol", "address-book"];
+func.runAtTheEnd = true;
+
+export default func;
@@ -5,6 +5,18 @@ import 'hardhat-deploy';
 import 'hardhat-deploy-ethers';
 import '@nomicfoundation/hardhat-chai-matchers'
 import "dotenv/config";
+import { getHardhatNetworks } from "./src/utils/config-helpers";
+
+// Task modules are loaded with this file, before typechain has generated the bindings on a
+// clean checkout: they import services depending on ../typechain inside their actions only.
+import "./tasks/roles";
+import "./tasks/indexer";
+import "./tasks/batch";
+import "./tasks/recovery";
+import "./tasks/pool";
+import "./tasks/governance";
+import "./tasks/circuit";
+import "./tasks/peers";
 
 const MNEMONIC = process.env.MNEMONIC || "";
 const SEPOLIA_RPC_URL = process.env.SEPOLIA_RPC_URL || "";
@@ -31,6 +43,8 @@ const config: HardhatUserConfig = {
         },
     },
     networks: {
+        // Polygon, Arbitrum, Optimism, Base and Avalanche, from the protocol configurations
+        ...getHardhatNetworks(MNEMONIC),
         hardhat: {
            /*  forking: {
                 url: SEPOLIA_RPC_URL, // Use Alchemy or Infura URL
@@ -0,0 +1,44 @@
+import { ethers } from "ethers";
+import { loadAddressBook } from '../src/utils/address-book';
+import { ProtocolApiServer } from '../src/services/protocol-api';
+
+// Runs with plain node (npm run api), without loading the Hardhat runtime
+async function main() {
+    // Configuration
+    const networkName = process.env.API_NETWORK;
+    const rpcUrl = process.env.API_RPC_URL;
+    const port = Number(process.env.API_PORT || '8080');
+    const host = process.env.API_HOST || '127.0.0.1';
+    const indexDatabase = process.env.INDEX_DB;
+
+    if (!networkName || !rpcUrl) {
+        throw new Error("API_NETWORK (address book name) and API_RPC_URL are required");
+    }
+
+    const book = loadAddressBook(networkName);
+    const provider = new ethers.JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true });
+    const { chainId } = await provider.getNetwork();
+    if (chainId !== BigInt(book.chainId)) {
+        throw new Error(`API_RPC_URL serves chain ${chainId}, the ${networkName} address book is for chain ${book.chainId}`);
+    }
+
+    const api = new ProtocolApiServer(provider, book, { indexDatabase });
+    const address = await api.listen(port, host);
+
+    console.log(`Protocol API for ${networkName} listening on http://${address.address}:${address.port}`);
+    if (indexDatabase) {
+        console.log(`Listings served from ${indexDatabase}`);
+    }
+
+    await new Promise<void>(resolve => process.once("SIGINT", resolve));
+    await api.close();
+    provider.destroy();
+}
+
+// Execute
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("Script failed:", error);
+        process.exit(1);
+    });
@@ -2,6 +2,7 @@ import { ethers } from "hardhat";
 import { generatePACS008Payload } from "../src/utils/payload-generator";
 import { MESSAGE_TYPE_PACS008 } from "../src/types";
 import { LOCAL_CHAIN_ID } from "../src/constants";
+import { decodeMessageResult } from "../src/utils/protocol-decoders";
 
 async function main() {
     const [sender, receiver] = await ethers.getSigners();
@@ -67,9 +68,13 @@ async function main() {
 
     // Check result
     const [success, result] = await protocolCoordinator.getMessageResult(messageId);
+    const messageResult = decodeMessageResult(success, result);
     console.log("\nMessage processing result:");
-    console.log("Success:", success);
-    console.log("Result:", result);
+    console.log("Success:", messageResult.success);
+    console.log("Settlement ID:", messageResult.settlementId ?? "-");
+    if (messageResult.revertReason) {
+        console.log("Revert reason:", messageResult.revertReason);
+    }
 
     // Check balances
     const receiverBalance = await erc20Token.balanceOf(receiver.address);
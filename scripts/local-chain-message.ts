@@ -1,7 +1,10 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
 import { generatePACS008Payload } from '../src/utils/payload-generator';
 import { MESSAGE_TYPE_PACS008 } from '../src/types/';
 import { LOCAL_CHAIN_ID } from '../src/constants';
+import { decodeMessageResult, toSettlementStatusName } from '../src/utils/protocol-decoders';
+import { getContractAddress, loadAddressBook } from '../src/utils/address-book';
+import { MessageTracker } from '../src/services/message-tracker';
 
 async function main() {
     // Get contract factories
@@ -12,18 +15,12 @@ async function main() {
     const SettlementController = await ethers.getContractFactory("SettlementController");
 
     // Get deployed contract addresses
-    const COORDINATOR_ADDRESS = "0x7DD8Eec212d57484b4CD28cd934335F5a462BcF7";
-    const HANDLER_ADDRESS = "0xd5D108eD8a84fa4e115Bd4Db9e7EaF361FDEB892";
-    const TOKEN_ADDRESS = "0xA038894a60f15eb8693E77ef35cA7dF0f2b24aB4";
-    const LIQUIDITY_POOL_ADDRESS = "0x7243400FBecD6Af3F43cde9160A5799137C2e22A";
-    const SETTLEMENT_CONTROLLER_ADDRESS = "0x71F3717D2d4e843490Ecac3Bc2B515231C3e9397";
-
-    // Validate addresses
-    if (!ethers.isAddress(COORDINATOR_ADDRESS)) throw new Error("Invalid coordinator address");
-    if (!ethers.isAddress(HANDLER_ADDRESS)) throw new Error("Invalid handler address");
-    if (!ethers.isAddress(TOKEN_ADDRESS)) throw new Error("Invalid token address");
-    if (!ethers.isAddress(LIQUIDITY_POOL_ADDRESS)) throw new Error("Invalid liquidity pool address");
-    if (!ethers.isAddress(SETTLEMENT_CONTROLLER_ADDRESS)) throw new Error("Invalid settlement controller address");
+    const addressBook = loadAddressBook(network.name);
+    const COORDINATOR_ADDRESS = getContractAddress(addressBook, "ProtocolCoordinator");
+    const HANDLER_ADDRESS = getContractAddress(addressBook, "PACS008Handler");
+    const TOKEN_ADDRESS = getContractAddress(addressBook, "ERC20Token");
+    const LIQUIDITY_POOL_ADDRESS = getContractAddress(addressBook, "LiquidityPool");
+    const SETTLEMENT_CONTROLLER_ADDRESS = getContractAddress(addressBook, "SettlementController");
 
     // Get contract instances
     const protocolCoordinator = await ProtocolCoordinator.attach(COORDINATOR_ADDRESS);
@@ -94,46 +91,6 @@ async function main() {
     console.log(`- Delivery Fee: ${ethers.formatEther(deliveryFee)} ETH`);
     console.log(`- Total Fee: ${ethers.formatEther(totalFee)} ETH`);
 
-    // Set up event listeners
-    const eventPromises: Promise<void>[] = [];
-    
-    const messageSubmissionPromise = new Promise<void>((resolve) => {
-        protocolCoordinator.on("MessageSubmissionInitiated", 
-            (messageId, sender, messageType, target, targetChain) => {
-            console.log("\nMessage Submission Event:");
-            console.log("- Message ID:", messageId);
-            console.log("- Sender:", sender);
-            console.log("- Message Type:", messageType);
-            console.log("- Target:", target);
-            console.log("- Target Chain:", targetChain);
-            resolve();
-        });
-    });
-    eventPromises.push(messageSubmissionPromise);
-
-    const settlementPromise = new Promise<void>((resolve) => {
-        settlementController.on("SettlementStatusUpdated", 
-            (settlementId, status) => {
-            console.log("\nSettlement Event:");
-            console.log("- Settlement ID:", settlementId);
-            console.log("- Status:", status);
-            resolve();
-        });
-    });
-    eventPromises.push(settlementPromise);
-
-    const transferPromise = new Promise<void>((resolve) => {
-        erc20Token.on("Transfer", 
-            (from, to, value) => {
-            console.log("\nTransfer Event:");
-            console.log("- From:", from);
-            console.log("- To:", to);
-            console.log("- Amount:", ethers.formatEther(value));
-            resolve();
-        });
-    });
-    eventPromises.push(transferPromise);
-
     // Send message
     try {
         console.log("\nSubmitting transaction...");
@@ -147,34 +104,42 @@ async function main() {
         const receipt = await tx.wait();
         console.log("Transaction confirmed in block:", receipt.blockNumber);
 
-        // Wait for events
-        await Promise.race([
-            Promise.all(eventPromises),
-            new Promise((_, reject) => setTimeout(() => reject(new Error("Event timeout")), 60000))
-        ]);
-
-        // Get message result
+        // Follow the message through every protocol contract
         const event = receipt.logs.find(
             log => log.topics[0] === protocolCoordinator.interface.getEvent('MessageSubmissionInitiated').topicHash
         );
 
         if (event) {
             const messageId = event.topics[1];
+            const tracker = MessageTracker.fromAddressBook(ethers.provider, addressBook);
+            const timeline = await tracker.watch(messageId, {
+                fromBlock: receipt.blockNumber,
+                timeout: 60000,
+                onEvent: ({ contract, event: eventName, args }) => {
+                    console.log(`\n${contract}.${eventName}:`);
+                    for (const [name, value] of Object.entries(args)) {
+                        console.log(`- ${name}:`, value);
+                    }
+                },
+            });
+            console.log("\nMessage Status:", timeline.status);
+
             const [success, result] = await protocolCoordinator.getMessageResult(messageId);
+            const messageResult = decodeMessageResult(success, result);
             
-            if (success) {
-                const settlementId = ethers.dataSlice(result, 32, 64);
+            if (messageResult.success && messageResult.settlementId) {
+                const settlementId = messageResult.settlementId;
                 
                 // Get settlement details
                 const settlement = await settlementController.getSettlement(settlementId);
                 
                 console.log("\nSettlement Details:");
                 console.log("- Settlement ID:", settlementId);
-                console.log("- Status:", settlement.status);
+                console.log("- Status:", toSettlementStatusName(settlement.status));
                 console.log("- Amount:", ethers.formatEther(settlement.amount));
                 console.log("- Recipient:", settlement.recipient);
             } else {
-                throw new Error("Message processing failed");
+                throw new Error(`Message processing failed${messageResult.revertReason ? `: ${messageResult.revertReason}` : ""}`);
             }
         }
 
@@ -202,11 +167,6 @@ async function main() {
             }
         }
         
-        // Remove event listeners
-        protocolCoordinator.removeAllListeners();
-        settlementController.removeAllListeners();
-        erc20Token.removeAllListeners();
-        
         throw error;
     }
 }
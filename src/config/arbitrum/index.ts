@@ -0,0 +1,43 @@
+import { CommonsConfig } from "../ethereum/common";
+import { TX_CONFIGS } from "./transaction";
+import { eArbitrumNetwork, ProtocolConfiguration } from "../../types";
+import { getEvmChainId, getWormholeChainIds } from "../../constants/chains";
+
+export const ArbitrumV1Market: ProtocolConfiguration = {
+    ...CommonsConfig,
+    MarketId: "GFS Arbitrum Configuration",
+    SymbolPrefix: "Arb",
+    ProviderId: 32,
+    WormHoleCoreContracts: {
+        [eArbitrumNetwork.arbitrum]: "0xa5f208e072434bC67592E4C49C1B991BA79BCA46",
+        [eArbitrumNetwork.arbitrumSepolia]: "0x6b9C8671cdDC8dEab9c719bB87cBd3e782bA6a35",
+    },
+    WormHoleRelayContracts: {
+        [eArbitrumNetwork.arbitrum]: "0x27428DD2d3DD32A4D7f7C497eAaa23130d894911",
+        [eArbitrumNetwork.arbitrumSepolia]: "0x7B1bD7a6b4E61c2a123AC6BC2cbfC614437D0470",
+    },
+    WormholeChainIds: getWormholeChainIds(eArbitrumNetwork.arbitrum, eArbitrumNetwork.arbitrumSepolia),
+    ReserveAssets: {
+        [eArbitrumNetwork.arbitrum]: {
+            USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+        },
+        [eArbitrumNetwork.arbitrumSepolia]: {
+            USDC: "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d",
+        },
+    },
+    Networks: {
+        [eArbitrumNetwork.arbitrum]: {
+            chainId: getEvmChainId(eArbitrumNetwork.arbitrum),
+            rpcUrlEnv: "ARBITRUM_RPC_URL",
+            production: true,
+        },
+        [eArbitrumNetwork.arbitrumSepolia]: {
+            chainId: getEvmChainId(eArbitrumNetwork.arbitrumSepolia),
+            rpcUrlEnv: "ARBITRUM_SEPOLIA_RPC_URL",
+            production: false,
+        },
+    },
+    TransactionConfig: TX_CONFIGS
+};
+
+export default ArbitrumV1Market;
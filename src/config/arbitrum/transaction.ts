@@ -0,0 +1,18 @@
+import { eArbitrumNetwork, TxConfigPerNetwork } from "../../types"
+
+/**
+ * Arbitrum transaction configurations
+ * The sequencer confirms within a second, one confirmation is enough.
+ */
+export const TX_CONFIGS: TxConfigPerNetwork = {
+    [eArbitrumNetwork.arbitrum]: {
+        confirmations: 1,
+        timeout: 120000,
+        pollInterval: 1000
+    },
+    [eArbitrumNetwork.arbitrumSepolia]: {
+        confirmations: 1,
+        timeout: 120000,
+        pollInterval: 1000
+    },
+}
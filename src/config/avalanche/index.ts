@@ -0,0 +1,44 @@
+import { CommonsConfig } from "../ethereum/common";
+import { TX_CONFIGS } from "./transaction";
+import { eAvalancheNetwork, ProtocolConfiguration } from "../../types";
+import { getEvmChainId, getWormholeChainIds } from "../../constants/chains";
+
+export const AvalancheV1Market: ProtocolConfiguration = {
+    ...CommonsConfig,
+    MarketId: "GFS Avalanche Configuration",
+    SymbolPrefix: "Avax",
+    ProviderId: 35,
+    WormHoleCoreContracts: {
+        [eAvalancheNetwork.avalanche]: "0x54a8e5f9c4CbA08F9943965859F6c34eAF03E26c",
+        [eAvalancheNetwork.fuji]: "0x7bbcE28e64B3F8b84d876Ab298393c38ad7aac4C",
+    },
+    WormHoleRelayContracts: {
+        [eAvalancheNetwork.avalanche]: "0x27428DD2d3DD32A4D7f7C497eAaa23130d894911",
+        [eAvalancheNetwork.fuji]: "0xA3cF45939bD6260bcFe3D66bc73d60f19e49a8BB",
+    },
+    WormholeChainIds: getWormholeChainIds(eAvalancheNetwork.avalanche, eAvalancheNetwork.fuji),
+    ReserveAssets: {
+        [eAvalancheNetwork.avalanche]: {
+            USDC: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E",
+            EURC: "0xC891EB4cbdEFf6e073e859e987815Ed1505c2ACD",
+        },
+        [eAvalancheNetwork.fuji]: {
+            USDC: "0x5425890298aed601595a70AB815c96711a31Bc65",
+        },
+    },
+    Networks: {
+        [eAvalancheNetwork.avalanche]: {
+            chainId: getEvmChainId(eAvalancheNetwork.avalanche),
+            rpcUrlEnv: "AVALANCHE_RPC_URL",
+            production: true,
+        },
+        [eAvalancheNetwork.fuji]: {
+            chainId: getEvmChainId(eAvalancheNetwork.fuji),
+            rpcUrlEnv: "FUJI_RPC_URL",
+            production: false,
+        },
+    },
+    TransactionConfig: TX_CONFIGS
+};
+
+export default AvalancheV1Market;
@@ -0,0 +1,18 @@
+import { eAvalancheNetwork, TxConfigPerNetwork } from "../../types"
+
+/**
+ * Avalanche C-Chain transaction configurations
+ * Snowman consensus finalizes blocks on acceptance, one confirmation is final.
+ */
+export const TX_CONFIGS: TxConfigPerNetwork = {
+    [eAvalancheNetwork.avalanche]: {
+        confirmations: 1,
+        timeout: 60000,
+        pollInterval: 1000
+    },
+    [eAvalancheNetwork.fuji]: {
+        confirmations: 1,
+        timeout: 60000,
+        pollInterval: 1000
+    },
+}
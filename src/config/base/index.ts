@@ -0,0 +1,44 @@
+import { CommonsConfig } from "../ethereum/common";
+import { TX_CONFIGS } from "./transaction";
+import { eBaseNetwork, ProtocolConfiguration } from "../../types";
+import { getEvmChainId, getWormholeChainIds } from "../../constants/chains";
+
+export const BaseV1Market: ProtocolConfiguration = {
+    ...CommonsConfig,
+    MarketId: "GFS Base Configuration",
+    SymbolPrefix: "Base",
+    ProviderId: 34,
+    WormHoleCoreContracts: {
+        [eBaseNetwork.base]: "0xbebdb6C8ddC678FfA9f8748f85C815C556Dd8ac6",
+        [eBaseNetwork.baseSepolia]: "0x79A1027a6A159502049F10906D333EC57E95F083",
+    },
+    WormHoleRelayContracts: {
+        [eBaseNetwork.base]: "0x706F82e9bb5b0813501714Ab5974216704980e31",
+        [eBaseNetwork.baseSepolia]: "0x93BAD53DDfB6132b0aC8E37f6029163E63372cEE",
+    },
+    WormholeChainIds: getWormholeChainIds(eBaseNetwork.base, eBaseNetwork.baseSepolia),
+    ReserveAssets: {
+        [eBaseNetwork.base]: {
+            USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+            EURC: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42",
+        },
+        [eBaseNetwork.baseSepolia]: {
+            USDC: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        },
+    },
+    Networks: {
+        [eBaseNetwork.base]: {
+            chainId: getEvmChainId(eBaseNetwork.base),
+            rpcUrlEnv: "BASE_RPC_URL",
+            production: true,
+        },
+        [eBaseNetwork.baseSepolia]: {
+            chainId: getEvmChainId(eBaseNetwork.baseSepolia),
+            rpcUrlEnv: "BASE_SEPOLIA_RPC_URL",
+            production: false,
+        },
+    },
+    TransactionConfig: TX_CONFIGS
+};
+
+export default BaseV1Market;
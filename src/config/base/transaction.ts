@@ -0,0 +1,18 @@
+import { eBaseNetwork, TxConfigPerNetwork } from "../../types"
+
+/**
+ * Base transaction configurations
+ * Blocks come every two seconds from the sequencer, one confirmation is enough.
+ */
+export const TX_CONFIGS: TxConfigPerNetwork = {
+    [eBaseNetwork.base]: {
+        confirmations: 1,
+        timeout: 120000,
+        pollInterval: 2000
+    },
+    [eBaseNetwork.baseSepolia]: {
+        confirmations: 1,
+        timeout: 120000,
+        pollInterval: 2000
+    },
+}
@@ -0,0 +1,43 @@
+import { CommonsConfig } from "../ethereum/common";
+import { TX_CONFIGS } from "./transaction";
+import { eOptimismNetwork, ProtocolConfiguration } from "../../types";
+import { getEvmChainId, getWormholeChainIds } from "../../constants/chains";
+
+export const OptimismV1Market: ProtocolConfiguration = {
+    ...CommonsConfig,
+    MarketId: "GFS Optimism Configuration",
+    SymbolPrefix: "Opt",
+    ProviderId: 33,
+    WormHoleCoreContracts: {
+        [eOptimismNetwork.main]: "0xEe91C335eab126dF5fDB3797EA9d6aD93aeC9722",
+        [eOptimismNetwork.sepolia]: "0x31377888146f3253211EFEf5c676D41ECe7D58Fe",
+    },
+    WormHoleRelayContracts: {
+        [eOptimismNetwork.main]: "0x27428DD2d3DD32A4D7f7C497eAaa23130d894911",
+        [eOptimismNetwork.sepolia]: "0x93BAD53DDfB6132b0aC8E37f6029163E63372cEE",
+    },
+    WormholeChainIds: getWormholeChainIds(eOptimismNetwork.main, eOptimismNetwork.sepolia),
+    ReserveAssets: {
+        [eOptimismNetwork.main]: {
+            USDC: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+        },
+        [eOptimismNetwork.sepolia]: {
+            USDC: "0x5fd84259d66Cd46123540766Be93DFE6D43130D7",
+        },
+    },
+    Networks: {
+        [eOptimismNetwork.main]: {
+            chainId: getEvmChainId(eOptimismNetwork.main),
+            rpcUrlEnv: "OPTIMISM_RPC_URL",
+            production: true,
+        },
+        [eOptimismNetwork.sepolia]: {
+            chainId: getEvmChainId(eOptimismNetwork.sepolia),
+            rpcUrlEnv: "OPTIMISM_SEPOLIA_RPC_URL",
+            production: false,
+        },
+    },
+    TransactionConfig: TX_CONFIGS
+};
+
+export default OptimismV1Market;
@@ -0,0 +1,18 @@
+import { eOptimismNetwork, TxConfigPerNetwork } from "../../types"
+
+/**
+ * Optimism transaction configurations
+ * Blocks come every two seconds from the sequencer, one confirmation is enough.
+ */
+export const TX_CONFIGS: TxConfigPerNetwork = {
+    [eOptimismNetwork.main]: {
+        confirmations: 1,
+        timeout: 120000,
+        pollInterval: 2000
+    },
+    [eOptimismNetwork.sepolia]: {
+        confirmations: 1,
+        timeout: 120000,
+        pollInterval: 2000
+    },
+}
@@ -0,0 +1,44 @@
+import { CommonsConfig } from "../ethereum/common";
+import { TX_CONFIGS } from "./transaction";
+import { ePolygonNetwork, ProtocolConfiguration } from "../../types";
+import { getEvmChainId, getWormholeChainIds } from "../../constants/chains";
+
+export const PolygonV1Market: ProtocolConfiguration = {
+    ...CommonsConfig,
+    MarketId: "GFS Polygon Configuration",
+    SymbolPrefix: "Pol",
+    ProviderId: 31,
+    WormHoleCoreContracts: {
+        [ePolygonNetwork.polygon]: "0x7A4B5a56256163F07b2C80A7cA55aBE66c4ec4d7",
+        [ePolygonNetwork.amoy]: "0x6b9C8671cdDC8dEab9c719bB87cBd3e782bA6a35",
+    },
+    WormHoleRelayContracts: {
+        [ePolygonNetwork.polygon]: "0x27428DD2d3DD32A4D7f7C497eAaa23130d894911",
+    },
+    WormholeChainIds: getWormholeChainIds(ePolygonNetwork.polygon, ePolygonNetwork.amoy),
+    ReserveAssets: {
+        [ePolygonNetwork.polygon]: {
+            USDC: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+        },
+        [ePolygonNetwork.amoy]: {
+            USDC: "0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582",
+        },
+    },
+    Networks: {
+        [ePolygonNetwork.polygon]: {
+            chainId: getEvmChainId(ePolygonNetwork.polygon),
+            rpcUrlEnv: "POLYGON_RPC_URL",
+            production: true,
+            gasMultiplier: 1.2,
+        },
+        [ePolygonNetwork.amoy]: {
+            chainId: getEvmChainId(ePolygonNetwork.amoy),
+            rpcUrlEnv: "AMOY_RPC_URL",
+            production: false,
+            gasMultiplier: 1.2,
+        },
+    },
+    TransactionConfig: TX_CONFIGS
+};
+
+export default PolygonV1Market;
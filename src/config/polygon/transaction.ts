@@ -0,0 +1,19 @@
+import { ePolygonNetwork, TxConfigPerNetwork } from "../../types"
+
+/**
+ * Polygon transaction configurations
+ * PoS checkpoints lag behind the tip and short reorgs are common, so mainnet
+ * waits for more confirmations than the other chains.
+ */
+export const TX_CONFIGS: TxConfigPerNetwork = {
+    [ePolygonNetwork.polygon]: {
+        confirmations: 32,
+        timeout: 300000,
+        pollInterval: 2000
+    },
+    [ePolygonNetwork.amoy]: {
+        confirmations: 5,
+        timeout: 180000,
+        pollInterval: 2000
+    },
+}
@@ -1,6 +1,7 @@
 import { CommonsConfig } from "./common";
 import { TX_CONFIGS } from "./transaction";
 import { eEthereumNetwork, ProtocolConfiguration } from "../../types";
+import { getWormholeChainIds } from "../../constants/chains";
 
 export const EthereumV1TestnetMarket: ProtocolConfiguration = {
     ...CommonsConfig,
@@ -15,6 +16,7 @@ export const EthereumV1TestnetMarket: ProtocolConfiguration = {
         [eEthereumNetwork.sepolia]: "0x7B1bD7a6b4E61c2a123AC6BC2cbfC614437D0470",
         [eEthereumNetwork.holesky]: "0x28D8F1Be96f97C1387e94A53e00eCcFb4E75175a",
     },
+    WormholeChainIds: getWormholeChainIds(eEthereumNetwork.main, eEthereumNetwork.sepolia, eEthereumNetwork.holesky),
     TransactionConfig: TX_CONFIGS
 };
 
@@ -24,7 +24,7 @@ export const TX_CONFIGS: TxConfigPerNetwork = {
         pollInterval: 5000 // Less frequent polling
     },
     [eEthereumNetwork.hardhat]: {
-        confirmations: 5,  // Higher security
+        confirmations: 1,  // Automine, later blocks only come with later transactions
         timeout: 300000,   // Longer timeout
         pollInterval: 5000 // Less frequent polling
     },
@@ -21,7 +21,9 @@ export const DEFAULT_NAMED_ACCOUNTS = {
     },
 };
 
+/** Wormhole chain ID routed locally, MessageRouter.LOCAL_CHAIN */
 export const LOCAL_CHAIN_ID = 1;
+/** EVM chain IDs, not valid as targetChain: see CHAIN_REGISTRY for the Wormhole chain IDs */
 export const HOLESKY_CHAIN_ID = 17000;
 export const SEPOLIA_CHAIN_ID = 11155111;
 
@@ -0,0 +1,68 @@
+import { LOCAL_CHAIN_ID } from "../constants";
+import {
+    eArbitrumNetwork,
+    eAvalancheNetwork,
+    eBaseNetwork,
+    eEthereumNetwork,
+    eNetwork,
+    eOptimismNetwork,
+    ePolygonNetwork,
+    iParamsPerNetwork,
+} from "../types/base";
+import { ChainInfo } from "../types/chain";
+
+/**
+ * Every supported network with its EVM and Wormhole chain IDs
+ * The protocol configurations read their WormholeChainIds and Networks chain IDs from here.
+ * Fuji shares Wormhole chain ID 6 with Avalanche: Wormhole chain IDs are only unique
+ * among mainnets or among testnets. Local networks route through
+ * MessageRouter.LOCAL_CHAIN (LOCAL_CHAIN_ID).
+ */
+export const CHAIN_REGISTRY: readonly ChainInfo[] = [
+    { network: eEthereumNetwork.main, evmChainId: 1, wormholeChainId: 2, testnet: false, local: false, deliveryGasLimit: 300_000 },
+    { network: eEthereumNetwork.sepolia, evmChainId: 11155111, wormholeChainId: 10002, testnet: true, local: false, deliveryGasLimit: 300_000 },
+    { network: eEthereumNetwork.holesky, evmChainId: 17000, wormholeChainId: 10006, testnet: true, local: false, deliveryGasLimit: 300_000 },
+    { network: ePolygonNetwork.polygon, evmChainId: 137, wormholeChainId: 5, testnet: false, local: false, deliveryGasLimit: 300_000 },
+    { network: ePolygonNetwork.amoy, evmChainId: 80002, wormholeChainId: 10007, testnet: true, local: false, deliveryGasLimit: 300_000 },
+    // Arbitrum gas includes the L1 calldata component
+    { network: eArbitrumNetwork.arbitrum, evmChainId: 42161, wormholeChainId: 23, testnet: false, local: false, deliveryGasLimit: 800_000 },
+    { network: eArbitrumNetwork.arbitrumSepolia, evmChainId: 421614, wormholeChainId: 10003, testnet: true, local: false, deliveryGasLimit: 800_000 },
+    { network: eOptimismNetwork.main, evmChainId: 10, wormholeChainId: 24, testnet: false, local: false, deliveryGasLimit: 300_000 },
+    { network: eOptimismNetwork.sepolia, evmChainId: 11155420, wormholeChainId: 10005, testnet: true, local: false, deliveryGasLimit: 300_000 },
+    { network: eBaseNetwork.base, evmChainId: 8453, wormholeChainId: 30, testnet: false, local: false, deliveryGasLimit: 300_000 },
+    { network: eBaseNetwork.baseSepolia, evmChainId: 84532, wormholeChainId: 10004, testnet: true, local: false, deliveryGasLimit: 300_000 },
+    { network: eAvalancheNetwork.avalanche, evmChainId: 43114, wormholeChainId: 6, testnet: false, local: false, deliveryGasLimit: 300_000 },
+    { network: eAvalancheNetwork.fuji, evmChainId: 43113, wormholeChainId: 6, testnet: true, local: false, deliveryGasLimit: 300_000 },
+    { network: eEthereumNetwork.hardhat, evmChainId: 31337, wormholeChainId: LOCAL_CHAIN_ID, testnet: true, local: true, deliveryGasLimit: 250_000 },
+    { network: eEthereumNetwork.ganache, evmChainId: 1337, wormholeChainId: LOCAL_CHAIN_ID, testnet: true, local: true, deliveryGasLimit: 250_000 },
+];
+
+/**
+ * Builds the WormholeChainIds entry of a protocol configuration
+ * @param networks Networks of the configuration
+ * @returns Wormhole chain ID of each network
+ * @throws Error if a network is not in CHAIN_REGISTRY
+ * @example
+ * WormholeChainIds: getWormholeChainIds(eBaseNetwork.base, eBaseNetwork.baseSepolia),
+ */
+export function getWormholeChainIds(...networks: eNetwork[]): iParamsPerNetwork<number> {
+    return Object.fromEntries(networks.map(network => [network, registeredChain(network).wormholeChainId]));
+}
+
+/**
+ * Reads the EVM chain ID of a network, for the Networks entry of a protocol configuration
+ * @param network Network name
+ * @returns EVM chain ID
+ * @throws Error if the network is not in CHAIN_REGISTRY
+ */
+export function getEvmChainId(network: eNetwork): number {
+    return registeredChain(network).evmChainId;
+}
+
+function registeredChain(network: eNetwork): ChainInfo {
+    const chain = CHAIN_REGISTRY.find(entry => entry.network === network);
+    if (!chain) {
+        throw new Error(`ChainRegistry: Unknown network ${network}`);
+    }
+    return chain;
+}
@@ -0,0 +1,101 @@
+import { CircuitBreakerPlan } from "../types/circuit-breaker";
+
+/**
+ * Pausable protocol contracts in pause order
+ * Ingress stops first so no new message enters a half-frozen pipeline, and
+ * liquidity stops last so settlements already under way can finish. Unpausing
+ * runs in the reverse order. MessageRouter routes local messages too, so only
+ * the settlement receiver is specific to cross-chain traffic. dependsOn lists the
+ * contracts each one calls, which must not stay paused when it resumes.
+ * Used by `circuit:pause`, `circuit:unpause` and `circuit:status`.
+ */
+export const CIRCUIT_BREAKER_PLAN: CircuitBreakerPlan = [
+    {
+        contract: "ProtocolCoordinator",
+        dependsOn: ["MessageProtocol", "MessageRegistry", "MessageRouter", "MessageProcessor"],
+        scopes: ["ingress"],
+        pauseRole: "EMERGENCY_ROLE",
+        unpauseRole: "ADMIN_ROLE",
+        description: "Message submissions and retries",
+    },
+    {
+        contract: "WormholeSettlementReceiver",
+        dependsOn: ["SettlementController"],
+        scopes: ["ingress", "cross-chain"],
+        pauseRole: "DEFAULT_ADMIN_ROLE",
+        unpauseRole: "DEFAULT_ADMIN_ROLE",
+        description: "Inbound Wormhole deliveries",
+    },
+    {
+        contract: "MessageRouter",
+        dependsOn: ["TargetRegistry", "MessageProcessor"],
+        scopes: ["routing"],
+        pauseRole: "DEFAULT_ADMIN_ROLE",
+        unpauseRole: "DEFAULT_ADMIN_ROLE",
+        description: "Local and cross-chain routing",
+    },
+    {
+        contract: "MessageRegistry",
+        dependsOn: [],
+        scopes: ["routing"],
+        pauseRole: "DEFAULT_ADMIN_ROLE",
+        unpauseRole: "DEFAULT_ADMIN_ROLE",
+        description: "Message registration and status updates",
+    },
+    {
+        contract: "MessageProtocol",
+        dependsOn: [],
+        scopes: ["routing"],
+        pauseRole: "PROTOCOL_ADMIN_ROLE",
+        unpauseRole: "PROTOCOL_ADMIN_ROLE",
+        description: "Message format changes",
+    },
+    {
+        contract: "TargetRegistry",
+        dependsOn: [],
+        scopes: ["routing"],
+        pauseRole: "DEFAULT_ADMIN_ROLE",
+        unpauseRole: "DEFAULT_ADMIN_ROLE",
+        description: "Target and emitter registration",
+    },
+    {
+        contract: "MessageProcessor",
+        dependsOn: ["PACS008Handler"],
+        scopes: ["routing"],
+        pauseRole: "DEFAULT_ADMIN_ROLE",
+        unpauseRole: "DEFAULT_ADMIN_ROLE",
+        description: "Message processing and handler dispatch",
+    },
+    {
+        contract: "PACS008Handler",
+        dependsOn: ["SettlementController"],
+        scopes: ["settlement"],
+        pauseRole: "DEFAULT_ADMIN_ROLE",
+        unpauseRole: "DEFAULT_ADMIN_ROLE",
+        description: "PACS.008 handling",
+    },
+    {
+        contract: "SettlementController",
+        dependsOn: ["LiquidityPool"],
+        scopes: ["settlement"],
+        pauseRole: "DEFAULT_ADMIN_ROLE",
+        unpauseRole: "DEFAULT_ADMIN_ROLE",
+        description: "Settlement processing",
+    },
+    {
+        contract: "LiquidityPool",
+        dependsOn: [],
+        scopes: ["settlement"],
+        pauseRole: "EMERGENCY_ROLE",
+        unpauseRole: "DEFAULT_ADMIN_ROLE",
+        description: "Deposits, withdrawals and liquidity locks",
+    },
+    {
+        contract: "ProtocolGovernance",
+        dependsOn: [],
+        scopes: ["governance"],
+        pauseRole: "EMERGENCY_ROLE",
+        unpauseRole: "EMERGENCY_ROLE",
+        description: "Proposals, votes and emergency actions",
+    },
+];
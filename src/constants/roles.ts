@@ -0,0 +1,120 @@
+import { RoleGrant, RoleManifest } from "../types/roles";
+
+/**
+ * Roles the deployer keeps on every contract it deploys.
+ * They are granted by the constructors and listed so that verification
+ * does not report them as extra grants.
+ */
+function adminRoles(contract: string, roles: string[]): RoleGrant[] {
+    return roles.map(role => ({ contract, role, grantee: { account: "admin" as const } }));
+}
+
+/**
+ * Role manifest of the protocol
+ * Lists which contract or account holds which role on which contract.
+ * Applied by deploy/03_after/01_permissions.ts and checked by `roles:verify`.
+ */
+export const ROLE_MANIFEST: RoleManifest = [
+    // Constructor grants
+    ...adminRoles("TargetRegistry", ["DEFAULT_ADMIN_ROLE", "REGISTRAR_ROLE", "VALIDATOR_ROLE"]),
+    ...adminRoles("MessageProcessor", ["DEFAULT_ADMIN_ROLE", "PROCESSOR_ROLE", "HANDLER_ADMIN_ROLE"]),
+    ...adminRoles("MessageRegistry", ["DEFAULT_ADMIN_ROLE", "REGISTRAR_ROLE", "PROCESSOR_ROLE"]),
+    ...adminRoles("MessageProtocol", [
+        "DEFAULT_ADMIN_ROLE",
+        "PROTOCOL_ADMIN_ROLE",
+        "FORMAT_ADMIN_ROLE",
+        "VALIDATOR_ROLE",
+    ]),
+    ...adminRoles("ProtocolGovernance", ["DEFAULT_ADMIN_ROLE", "GOVERNOR_ROLE", "EXECUTOR_ROLE", "EMERGENCY_ROLE"]),
+    ...adminRoles("LiquidityPool", [
+        "DEFAULT_ADMIN_ROLE",
+        "LIQUIDITY_PROVIDER_ROLE",
+        "SETTLEMENT_ROLE",
+        "EMERGENCY_ROLE",
+    ]),
+    ...adminRoles("SettlementController", ["DEFAULT_ADMIN_ROLE"]),
+    ...adminRoles("MessageRouter", ["DEFAULT_ADMIN_ROLE", "ROUTER_ROLE", "RELAYER_ROLE"]),
+    ...adminRoles("ProtocolCoordinator", ["DEFAULT_ADMIN_ROLE", "ADMIN_ROLE", "OPERATOR_ROLE", "EMERGENCY_ROLE"]),
+    ...adminRoles("PACS008Handler", ["DEFAULT_ADMIN_ROLE", "PROCESSOR_ROLE"]),
+    ...adminRoles("WormholeSettlementReceiver", ["DEFAULT_ADMIN_ROLE", "OPERATOR_ROLE"]),
+
+    // MessageRouter
+    {
+        contract: "MessageProcessor",
+        role: "PROCESSOR_ROLE",
+        grantee: { contract: "MessageRouter" },
+        description: "Router delivers local messages to the processor",
+    },
+    {
+        contract: "TargetRegistry",
+        role: "VALIDATOR_ROLE",
+        grantee: { contract: "MessageRouter" },
+        description: "Router validates targets before routing",
+    },
+
+    // ProtocolCoordinator
+    {
+        contract: "MessageProtocol",
+        role: "VALIDATOR_ROLE",
+        grantee: { contract: "ProtocolCoordinator" },
+        description: "Coordinator validates message formats on submission",
+    },
+    {
+        contract: "MessageRegistry",
+        role: "REGISTRAR_ROLE",
+        grantee: { contract: "ProtocolCoordinator" },
+        description: "Coordinator registers submitted messages",
+    },
+    {
+        contract: "MessageRegistry",
+        role: "PROCESSOR_ROLE",
+        grantee: { contract: "ProtocolCoordinator" },
+        description: "Coordinator updates message status",
+    },
+    {
+        contract: "MessageRouter",
+        role: "ROUTER_ROLE",
+        grantee: { contract: "ProtocolCoordinator" },
+        description: "Coordinator routes messages",
+    },
+    {
+        contract: "MessageProcessor",
+        role: "PROCESSOR_ROLE",
+        grantee: { contract: "ProtocolCoordinator" },
+        description: "Coordinator processes messages directly",
+    },
+
+    // Handlers
+    {
+        contract: "SettlementController",
+        role: "HANDLER_ROLE",
+        grantee: { contract: "PACS008Handler" },
+        description: "PACS.008 handler creates settlements",
+    },
+    {
+        contract: "PACS008Handler",
+        role: "PROCESSOR_ROLE",
+        grantee: { contract: "MessageProcessor" },
+        description: "Processor dispatches PACS.008 messages to the handler",
+    },
+    {
+        contract: "SettlementController",
+        role: "HANDLER_ROLE",
+        grantee: { contract: "WormholeSettlementReceiver" },
+        description: "Receiver settles cross-chain transfers",
+    },
+
+    // Liquidity
+    {
+        contract: "LiquidityPool",
+        role: "SETTLEMENT_ROLE",
+        grantee: { contract: "PACS008Handler" },
+        description: "Handler settles against pool liquidity",
+    },
+    {
+        contract: "LiquidityPool",
+        role: "SETTLEMENT_ROLE",
+        grantee: { contract: "SettlementController" },
+        description: "Controller moves pool liquidity on settlement",
+    },
+];
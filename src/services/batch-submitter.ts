@@ -0,0 +1,417 @@
+import * as fs from "fs";
+import * as path from "path";
+import { isError, Signer, Transaction, TransactionReceipt, TransactionResponse } from "ethers";
+import { ProtocolCoordinator } from "../../typechain";
+import { LOCAL_CHAIN_ID } from "../constants";
+import {
+    BatchInstruction,
+    BatchReport,
+    BatchReportEntry,
+    BatchSubmitterOptions,
+    BatchSummary,
+    DEFAULT_TX_CONFIG,
+    MESSAGE_TYPE_PACS008,
+    NetworkTxConfig,
+} from "../types";
+import { findChainByEvmChainId, validateTargetChain } from "../utils/chain-registry";
+import { encodeRoutedPACS008Payload } from "../utils/cross-chain-envelope";
+import { decodeProtocolEvents, extractMessageId } from "../utils/receipt-helpers";
+import { PACS008MessageServiceImpl } from "./pacs008-message.service";
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+
+/** Messages of transient RPC failures that ethers reports as UNKNOWN_ERROR */
+const TRANSIENT_ERROR_PATTERN = /ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up|rate limit|too many requests|429|502|503|504/i;
+
+/**
+ * Submits batches of PACS.008 instructions through the ProtocolCoordinator
+ *
+ * Each instruction is quoted and submitted with a nonce managed by the
+ * submitter: broadcasts are serialized so nonces stay gapless, while up to
+ * `concurrency` transactions wait for their receipts at the same time.
+ * Transient RPC errors are retried with exponential backoff; rejected or
+ * reverted instructions are recorded as FAILED without stopping the batch.
+ *
+ * Transactions are signed locally and recorded as SUBMITTED, with their nonce
+ * and hash, before the raw transaction is broadcast. The signer must therefore
+ * implement signTransaction, e.g. a Wallet.
+ *
+ * The report is rewritten after every change. Submitting the same batch with
+ * the same report file skips confirmed instructions and looks the others up by
+ * their recorded hash, so nothing is paid twice.
+ *
+ * @example
+ * const submitter = new BatchSubmitter(protocolCoordinator, signer, { reportFile: "batches/2024-06-01.json" });
+ * const report = await submitter.submit(converted.map(({ message }) => ({ message })));
+ * console.log(summarizeBatchReport(report));
+ */
+export class BatchSubmitter {
+    private readonly coordinator: ProtocolCoordinator;
+    private readonly signer: Signer;
+    private readonly service: PACS008MessageServiceImpl;
+    private readonly options: BatchSubmitterOptions;
+    private readonly concurrency: number;
+    private readonly maxRetries: number;
+    private readonly retryDelay: number;
+    private readonly confirmations: number;
+    private readonly timeout: number;
+    private report?: BatchReport;
+    private nextNonce?: number;
+    private broadcasting: Promise<void> = Promise.resolve();
+
+    /**
+     * Creates a new BatchSubmitter instance
+     * @param coordinator ProtocolCoordinator contract instance
+     * @param signer Account paying for and submitting the messages
+     * @param options Report, concurrency and retry options
+     * @param config Transaction configuration used when options are omitted
+     */
+    constructor(
+        coordinator: ProtocolCoordinator,
+        signer: Signer,
+        options: BatchSubmitterOptions = {},
+        config: NetworkTxConfig = DEFAULT_TX_CONFIG
+    ) {
+        this.coordinator = coordinator;
+        this.signer = signer;
+        this.service = new PACS008MessageServiceImpl(coordinator, config);
+        this.options = options;
+        this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+        this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+        this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+        this.confirmations = options.confirmations ?? config.confirmations;
+        this.timeout = options.timeout ?? config.timeout;
+    }
+
+    /**
+     * Submits every instruction not confirmed yet
+     * @param instructions Instructions in submission order
+     * @returns Report with one entry per instruction
+     * @throws Error if instruction IDs repeat or the report belongs to another batch
+     */
+    async submit(instructions: BatchInstruction[]): Promise<BatchReport> {
+        const report = await this.openReport(instructions);
+        const byId = new Map(instructions.map(instruction => [getInstructionId(instruction), instruction]));
+
+        for (const entry of report.entries.filter(entry => entry.status === "SUBMITTED")) {
+            await this.reconcile(entry);
+        }
+
+        const queue = report.entries.filter(entry =>
+            byId.has(entry.id) &&
+            (entry.status === "PENDING" || (entry.status === "FAILED" && this.options.retryFailed))
+        );
+        if (queue.length === 0) {
+            return report;
+        }
+
+        this.nextNonce = await this.withRetry(() => this.signer.getNonce("pending"));
+
+        const workers = Array.from({ length: Math.min(this.concurrency, queue.length) }, async () => {
+            for (let entry = queue.shift(); entry; entry = queue.shift()) {
+                await this.process(entry, byId.get(entry.id)!);
+            }
+        });
+        await Promise.all(workers);
+
+        return report;
+    }
+
+    /**
+     * Quotes, broadcasts and confirms one instruction
+     */
+    private async process(entry: BatchReportEntry, instruction: BatchInstruction): Promise<void> {
+        const targetChain = instruction.targetChain ?? LOCAL_CHAIN_ID;
+        let transaction: TransactionResponse;
+
+        try {
+            const fees = await this.withRetry(() => this.service.quoteFee(instruction.message, targetChain));
+            this.update(entry, { fee: fees.totalFee.toString(), error: undefined });
+
+            transaction = await this.broadcast(entry, {
+                messageType: MESSAGE_TYPE_PACS008,
+                target: instruction.message.handlerAddr,
+                targetChain,
+                payload: encodeRoutedPACS008Payload(instruction.message, targetChain),
+            }, fees.totalFee);
+        } catch (error) {
+            this.update(entry, { status: "FAILED", error: (error as Error).message });
+            return;
+        }
+
+        await this.confirm(entry, transaction);
+    }
+
+    /**
+     * Signs a submission with the next nonce, records it as SUBMITTED and broadcasts it
+     * Broadcasts run one at a time, so a rejected transaction never leaves a nonce gap.
+     * After a failed broadcast the transaction is looked up by its hash before anything
+     * is sent again, as the node may have accepted it.
+     */
+    private async broadcast(
+        entry: BatchReportEntry,
+        submission: Parameters<ProtocolCoordinator["submitMessage"]>[0],
+        value: bigint
+    ): Promise<TransactionResponse> {
+        const release = await this.lock();
+        const provider = this.signer.provider!;
+
+        try {
+            let signed: string | undefined;
+            for (let attempt = 0; ; attempt++) {
+                this.update(entry, { attempts: entry.attempts + 1 });
+                if (!signed) {
+                    signed = await this.withRetry(() => this.sign(submission, value, this.nextNonce!));
+                    const { nonce, hash } = Transaction.from(signed);
+                    this.update(entry, { status: "SUBMITTED", nonce, transactionHash: hash ?? undefined });
+                }
+
+                try {
+                    const transaction = await provider.broadcastTransaction(signed);
+                    this.nextNonce = transaction.nonce + 1;
+                    return transaction;
+                } catch (error) {
+                    const known = await this.withRetry(() => provider.getTransaction(entry.transactionHash!));
+                    if (known) {
+                        this.nextNonce = known.nonce + 1;
+                        return known;
+                    }
+                    if (attempt >= this.maxRetries) {
+                        this.update(entry, { status: "PENDING", nonce: undefined, transactionHash: undefined });
+                        throw error;
+                    }
+                    if (isError(error, "NONCE_EXPIRED")) {
+                        // Another transaction of the signer took the nonce, sign again with the next one
+                        this.update(entry, { status: "PENDING", nonce: undefined, transactionHash: undefined });
+                        this.nextNonce = await this.signer.getNonce("pending");
+                        signed = undefined;
+                    } else if (isTransientError(error)) {
+                        // The same signed transaction is sent again, it can only land once
+                        await delay(this.retryDelay * 2 ** attempt);
+                    } else {
+                        this.update(entry, { status: "PENDING", nonce: undefined, transactionHash: undefined });
+                        throw error;
+                    }
+                }
+            }
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Populates and signs a submission without sending it
+     */
+    private async sign(
+        submission: Parameters<ProtocolCoordinator["submitMessage"]>[0],
+        value: bigint,
+        nonce: number
+    ): Promise<string> {
+        const request = await this.coordinator
+            .connect(this.signer)
+            .submitMessage.populateTransaction(submission, { value, nonce });
+        return this.signer.signTransaction(await this.signer.populateTransaction(request));
+    }
+
+    /**
+     * Waits for the receipt of a broadcast entry
+     * Entries that time out stay SUBMITTED, the next run looks them up again.
+     */
+    private async confirm(entry: BatchReportEntry, transaction: TransactionResponse): Promise<void> {
+        try {
+            const receipt = await transaction.wait(this.confirmations, this.timeout);
+            if (receipt) {
+                this.finalize(entry, receipt);
+            }
+        } catch (error) {
+            if (isError(error, "CALL_EXCEPTION") && error.receipt) {
+                this.finalize(entry, error.receipt);
+            } else {
+                this.update(entry, { error: (error as Error).message });
+            }
+        }
+    }
+
+    /**
+     * Settles an entry recorded as SUBMITTED by a previous run
+     */
+    private async reconcile(entry: BatchReportEntry): Promise<void> {
+        const provider = this.signer.provider!;
+        const hash = entry.transactionHash!;
+
+        const transaction = await this.withRetry(() => provider.getTransaction(hash));
+        if (transaction) {
+            await this.confirm(entry, transaction);
+            return;
+        }
+
+        const nonce = await this.withRetry(() => this.signer.getNonce("latest"));
+        if (entry.nonce !== undefined && nonce > entry.nonce) {
+            this.update(entry, { status: "FAILED", error: `Transaction ${hash} dropped, nonce ${entry.nonce} used` });
+        } else {
+            // Signed but never broadcast, or dropped before its nonce was used: submit again
+            this.update(entry, { status: "PENDING", nonce: undefined, transactionHash: undefined });
+        }
+    }
+
+    private finalize(entry: BatchReportEntry, receipt: TransactionReceipt): void {
+        if (receipt.status !== 1) {
+            this.update(entry, { status: "FAILED", blockNumber: receipt.blockNumber, error: "Transaction reverted" });
+            return;
+        }
+
+        const settlement = decodeProtocolEvents(receipt)
+            .find(event => event.name === "SettlementStatusUpdated" || event.name === "SettlementProcessed");
+        this.update(entry, {
+            status: "CONFIRMED",
+            blockNumber: receipt.blockNumber,
+            messageId: extractMessageId(receipt),
+            settlementId: settlement?.args.settlementId,
+            error: undefined,
+        });
+    }
+
+    /**
+     * Loads the report of a previous run, or starts a new one
+     */
+    private async openReport(instructions: BatchInstruction[]): Promise<BatchReport> {
+        const [{ chainId }, signer] = await Promise.all([
+            this.withRetry(() => this.signer.provider!.getNetwork()),
+            this.signer.getAddress(),
+        ]);
+        const coordinator = await this.coordinator.getAddress();
+        const now = new Date().toISOString();
+
+        const file = this.options.reportFile;
+        const previous: BatchReport | undefined = file && fs.existsSync(file)
+            ? JSON.parse(fs.readFileSync(file, "utf8"))
+            : undefined;
+
+        if (previous && (
+            previous.coordinator !== coordinator || previous.chainId !== Number(chainId) || previous.signer !== signer
+        )) {
+            throw new Error(`BatchSubmitter: Report ${file} belongs to another coordinator, chain or signer`);
+        }
+
+        const existing = new Map(previous?.entries.map(entry => [entry.id, entry]));
+        const network = findChainByEvmChainId(chainId)?.network;
+        const entries: BatchReportEntry[] = [];
+        const seen = new Set<string>();
+
+        for (const instruction of instructions) {
+            const id = getInstructionId(instruction);
+            if (seen.has(id)) {
+                throw new Error(`BatchSubmitter: Duplicate instruction ${id}`);
+            }
+            seen.add(id);
+
+            const entry: BatchReportEntry = {
+                id,
+                instructionId: instruction.message.instructionId,
+                targetChain: validateTargetChain(instruction.targetChain ?? LOCAL_CHAIN_ID, network),
+                amount: instruction.message.amount.toString(),
+                status: "PENDING",
+                attempts: 0,
+            };
+            const resumed = existing.get(id);
+            if (resumed && (resumed.amount !== entry.amount || resumed.targetChain !== entry.targetChain)) {
+                throw new Error(`BatchSubmitter: Instruction ${id} differs from the one in ${file}`);
+            }
+            entries.push(resumed ?? entry);
+            existing.delete(id);
+        }
+
+        this.report = {
+            coordinator,
+            chainId: Number(chainId),
+            signer,
+            createdAt: previous?.createdAt ?? now,
+            updatedAt: now,
+            // Entries of the report missing from the instructions are kept as they were
+            entries: [...entries, ...existing.values()],
+        };
+        this.save();
+        return this.report;
+    }
+
+    private update(entry: BatchReportEntry, changes: Partial<BatchReportEntry>): void {
+        Object.assign(entry, changes);
+        this.save();
+        this.options.onProgress?.(entry);
+    }
+
+    /**
+     * Writes the report through a temporary file, so a crash never leaves it truncated
+     */
+    private save(): void {
+        const file = this.options.reportFile;
+        if (!file || !this.report) {
+            return;
+        }
+        this.report.updatedAt = new Date().toISOString();
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(`${file}.tmp`, JSON.stringify(this.report, null, 2));
+        fs.renameSync(`${file}.tmp`, file);
+    }
+
+    private lock(): Promise<() => void> {
+        let release!: () => void;
+        const previous = this.broadcasting;
+        this.broadcasting = new Promise(resolve => (release = resolve));
+        return previous.then(() => release);
+    }
+
+    private async withRetry<T>(call: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await call();
+            } catch (error) {
+                if (attempt >= this.maxRetries || !isTransientError(error)) {
+                    throw error;
+                }
+                await delay(this.retryDelay * 2 ** attempt);
+            }
+        }
+    }
+}
+
+/**
+ * Tells whether an RPC error is worth retrying
+ * @param error Error thrown by ethers
+ * @returns True for network, timeout and server errors
+ */
+export function isTransientError(error: unknown): boolean {
+    if (isError(error, "NETWORK_ERROR") || isError(error, "TIMEOUT") || isError(error, "SERVER_ERROR")) {
+        return true;
+    }
+    return TRANSIENT_ERROR_PATTERN.test((error as Error)?.message ?? "");
+}
+
+/**
+ * Counts the entries of a report by status
+ * @param report Batch report
+ * @returns Number of entries per status and the fees paid
+ * @example
+ * const { CONFIRMED, FAILED } = summarizeBatchReport(report);
+ */
+export function summarizeBatchReport(report: BatchReport): BatchSummary {
+    const summary: BatchSummary = { PENDING: 0, SUBMITTED: 0, CONFIRMED: 0, FAILED: 0, fees: 0n };
+    for (const entry of report.entries) {
+        summary[entry.status]++;
+        // Reverted submissions get their value back
+        if ((entry.status === "CONFIRMED" || entry.status === "SUBMITTED") && entry.fee) {
+            summary.fees += BigInt(entry.fee);
+        }
+    }
+    return summary;
+}
+
+function getInstructionId(instruction: BatchInstruction): string {
+    return instruction.id ?? instruction.message.instructionId;
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
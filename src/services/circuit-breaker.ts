@@ -0,0 +1,259 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Contract, ContractTransactionResponse, Signer } from "ethers";
+import { CIRCUIT_BREAKER_PLAN } from "../constants/circuit-breaker";
+import {
+    AddressBook,
+    CircuitBreakerEntry,
+    CircuitBreakerOptions,
+    CircuitBreakerPlan,
+    CircuitBreakerReport,
+    DEFAULT_TX_CONFIG,
+    NetworkTxConfig,
+    PausableContract,
+    PauseScope,
+} from "../types";
+import { waitForReceipt } from "../utils/receipt-helpers";
+import { ACCESS_CONTROL_ABI } from "../utils/role-audit";
+import { getRoleId } from "../utils/role-manifest";
+
+/** Pausable surface shared by the protocol contracts */
+const PAUSABLE_ABI = [
+    ...ACCESS_CONTROL_ABI,
+    "function paused() view returns (bool)",
+    "function pause()",
+    "function unpause()",
+];
+
+/**
+ * Pauses and unpauses the protocol contracts of an address book in a safe order
+ *
+ * Pausing follows the plan order, ingress first and liquidity last, and keeps
+ * going when a contract cannot be paused so that as much as possible is frozen.
+ * Unpausing runs in reverse order after preflight checks: the operator must hold
+ * every unpause role, and no contract downstream of the ones being unpaused may
+ * stay paused. It stops at the first contract that does not resume. Every
+ * operation reads paused() back and returns a report, also written to
+ * reportFile when given.
+ *
+ * @example
+ * const breaker = new CircuitBreaker(signer, loadAddressBook("sepolia"));
+ * await breaker.pause({ scope: "cross-chain", reportFile: "incidents/pause.json" });
+ * await breaker.unpause({ scope: "cross-chain" });
+ */
+export class CircuitBreaker {
+    private readonly signer: Signer;
+    private readonly book: AddressBook;
+    private readonly config: NetworkTxConfig;
+    private readonly plan: CircuitBreakerPlan;
+
+    /**
+     * Creates a new CircuitBreaker instance
+     * @param signer Operator holding the pause and unpause roles
+     * @param book Address book of the contracts
+     * @param config Confirmations and timeout of the transactions
+     * @param plan Pausable contracts in pause order
+     */
+    constructor(
+        signer: Signer,
+        book: AddressBook,
+        config: NetworkTxConfig = DEFAULT_TX_CONFIG,
+        plan: CircuitBreakerPlan = CIRCUIT_BREAKER_PLAN
+    ) {
+        this.signer = signer;
+        this.book = book;
+        this.config = config;
+        this.plan = plan;
+    }
+
+    /**
+     * Reads the paused() state of the contracts in scope
+     * @param options Scope and report file
+     * @returns Snapshot report
+     */
+    async status(options: CircuitBreakerOptions = {}): Promise<CircuitBreakerReport> {
+        const report = await this.createReport("status", options);
+        for (const entry of this.inScope(options.scope)) {
+            const contract = this.connect(entry);
+            const paused = contract ? await contract.paused() : undefined;
+            report.entries.push({
+                contract: entry.contract,
+                address: this.book.contracts[entry.contract]?.address,
+                pausedBefore: paused,
+                pausedAfter: paused,
+                outcome: contract ? "unchanged" : "missing",
+            });
+        }
+        return this.finish(report, options);
+    }
+
+    /**
+     * Pauses the contracts in scope, ingress first
+     * A contract that cannot be paused is reported as failed and the next one is still paused.
+     * @param options Scope and report file
+     * @returns Report with the verified state of every contract
+     */
+    async pause(options: CircuitBreakerOptions = {}): Promise<CircuitBreakerReport> {
+        const report = await this.createReport("pause", options);
+        const contracts = this.inScope(options.scope);
+        report.preflight = await this.checkRoles(contracts, "pauseRole");
+
+        for (const entry of contracts) {
+            report.entries.push(await this.apply(entry, true));
+        }
+        return this.finish(report, options);
+    }
+
+    /**
+     * Unpauses the contracts in scope, settlement first, after the preflight checks
+     * @param options Scope, report file and whether to ignore preflight problems
+     * @returns Report with the verified state of every contract
+     * @throws Error if the preflight checks fail without force, or a contract does not resume
+     */
+    async unpause(options: CircuitBreakerOptions = {}): Promise<CircuitBreakerReport> {
+        const report = await this.createReport("unpause", options);
+        const contracts = this.inScope(options.scope).reverse();
+        report.preflight = [
+            ...(await this.checkRoles(contracts, "unpauseRole")),
+            ...(await this.checkDownstream(contracts)),
+        ];
+
+        if (report.preflight.length > 0 && !options.force) {
+            report.entries = contracts.map(entry => ({ contract: entry.contract, outcome: "skipped" }));
+            await this.finish(report, options);
+            throw new Error(`CircuitBreaker: Unpause preflight failed: ${report.preflight.join("; ")}`);
+        }
+
+        let failed = false;
+        for (const entry of contracts) {
+            const result: CircuitBreakerEntry = failed
+                ? { contract: entry.contract, outcome: "skipped" }
+                : await this.apply(entry, false);
+            failed ||= result.outcome === "failed";
+            report.entries.push(result);
+        }
+
+        await this.finish(report, options);
+        if (failed) {
+            throw new Error(`CircuitBreaker: Unpause stopped, see ${options.reportFile ?? "the report"}`);
+        }
+        return report;
+    }
+
+    /**
+     * Sends pause() or unpause() and reads paused() back
+     */
+    private async apply(entry: PausableContract, pause: boolean): Promise<CircuitBreakerEntry> {
+        const contract = this.connect(entry);
+        const address = this.book.contracts[entry.contract]?.address;
+        if (!contract) {
+            return { contract: entry.contract, outcome: "missing" };
+        }
+
+        const pausedBefore: boolean = await contract.paused();
+        if (pausedBefore === pause) {
+            return { contract: entry.contract, address, pausedBefore, pausedAfter: pausedBefore, outcome: "unchanged" };
+        }
+
+        const result: CircuitBreakerEntry = { contract: entry.contract, address, pausedBefore, outcome: "failed" };
+        try {
+            const transaction: ContractTransactionResponse = await (pause ? contract.pause() : contract.unpause());
+            result.transactionHash = transaction.hash;
+            const receipt = await waitForReceipt(transaction, this.config.confirmations, this.config.timeout);
+            if (!receipt) {
+                result.error = "Timed out waiting for the receipt";
+            }
+        } catch (error) {
+            result.error = (error as Error).message;
+        }
+
+        result.pausedAfter = await contract.paused();
+        if (result.pausedAfter === pause) {
+            result.outcome = pause ? "paused" : "unpaused";
+            delete result.error;
+        } else {
+            result.error ??= `paused() is still ${result.pausedAfter}`;
+        }
+        return result;
+    }
+
+    /**
+     * Lists the contracts in scope whose role the operator lacks
+     */
+    private async checkRoles(contracts: PausableContract[], role: "pauseRole" | "unpauseRole"): Promise<string[]> {
+        const operator = await this.signer.getAddress();
+        const issues: string[] = [];
+        for (const entry of contracts) {
+            const contract = this.connect(entry);
+            if (contract && !(await contract.hasRole(getRoleId(entry[role]), operator))) {
+                issues.push(`${operator} lacks ${entry.contract}.${entry[role]}`);
+            }
+        }
+        return issues;
+    }
+
+    /**
+     * Lists the paused contracts downstream of the ones being unpaused that stay out of scope
+     * Downstream follows the dependsOn edges of the plan, transitively.
+     */
+    private async checkDownstream(contracts: PausableContract[]): Promise<string[]> {
+        const unpausing = new Set(contracts.map(entry => entry.contract));
+        const downstream = new Set<string>();
+        const pending = contracts.flatMap(entry => entry.dependsOn);
+        for (let name = pending.pop(); name !== undefined; name = pending.pop()) {
+            if (!downstream.has(name)) {
+                downstream.add(name);
+                pending.push(...(this.plan.find(entry => entry.contract === name)?.dependsOn ?? []));
+            }
+        }
+
+        const issues: string[] = [];
+        for (const entry of this.plan) {
+            if (!downstream.has(entry.contract) || unpausing.has(entry.contract)) {
+                continue;
+            }
+            const contract = this.connect(entry);
+            if (contract && (await contract.paused())) {
+                issues.push(`${entry.contract} stays paused: ${entry.description.toLowerCase()}`);
+            }
+        }
+        return issues;
+    }
+
+    private inScope(scope: PauseScope = "all"): PausableContract[] {
+        return this.plan.filter(entry => scope === "all" || entry.scopes.includes(scope));
+    }
+
+    private connect(entry: PausableContract): Contract | undefined {
+        const address = this.book.contracts[entry.contract]?.address;
+        return address ? new Contract(address, PAUSABLE_ABI, this.signer) : undefined;
+    }
+
+    private async createReport(
+        operation: CircuitBreakerReport["operation"],
+        options: CircuitBreakerOptions
+    ): Promise<CircuitBreakerReport> {
+        return {
+            network: this.book.network,
+            chainId: this.book.chainId,
+            operation,
+            scope: options.scope ?? "all",
+            operator: await this.signer.getAddress(),
+            startedAt: new Date().toISOString(),
+            finishedAt: "",
+            blockNumber: 0,
+            preflight: [],
+            entries: [],
+        };
+    }
+
+    private async finish(report: CircuitBreakerReport, options: CircuitBreakerOptions): Promise<CircuitBreakerReport> {
+        report.finishedAt = new Date().toISOString();
+        report.blockNumber = await this.signer.provider!.getBlockNumber();
+        if (options.reportFile) {
+            fs.mkdirSync(path.dirname(options.reportFile), { recursive: true });
+            fs.writeFileSync(options.reportFile, JSON.stringify(report, null, 2));
+        }
+        return report;
+    }
+}
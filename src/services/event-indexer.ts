@@ -0,0 +1,306 @@
+import { Interface, Log, Provider } from "ethers";
+import {
+    LiquidityPool__factory,
+    MessageRegistry__factory,
+    MessageRouter__factory,
+    ProtocolCoordinator__factory,
+    ProtocolGovernance__factory,
+    SettlementController__factory,
+} from "../../typechain";
+import {
+    AddressBook,
+    EventIndexerOptions,
+    IndexedEvent,
+    IndexerPassResult,
+    tEthereumAddress,
+} from "../types";
+import { getTxConfig } from "../utils/config-helpers";
+import { extractPACS008Payload } from "../utils/cross-chain-envelope";
+import { blockRanges, DEFAULT_MAX_BLOCK_RANGE } from "../utils/log-query";
+import { decodePACS008Payload } from "../utils/pacs008-codec";
+import { IndexerStore } from "./indexer-store";
+
+/** Contracts of the address book whose events are indexed */
+const INDEXED_CONTRACTS: Record<string, Interface> = {
+    ProtocolCoordinator: ProtocolCoordinator__factory.createInterface(),
+    MessageRegistry: MessageRegistry__factory.createInterface(),
+    MessageRouter: MessageRouter__factory.createInterface(),
+    SettlementController: SettlementController__factory.createInterface(),
+    LiquidityPool: LiquidityPool__factory.createInterface(),
+    ProtocolGovernance: ProtocolGovernance__factory.createInterface(),
+};
+
+/** Stored block hashes checked when looking for the fork point of a reorg */
+const REORG_SEARCH_DEPTH = 256;
+
+/**
+ * Indexes the events of the protocol contracts into a local SQLite store
+ *
+ * Blocks are only indexed once they have the confirmations of the network's
+ * TX_CONFIGS entry. Each pass also compares the hash of the last indexed block
+ * with the chain; after a deeper reorg the store is rolled back to the fork point
+ * and re-indexed from there. The cursor lives in the database, so a restarted
+ * indexer resumes where it stopped.
+ *
+ * Values the events do not carry are read at the head of the pass and only from
+ * immutable records (message payloads, settlement details), so a pruned node that
+ * keeps recent state is enough. Vote tallies are rebuilt from VotingPowerUpdated and
+ * VoteCast instead of being read from the proposals.
+ *
+ * @example
+ * const indexer = new EventIndexer(ethers.provider, loadAddressBook("sepolia"), { database: "indexer/sepolia.sqlite" });
+ * await indexer.sync();
+ * const settled = indexer.store.queryMessages({ status: "SETTLED", token });
+ */
+export class EventIndexer {
+    readonly store: IndexerStore;
+    private readonly provider: Provider;
+    private readonly book: AddressBook;
+    private readonly contracts = new Map<string, { name: string; iface: Interface }>();
+    private readonly confirmations: number;
+    private readonly pollInterval: number;
+    private readonly maxBlockRange: number;
+    private readonly fromBlock: number;
+    private timer?: NodeJS.Timeout;
+    private pass?: Promise<IndexerPassResult | undefined>;
+
+    /**
+     * Creates a new EventIndexer instance
+     * @param provider Provider of the address book's network
+     * @param book Address book of the contracts to index
+     * @param options Database, start block and polling options
+     */
+    constructor(provider: Provider, book: AddressBook, options: EventIndexerOptions) {
+        const txConfig = getTxConfig(book.network);
+
+        this.provider = provider;
+        this.book = book;
+        this.confirmations = options.confirmations ?? txConfig.confirmations;
+        this.pollInterval = options.pollInterval ?? txConfig.pollInterval;
+        this.maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+
+        for (const [name, iface] of Object.entries(INDEXED_CONTRACTS)) {
+            const entry = book.contracts[name];
+            if (entry) {
+                this.contracts.set(entry.address.toLowerCase(), { name, iface });
+            }
+        }
+        if (this.contracts.size === 0) {
+            throw new Error(`EventIndexer: No indexed contract in the ${book.network} address book`);
+        }
+
+        const deploymentBlocks = [...this.contracts.values()]
+            .map(({ name }) => book.contracts[name].blockNumber)
+            .filter((block): block is number => block !== undefined);
+        this.fromBlock = options.fromBlock ?? (deploymentBlocks.length ? Math.min(...deploymentBlocks) : 0);
+
+        this.store = new IndexerStore(options.database);
+        this.store.bind(book.network, book.chainId);
+    }
+
+    /**
+     * Indexes every confirmed block not indexed yet
+     * @returns Range indexed and the fork point of a reorg, if one was found
+     */
+    async sync(): Promise<IndexerPassResult> {
+        const { chainId } = await this.provider.getNetwork();
+        if (Number(chainId) !== this.book.chainId) {
+            throw new Error(`EventIndexer: Provider is on chain ${chainId}, address book on ${this.book.chainId}`);
+        }
+
+        const reorgedTo = await this.findForkPoint();
+        if (reorgedTo !== undefined) {
+            this.store.rollback(reorgedTo);
+        }
+
+        const fromBlock = this.store.lastBlock === undefined ? this.fromBlock : this.store.lastBlock + 1;
+        const toBlock = (await this.provider.getBlockNumber()) - this.confirmations;
+        let events = 0;
+
+        for (const [start, end] of blockRanges(fromBlock, toBlock, this.maxBlockRange)) {
+            events += await this.indexRange(start, end, toBlock);
+        }
+
+        return { fromBlock, toBlock: Math.max(toBlock, fromBlock - 1), events, reorgedTo };
+    }
+
+    /**
+     * Syncs every pollInterval ms until stop is called
+     * @param onPass Called after each pass
+     */
+    start(onPass?: (result: IndexerPassResult) => void): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => {
+            if (!this.pass) {
+                this.pass = this.sync()
+                    .then(result => {
+                        onPass?.(result);
+                        return result;
+                    })
+                    .catch(error => {
+                        console.error(`EventIndexer: ${(error as Error).message}`);
+                        return undefined;
+                    })
+                    .finally(() => (this.pass = undefined));
+            }
+        }, this.pollInterval);
+    }
+
+    /**
+     * Stops syncing and waits for the current pass to finish
+     */
+    async stop(): Promise<void> {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        await this.pass;
+    }
+
+    /**
+     * Stops syncing and closes the store
+     */
+    async close(): Promise<void> {
+        await this.stop();
+        this.store.close();
+    }
+
+    /**
+     * Looks for the last indexed block that is still on the chain
+     * @returns Block to roll back to, or undefined if the last indexed block is canonical
+     */
+    private async findForkPoint(): Promise<number | undefined> {
+        const lastBlock = this.store.lastBlock;
+        if (lastBlock === undefined || (await this.isCanonical(lastBlock, this.store.getBlockHash(lastBlock)))) {
+            return undefined;
+        }
+
+        for (const block of this.store.getRecentBlocks(REORG_SEARCH_DEPTH)) {
+            if (block.number < lastBlock && (await this.isCanonical(block.number, block.hash))) {
+                return block.number;
+            }
+        }
+        return this.fromBlock - 1;
+    }
+
+    private async isCanonical(blockNumber: number, hash: string | undefined): Promise<boolean> {
+        const block = await this.provider.getBlock(blockNumber);
+        return hash === undefined || block?.hash === hash;
+    }
+
+    /**
+     * Fetches, decodes and stores the events of a block range
+     * @param headBlock Head of the pass, where contract state is read
+     * @returns Number of events stored
+     */
+    private async indexRange(fromBlock: number, toBlock: number, headBlock: number): Promise<number> {
+        const logs = await this.provider.getLogs({
+            address: [...this.contracts.values()].map(({ name }) => this.book.contracts[name].address),
+            fromBlock,
+            toBlock,
+        });
+
+        const blocks = new Map<number, { hash: string; timestamp: number }>();
+        const events: IndexedEvent[] = [];
+
+        for (const log of logs) {
+            const event = await this.decode(log, blocks, headBlock);
+            if (event) {
+                events.push(event);
+            }
+        }
+        events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+        // The last block of the range is remembered even without events, for reorg detection
+        await this.getBlock(toBlock, blocks);
+
+        this.store.commit(
+            events,
+            [...blocks].map(([number, { hash }]) => ({ number, hash })),
+            toBlock
+        );
+        return events.length;
+    }
+
+    private async decode(
+        log: Log,
+        blocks: Map<number, { hash: string; timestamp: number }>,
+        headBlock: number
+    ): Promise<IndexedEvent | undefined> {
+        const contract = this.contracts.get(log.address.toLowerCase())!;
+        const parsed = contract.iface.parseLog({ topics: [...log.topics], data: log.data });
+        if (!parsed) {
+            return undefined;
+        }
+
+        const block = await this.getBlock(log.blockNumber, blocks);
+        return {
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            logIndex: log.index,
+            transactionHash: log.transactionHash,
+            timestamp: block.timestamp,
+            contract: contract.name,
+            address: log.address,
+            event: parsed.name,
+            args: parsed.args.toObject(),
+            state: await this.readState(contract.name, parsed.name, parsed.args.toObject(), headBlock),
+        };
+    }
+
+    private async getBlock(
+        blockNumber: number,
+        blocks: Map<number, { hash: string; timestamp: number }>
+    ): Promise<{ hash: string; timestamp: number }> {
+        if (!blocks.has(blockNumber)) {
+            const block = await this.provider.getBlock(blockNumber);
+            if (!block) {
+                throw new Error(`EventIndexer: Block ${blockNumber} not found`);
+            }
+            blocks.set(blockNumber, { hash: block.hash!, timestamp: block.timestamp });
+        }
+        return blocks.get(blockNumber)!;
+    }
+
+    /**
+     * Reads the contract state the projections need but the event does not carry
+     * Only immutable fields are read, at the head of the pass: the event's own block
+     * may be pruned on non-archive nodes.
+     */
+    private async readState(
+        contract: string,
+        event: string,
+        args: Record<string, unknown>,
+        blockTag: number
+    ): Promise<Record<string, unknown>> {
+        switch (`${contract}.${event}`) {
+            case "MessageRegistry.MessageRegistered": {
+                const registry = MessageRegistry__factory.connect(this.address(contract), this.provider);
+                const { payload } = await registry.getMessage(args.messageId as string, { blockTag });
+                const pacs008 = extractPACS008Payload(payload);
+                if (!pacs008) {
+                    return {};
+                }
+                const message = decodePACS008Payload(pacs008);
+                return { token: message.tokenAddr, amount: message.amount, recipient: message.creditorAddr };
+            }
+            case "SettlementController.SettlementProcessed":
+            case "SettlementController.SettlementStatusUpdated": {
+                const controller = SettlementController__factory.connect(this.address(contract), this.provider);
+                const settlement = await controller.getSettlement(args.settlementId as string, { blockTag });
+                return {
+                    messageId: settlement.messageId,
+                    token: settlement.token,
+                    amount: settlement.amount,
+                    recipient: settlement.recipient,
+                };
+            }
+            default:
+                return {};
+        }
+    }
+
+    private address(contract: string): tEthereumAddress {
+        return this.book.contracts[contract].address;
+    }
+}
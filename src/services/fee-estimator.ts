@@ -0,0 +1,295 @@
+import { ethers, Provider } from "ethers";
+import {
+    IWormhole__factory,
+    IWormholeRelayer__factory,
+    MessageRouter__factory,
+    ProtocolCoordinator__factory,
+} from "../../typechain";
+import {
+    AddressBook,
+    FeeBatchQuote,
+    FeeBreakdown,
+    FeeEstimateRequest,
+    FeeEstimatorOptions,
+    RouterFeeParameters,
+    tEthereumAddress,
+} from "../types";
+import { getContractAddress } from "../utils/address-book";
+import { queryFilterInChunks } from "../utils/log-query";
+
+/** Values of the MessageRouter constants and initial fee parameters */
+const ROUTER_DEFAULTS = {
+    GAS_LIMIT: 250_000n,
+    BASE_LOCAL_FEE: ethers.parseEther("0.001"),
+    PAYLOAD_FEE_MULTIPLIER: 100n,
+    BASE_CROSS_CHAIN_FEE: ethers.parseEther("0.002"),
+    CROSS_CHAIN_FEE_MULTIPLIER: 200n,
+};
+
+/**
+ * Reproduces ProtocolCoordinator.quoteMessageFee off-chain and itemizes it
+ *
+ * The MessageRouter keeps its fee parameters private, so they are rebuilt from the
+ * CrossChainFeesUpdated and ChainGasLimitUpdated events on top of the contract
+ * defaults. Only the Wormhole delivery price and message fee are read from the
+ * Wormhole contracts. Parameters are cached until refresh is called; each estimate
+ * is compared with the on-chain quote and a warning is raised when they diverge,
+ * which usually means the router was reconfigured or upgraded.
+ *
+ * @example
+ * const estimator = FeeEstimator.fromAddressBook(ethers.provider, loadAddressBook("sepolia"));
+ * const fee = await estimator.estimate({ targetChain: 10002, payload });
+ * console.log(formatFeeBreakdown(fee));
+ */
+export class FeeEstimator {
+    private readonly provider: Provider;
+    private readonly coordinator: tEthereumAddress;
+    private readonly fromBlock?: number;
+    private readonly tolerance: bigint;
+    private readonly compareOnChain: boolean;
+    private readonly onWarning: (warning: string) => void;
+    private parameters?: Promise<RouterFeeParameters>;
+
+    /**
+     * Creates a new FeeEstimator instance
+     * @param provider Provider of the coordinator's network
+     * @param coordinator ProtocolCoordinator address
+     * @param options Parameter lookup and divergence options
+     */
+    constructor(provider: Provider, coordinator: tEthereumAddress, options: FeeEstimatorOptions = {}) {
+        this.provider = provider;
+        this.coordinator = coordinator;
+        this.fromBlock = options.fromBlock;
+        this.tolerance = options.tolerance ?? 0n;
+        this.compareOnChain = options.compareOnChain ?? true;
+        this.onWarning = options.onWarning ?? (warning => console.warn(warning));
+    }
+
+    /**
+     * Creates an estimator for the coordinator of an address book
+     * @param provider Provider of the address book's network
+     * @param book Address book
+     * @param options Estimator options, fromBlock defaults to the router deployment block
+     * @throws Error if the ProtocolCoordinator is not in the book
+     */
+    static fromAddressBook(provider: Provider, book: AddressBook, options: FeeEstimatorOptions = {}): FeeEstimator {
+        return new FeeEstimator(provider, getContractAddress(book, "ProtocolCoordinator"), {
+            fromBlock: book.contracts.MessageRouter?.blockNumber,
+            ...options,
+        });
+    }
+
+    /**
+     * Returns the cached router fee parameters, loading them on first use
+     */
+    getParameters(): Promise<RouterFeeParameters> {
+        if (!this.parameters) {
+            this.parameters = this.loadParameters();
+            this.parameters.catch(() => (this.parameters = undefined));
+        }
+        return this.parameters;
+    }
+
+    /**
+     * Reloads the router fee parameters
+     */
+    refresh(): Promise<RouterFeeParameters> {
+        this.parameters = undefined;
+        return this.getParameters();
+    }
+
+    /**
+     * Itemizes the fee of one submission
+     * @param request Target chain and payload (or payload size)
+     * @returns Fee components, on-chain quote and divergence warnings
+     */
+    async estimate(request: FeeEstimateRequest): Promise<FeeBreakdown> {
+        const [quote] = (await this.estimateBatch([request])).quotes;
+        return quote;
+    }
+
+    /**
+     * Itemizes the fees of many submissions
+     * Delivery prices are fetched once per target chain, payload size and gas limit.
+     *
+     * @param requests Submissions to quote
+     * @returns Quotes in request order and their total
+     */
+    async estimateBatch(requests: FeeEstimateRequest[]): Promise<FeeBatchQuote> {
+        const parameters = await this.getParameters();
+        const relayer = IWormholeRelayer__factory.connect(parameters.wormholeRelayer, this.provider);
+        const wormhole = IWormhole__factory.connect(parameters.wormhole, this.provider);
+        const coordinator = ProtocolCoordinator__factory.connect(this.coordinator, this.provider);
+        const blockTag = await this.provider.getBlockNumber();
+
+        const deliveryPrices = new Map<string, Promise<bigint>>();
+        let messageFee: Promise<bigint> | undefined;
+
+        const quotes = await Promise.all(requests.map(async request => {
+            const payloadSize = getPayloadSize(request);
+            const breakdown = computeFeeBreakdown(parameters, request.targetChain, payloadSize);
+
+            if (!breakdown.local) {
+                const key = `${request.targetChain}:${payloadSize}:${breakdown.gasLimit}`;
+                if (!deliveryPrices.has(key)) {
+                    // The router passes the payload size as the relayer's receiverValue argument
+                    const quote = relayer.getFunction("quoteEVMDeliveryPrice(uint16,uint256,uint256)");
+                    deliveryPrices.set(key, quote(request.targetChain, payloadSize, breakdown.gasLimit!, { blockTag })
+                        .then(([price]) => price));
+                }
+                messageFee ??= wormhole.messageFee({ blockTag });
+
+                breakdown.wormholeDeliveryCost = await deliveryPrices.get(key)!;
+                breakdown.wormholeMessageFee = await messageFee;
+                breakdown.deliveryFee += breakdown.wormholeDeliveryCost + breakdown.wormholeMessageFee;
+                breakdown.totalFee = breakdown.protocolBaseFee + breakdown.deliveryFee;
+            }
+
+            if (this.compareOnChain) {
+                const [baseFee, deliveryFee] = await coordinator.quoteMessageFee({
+                    messageType: ethers.ZeroHash,
+                    target: ethers.ZeroAddress,
+                    targetChain: request.targetChain,
+                    payload: request.payload ?? new Uint8Array(payloadSize),
+                }, { blockTag });
+                breakdown.onChain = { baseFee, deliveryFee, totalFee: baseFee + deliveryFee };
+                breakdown.divergence = breakdown.totalFee - breakdown.onChain.totalFee;
+
+                const difference = breakdown.divergence < 0n ? -breakdown.divergence : breakdown.divergence;
+                if (difference > this.tolerance) {
+                    breakdown.warnings.push(
+                        `FeeEstimator: Estimate for chain ${request.targetChain} (${payloadSize} bytes) is ` +
+                        `${ethers.formatEther(breakdown.totalFee)} ETH, quoteMessageFee returns ` +
+                        `${ethers.formatEther(breakdown.onChain.totalFee)} ETH`
+                    );
+                }
+            }
+            return breakdown;
+        }));
+
+        const warnings = quotes.flatMap(quote => quote.warnings);
+        warnings.forEach(warning => this.onWarning(warning));
+
+        return {
+            quotes,
+            totalFee: quotes.reduce((total, quote) => total + quote.totalFee, 0n),
+            warnings,
+        };
+    }
+
+    private async loadParameters(): Promise<RouterFeeParameters> {
+        const blockNumber = await this.provider.getBlockNumber();
+        const coordinator = ProtocolCoordinator__factory.connect(this.coordinator, this.provider);
+        const routerAddress = await coordinator.messageRouter({ blockTag: blockNumber });
+        if (routerAddress === ethers.ZeroAddress) {
+            throw new Error("FeeEstimator: MessageRouter not initialized on the coordinator");
+        }
+
+        const router = MessageRouter__factory.connect(routerAddress, this.provider);
+        const [protocolBaseFee, localChain, wormhole, wormholeRelayer, feeUpdates, gasLimitUpdates] = await Promise.all([
+            coordinator.baseFee({ blockTag: blockNumber }),
+            router.LOCAL_CHAIN(),
+            router.wormhole(),
+            router.wormholeRelayer(),
+            queryFilterInChunks(router, router.filters.CrossChainFeesUpdated(), this.fromBlock ?? 0, blockNumber),
+            queryFilterInChunks(router, router.filters.ChainGasLimitUpdated(), this.fromBlock ?? 0, blockNumber),
+        ]);
+
+        // Events come in chain order, so the last update of each parameter wins
+        const latestFees = feeUpdates.at(-1)?.args;
+        const chainGasLimits: Record<number, bigint> = {};
+        for (const { args } of gasLimitUpdates) {
+            chainGasLimits[Number(args.chainId)] = args.gasLimit;
+        }
+
+        return {
+            router: routerAddress,
+            wormhole,
+            wormholeRelayer,
+            localChain: Number(localChain),
+            protocolBaseFee,
+            localBaseFee: ROUTER_DEFAULTS.BASE_LOCAL_FEE,
+            localPerByteFee: ROUTER_DEFAULTS.PAYLOAD_FEE_MULTIPLIER,
+            crossChainBaseFee: latestFees?.baseFee ?? ROUTER_DEFAULTS.BASE_CROSS_CHAIN_FEE,
+            crossChainPerByteFee: latestFees?.feeMultiplier ?? ROUTER_DEFAULTS.CROSS_CHAIN_FEE_MULTIPLIER,
+            defaultGasLimit: ROUTER_DEFAULTS.GAS_LIMIT,
+            chainGasLimits,
+            blockNumber,
+        };
+    }
+}
+
+/**
+ * Computes the fee components that do not depend on the Wormhole contracts
+ * Mirrors MessageRouter.quoteRoutingFee; the Wormhole delivery price and message
+ * fee of cross-chain messages are left at zero.
+ *
+ * @param parameters Router fee parameters
+ * @param targetChain Wormhole chain ID of the target
+ * @param payloadSize Payload size in bytes
+ * @returns Partial fee breakdown
+ * @example
+ * const { routingBaseFee, payloadFee } = computeFeeBreakdown(await estimator.getParameters(), 10002, 96);
+ */
+export function computeFeeBreakdown(
+    parameters: RouterFeeParameters,
+    targetChain: number,
+    payloadSize: number
+): FeeBreakdown {
+    const local = targetChain === parameters.localChain;
+    const size = BigInt(payloadSize);
+    const routingBaseFee = local ? parameters.localBaseFee : parameters.crossChainBaseFee;
+    const payloadFee = size * (local ? parameters.localPerByteFee : parameters.crossChainPerByteFee);
+    const configuredGasLimit = parameters.chainGasLimits[targetChain];
+
+    return {
+        targetChain,
+        payloadSize,
+        local,
+        protocolBaseFee: parameters.protocolBaseFee,
+        routingBaseFee,
+        payloadFee,
+        gasLimit: local ? undefined : configuredGasLimit || parameters.defaultGasLimit,
+        gasLimitConfigured: local ? undefined : configuredGasLimit > 0n,
+        wormholeDeliveryCost: 0n,
+        wormholeMessageFee: 0n,
+        deliveryFee: routingBaseFee + payloadFee,
+        totalFee: parameters.protocolBaseFee + routingBaseFee + payloadFee,
+        warnings: [],
+    };
+}
+
+/**
+ * Formats a fee breakdown as an indented list
+ * @param fee Fee breakdown
+ * @returns Multi-line description, amounts in ETH
+ * @example
+ * console.log(formatFeeBreakdown(await estimator.estimate({ targetChain: 1, payloadSize: 256 })));
+ */
+export function formatFeeBreakdown(fee: FeeBreakdown): string {
+    const eth = (value: bigint) => `${ethers.formatEther(value)} ETH`;
+    const lines = [
+        `Fee for chain ${fee.targetChain} (${fee.local ? "local" : "cross-chain"}, ${fee.payloadSize} bytes): ${eth(fee.totalFee)}`,
+        `- Protocol base fee: ${eth(fee.protocolBaseFee)}`,
+        `- Routing base fee: ${eth(fee.routingBaseFee)}`,
+        `- Payload fee: ${eth(fee.payloadFee)}`,
+    ];
+    if (!fee.local) {
+        lines.push(
+            `- Wormhole delivery (gas limit ${fee.gasLimit}${fee.gasLimitConfigured ? "" : ", default"}): ${eth(fee.wormholeDeliveryCost)}`,
+            `- Wormhole message fee: ${eth(fee.wormholeMessageFee)}`
+        );
+    }
+    if (fee.onChain) {
+        lines.push(`- quoteMessageFee: ${eth(fee.onChain.totalFee)} (divergence ${fee.divergence} wei)`);
+    }
+    return lines.join("\n");
+}
+
+function getPayloadSize(request: FeeEstimateRequest): number {
+    const size = request.payload !== undefined ? ethers.dataLength(request.payload) : request.payloadSize;
+    if (size === undefined || size <= 0) {
+        throw new Error("FeeEstimator: Empty payload");
+    }
+    return size;
+}
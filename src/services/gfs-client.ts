@@ -0,0 +1,303 @@
+import { ContractTransactionResponse, Provider, Signer, ethers } from "ethers";
+import {
+    MessageRegistry,
+    MessageRegistry__factory,
+    MessageRouter,
+    MessageRouter__factory,
+    ProtocolCoordinator,
+    ProtocolCoordinator__factory,
+    SettlementController,
+    SettlementController__factory,
+} from "../../typechain";
+import { LOCAL_CHAIN_ID } from "../constants";
+import {
+    DEFAULT_TX_CONFIG,
+    GFSAddressBook,
+    GFSMessageRequest,
+    GFSMessageState,
+    GFSRetryResult,
+    GFSSettlement,
+    GFSSubmitResult,
+    GFSTransactionOptions,
+    GFSTransactionResult,
+    MESSAGE_TYPE_PACS008,
+    MessageFeeQuote,
+    NetworkTxConfig,
+    PACS008Message,
+    TransactionStatus,
+} from "../types";
+import { loadAddressBook, toGFSAddressBook } from "../utils/address-book";
+import { validateTargetChain } from "../utils/chain-registry";
+import { encodeRoutedPACS008Payload } from "../utils/cross-chain-envelope";
+import { decodeMessageResult, decodeSettlement, toMessageStatusName } from "../utils/protocol-decoders";
+import { decodeProtocolEvents, extractMessageId, waitForReceipt } from "../utils/receipt-helpers";
+
+/**
+ * Typed client for a GFS deployment
+ * Wraps the ProtocolCoordinator flow (quote, submit, track, retry, cancel)
+ * and only depends on ethers, so it can be used outside Hardhat.
+ *
+ * Read-only methods work with a Provider; transactions need a Signer.
+ *
+ * @example
+ * const client = new GFSClient(wallet, { ProtocolCoordinator, SettlementController });
+ * const { messageId } = await client.submit(GFSClient.pacs008Request(message));
+ * const state = await client.track(messageId!);
+ * console.log(state.status, state.result.settlementId);
+ */
+export class GFSClient {
+    private readonly runner: Signer | Provider;
+    private readonly addressBook: GFSAddressBook;
+    private readonly config: NetworkTxConfig;
+    private readonly coordinator: ProtocolCoordinator;
+
+    /**
+     * Creates a new GFSClient instance
+     * @param runner Signer for transactions, or Provider for read-only use
+     * @param addressBook Deployment addresses
+     * @param config Optional transaction configuration used when options are omitted
+     */
+    constructor(
+        runner: Signer | Provider,
+        addressBook: GFSAddressBook,
+        config: NetworkTxConfig = DEFAULT_TX_CONFIG
+    ) {
+        if (!ethers.isAddress(addressBook.ProtocolCoordinator)) {
+            throw new Error("GFSClient: Address book has no valid ProtocolCoordinator address");
+        }
+
+        this.runner = runner;
+        this.addressBook = addressBook;
+        this.config = config;
+        this.coordinator = ProtocolCoordinator__factory.connect(addressBook.ProtocolCoordinator, runner);
+    }
+
+    /**
+     * Creates a client from a network's address book (address-books/<network>.json)
+     * @param runner Signer for transactions, or Provider for read-only use
+     * @param network Hardhat network name
+     * @param config Optional transaction configuration
+     */
+    static fromAddressBook(
+        runner: Signer | Provider,
+        network: string,
+        config: NetworkTxConfig = DEFAULT_TX_CONFIG
+    ): GFSClient {
+        return new GFSClient(runner, toGFSAddressBook(loadAddressBook(network)), config);
+    }
+
+    /**
+     * Builds a request for a PACS.008 credit transfer
+     * Cross-chain requests carry the settlement instruction WormholeSettlementReceiver decodes,
+     * with handlerAddr set to the receiver on the target chain.
+     *
+     * @param message Message to encode
+     * @param targetChain Wormhole chain ID of the handler
+     * @returns Request for quote / submit
+     */
+    static pacs008Request(message: PACS008Message, targetChain: number = LOCAL_CHAIN_ID): GFSMessageRequest {
+        return {
+            messageType: MESSAGE_TYPE_PACS008,
+            target: message.handlerAddr,
+            targetChain,
+            payload: encodeRoutedPACS008Payload(message, targetChain),
+        };
+    }
+
+    /**
+     * Quotes the fees for a message
+     * @param request Message to quote
+     * @returns Base, delivery and total fee
+     */
+    async quote(request: GFSMessageRequest): Promise<MessageFeeQuote> {
+        const [baseFee, deliveryFee] = await this.coordinator.quoteMessageFee(this.toSubmission(request));
+        return { baseFee, deliveryFee, totalFee: baseFee + deliveryFee };
+    }
+
+    /**
+     * Quotes and submits a message
+     * @param request Message to submit
+     * @param options Confirmation options
+     * @returns Submission result with messageId once confirmed
+     * @throws Error if the client has no Signer or the transaction cannot be broadcast
+     */
+    async submit(request: GFSMessageRequest, options: GFSTransactionOptions = {}): Promise<GFSSubmitResult> {
+        const signer = this.requireSigner("submit");
+        const fees = await this.quote(request);
+
+        const transaction = await this.coordinator
+            .connect(signer)
+            .submitMessage(this.toSubmission(request), { value: fees.totalFee });
+
+        const result = await this.confirm(transaction, options);
+        return {
+            ...result,
+            messageId: result.receipt ? extractMessageId(result.receipt) : undefined,
+            fees,
+        };
+    }
+
+    /**
+     * Returns the current state of a message
+     * @param messageId Message ID
+     * @returns Registry record, processing result and settlements
+     * @throws Error if the message does not exist
+     */
+    async track(messageId: string): Promise<GFSMessageState> {
+        const registry = await this.registry();
+        if (!(await registry.messageExists(messageId))) {
+            throw new Error(`GFSClient: Message ${messageId} not found`);
+        }
+
+        const [message, [success, result]] = await Promise.all([
+            registry.getMessage(messageId),
+            this.coordinator.getMessageResult(messageId),
+        ]);
+
+        return {
+            messageId,
+            messageType: message.messageType,
+            messageHash: message.messageHash,
+            sender: message.sender,
+            target: message.target,
+            targetChain: Number(message.targetChain),
+            timestamp: message.timestamp,
+            payload: message.payload,
+            status: toMessageStatusName(message.status),
+            result: decodeMessageResult(success, result),
+            settlements: await this.getSettlementsByMessage(messageId),
+        };
+    }
+
+    /**
+     * Re-routes a message, paying a new delivery fee
+     * Only the original sender can retry
+     *
+     * @param messageId Message ID
+     * @param options Confirmation options
+     * @returns Transaction result and the delivery fee paid
+     */
+    async retry(messageId: string, options: GFSTransactionOptions = {}): Promise<GFSRetryResult> {
+        const signer = this.requireSigner("retry");
+        const message = await (await this.registry()).getMessage(messageId);
+        const deliveryFee = await (await this.router()).quoteRoutingFee(
+            message.targetChain,
+            ethers.dataLength(message.payload)
+        );
+
+        const transaction = await this.coordinator
+            .connect(signer)
+            .retryMessage(messageId, { value: deliveryFee });
+
+        return { ...(await this.confirm(transaction, options)), deliveryFee };
+    }
+
+    /**
+     * Cancels a PENDING or FAILED message
+     * Only the original sender can cancel, unless `emergency` is set and the
+     * signer holds EMERGENCY_ROLE on the coordinator
+     *
+     * @param messageId Message ID
+     * @param options Confirmation options, plus `emergency` to use emergencyCancelMessage
+     * @returns Transaction result
+     */
+    async cancel(
+        messageId: string,
+        options: GFSTransactionOptions & { emergency?: boolean } = {}
+    ): Promise<GFSTransactionResult> {
+        const coordinator = this.coordinator.connect(this.requireSigner("cancel"));
+
+        const transaction = options.emergency
+            ? await coordinator.emergencyCancelMessage(messageId)
+            : await coordinator.cancelMessage(messageId);
+
+        return this.confirm(transaction, options);
+    }
+
+    /**
+     * Returns a settlement
+     * @param settlementId Settlement ID
+     * @returns Settlement, or undefined if it does not exist
+     * @throws Error if the address book has no SettlementController
+     */
+    async getSettlement(settlementId: string): Promise<GFSSettlement | undefined> {
+        return decodeSettlement(await this.settlementController().getSettlement(settlementId));
+    }
+
+    /**
+     * Returns the settlements created for a message
+     * @param messageId Message ID
+     * @returns Settlements, empty if there are none or no SettlementController is known
+     */
+    async getSettlementsByMessage(messageId: string): Promise<GFSSettlement[]> {
+        if (!this.addressBook.SettlementController) {
+            return [];
+        }
+
+        const settlementIds = await this.settlementController().getSettlementsByMessage(messageId);
+        const settlements = await Promise.all(settlementIds.map(id => this.getSettlement(id)));
+        return settlements.filter((settlement): settlement is GFSSettlement => settlement !== undefined);
+    }
+
+    private toSubmission(request: GFSMessageRequest) {
+        return {
+            messageType: request.messageType,
+            target: request.target,
+            targetChain: validateTargetChain(request.targetChain ?? LOCAL_CHAIN_ID),
+            payload: request.payload,
+        };
+    }
+
+    private async confirm(
+        transaction: ContractTransactionResponse,
+        options: GFSTransactionOptions
+    ): Promise<GFSTransactionResult> {
+        const confirmations = options.confirmations ?? this.config.confirmations;
+        const result: GFSTransactionResult = { transaction, status: TransactionStatus.PENDING, events: [] };
+
+        if (confirmations === 0) {
+            return result;
+        }
+
+        const receipt = await waitForReceipt(transaction, confirmations, options.timeout ?? this.config.timeout);
+        if (receipt === undefined) {
+            result.status = TransactionStatus.TIMEOUT;
+            return result;
+        }
+
+        result.receipt = receipt;
+        result.status = receipt.status === 1 ? TransactionStatus.CONFIRMED : TransactionStatus.FAILED;
+        if (options.decodeEvents) {
+            result.events = decodeProtocolEvents(receipt);
+        }
+        return result;
+    }
+
+    private requireSigner(action: string): Signer {
+        if (!("signMessage" in this.runner)) {
+            throw new Error(`GFSClient: A Signer is required to ${action}`);
+        }
+        return this.runner;
+    }
+
+    private async registry(): Promise<MessageRegistry> {
+        return MessageRegistry__factory.connect(
+            this.addressBook.MessageRegistry ?? await this.coordinator.messageRegistry(),
+            this.runner
+        );
+    }
+
+    private async router(): Promise<MessageRouter> {
+        return MessageRouter__factory.connect(
+            this.addressBook.MessageRouter ?? await this.coordinator.messageRouter(),
+            this.runner
+        );
+    }
+
+    private settlementController(): SettlementController {
+        if (!this.addressBook.SettlementController) {
+            throw new Error("GFSClient: Address book has no SettlementController");
+        }
+        return SettlementController__factory.connect(this.addressBook.SettlementController, this.runner);
+    }
+}
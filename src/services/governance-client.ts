@@ -0,0 +1,273 @@
+import { ContractTransactionResponse, ethers, Signer } from "ethers";
+import { ProtocolGovernance } from "../../typechain";
+import {
+    DEFAULT_TX_CONFIG,
+    GovernanceTxResult,
+    NetworkTxConfig,
+    ProposalDraft,
+    ProposalStatusReport,
+} from "../types";
+import { decodeProposalData, encodeProposal } from "../utils/governance-proposals";
+import { queryFilterInChunks } from "../utils/log-query";
+import { toProposalTypeName } from "../utils/protocol-decoders";
+import { waitForReceipt } from "../utils/receipt-helpers";
+
+/**
+ * Creates, votes on and executes ProtocolGovernance proposals
+ *
+ * Proposals are encoded from typed parameters with encodeProposal. Each action
+ * checks the roles, voting power and proposal state it depends on before sending
+ * a transaction, and getStatus explains with the contract's own isProposalExpired,
+ * hasReachedQuorum and hasPassedExecutionDelay why a proposal can or cannot
+ * execute yet.
+ *
+ * @example
+ * const client = new GovernanceClient(governance, signer);
+ * const { proposalId } = await client.propose({
+ *     proposalType: "REMOVE_TARGET",
+ *     params: { target, chainId: 10002 },
+ * });
+ * await client.vote(proposalId!, true);
+ * const status = await client.getStatus(proposalId!);
+ */
+export class GovernanceClient {
+    private readonly governance: ProtocolGovernance;
+    private readonly signer: Signer;
+    private readonly config: NetworkTxConfig;
+    private readonly fromBlock: number;
+
+    /**
+     * Creates a new GovernanceClient instance
+     * @param governance ProtocolGovernance contract instance
+     * @param signer Account proposing, voting or executing
+     * @param config Confirmations and timeout of the transactions
+     * @param fromBlock First block scanned for voting power updates and executed proposals
+     */
+    constructor(
+        governance: ProtocolGovernance,
+        signer: Signer,
+        config: NetworkTxConfig = DEFAULT_TX_CONFIG,
+        fromBlock: number = 0
+    ) {
+        this.governance = governance.connect(signer);
+        this.signer = signer;
+        this.config = config;
+        this.fromBlock = fromBlock;
+    }
+
+    /**
+     * Creates a proposal
+     * @param draft Proposal type and parameters
+     * @returns Transaction hash and proposal ID
+     */
+    async propose(draft: ProposalDraft): Promise<GovernanceTxResult> {
+        const { proposalType, data } = encodeProposal(draft);
+        await this.requireRole(await this.governance.GOVERNOR_ROLE(), "GOVERNOR_ROLE");
+        await this.requireNotPaused();
+
+        const { transactionHash, logs } = await this.send(() => this.governance.createProposal(proposalType, data));
+        const created = logs
+            .map(log => this.governance.interface.parseLog(log))
+            .find(event => event?.name === "ProposalCreated");
+
+        return { transactionHash, proposalId: created?.args.proposalId };
+    }
+
+    /**
+     * Votes on a proposal with the signer's voting power
+     * @param proposalId Proposal ID
+     * @param support Whether to vote for the proposal
+     * @returns Transaction hash
+     */
+    async vote(proposalId: bigint, support: boolean): Promise<GovernanceTxResult> {
+        const voter = await this.signer.getAddress();
+        const status = await this.getStatus(proposalId);
+        await this.requireNotPaused();
+
+        if ((await this.governance.getVotingPower(voter)) === 0n) {
+            throw new Error(`GovernanceClient: ${voter} has no voting power`);
+        }
+        if (await this.governance.hasVoted(proposalId, voter)) {
+            throw new Error(`GovernanceClient: ${voter} already voted on proposal ${proposalId}`);
+        }
+        if (status.executed) {
+            throw new Error(`GovernanceClient: Proposal ${proposalId} is already executed`);
+        }
+        if (status.votingEnded) {
+            throw new Error(`GovernanceClient: Voting on proposal ${proposalId} ended at ${formatTime(status.votingEndsAt)}`);
+        }
+
+        const { transactionHash } = await this.send(() => this.governance.vote(proposalId, support));
+        return { transactionHash };
+    }
+
+    /**
+     * Executes a proposal
+     * @param proposalId Proposal ID
+     * @returns Transaction hash
+     * @throws Error listing the reasons when the proposal cannot execute yet
+     */
+    async execute(proposalId: bigint): Promise<GovernanceTxResult> {
+        await this.requireRole(await this.governance.EXECUTOR_ROLE(), "EXECUTOR_ROLE");
+        const status = await this.getStatus(proposalId);
+        if (!status.canExecute) {
+            throw new Error(`GovernanceClient: Proposal ${proposalId} cannot execute: ${status.reasons.join("; ")}`);
+        }
+
+        const { transactionHash } = await this.send(() => this.governance.executeProposal(proposalId));
+        return { transactionHash };
+    }
+
+    /**
+     * Explains whether a proposal can execute
+     * The checks are evaluated at the latest block.
+     * @param proposalId Proposal ID
+     * @returns Status report with the blocking reasons
+     */
+    async getStatus(proposalId: bigint): Promise<ProposalStatusReport> {
+        const governance = this.governance;
+        const proposal = await governance.getProposal(proposalId);
+        if (proposal.id === 0n) {
+            throw new Error(`GovernanceClient: Proposal ${proposalId} does not exist`);
+        }
+
+        // hasReachedQuorum divides by totalVotingPower and panics while it is zero
+        const totalVotingPower = await this.getTotalVotingPower();
+        const [votingPeriod, executionDelay, quorum, votingEnded, quorumReached, executionDelayPassed, paused] =
+            await Promise.all([
+                governance.VOTING_PERIOD(),
+                governance.EXECUTION_DELAY(),
+                governance.QUORUM_PERCENTAGE(),
+                governance.isProposalExpired(proposalId),
+                totalVotingPower > 0n ? governance.hasReachedQuorum(proposalId) : false,
+                governance.hasPassedExecutionDelay(proposalId),
+                governance.paused(),
+            ]);
+
+        const proposalType = toProposalTypeName(proposal.proposalType);
+        let params: ProposalStatusReport["params"];
+        try {
+            params = decodeProposalData(proposalType, proposal.data);
+        } catch {
+            params = undefined;
+        }
+
+        const votes = proposal.votesFor + proposal.votesAgainst;
+        const turnout = totalVotingPower > 0n ? Number((votes * 100n) / totalVotingPower) : 0;
+        const createdAt = Number(proposal.timestamp);
+        const votingEndsAt = createdAt + Number(votingPeriod);
+        const executableAt = votingEndsAt + Number(executionDelay) + 1;
+        const duplicateOf = proposal.executed ? undefined : await this.findExecutedDuplicate(proposal.data);
+
+        const reasons: string[] = [];
+        if (proposal.executed) {
+            reasons.push("Already executed");
+        }
+        if (paused) {
+            reasons.push("Governance is paused");
+        }
+        if (!votingEnded) {
+            reasons.push(`Voting is open until ${formatTime(votingEndsAt)}`);
+        }
+        if (totalVotingPower === 0n) {
+            reasons.push("No voting power assigned");
+        } else if (!quorumReached) {
+            reasons.push(`Quorum not reached: ${turnout}% of the voting power voted, ${quorum}% needed`);
+        }
+        if (!executionDelayPassed) {
+            reasons.push(`Execution delay runs until ${formatTime(executableAt)}`);
+        }
+        if (duplicateOf !== undefined) {
+            reasons.push(`Proposal ${duplicateOf} with the same data was already executed`);
+        }
+        const canExecute = reasons.length === 0;
+        if (canExecute && proposal.votesAgainst >= proposal.votesFor) {
+            reasons.push("More voting power against than for, the contract only checks the quorum");
+        }
+
+        return {
+            proposalId,
+            proposalType,
+            proposer: proposal.proposer,
+            params,
+            data: proposal.data,
+            createdAt,
+            votingEndsAt,
+            executableAt,
+            executed: proposal.executed,
+            votesFor: proposal.votesFor,
+            votesAgainst: proposal.votesAgainst,
+            totalVotingPower,
+            turnout,
+            votingEnded,
+            quorumReached,
+            executionDelayPassed,
+            duplicateOf,
+            canExecute,
+            reasons,
+        };
+    }
+
+    /**
+     * Rebuilds the private totalVotingPower from the VotingPowerUpdated events
+     */
+    private async getTotalVotingPower(): Promise<bigint> {
+        const updates = await queryFilterInChunks(
+            this.governance,
+            this.governance.filters.VotingPowerUpdated(),
+            this.fromBlock
+        );
+        const power = new Map<string, bigint>();
+        for (const { args } of updates) {
+            power.set(args.account, args.newPower);
+        }
+        return [...power.values()].reduce((sum, value) => sum + value, 0n);
+    }
+
+    /**
+     * Looks for an executed proposal with the same data, executeProposal rejects duplicates
+     */
+    private async findExecutedDuplicate(data: string): Promise<bigint | undefined> {
+        const executions = await queryFilterInChunks(
+            this.governance,
+            this.governance.filters.ProposalExecuted(),
+            this.fromBlock
+        );
+        for (const { args } of executions) {
+            const executed = await this.governance.getProposal(args.proposalId);
+            if (ethers.keccak256(executed.data) === ethers.keccak256(data)) {
+                return args.proposalId;
+            }
+        }
+        return undefined;
+    }
+
+    private async requireRole(role: string, name: string): Promise<void> {
+        const account = await this.signer.getAddress();
+        if (!(await this.governance.hasRole(role, account))) {
+            throw new Error(`GovernanceClient: ${account} needs ${name} on ProtocolGovernance`);
+        }
+    }
+
+    private async requireNotPaused(): Promise<void> {
+        if (await this.governance.paused()) {
+            throw new Error("GovernanceClient: Governance is paused");
+        }
+    }
+
+    private async send(send: () => Promise<ContractTransactionResponse>) {
+        const transaction = await send();
+        const receipt = await waitForReceipt(transaction, this.config.confirmations, this.config.timeout);
+        if (!receipt) {
+            throw new Error(`GovernanceClient: Timed out waiting for ${transaction.hash}`);
+        }
+        if (receipt.status !== 1) {
+            throw new Error(`GovernanceClient: Transaction ${transaction.hash} reverted`);
+        }
+        return { transactionHash: transaction.hash, logs: receipt.logs };
+    }
+}
+
+function formatTime(seconds: number): string {
+    return new Date(seconds * 1000).toISOString();
+}
@@ -0,0 +1,805 @@
+import Database from "better-sqlite3";
+import { ethers } from "ethers";
+import {
+    IndexedEvent,
+    IndexedMessage,
+    IndexedPool,
+    IndexedProposal,
+    IndexedSettlement,
+    IndexerProgress,
+    IndexerQuery,
+    LiquidityMovement,
+    LiquidityMovementKind,
+    LiquidityMovementQuery,
+    MessageQuery,
+    MessageStatusName,
+    ProposalQuery,
+    ProposalTypeName,
+    SettlementQuery,
+    SettlementStatusName,
+} from "../types";
+import { toMessageStatusName, toProposalTypeName, toSettlementStatusName } from "../utils/protocol-decoders";
+
+/** Bump when the schema changes; older databases must be rebuilt */
+const SCHEMA_VERSION = 2;
+
+const DEFAULT_LIMIT = 100;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    address TEXT NOT NULL,
+    event TEXT NOT NULL,
+    args TEXT NOT NULL,
+    state TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS messages (
+    message_id TEXT PRIMARY KEY,
+    message_type TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    target TEXT NOT NULL,
+    target_chain INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    token TEXT,
+    amount TEXT,
+    recipient TEXT,
+    delivery_hash TEXT,
+    registered_block INTEGER NOT NULL,
+    registered_at INTEGER NOT NULL,
+    updated_block INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS messages_sender ON messages (sender, registered_at);
+CREATE INDEX IF NOT EXISTS messages_target ON messages (target, registered_at);
+CREATE INDEX IF NOT EXISTS messages_status ON messages (status, registered_at);
+CREATE INDEX IF NOT EXISTS messages_token ON messages (token, registered_at);
+CREATE TABLE IF NOT EXISTS settlements (
+    settlement_id TEXT PRIMARY KEY,
+    message_id TEXT NOT NULL,
+    token TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_block INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_block INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS settlements_message ON settlements (message_id);
+CREATE INDEX IF NOT EXISTS settlements_token ON settlements (token, created_at);
+CREATE TABLE IF NOT EXISTS liquidity_movements (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    token TEXT,
+    amount TEXT NOT NULL,
+    provider TEXT,
+    recipient TEXT,
+    settlement_id TEXT,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS liquidity_movements_token ON liquidity_movements (token, timestamp);
+CREATE TABLE IF NOT EXISTS pools (
+    token TEXT PRIMARY KEY,
+    min_liquidity TEXT NOT NULL,
+    max_liquidity TEXT NOT NULL,
+    created_block INTEGER NOT NULL,
+    updated_block INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS proposals (
+    proposal_id TEXT PRIMARY KEY,
+    proposal_type TEXT NOT NULL,
+    proposer TEXT NOT NULL,
+    votes_for TEXT NOT NULL,
+    votes_against TEXT NOT NULL,
+    voters INTEGER NOT NULL,
+    executed INTEGER NOT NULL,
+    created_block INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    executed_block INTEGER
+);
+CREATE TABLE IF NOT EXISTS voting_power (
+    account TEXT PRIMARY KEY,
+    power TEXT NOT NULL
+);
+`;
+
+/** Tables derived from the events table, rebuilt after a reorg */
+const PROJECTION_TABLES = ["messages", "settlements", "liquidity_movements", "pools", "proposals", "voting_power"];
+
+/** LiquidityPool events recorded as liquidity movements */
+const LIQUIDITY_MOVEMENTS: Record<string, LiquidityMovementKind> = {
+    LiquidityAdded: "added",
+    LiquidityRemoved: "removed",
+    LiquidityLocked: "locked",
+    LiquidityUnlocked: "unlocked",
+    LiquidityReleased: "released",
+    SettlementCompleted: "settled",
+    EmergencyWithdraw: "emergencyWithdraw",
+};
+
+/** Columns of an events row */
+interface EventRow {
+    block_number: number;
+    log_index: number;
+    block_hash: string;
+    transaction_hash: string;
+    timestamp: number;
+    contract: string;
+    address: string;
+    event: string;
+    args: string;
+    state: string;
+}
+
+/** Columns of a messages row */
+interface MessageRow {
+    message_id: string;
+    message_type: string;
+    sender: string;
+    target: string;
+    target_chain: number;
+    status: string;
+    token: string | null;
+    amount: string | null;
+    recipient: string | null;
+    delivery_hash: string | null;
+    registered_block: number;
+    registered_at: number;
+    updated_block: number;
+    updated_at: number;
+    transaction_hash: string;
+}
+
+/** Columns of a settlements row */
+interface SettlementRow {
+    settlement_id: string;
+    message_id: string;
+    token: string;
+    amount: string;
+    recipient: string;
+    status: string;
+    created_block: number;
+    created_at: number;
+    updated_block: number;
+    updated_at: number;
+}
+
+/** Columns of a liquidity_movements row */
+interface LiquidityMovementRow {
+    block_number: number;
+    log_index: number;
+    kind: string;
+    token: string | null;
+    amount: string;
+    provider: string | null;
+    recipient: string | null;
+    settlement_id: string | null;
+    transaction_hash: string;
+    timestamp: number;
+}
+
+/** Columns of a pools row */
+interface PoolRow {
+    token: string;
+    min_liquidity: string;
+    max_liquidity: string;
+    created_block: number;
+    updated_block: number;
+}
+
+/** Columns of a proposals row */
+interface ProposalRow {
+    proposal_id: string;
+    proposal_type: string;
+    proposer: string;
+    votes_for: string;
+    votes_against: string;
+    voters: number;
+    executed: number;
+    created_block: number;
+    created_at: number;
+    executed_block: number | null;
+}
+
+/**
+ * SQLite store of the event indexer
+ *
+ * Raw events are the source of truth; messages, settlements, liquidity movements,
+ * pools, proposals and voting power are projections updated in the same transaction,
+ * so a reorg only needs to delete events and replay the rest.
+ *
+ * @example
+ * const store = new IndexerStore("indexer/sepolia.sqlite");
+ * const pending = store.queryMessages({ sender, status: "PENDING", fromTime: since });
+ */
+export class IndexerStore {
+    private readonly db: Database.Database;
+
+    /**
+     * Opens (and creates if needed) an index
+     * @param file SQLite database file, ":memory:" for a throwaway index
+     * @throws Error if the database was written with another schema version
+     */
+    constructor(file: string) {
+        this.db = new Database(file);
+        this.db.pragma("journal_mode = WAL");
+        this.db.exec(SCHEMA);
+
+        const version = this.getMeta("schemaVersion");
+        if (version === undefined) {
+            this.setMeta("schemaVersion", String(SCHEMA_VERSION));
+        } else if (Number(version) !== SCHEMA_VERSION) {
+            throw new Error(`IndexerStore: Schema version ${version} of ${file} is not ${SCHEMA_VERSION}, rebuild the index`);
+        }
+    }
+
+    /**
+     * Binds the index to a chain, or checks it is the chain it was built from
+     * @param network Hardhat network name
+     * @param chainId EVM chain ID
+     * @throws Error if the index belongs to another chain
+     */
+    bind(network: string, chainId: number): void {
+        const stored = this.getMeta("chainId");
+        if (stored === undefined) {
+            this.setMeta("network", network);
+            this.setMeta("chainId", String(chainId));
+        } else if (Number(stored) !== chainId) {
+            throw new Error(`IndexerStore: Index was built from chain ${stored}, not ${chainId}`);
+        }
+    }
+
+    /** Last block fully indexed */
+    get lastBlock(): number | undefined {
+        const value = this.getMeta("lastBlock");
+        return value === undefined ? undefined : Number(value);
+    }
+
+    /**
+     * Reports how far the index got
+     */
+    getProgress(): IndexerProgress {
+        const { count } = this.db.prepare<[], { count: number }>("SELECT COUNT(*) AS count FROM events").get()!;
+        return {
+            network: this.getMeta("network") ?? "",
+            chainId: Number(this.getMeta("chainId") ?? 0),
+            lastBlock: this.lastBlock,
+            events: count,
+        };
+    }
+
+    /**
+     * Returns the stored hash of a block
+     * @param blockNumber Block number
+     */
+    getBlockHash(blockNumber: number): string | undefined {
+        const row = this.db.prepare<[number], { hash: string }>("SELECT hash FROM blocks WHERE number = ?").get(blockNumber);
+        return row?.hash;
+    }
+
+    /**
+     * Lists the stored blocks, newest first
+     * @param limit Maximum number of blocks
+     */
+    getRecentBlocks(limit: number): { number: number; hash: string }[] {
+        return this.db
+            .prepare<[number], { number: number; hash: string }>("SELECT number, hash FROM blocks ORDER BY number DESC LIMIT ?")
+            .all(limit);
+    }
+
+    /**
+     * Stores the events of a block range and advances the cursor
+     * @param events Events of the range, in chain order
+     * @param blocks Hashes of the blocks to remember for reorg detection
+     * @param lastBlock Last block of the range
+     */
+    commit(events: IndexedEvent[], blocks: { number: number; hash: string }[], lastBlock: number): void {
+        const insertEvent = this.db.prepare(
+            `INSERT INTO events (block_number, log_index, block_hash, transaction_hash, timestamp, contract, address, event, args, state)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        );
+        const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)");
+
+        this.db.transaction(() => {
+            for (const event of events) {
+                insertEvent.run(
+                    event.blockNumber,
+                    event.logIndex,
+                    event.blockHash,
+                    event.transactionHash,
+                    event.timestamp,
+                    event.contract,
+                    event.address,
+                    event.event,
+                    toJson(event.args),
+                    toJson(event.state)
+                );
+                this.project(event);
+            }
+            for (const block of blocks) {
+                insertBlock.run(block.number, block.hash);
+            }
+            this.setMeta("lastBlock", String(lastBlock));
+        })();
+    }
+
+    /**
+     * Drops everything after a block and rebuilds the projections
+     * @param blockNumber Last block to keep
+     */
+    rollback(blockNumber: number): void {
+        this.db.transaction(() => {
+            this.db.prepare("DELETE FROM events WHERE block_number > ?").run(blockNumber);
+            this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+            for (const table of PROJECTION_TABLES) {
+                this.db.exec(`DELETE FROM ${table}`);
+            }
+            for (const event of this.queryEvents()) {
+                this.project(event);
+            }
+            this.setMeta("lastBlock", String(blockNumber));
+        })();
+    }
+
+    /**
+     * Lists raw events in chain order
+     * @param filter Optional contract and event name
+     */
+    queryEvents(filter: { contract?: string; event?: string } = {}): IndexedEvent[] {
+        const where = new Where().equals("contract", filter.contract).equals("event", filter.event);
+        const rows = this.db
+            .prepare<unknown[], EventRow>(`SELECT * FROM events ${where.sql} ORDER BY block_number, log_index`)
+            .all(...where.params);
+
+        return rows.map(row => ({
+            blockNumber: row.block_number,
+            blockHash: row.block_hash,
+            logIndex: row.log_index,
+            transactionHash: row.transaction_hash,
+            timestamp: row.timestamp,
+            contract: row.contract,
+            address: row.address,
+            event: row.event,
+            args: JSON.parse(row.args),
+            state: JSON.parse(row.state),
+        }));
+    }
+
+    /**
+     * Returns a message by ID
+     * @param messageId Message ID
+     */
+    getMessage(messageId: string): IndexedMessage | undefined {
+        const row = this.db.prepare<[string], MessageRow>("SELECT * FROM messages WHERE message_id = ?").get(messageId);
+        return row && toMessage(row);
+    }
+
+    /**
+     * Lists messages, newest first
+     * @param query Filters, time window and paging
+     */
+    queryMessages(query: MessageQuery = {}): IndexedMessage[] {
+        const where = new Where()
+            .equals("sender", normalizeAddress(query.sender))
+            .equals("target", normalizeAddress(query.target))
+            .equals("status", query.status)
+            .equals("message_type", query.messageType)
+            .equals("token", normalizeAddress(query.token))
+            .equals("target_chain", query.targetChain)
+            .between("registered_at", query);
+
+        return this.select<MessageRow>("messages", where, "registered_block DESC, message_id", query).map(toMessage);
+    }
+
+    /**
+     * Returns a settlement by ID
+     * @param settlementId Settlement ID
+     */
+    getSettlement(settlementId: string): IndexedSettlement | undefined {
+        const row = this.db
+            .prepare<[string], SettlementRow>("SELECT * FROM settlements WHERE settlement_id = ?")
+            .get(settlementId);
+        return row && toSettlement(row);
+    }
+
+    /**
+     * Lists settlements, newest first
+     * @param query Filters, time window and paging
+     */
+    querySettlements(query: SettlementQuery = {}): IndexedSettlement[] {
+        const where = new Where()
+            .equals("message_id", query.messageId)
+            .equals("token", normalizeAddress(query.token))
+            .equals("recipient", normalizeAddress(query.recipient))
+            .equals("status", query.status)
+            .between("created_at", query);
+
+        return this.select<SettlementRow>("settlements", where, "created_block DESC, settlement_id", query).map(toSettlement);
+    }
+
+    /**
+     * Lists liquidity movements, newest first
+     * @param query Filters, time window and paging
+     */
+    queryLiquidityMovements(query: LiquidityMovementQuery = {}): LiquidityMovement[] {
+        const where = new Where()
+            .equals("token", normalizeAddress(query.token))
+            .equals("kind", query.kind)
+            .equals("provider", normalizeAddress(query.provider))
+            .equals("settlement_id", query.settlementId)
+            .between("timestamp", query);
+
+        const rows = this.select<LiquidityMovementRow>("liquidity_movements", where, "block_number DESC, log_index DESC", query);
+        return rows.map(row => ({
+            kind: row.kind as LiquidityMovementKind,
+            token: row.token ?? undefined,
+            amount: BigInt(row.amount),
+            provider: row.provider ?? undefined,
+            recipient: row.recipient ?? undefined,
+            settlementId: row.settlement_id ?? undefined,
+            blockNumber: row.block_number,
+            logIndex: row.log_index,
+            transactionHash: row.transaction_hash,
+            timestamp: row.timestamp,
+        }));
+    }
+
+    /**
+     * Returns the parameters of a pool
+     * @param token Pool token
+     */
+    getPool(token: string): IndexedPool | undefined {
+        const row = this.db.prepare<[string], PoolRow>("SELECT * FROM pools WHERE token = ?").get(normalizeAddress(token)!);
+        return (
+            row && {
+                token: row.token,
+                minLiquidity: BigInt(row.min_liquidity),
+                maxLiquidity: BigInt(row.max_liquidity),
+                createdBlock: row.created_block,
+                updatedBlock: row.updated_block,
+            }
+        );
+    }
+
+    /**
+     * Returns a governance proposal by ID
+     * @param proposalId Proposal ID
+     */
+    getProposal(proposalId: bigint | number): IndexedProposal | undefined {
+        const row = this.db
+            .prepare<[string], ProposalRow>("SELECT * FROM proposals WHERE proposal_id = ?")
+            .get(String(proposalId));
+        return row && toProposal(row);
+    }
+
+    /**
+     * Lists governance proposals, newest first
+     * @param query Filters, time window and paging
+     */
+    queryProposals(query: ProposalQuery = {}): IndexedProposal[] {
+        const where = new Where()
+            .equals("proposer", normalizeAddress(query.proposer))
+            .equals("proposal_type", query.proposalType)
+            .equals("executed", query.executed === undefined ? undefined : Number(query.executed))
+            .between("created_at", query);
+
+        return this.select<ProposalRow>("proposals", where, "created_block DESC, CAST(proposal_id AS INTEGER) DESC", query).map(
+            toProposal
+        );
+    }
+
+    /**
+     * Closes the database
+     */
+    close(): void {
+        this.db.close();
+    }
+
+    private select<T>(table: string, where: Where, orderBy: string, query: IndexerQuery): T[] {
+        return this.db
+            .prepare<unknown[], T>(`SELECT * FROM ${table} ${where.sql} ORDER BY ${orderBy} LIMIT ? OFFSET ?`)
+            .all(...where.params, query.limit ?? DEFAULT_LIMIT, query.offset ?? 0);
+    }
+
+    /**
+     * Applies an event to the projections
+     */
+    private project(event: IndexedEvent): void {
+        const { args, state, blockNumber, timestamp } = event;
+
+        switch (event.event) {
+            case "MessageRegistered":
+                this.db
+                    .prepare(
+                        `INSERT OR REPLACE INTO messages (message_id, message_type, sender, target, target_chain, status,
+                             token, amount, recipient, registered_block, registered_at, updated_block, updated_at, transaction_hash)
+                         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+                    )
+                    .run(
+                        args.messageId,
+                        args.messageType,
+                        args.sender,
+                        args.target,
+                        Number(args.targetChain),
+                        "PENDING",
+                        state.token ?? null,
+                        state.amount === undefined ? null : String(state.amount),
+                        state.recipient ?? null,
+                        blockNumber,
+                        timestamp,
+                        blockNumber,
+                        timestamp,
+                        event.transactionHash
+                    );
+                break;
+            case "MessageSubmissionInitiated":
+                // The registry records the coordinator as sender, the coordinator the submitting account
+                this.db
+                    .prepare("UPDATE messages SET sender = ? WHERE message_id = ?")
+                    .run(args.sender, args.messageId);
+                break;
+            case "MessageStatusUpdated":
+                this.db
+                    .prepare("UPDATE messages SET status = ?, updated_block = ?, updated_at = ? WHERE message_id = ?")
+                    .run(toMessageStatusName(BigInt(args.newStatus as string)), blockNumber, timestamp, args.messageId);
+                break;
+            case "MessageRouted":
+                this.db
+                    .prepare("UPDATE messages SET delivery_hash = ? WHERE message_id = ?")
+                    .run(args.deliveryHash, args.messageId);
+                break;
+            case "SettlementStatusUpdated":
+            case "SettlementProcessed":
+                this.projectSettlement(event);
+                break;
+            case "PoolCreated":
+            case "PoolUpdated":
+                this.db
+                    .prepare(
+                        `INSERT INTO pools (token, min_liquidity, max_liquidity, created_block, updated_block)
+                         VALUES (?, ?, ?, ?, ?)
+                         ON CONFLICT (token) DO UPDATE SET
+                             min_liquidity = excluded.min_liquidity,
+                             max_liquidity = excluded.max_liquidity,
+                             updated_block = excluded.updated_block`
+                    )
+                    .run(args.token, String(args.minLiquidity), String(args.maxLiquidity), blockNumber, blockNumber);
+                break;
+            case "ProposalCreated":
+                this.db
+                    .prepare(
+                        `INSERT OR REPLACE INTO proposals (proposal_id, proposal_type, proposer, votes_for, votes_against,
+                             voters, executed, created_block, created_at)
+                         VALUES (?, ?, ?, ?, ?, 0, 0, ?, ?)`
+                    )
+                    .run(
+                        String(args.proposalId),
+                        toProposalTypeName(BigInt(args.proposalType as string)),
+                        args.proposer,
+                        "0",
+                        "0",
+                        blockNumber,
+                        timestamp
+                    );
+                break;
+            case "VotingPowerUpdated":
+                this.db
+                    .prepare("INSERT OR REPLACE INTO voting_power (account, power) VALUES (?, ?)")
+                    .run(args.account, String(args.newPower));
+                break;
+            case "VoteCast":
+                this.projectVote(event);
+                break;
+            case "ProposalExecuted":
+                this.db
+                    .prepare("UPDATE proposals SET executed = ?, executed_block = ? WHERE proposal_id = ?")
+                    .run(Number(Boolean(args.success)), blockNumber, String(args.proposalId));
+                break;
+            default:
+                if (event.event in LIQUIDITY_MOVEMENTS) {
+                    this.db
+                        .prepare(
+                            `INSERT OR REPLACE INTO liquidity_movements (block_number, log_index, kind, token, amount,
+                                 provider, recipient, settlement_id, transaction_hash, timestamp)
+                             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+                        )
+                        .run(
+                            blockNumber,
+                            event.logIndex,
+                            LIQUIDITY_MOVEMENTS[event.event],
+                            args.token ?? null,
+                            String(args.amount),
+                            args.provider ?? null,
+                            args.recipient ?? null,
+                            args.settlementId ?? null,
+                            event.transactionHash,
+                            timestamp
+                        );
+                }
+        }
+    }
+
+    /**
+     * Votes weigh the voter's power when cast, as ProtocolGovernance.vote adds it to the tally
+     */
+    private projectVote(event: IndexedEvent): void {
+        const { args } = event;
+        const proposal = this.db
+            .prepare<[string], Pick<ProposalRow, "votes_for" | "votes_against">>(
+                "SELECT votes_for, votes_against FROM proposals WHERE proposal_id = ?"
+            )
+            .get(String(args.proposalId));
+        if (!proposal) {
+            return;
+        }
+
+        const row = this.db
+            .prepare<[string], { power: string }>("SELECT power FROM voting_power WHERE account = ?")
+            .get(args.voter as string);
+        const power = BigInt(row?.power ?? 0);
+        const votesFor = BigInt(proposal.votes_for) + (args.support ? power : 0n);
+        const votesAgainst = BigInt(proposal.votes_against) + (args.support ? 0n : power);
+
+        this.db
+            .prepare("UPDATE proposals SET votes_for = ?, votes_against = ?, voters = voters + 1 WHERE proposal_id = ?")
+            .run(String(votesFor), String(votesAgainst), String(args.proposalId));
+    }
+
+    /**
+     * Settlements are read from the controller, as failed ones only emit their status
+     * SettlementProcessed is only emitted for completed settlements.
+     */
+    private projectSettlement(event: IndexedEvent): void {
+        const { args, state, blockNumber, timestamp } = event;
+        const status: SettlementStatusName =
+            event.event === "SettlementStatusUpdated"
+                ? toSettlementStatusName(BigInt(args.status as string))
+                : "COMPLETED";
+
+        this.db
+            .prepare(
+                `INSERT INTO settlements (settlement_id, message_id, token, amount, recipient, status,
+                     created_block, created_at, updated_block, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                 ON CONFLICT (settlement_id) DO UPDATE SET
+                     status = excluded.status,
+                     updated_block = excluded.updated_block,
+                     updated_at = excluded.updated_at`
+            )
+            .run(
+                args.settlementId,
+                state.messageId,
+                state.token,
+                String(state.amount),
+                state.recipient,
+                status,
+                blockNumber,
+                timestamp,
+                blockNumber,
+                timestamp
+            );
+    }
+
+    private getMeta(key: string): string | undefined {
+        const row = this.db.prepare<[string], { value: string }>("SELECT value FROM meta WHERE key = ?").get(key);
+        return row?.value;
+    }
+
+    private setMeta(key: string, value: string): void {
+        this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, value);
+    }
+}
+
+/**
+ * Builds a WHERE clause from the filters that are set
+ */
+class Where {
+    private readonly clauses: string[] = [];
+    readonly params: unknown[] = [];
+
+    get sql(): string {
+        return this.clauses.length ? `WHERE ${this.clauses.join(" AND ")}` : "";
+    }
+
+    equals(column: string, value: unknown): this {
+        if (value !== undefined) {
+            this.clauses.push(`${column} = ?`);
+            this.params.push(value);
+        }
+        return this;
+    }
+
+    between(column: string, query: IndexerQuery): this {
+        if (query.fromTime !== undefined) {
+            this.clauses.push(`${column} >= ?`);
+            this.params.push(query.fromTime);
+        }
+        if (query.toTime !== undefined) {
+            this.clauses.push(`${column} <= ?`);
+            this.params.push(query.toTime);
+        }
+        return this;
+    }
+}
+
+/**
+ * Serializes event values, bigints as decimal strings
+ */
+function toJson(value: Record<string, unknown>): string {
+    return JSON.stringify(value, (_, item) => (typeof item === "bigint" ? item.toString() : item));
+}
+
+/**
+ * Addresses are stored checksummed, as ethers decodes them
+ */
+function normalizeAddress(address?: string): string | undefined {
+    return address === undefined ? undefined : ethers.getAddress(address);
+}
+
+function toMessage(row: MessageRow): IndexedMessage {
+    return {
+        messageId: row.message_id,
+        messageType: row.message_type,
+        sender: row.sender,
+        target: row.target,
+        targetChain: row.target_chain,
+        status: row.status as MessageStatusName,
+        token: row.token ?? undefined,
+        amount: row.amount === null ? undefined : BigInt(row.amount),
+        recipient: row.recipient ?? undefined,
+        deliveryHash: row.delivery_hash ?? undefined,
+        registeredBlock: row.registered_block,
+        registeredAt: row.registered_at,
+        updatedBlock: row.updated_block,
+        updatedAt: row.updated_at,
+        transactionHash: row.transaction_hash,
+    };
+}
+
+function toSettlement(row: SettlementRow): IndexedSettlement {
+    return {
+        settlementId: row.settlement_id,
+        messageId: row.message_id,
+        token: row.token,
+        amount: BigInt(row.amount),
+        recipient: row.recipient,
+        status: row.status as SettlementStatusName,
+        createdBlock: row.created_block,
+        createdAt: row.created_at,
+        updatedBlock: row.updated_block,
+        updatedAt: row.updated_at,
+    };
+}
+
+function toProposal(row: ProposalRow): IndexedProposal {
+    return {
+        proposalId: BigInt(row.proposal_id),
+        proposalType: row.proposal_type as ProposalTypeName,
+        proposer: row.proposer,
+        votesFor: BigInt(row.votes_for),
+        votesAgainst: BigInt(row.votes_against),
+        voters: row.voters,
+        executed: Boolean(row.executed),
+        createdBlock: row.created_block,
+        createdAt: row.created_at,
+        executedBlock: row.executed_block ?? undefined,
+    };
+}
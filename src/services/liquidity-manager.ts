@@ -0,0 +1,336 @@
+import { ContractTransactionResponse, ethers, isError, Signer } from "ethers";
+import { IERC20Metadata__factory, LiquidityPool } from "../../typechain";
+import {
+    DEFAULT_TX_CONFIG,
+    NetworkTxConfig,
+    PoolOperationResult,
+    PoolSnapshot,
+    ProviderStatus,
+    tEthereumAddress,
+} from "../types";
+import { queryFilterInChunks } from "../utils/log-query";
+import { waitForReceipt } from "../utils/receipt-helpers";
+
+/** Value of LiquidityPool.WITHDRAWAL_COOLDOWN (seconds), private in the contract */
+const WITHDRAWAL_COOLDOWN = 3600;
+
+/** Explanations of the LiquidityPool revert reasons */
+const REVERT_EXPLANATIONS: [string, string][] = [
+    ["Provider is blacklisted", "the provider is blacklisted"],
+    ["Must have provider role", "the provider needs LIQUIDITY_PROVIDER_ROLE while permissionless liquidity is disabled"],
+    ["Must have admin role", "the signer needs DEFAULT_ADMIN_ROLE"],
+    ["Must have emergency role", "the signer needs EMERGENCY_ROLE"],
+    ["Pool not active", "no pool exists for this token"],
+    ["Pool does not exist", "no pool exists for this token"],
+    ["Pool already exists", "a pool already exists for this token"],
+    ["Invalid limits", "the minimum liquidity exceeds the maximum"],
+    ["Exceeds max liquidity", "the deposit would exceed the pool's maximum liquidity"],
+    ["Insufficient shares", "the provider does not hold that many shares"],
+    ["Withdrawal too soon", "the provider withdrew less than an hour ago"],
+    ["Insufficient available liquidity", "too much of the pool is locked in settlements"],
+    ["Below min liquidity", "the withdrawal would take the pool below its minimum liquidity"],
+    ["Must be paused", "the pool must be paused first"],
+    ["No balance to withdraw", "the pool holds none of this token"],
+    ["Invalid ERC20", "the token is not an ERC20 contract"],
+    ["EnforcedPause", "the pool is paused"],
+];
+
+/**
+ * Operates the pools of a LiquidityPool
+ *
+ * Every operation checks the pool state it depends on before sending a transaction
+ * and fails with a readable message, e.g. when the withdrawal cooldown has not
+ * elapsed, a deposit would exceed the maximum liquidity or the provider is
+ * blacklisted. Deposits approve the pool first when the allowance is too low.
+ * Reverts that can only be detected by simulating the call, such as removing more
+ * shares than held, are translated the same way.
+ *
+ * @example
+ * const manager = new LiquidityPoolManager(liquidityPool, signer);
+ * await manager.addLiquidity(token, await manager.parseAmount(token, "1000"));
+ * const pool = await manager.getPool(token);
+ */
+export class LiquidityPoolManager {
+    private readonly pool: LiquidityPool;
+    private readonly signer: Signer;
+    private readonly config: NetworkTxConfig;
+    private readonly fromBlock: number;
+
+    /**
+     * Creates a new LiquidityPoolManager instance
+     * @param pool LiquidityPool contract instance
+     * @param signer Account sending the operations
+     * @param config Confirmations and timeout of the transactions
+     * @param fromBlock First block scanned for the withdrawals of a provider
+     */
+    constructor(pool: LiquidityPool, signer: Signer, config: NetworkTxConfig = DEFAULT_TX_CONFIG, fromBlock: number = 0) {
+        this.pool = pool.connect(signer);
+        this.signer = signer;
+        this.config = config;
+        this.fromBlock = fromBlock;
+    }
+
+    /**
+     * Converts a decimal token amount to base units
+     * @param token Token address
+     * @param value Decimal amount, e.g. "12.5"
+     * @returns Amount in base units
+     */
+    async parseAmount(token: tEthereumAddress, value: string): Promise<bigint> {
+        const decimals = await this.token(token).decimals();
+        try {
+            return ethers.parseUnits(value, decimals);
+        } catch {
+            throw new Error(`LiquidityPoolManager: "${value}" is not an amount with at most ${decimals} decimals`);
+        }
+    }
+
+    /**
+     * Reads the state of a token pool
+     * @param token Token address
+     * @returns Pool snapshot
+     */
+    async getPool(token: tEthereumAddress): Promise<PoolSnapshot> {
+        const erc20 = this.token(token);
+        const [info, symbol, decimals, paused, permissionless] = await Promise.all([
+            this.pool.getPoolInfo(token),
+            erc20.symbol(),
+            erc20.decimals(),
+            this.pool.paused(),
+            this.pool.permissionlessLiquidity(),
+        ]);
+
+        return {
+            token,
+            symbol,
+            decimals: Number(decimals),
+            isActive: info.isActive,
+            totalLiquidity: info.totalLiquidity,
+            availableLiquidity: info.availableLiquidity,
+            lockedLiquidity: info.lockedLiquidity,
+            minLiquidity: info.minLiquidity,
+            maxLiquidity: info.maxLiquidity,
+            paused,
+            permissionless,
+        };
+    }
+
+    /**
+     * Reads what a provider may do on a token pool
+     * @param token Token address
+     * @param provider Provider address, defaults to the signer
+     * @returns Provider status
+     */
+    async getProviderStatus(token: tEthereumAddress, provider?: tEthereumAddress): Promise<ProviderStatus> {
+        provider ??= await this.signer.getAddress();
+        const erc20 = this.token(token);
+        const [blacklisted, permissionless, hasRole, balance, allowance, withdrawals] = await Promise.all([
+            this.pool.blacklistedProviders(provider),
+            this.pool.permissionlessLiquidity(),
+            this.pool.hasRole(await this.pool.LIQUIDITY_PROVIDER_ROLE(), provider),
+            erc20.balanceOf(provider),
+            erc20.allowance(provider, await this.pool.getAddress()),
+            queryFilterInChunks(this.pool, this.pool.filters.LiquidityRemoved(token, provider), this.fromBlock),
+        ]);
+
+        const last = withdrawals.at(-1);
+        const lastWithdrawalAt = last ? (await last.getBlock()).timestamp : undefined;
+        return {
+            provider,
+            blacklisted,
+            canAddLiquidity: !blacklisted && (permissionless || hasRole),
+            balance,
+            allowance,
+            lastWithdrawalAt,
+            nextWithdrawalAt: lastWithdrawalAt !== undefined ? lastWithdrawalAt + WITHDRAWAL_COOLDOWN : undefined,
+        };
+    }
+
+    /**
+     * Creates a pool for a token
+     * @param token Token address
+     * @param minLiquidity Liquidity withdrawals may not go below (base units)
+     * @param maxLiquidity Liquidity deposits may not exceed (base units)
+     * @returns Transaction hash
+     */
+    async createPool(token: tEthereumAddress, minLiquidity: bigint, maxLiquidity: bigint): Promise<PoolOperationResult> {
+        await this.requireRole(await this.pool.DEFAULT_ADMIN_ROLE(), "DEFAULT_ADMIN_ROLE");
+        if ((await this.pool.getPoolInfo(token)).isActive) {
+            throw new Error(`LiquidityPoolManager: A pool already exists for ${token}`);
+        }
+        this.requireLimits(minLiquidity, maxLiquidity);
+
+        return this.send(() => this.pool.createPool(token, minLiquidity, maxLiquidity));
+    }
+
+    /**
+     * Changes the liquidity limits of a pool
+     * @param token Token address
+     * @param minLiquidity New minimum liquidity (base units)
+     * @param maxLiquidity New maximum liquidity (base units)
+     * @returns Transaction hash
+     */
+    async updatePool(token: tEthereumAddress, minLiquidity: bigint, maxLiquidity: bigint): Promise<PoolOperationResult> {
+        await this.requireRole(await this.pool.DEFAULT_ADMIN_ROLE(), "DEFAULT_ADMIN_ROLE");
+        await this.requireActivePool(token);
+        this.requireLimits(minLiquidity, maxLiquidity);
+
+        return this.send(() => this.pool.updatePool(token, minLiquidity, maxLiquidity));
+    }
+
+    /**
+     * Deposits tokens, approving the pool first when needed
+     * @param token Token address
+     * @param amount Amount to deposit (base units)
+     * @returns Deposit and approval hashes
+     */
+    async addLiquidity(token: tEthereumAddress, amount: bigint): Promise<PoolOperationResult> {
+        if (amount <= 0n) {
+            throw new Error("LiquidityPoolManager: The amount must be greater than 0");
+        }
+        const pool = await this.requireActivePool(token);
+        const status = await this.getProviderStatus(token);
+        if (status.blacklisted) {
+            throw new Error(`LiquidityPoolManager: Provider ${status.provider} is blacklisted`);
+        }
+        if (!status.canAddLiquidity) {
+            throw new Error(
+                `LiquidityPoolManager: Provider ${status.provider} needs LIQUIDITY_PROVIDER_ROLE while permissionless liquidity is disabled`
+            );
+        }
+        if (pool.totalLiquidity + amount > pool.maxLiquidity) {
+            throw new Error(
+                `LiquidityPoolManager: Depositing ${this.format(amount, pool)} exceeds the maximum liquidity, ` +
+                    `only ${this.format(pool.maxLiquidity - pool.totalLiquidity, pool)} can be added`
+            );
+        }
+        if (status.balance < amount) {
+            throw new Error(
+                `LiquidityPoolManager: Balance of ${this.format(status.balance, pool)} is below ${this.format(amount, pool)}`
+            );
+        }
+
+        let approvalHash: string | undefined;
+        if (status.allowance < amount) {
+            const erc20 = this.token(token).connect(this.signer);
+            ({ transactionHash: approvalHash } = await this.send(() => erc20.approve(this.pool.getAddress(), amount)));
+        }
+        const result = await this.send(() => this.pool.addLiquidity(token, amount));
+        return { ...result, approvalHash, amount };
+    }
+
+    /**
+     * Burns shares for tokens
+     * Shares are scaled like the token and minted 1:1 on the first deposit.
+     * @param token Token address
+     * @param shares Shares to burn
+     * @returns Transaction hash and tokens received
+     */
+    async removeLiquidity(token: tEthereumAddress, shares: bigint): Promise<PoolOperationResult> {
+        if (shares <= 0n) {
+            throw new Error("LiquidityPoolManager: The shares must be greater than 0");
+        }
+        const pool = await this.requireActivePool(token);
+        const { nextWithdrawalAt } = await this.getProviderStatus(token);
+        const now = (await this.signer.provider!.getBlock("latest"))!.timestamp;
+        if (nextWithdrawalAt !== undefined && now < nextWithdrawalAt) {
+            throw new Error(
+                `LiquidityPoolManager: Withdrawal cooldown active until ${new Date(nextWithdrawalAt * 1000).toISOString()} ` +
+                    `(${nextWithdrawalAt - now}s left)`
+            );
+        }
+
+        const amount = await this.simulate(() => this.pool.removeLiquidity.staticCall(token, shares));
+        if (pool.totalLiquidity - amount < pool.minLiquidity) {
+            throw new Error(`LiquidityPoolManager: Withdrawing ${this.format(amount, pool)} goes below the minimum liquidity`);
+        }
+        const result = await this.send(() => this.pool.removeLiquidity(token, shares));
+        return { ...result, amount };
+    }
+
+    /**
+     * Withdraws the whole token balance of a paused pool
+     * @param token Token address
+     * @returns Transaction hash and tokens withdrawn
+     */
+    async emergencyWithdraw(token: tEthereumAddress): Promise<PoolOperationResult> {
+        await this.requireRole(await this.pool.EMERGENCY_ROLE(), "EMERGENCY_ROLE");
+        if (!(await this.pool.paused())) {
+            throw new Error("LiquidityPoolManager: The pool must be paused before an emergency withdrawal");
+        }
+        const amount = await this.token(token).balanceOf(await this.pool.getAddress());
+        if (amount === 0n) {
+            throw new Error(`LiquidityPoolManager: The pool holds no ${token}`);
+        }
+
+        const result = await this.send(() => this.pool.emergencyWithdraw(token));
+        return { ...result, amount };
+    }
+
+    private token(token: tEthereumAddress) {
+        return IERC20Metadata__factory.connect(token, this.signer);
+    }
+
+    private format(amount: bigint, pool: PoolSnapshot): string {
+        return `${ethers.formatUnits(amount, pool.decimals)} ${pool.symbol}`;
+    }
+
+    private async requireRole(role: string, name: string): Promise<void> {
+        const account = await this.signer.getAddress();
+        if (!(await this.pool.hasRole(role, account))) {
+            throw new Error(`LiquidityPoolManager: ${account} needs ${name} on the LiquidityPool`);
+        }
+    }
+
+    private async requireActivePool(token: tEthereumAddress): Promise<PoolSnapshot> {
+        const pool = await this.getPool(token);
+        if (!pool.isActive) {
+            throw new Error(`LiquidityPoolManager: No pool exists for ${token}`);
+        }
+        if (pool.paused) {
+            throw new Error("LiquidityPoolManager: The pool is paused");
+        }
+        return pool;
+    }
+
+    private requireLimits(minLiquidity: bigint, maxLiquidity: bigint): void {
+        if (minLiquidity > maxLiquidity) {
+            throw new Error("LiquidityPoolManager: The minimum liquidity exceeds the maximum");
+        }
+    }
+
+    private async simulate<T>(call: () => Promise<T>): Promise<T> {
+        try {
+            return await call();
+        } catch (error) {
+            throw new Error(`LiquidityPoolManager: ${explainRevert(error)}`);
+        }
+    }
+
+    private async send(send: () => Promise<ContractTransactionResponse>): Promise<PoolOperationResult> {
+        const transaction = await this.simulate(send);
+        const receipt = await waitForReceipt(transaction, this.config.confirmations, this.config.timeout);
+        if (!receipt) {
+            throw new Error(`LiquidityPoolManager: Timed out waiting for ${transaction.hash}`);
+        }
+        if (receipt.status !== 1) {
+            throw new Error(`LiquidityPoolManager: Transaction ${transaction.hash} reverted`);
+        }
+        return { transactionHash: transaction.hash };
+    }
+}
+
+/**
+ * Translates a LiquidityPool revert into a readable sentence
+ * @param error Error thrown by a call or transaction
+ * @returns Explanation, or the original message when the reason is unknown
+ * @example
+ * explainRevert(error); // "the provider withdrew less than an hour ago"
+ */
+export function explainRevert(error: unknown): string {
+    const reason = isError(error, "CALL_EXCEPTION")
+        ? error.reason ?? error.revert?.name ?? error.message
+        : (error as Error).message;
+    const match = REVERT_EXPLANATIONS.find(([revert]) => reason.includes(revert));
+    return match ? match[1] : reason;
+}
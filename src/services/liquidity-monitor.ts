@@ -0,0 +1,368 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers, Provider } from "ethers";
+import {
+    IERC20Metadata__factory,
+    LiquidityPool,
+    LiquidityPool__factory,
+    MessageRegistry,
+    MessageRegistry__factory,
+    SettlementController,
+    SettlementController__factory,
+} from "../../typechain";
+import { LOCAL_CHAIN_ID } from "../constants";
+import {
+    AddressBook,
+    LiquidityAlert,
+    LiquidityAlertKind,
+    LiquidityAlertSink,
+    LiquidityCheckResult,
+    LiquidityMonitorOptions,
+    MESSAGE_TYPE_PACS008,
+    MessageStatus,
+    PoolLiquidityStatus,
+    tEthereumAddress,
+} from "../types";
+import { getContractAddress } from "../utils/address-book";
+import { findChainByEvmChainId } from "../utils/chain-registry";
+import { getTxConfig } from "../utils/config-helpers";
+import { extractPACS008Payload } from "../utils/cross-chain-envelope";
+import { queryFilterInChunks } from "../utils/log-query";
+import { decodePACS008Payload } from "../utils/pacs008-codec";
+
+/** Running totals of the liquidity events of a token */
+interface LiquidityActivity {
+    locked: bigint;
+    unlocked: bigint;
+    released: bigint;
+}
+
+/** MessageRegistry of a peer chain and the next block to scan on it */
+interface DemandRegistry {
+    registry: MessageRegistry;
+    provider: Provider;
+    nextBlock: number;
+}
+
+/**
+ * Watches the pools of a LiquidityPool against the demand of pending PACS.008 messages
+ *
+ * Each pass reads getPoolInfo for every pool, adds the LiquidityLocked, Unlocked and
+ * Released events since the previous pass to running totals, and sums by token the
+ * amounts of the PACS.008 messages the peers' MessageRegistry hold for this chain.
+ * Local messages settle in the transaction submitting them, so the demand on a pool
+ * comes from the peers: messages whose targetChain is this chain's Wormhole chain ID,
+ * PENDING on the peer and without a settlement in this chain's SettlementController.
+ * When settling them would leave less than the threshold or minLiquidity available,
+ * or more than is available, an alert is sent to the sinks. A condition is reported
+ * once and again only after it cleared.
+ *
+ * @example
+ * const monitor = new LiquidityMonitor(ethers.provider, loadAddressBook("sepolia"), {
+ *     peers: [{ provider: arbitrumProvider, book: loadAddressBook("arbitrum-sepolia") }],
+ *     defaultThreshold: "10000",
+ *     sinks: [{ type: "console" }, { type: "webhook", url: "http://localhost:9000/alerts" }],
+ * });
+ * monitor.start();
+ */
+export class LiquidityMonitor {
+    private readonly provider: Provider;
+    private readonly network: string;
+    private readonly pool: LiquidityPool;
+    private readonly controller?: SettlementController;
+    private readonly peers: DemandRegistry[];
+    private readonly wormholeChainId: number;
+    private readonly options: LiquidityMonitorOptions;
+    private readonly sinks: LiquidityAlertSink[];
+    private readonly pollInterval: number;
+    private readonly tokens = new Set<tEthereumAddress>();
+    private readonly metadata = new Map<tEthereumAddress, { symbol: string; decimals: number }>();
+    private readonly activity = new Map<tEthereumAddress, LiquidityActivity>();
+    private readonly pending = new Map<string, { token: tEthereumAddress; amount: bigint; peer: DemandRegistry }>();
+    private readonly raised = new Set<string>();
+    private nextBlock: number;
+    private timer?: NodeJS.Timeout;
+    private pass?: Promise<LiquidityCheckResult | undefined>;
+
+    /**
+     * Creates a new LiquidityMonitor instance
+     * @param provider Provider of the address book's network
+     * @param book Address book with the LiquidityPool and, to drop settled messages, the SettlementController
+     * @param options Peers, tokens, thresholds and alert sinks
+     * @throws Error if peers are given and the Wormhole chain ID of the book's chain is unknown
+     */
+    constructor(provider: Provider, book: AddressBook, options: LiquidityMonitorOptions = {}) {
+        this.provider = provider;
+        this.network = book.network;
+        this.options = options;
+        this.sinks = options.sinks ?? [{ type: "console" }];
+        this.pollInterval = options.pollInterval
+            ?? getTxConfig(book.network).pollInterval;
+        this.pool = LiquidityPool__factory.connect(getContractAddress(book, "LiquidityPool"), provider);
+        if (book.contracts.SettlementController) {
+            this.controller = SettlementController__factory.connect(book.contracts.SettlementController.address, provider);
+        }
+        this.peers = (options.peers ?? []).map(peer => ({
+            registry: MessageRegistry__factory.connect(getContractAddress(peer.book, "MessageRegistry"), peer.provider),
+            provider: peer.provider,
+            nextBlock: peer.fromBlock ?? peer.book.contracts.MessageRegistry.blockNumber ?? 0,
+        }));
+
+        const wormholeChainId = options.wormholeChainId ?? findChainByEvmChainId(book.chainId)?.wormholeChainId;
+        if (wormholeChainId === undefined && this.peers.length > 0) {
+            throw new Error(`LiquidityMonitor: Chain ${book.chainId} is not in CHAIN_REGISTRY, set wormholeChainId`);
+        }
+        this.wormholeChainId = wormholeChainId ?? LOCAL_CHAIN_ID;
+
+        for (const token of options.tokens ?? []) {
+            this.tokens.add(ethers.getAddress(token));
+        }
+        this.nextBlock = options.fromBlock ?? book.contracts.LiquidityPool.blockNumber ?? 0;
+    }
+
+    /**
+     * Reads the pools and the pending demand, and raises the new alerts
+     * @returns Pool statuses and the alerts raised
+     */
+    async check(): Promise<LiquidityCheckResult> {
+        const blockNumber = await this.provider.getBlockNumber();
+        if (blockNumber >= this.nextBlock) {
+            await this.scan(this.nextBlock, blockNumber);
+            this.nextBlock = blockNumber + 1;
+        }
+        for (const peer of this.peers) {
+            await this.scanPeer(peer);
+        }
+        await this.refreshPending(blockNumber);
+
+        const pools: PoolLiquidityStatus[] = [];
+        const alerts: LiquidityAlert[] = [];
+        for (const token of this.tokens) {
+            const status = await this.readPool(token, blockNumber);
+            pools.push(status);
+
+            const kind = classify(status);
+            for (const other of ["INSUFFICIENT_LIQUIDITY", "BELOW_MIN_LIQUIDITY", "BELOW_THRESHOLD"]) {
+                if (other !== kind) {
+                    this.raised.delete(`${token}:${other}`);
+                }
+            }
+            if (kind && !this.raised.has(`${token}:${kind}`)) {
+                this.raised.add(`${token}:${kind}`);
+                alerts.push(this.toAlert(status, kind));
+            }
+        }
+
+        for (const alert of alerts) {
+            await this.dispatch(alert);
+        }
+        return { blockNumber, pools, alerts };
+    }
+
+    /**
+     * Checks every pollInterval ms until stop is called
+     * @param onPass Called after each pass
+     */
+    start(onPass?: (result: LiquidityCheckResult) => void): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => {
+            if (!this.pass) {
+                this.pass = this.check()
+                    .then(result => {
+                        onPass?.(result);
+                        return result;
+                    })
+                    .catch(error => {
+                        console.error(`LiquidityMonitor: ${(error as Error).message}`);
+                        return undefined;
+                    })
+                    .finally(() => (this.pass = undefined));
+            }
+        }, this.pollInterval);
+    }
+
+    /**
+     * Stops checking and waits for the current pass to finish
+     */
+    async stop(): Promise<void> {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        await this.pass;
+    }
+
+    /**
+     * Adds the pools and liquidity events of a block range
+     * The first pass covers everything since deployment, so the logs are read in chunks.
+     */
+    private async scan(fromBlock: number, toBlock: number): Promise<void> {
+        const [created, locked, unlocked, released] = await Promise.all([
+            queryFilterInChunks(this.pool, this.pool.filters.PoolCreated(), fromBlock, toBlock),
+            queryFilterInChunks(this.pool, this.pool.filters.LiquidityLocked(), fromBlock, toBlock),
+            queryFilterInChunks(this.pool, this.pool.filters.LiquidityUnlocked(), fromBlock, toBlock),
+            queryFilterInChunks(this.pool, this.pool.filters.LiquidityReleased(), fromBlock, toBlock),
+        ]);
+
+        for (const { args } of created) {
+            this.tokens.add(args.token);
+        }
+        for (const [events, key] of [[locked, "locked"], [unlocked, "unlocked"], [released, "released"]] as const) {
+            for (const { args } of events) {
+                const activity = this.activityOf(args.token);
+                activity[key] += args.amount;
+            }
+        }
+    }
+
+    /**
+     * Adds the PACS.008 messages registered on a peer for this chain since the previous pass
+     */
+    private async scanPeer(peer: DemandRegistry): Promise<void> {
+        const head = await peer.provider.getBlockNumber();
+        if (head < peer.nextBlock) {
+            return;
+        }
+        const registered = await queryFilterInChunks(
+            peer.registry,
+            peer.registry.filters.MessageRegistered(undefined, MESSAGE_TYPE_PACS008),
+            peer.nextBlock,
+            head
+        );
+        for (const { args } of registered) {
+            if (Number(args.targetChain) !== this.wormholeChainId) {
+                continue;
+            }
+            const message = await peer.registry.getMessage(args.messageId, { blockTag: head });
+            try {
+                const { tokenAddr, amount } = decodePACS008Payload(extractPACS008Payload(message.payload) ?? message.payload);
+                this.pending.set(args.messageId, { token: tokenAddr, amount, peer });
+            } catch {
+                // Malformed payloads are rejected by the receiver and never settle
+            }
+        }
+        peer.nextBlock = head + 1;
+    }
+
+    /**
+     * Drops the messages that left the PENDING status on their peer or were settled here
+     */
+    private async refreshPending(blockNumber: number): Promise<void> {
+        for (const [messageId, { peer }] of [...this.pending]) {
+            const status = await peer.registry.getMessageStatus(messageId, { blockTag: peer.nextBlock - 1 });
+            const settled = this.controller
+                && (await this.controller.getSettlementsByMessage(messageId, { blockTag: blockNumber })).length > 0;
+            if (Number(status) !== MessageStatus.PENDING || settled) {
+                this.pending.delete(messageId);
+            }
+        }
+    }
+
+    private async readPool(token: tEthereumAddress, blockNumber: number): Promise<PoolLiquidityStatus> {
+        if (!this.metadata.has(token)) {
+            const erc20 = IERC20Metadata__factory.connect(token, this.provider);
+            this.metadata.set(token, { symbol: await erc20.symbol(), decimals: Number(await erc20.decimals()) });
+        }
+        const { symbol, decimals } = this.metadata.get(token)!;
+        const info = await this.pool.getPoolInfo(token, { blockTag: blockNumber });
+        const activity = this.activityOf(token);
+
+        const demand = [...this.pending.values()].filter(message => message.token === token);
+        const pendingDemand = demand.reduce((sum, message) => sum + message.amount, 0n);
+        const threshold = this.options.thresholds?.[token] ?? this.options.defaultThreshold ?? "0";
+
+        return {
+            token,
+            symbol,
+            decimals,
+            isActive: info.isActive,
+            totalLiquidity: info.totalLiquidity,
+            availableLiquidity: info.availableLiquidity,
+            lockedLiquidity: info.lockedLiquidity,
+            minLiquidity: info.minLiquidity,
+            lockedTotal: activity.locked,
+            unlockedTotal: activity.unlocked,
+            releasedTotal: activity.released,
+            pendingMessages: demand.length,
+            pendingDemand,
+            projectedAvailable: info.availableLiquidity - pendingDemand,
+            threshold: ethers.parseUnits(threshold, decimals),
+        };
+    }
+
+    private activityOf(token: tEthereumAddress): LiquidityActivity {
+        if (!this.activity.has(token)) {
+            this.activity.set(token, { locked: 0n, unlocked: 0n, released: 0n });
+        }
+        return this.activity.get(token)!;
+    }
+
+    private toAlert(status: PoolLiquidityStatus, kind: LiquidityAlertKind): LiquidityAlert {
+        const format = (amount: bigint) => `${ethers.formatUnits(amount, status.decimals)} ${status.symbol}`;
+        const demand = `${status.pendingMessages} pending messages need ${format(status.pendingDemand)}`;
+        const message = {
+            INSUFFICIENT_LIQUIDITY: `${demand} but only ${format(status.availableLiquidity)} is available`,
+            BELOW_MIN_LIQUIDITY: `${demand}, leaving ${format(status.projectedAvailable)}, below the pool minimum of ${format(status.minLiquidity)}`,
+            BELOW_THRESHOLD: `${demand}, leaving ${format(status.projectedAvailable)}, below the threshold of ${format(status.threshold)}`,
+        }[kind];
+
+        return {
+            raisedAt: new Date().toISOString(),
+            network: this.network,
+            kind,
+            token: status.token,
+            symbol: status.symbol,
+            message,
+            availableLiquidity: status.availableLiquidity.toString(),
+            pendingDemand: status.pendingDemand.toString(),
+            projectedAvailable: status.projectedAvailable.toString(),
+            minLiquidity: status.minLiquidity.toString(),
+            threshold: status.threshold.toString(),
+        };
+    }
+
+    /**
+     * Sends an alert to every sink, a failing sink does not stop the others
+     */
+    private async dispatch(alert: LiquidityAlert): Promise<void> {
+        for (const sink of this.sinks) {
+            try {
+                if (sink.type === "console") {
+                    console.warn(`[${alert.kind}] ${alert.network} ${alert.symbol}: ${alert.message}`);
+                } else if (sink.type === "file") {
+                    fs.mkdirSync(path.dirname(sink.path), { recursive: true });
+                    fs.appendFileSync(sink.path, `${JSON.stringify(alert)}\n`);
+                } else {
+                    const response = await fetch(sink.url, {
+                        method: "POST",
+                        headers: { "content-type": "application/json" },
+                        body: JSON.stringify(alert),
+                    });
+                    if (!response.ok) {
+                        throw new Error(`HTTP ${response.status}`);
+                    }
+                }
+            } catch (error) {
+                console.error(`LiquidityMonitor: Could not send the alert to the ${sink.type} sink: ${(error as Error).message}`);
+            }
+        }
+    }
+}
+
+/**
+ * Picks the most severe condition of a pool
+ * @param status Pool status
+ * @returns Alert kind, or undefined when the projected liquidity is sufficient
+ */
+function classify(status: PoolLiquidityStatus): LiquidityAlertKind | undefined {
+    if (status.projectedAvailable < 0n) {
+        return "INSUFFICIENT_LIQUIDITY";
+    }
+    if (status.projectedAvailable < status.minLiquidity) {
+        return "BELOW_MIN_LIQUIDITY";
+    }
+    if (status.projectedAvailable < status.threshold) {
+        return "BELOW_THRESHOLD";
+    }
+    return undefined;
+}
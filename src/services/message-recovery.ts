@@ -0,0 +1,290 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ContractTransactionResponse, isError, Signer } from "ethers";
+import { MessageRegistry__factory, MessageRouter__factory, ProtocolCoordinator } from "../../typechain";
+import {
+    DEFAULT_TX_CONFIG,
+    MessageRecoveryOptions,
+    NetworkTxConfig,
+    RecoveryAction,
+    RecoveryDecision,
+    RecoveryPolicy,
+    StuckMessage,
+} from "../types";
+import { queryFilterInChunks } from "../utils/log-query";
+import { toMessageStatusName } from "../utils/protocol-decoders";
+import { waitForReceipt } from "../utils/receipt-helpers";
+
+const DEFAULT_MAX_RETRIES = 3;
+
+/**
+ * Retries, cancels or emergency-cancels messages stuck in the MessageRegistry
+ *
+ * Messages submitted through the coordinator are scanned for a stuck status
+ * (PENDING or FAILED by default) without activity for the policy's minAge.
+ * Each one gets at most one action per run, chosen by planRecovery: the sender
+ * retries with a re-quoted routing fee until maxRetries, then cancels; the
+ * emergency signer cancels when that is not possible. Every action is simulated
+ * first, and a rejected action escalates to the next one in the same run.
+ * Decisions are appended to a JSON Lines journal.
+ *
+ * @example
+ * const orchestrator = new MessageRecoveryOrchestrator(protocolCoordinator, signer, {
+ *     policy: { minAge: 3600, maxRetries: 2, allowEmergencyCancel: true },
+ *     journalFile: "recovery/sepolia.jsonl",
+ * });
+ * const decisions = await orchestrator.run();
+ */
+export class MessageRecoveryOrchestrator {
+    private readonly coordinator: ProtocolCoordinator;
+    private readonly signer: Signer;
+    private readonly emergencySigner: Signer;
+    private readonly options: MessageRecoveryOptions;
+    private readonly confirmations: number;
+    private readonly timeout: number;
+
+    /**
+     * Creates a new MessageRecoveryOrchestrator instance
+     * @param coordinator ProtocolCoordinator contract instance
+     * @param signer Sender of the messages to retry or cancel
+     * @param options Policy, journal and execution options
+     * @param config Transaction configuration used when options are omitted
+     */
+    constructor(
+        coordinator: ProtocolCoordinator,
+        signer: Signer,
+        options: MessageRecoveryOptions,
+        config: NetworkTxConfig = DEFAULT_TX_CONFIG
+    ) {
+        this.coordinator = coordinator;
+        this.signer = signer;
+        this.emergencySigner = options.emergencySigner ?? signer;
+        this.options = options;
+        this.confirmations = options.confirmations ?? config.confirmations;
+        this.timeout = options.timeout ?? config.timeout;
+    }
+
+    /**
+     * Lists the messages the policy considers stuck
+     * @returns Stuck messages, oldest activity first
+     */
+    async scan(): Promise<StuckMessage[]> {
+        const provider = this.signer.provider!;
+        const { policy } = this.options;
+        const statuses = policy.statuses ?? ["PENDING", "FAILED"];
+
+        const latest = (await provider.getBlock("latest"))!;
+        const fromBlock = this.options.fromBlock ?? 0;
+        const registry = MessageRegistry__factory.connect(await this.coordinator.messageRegistry(), provider);
+        const [submissions, retries] = await Promise.all([
+            queryFilterInChunks(this.coordinator, this.coordinator.filters.MessageSubmissionInitiated(), fromBlock, latest.number),
+            queryFilterInChunks(this.coordinator, this.coordinator.filters.MessageRetryInitiated(), fromBlock, latest.number),
+        ]);
+
+        const timestamps = new Map<number, number>();
+        const retryTimes = new Map<string, number[]>();
+        for (const retry of retries) {
+            if (!timestamps.has(retry.blockNumber)) {
+                timestamps.set(retry.blockNumber, (await provider.getBlock(retry.blockNumber))!.timestamp);
+            }
+            const times = retryTimes.get(retry.args.messageId) ?? [];
+            retryTimes.set(retry.args.messageId, [...times, timestamps.get(retry.blockNumber)!]);
+        }
+
+        const stuck: StuckMessage[] = [];
+        for (const { args } of submissions) {
+            const message = await registry.getMessage(args.messageId, { blockTag: latest.number });
+            const status = toMessageStatusName(message.status);
+            if (!statuses.includes(status)) {
+                continue;
+            }
+
+            const times = retryTimes.get(args.messageId) ?? [];
+            const registeredAt = Number(message.timestamp);
+            const lastRetryAt = times.length ? Math.max(...times) : undefined;
+            const age = latest.timestamp - Math.max(registeredAt, lastRetryAt ?? 0);
+            if (age < policy.minAge) {
+                continue;
+            }
+
+            stuck.push({
+                messageId: args.messageId,
+                status,
+                sender: args.sender,
+                target: message.target,
+                targetChain: Number(message.targetChain),
+                payloadSize: (message.payload.length - 2) / 2,
+                registeredAt,
+                lastRetryAt,
+                age,
+                retries: times.length,
+            });
+        }
+
+        return stuck.sort((a, b) => b.age - a.age);
+    }
+
+    /**
+     * Applies the policy to every stuck message
+     * @returns Decisions in journal order, including rejected escalation steps
+     */
+    async run(): Promise<RecoveryDecision[]> {
+        const stuck = await this.scan();
+        const sender = await this.signer.getAddress();
+        const emergencyAddress = await this.emergencySigner.getAddress();
+        const hasEmergencyRole = await this.coordinator.hasRole(await this.coordinator.EMERGENCY_ROLE(), emergencyAddress);
+
+        const decisions: RecoveryDecision[] = [];
+        for (const message of stuck) {
+            const plan = planRecovery(message, this.options.policy, {
+                isSender: message.sender.toLowerCase() === sender.toLowerCase(),
+                hasEmergencyRole,
+            });
+
+            for (const step of plan) {
+                const decision = await this.execute(message, step.action, step.reason);
+                this.journal(decision);
+                decisions.push(decision);
+                if (decision.outcome !== "REJECTED") {
+                    break;
+                }
+            }
+        }
+        return decisions;
+    }
+
+    /**
+     * Simulates, then sends one action
+     */
+    private async execute(message: StuckMessage, action: RecoveryAction, reason: string): Promise<RecoveryDecision> {
+        const decision: RecoveryDecision = {
+            decidedAt: new Date().toISOString(),
+            messageId: message.messageId,
+            status: message.status,
+            age: message.age,
+            retries: message.retries,
+            action,
+            reason,
+            outcome: "SKIPPED",
+        };
+        if (action === "SKIP") {
+            return decision;
+        }
+
+        const signer = action === "EMERGENCY_CANCEL" ? this.emergencySigner : this.signer;
+        const coordinator = this.coordinator.connect(signer);
+        decision.actor = await signer.getAddress();
+
+        let send: () => Promise<ContractTransactionResponse>;
+        try {
+            if (action === "RETRY") {
+                const router = MessageRouter__factory.connect(await this.coordinator.messageRouter(), signer);
+                const fee = await router.quoteRoutingFee(message.targetChain, message.payloadSize);
+                decision.fee = fee.toString();
+                await coordinator.retryMessage.staticCall(message.messageId, { value: fee });
+                send = () => coordinator.retryMessage(message.messageId, { value: fee });
+            } else if (action === "CANCEL") {
+                await coordinator.cancelMessage.staticCall(message.messageId);
+                send = () => coordinator.cancelMessage(message.messageId);
+            } else {
+                await coordinator.emergencyCancelMessage.staticCall(message.messageId);
+                send = () => coordinator.emergencyCancelMessage(message.messageId);
+            }
+        } catch (error) {
+            return { ...decision, outcome: "REJECTED", error: toErrorMessage(error) };
+        }
+
+        if (this.options.dryRun) {
+            return { ...decision, outcome: "SIMULATED" };
+        }
+
+        try {
+            const transaction = await send();
+            decision.transactionHash = transaction.hash;
+            const receipt = await waitForReceipt(transaction, this.confirmations, this.timeout);
+            if (!receipt) {
+                return { ...decision, outcome: "FAILED", error: "Timed out waiting for the receipt" };
+            }
+            return receipt.status === 1
+                ? { ...decision, outcome: "EXECUTED" }
+                : { ...decision, outcome: "FAILED", error: "Transaction reverted" };
+        } catch (error) {
+            return { ...decision, outcome: "FAILED", error: toErrorMessage(error) };
+        }
+    }
+
+    private journal(decision: RecoveryDecision): void {
+        const file = this.options.journalFile;
+        if (file) {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.appendFileSync(file, `${JSON.stringify(decision)}\n`);
+        }
+    }
+}
+
+/**
+ * Orders the actions allowed on a stuck message, most lenient first
+ * The orchestrator takes the first one that does not revert.
+ *
+ * @param message Stuck message
+ * @param policy Recovery policy
+ * @param context Whether the signer sent the message and the emergency signer holds EMERGENCY_ROLE
+ * @returns Escalation steps, or a single SKIP with its reason
+ * @example
+ * planRecovery(message, { minAge: 600, maxRetries: 1 }, { isSender: true, hasEmergencyRole: false });
+ * // [{ action: "CANCEL", reason: "1/1 retries used" }]
+ */
+export function planRecovery(
+    message: StuckMessage,
+    policy: RecoveryPolicy,
+    context: { isSender: boolean; hasEmergencyRole: boolean }
+): { action: RecoveryAction; reason: string }[] {
+    const maxRetries = policy.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const steps: { action: RecoveryAction; reason: string }[] = [];
+
+    if (context.isSender && message.retries < maxRetries) {
+        steps.push({ action: "RETRY", reason: `Retry ${message.retries + 1}/${maxRetries} after ${message.age}s` });
+    }
+    if (context.isSender && (policy.allowCancel ?? true)) {
+        steps.push({
+            action: "CANCEL",
+            reason: message.retries < maxRetries ? "Retry rejected" : `${message.retries}/${maxRetries} retries used`,
+        });
+    }
+    if (policy.allowEmergencyCancel && context.hasEmergencyRole) {
+        steps.push({
+            action: "EMERGENCY_CANCEL",
+            reason: context.isSender ? "Sender actions rejected or disabled" : "Signer is not the message sender",
+        });
+    }
+
+    if (steps.length === 0) {
+        const reason = context.isSender
+            ? "Retries used and cancellation disabled"
+            : `Sent by ${message.sender} and emergency cancellation ${policy.allowEmergencyCancel ? "not permitted" : "disabled"}`;
+        steps.push({ action: "SKIP", reason });
+    }
+    return steps;
+}
+
+/**
+ * Reads a recovery journal
+ * @param file JSON Lines journal
+ * @returns Decisions in the order they were taken
+ */
+export function readRecoveryJournal(file: string): RecoveryDecision[] {
+    if (!fs.existsSync(file)) {
+        return [];
+    }
+    return fs.readFileSync(file, "utf8")
+        .split("\n")
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line));
+}
+
+function toErrorMessage(error: unknown): string {
+    if (isError(error, "CALL_EXCEPTION") && error.reason) {
+        return error.reason;
+    }
+    return (error as Error).message;
+}
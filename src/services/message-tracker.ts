@@ -0,0 +1,322 @@
+import { ethers, Provider, Result } from "ethers";
+import {
+    MessageProcessor,
+    MessageProcessor__factory,
+    MessageRegistry,
+    MessageRegistry__factory,
+    MessageRouter,
+    MessageRouter__factory,
+    ProtocolCoordinator,
+    ProtocolCoordinator__factory,
+    SettlementController,
+    SettlementController__factory,
+} from "../../typechain";
+import {
+    AddressBook,
+    MessageBackfillOptions,
+    MessageStatusName,
+    MessageTimeline,
+    MessageTimelineEvent,
+    MessageTrackerContracts,
+    MessageTrackerOptions,
+    MessageWatchOptions,
+    SettlementStatusName,
+    TrackedContractName,
+    TrackedSettlement,
+} from "../types";
+import { getContractAddress } from "../utils/address-book";
+import { queryFilterInChunks } from "../utils/log-query";
+import { toMessageStatusName, toSettlementStatusName } from "../utils/protocol-decoders";
+
+/** Statuses after which a message no longer changes */
+const FINAL_MESSAGE_STATUSES: MessageStatusName[] = ["FAILED", "SETTLED", "CANCELLED"];
+
+/** Address book entries of the tracked contracts */
+const TRACKED_CONTRACTS: TrackedContractName[] = [
+    "ProtocolCoordinator",
+    "MessageRouter",
+    "MessageProcessor",
+    "MessageRegistry",
+    "SettlementController",
+];
+
+/** Statuses after which a settlement no longer changes */
+const FINAL_SETTLEMENT_STATUSES: SettlementStatusName[] = ["COMPLETED", "FAILED", "CANCELLED"];
+
+/** Common shape of the typed logs returned by queryFilter */
+interface ProtocolLog {
+    eventName: string;
+    address: string;
+    blockNumber: number;
+    transactionHash: string;
+    index: number;
+    /** Typed tuple at compile time, an ethers Result at runtime */
+    args: object;
+}
+
+/**
+ * Builds the timeline of a message from the events of every protocol contract
+ *
+ * Events are matched on the messageId where they carry it, on the delivery hashes
+ * reported by MessageRouted for relayer confirmations (which are emitted with a zero
+ * messageId) and on the settlement IDs of the message for SettlementStatusUpdated.
+ *
+ * Both modes poll with queryFilter rather than subscribing, so no listener outlives a call.
+ *
+ * @example
+ * const tracker = MessageTracker.fromAddressBook(ethers.provider, loadAddressBook(network.name));
+ * const history = await tracker.backfill(messageId);
+ * const live = await tracker.watch(messageId, { fromBlock: receipt.blockNumber, onEvent: console.log });
+ */
+export class MessageTracker {
+    private readonly provider: Provider;
+    private readonly coordinator: ProtocolCoordinator;
+    private readonly router: MessageRouter;
+    private readonly processor: MessageProcessor;
+    private readonly registry: MessageRegistry;
+    private readonly settlementController: SettlementController;
+    private readonly fromBlock: number;
+    private readonly timestamps = new Map<number, number>();
+
+    /**
+     * Creates a new MessageTracker instance
+     * @param provider Provider used for every query
+     * @param contracts Addresses of the tracked contracts
+     * @param options Default block range of backfills
+     */
+    constructor(provider: Provider, contracts: MessageTrackerContracts, options: MessageTrackerOptions = {}) {
+        this.provider = provider;
+        this.fromBlock = options.fromBlock ?? 0;
+        this.coordinator = ProtocolCoordinator__factory.connect(contracts.protocolCoordinator, provider);
+        this.router = MessageRouter__factory.connect(contracts.messageRouter, provider);
+        this.processor = MessageProcessor__factory.connect(contracts.messageProcessor, provider);
+        this.registry = MessageRegistry__factory.connect(contracts.messageRegistry, provider);
+        this.settlementController = SettlementController__factory.connect(contracts.settlementController, provider);
+    }
+
+    /**
+     * Creates a tracker for the contracts of an address book
+     * Backfills start at the earliest deployment block of the tracked contracts.
+     *
+     * @param provider Provider of the address book's network
+     * @param book Address book
+     * @param options Default block range of backfills
+     * @throws Error if a tracked contract is not in the book
+     */
+    static fromAddressBook(provider: Provider, book: AddressBook, options: MessageTrackerOptions = {}): MessageTracker {
+        const deploymentBlocks = TRACKED_CONTRACTS
+            .map(name => book.contracts[name]?.blockNumber)
+            .filter((block): block is number => block !== undefined);
+
+        return new MessageTracker(provider, {
+            protocolCoordinator: getContractAddress(book, "ProtocolCoordinator"),
+            messageRouter: getContractAddress(book, "MessageRouter"),
+            messageProcessor: getContractAddress(book, "MessageProcessor"),
+            messageRegistry: getContractAddress(book, "MessageRegistry"),
+            settlementController: getContractAddress(book, "SettlementController"),
+        }, {
+            fromBlock: deploymentBlocks.length ? Math.min(...deploymentBlocks) : undefined,
+            ...options,
+        });
+    }
+
+    /**
+     * Rebuilds the timeline of a message from past events
+     * @param messageId Message to track
+     * @param options Block range to scan
+     * @returns Timeline as of the last scanned block
+     */
+    async backfill(messageId: string, options: MessageBackfillOptions = {}): Promise<MessageTimeline> {
+        const timeline = createTimeline(messageId);
+        const toBlock = options.toBlock ?? (await this.provider.getBlockNumber());
+        await this.scan(timeline, options.fromBlock ?? this.fromBlock, toBlock);
+        return timeline;
+    }
+
+    /**
+     * Follows a message as new blocks arrive until the stop condition holds
+     * @param messageId Message to track
+     * @param options Start block, timeout, polling interval and callbacks
+     * @returns Timeline at the moment the stop condition held
+     * @throws Error if the stop condition does not hold within the timeout
+     */
+    async watch(messageId: string, options: MessageWatchOptions = {}): Promise<MessageTimeline> {
+        const timeout = options.timeout ?? 60000;
+        const pollInterval = options.pollInterval ?? 1000;
+        const until = options.until ?? isTimelineComplete;
+        const deadline = Date.now() + timeout;
+
+        const timeline = createTimeline(messageId);
+        let nextBlock = options.fromBlock ?? (await this.provider.getBlockNumber());
+
+        for (;;) {
+            const head = await this.provider.getBlockNumber();
+            if (head >= nextBlock) {
+                const added = await this.scan(timeline, nextBlock, head);
+                added.forEach(event => options.onEvent?.(event, timeline));
+                nextBlock = head + 1;
+            }
+
+            if (until(timeline)) {
+                return timeline;
+            }
+            if (Date.now() >= deadline) {
+                throw new Error(`MessageTracker: Timed out after ${timeout}ms waiting for message ${messageId}`);
+            }
+            await new Promise(resolve => setTimeout(resolve, Math.min(pollInterval, deadline - Date.now())));
+        }
+    }
+
+    /**
+     * Adds the events of a block range to a timeline
+     * @returns Events added, in chain order
+     */
+    private async scan(timeline: MessageTimeline, fromBlock: number, toBlock: number): Promise<MessageTimelineEvent[]> {
+        const id = timeline.messageId;
+
+        const [submitted, processingCompleted, retried, routed, delivered, deliveryCompleted, started, processed,
+            registered, statusUpdated, settled] = await Promise.all([
+            queryFilterInChunks(this.coordinator, this.coordinator.filters.MessageSubmissionInitiated(id), fromBlock, toBlock),
+            queryFilterInChunks(this.coordinator, this.coordinator.filters.MessageProcessingCompleted(id), fromBlock, toBlock),
+            queryFilterInChunks(this.coordinator, this.coordinator.filters.MessageRetryInitiated(id), fromBlock, toBlock),
+            queryFilterInChunks(this.router, this.router.filters.MessageRouted(id), fromBlock, toBlock),
+            queryFilterInChunks(this.router, this.router.filters.MessageDelivered(id), fromBlock, toBlock),
+            queryFilterInChunks(this.router, this.router.filters.DeliveryCompleted(id), fromBlock, toBlock),
+            queryFilterInChunks(this.processor, this.processor.filters.ProcessingStarted(id), fromBlock, toBlock),
+            queryFilterInChunks(this.processor, this.processor.filters.ProcessingCompleted(id), fromBlock, toBlock),
+            queryFilterInChunks(this.registry, this.registry.filters.MessageRegistered(id), fromBlock, toBlock),
+            queryFilterInChunks(this.registry, this.registry.filters.MessageStatusUpdated(id), fromBlock, toBlock),
+            queryFilterInChunks(
+                this.settlementController,
+                this.settlementController.filters.SettlementProcessed(undefined, id),
+                fromBlock,
+                toBlock
+            ),
+        ]);
+
+        const logs: [TrackedContractName, ProtocolLog[]][] = [
+            ["ProtocolCoordinator", [...submitted, ...processingCompleted, ...retried]],
+            ["MessageRouter", [...routed, ...delivered, ...deliveryCompleted]],
+            ["MessageProcessor", [...started, ...processed]],
+            ["MessageRegistry", [...registered, ...statusUpdated]],
+            ["SettlementController", settled],
+        ];
+
+        // Relayer confirmations carry a zero messageId, only their delivery hash links them
+        const deliveryHashes = new Set([...timeline.deliveryHashes, ...routed.map(log => log.args.deliveryHash)]);
+        for (const hash of deliveryHashes) {
+            const [relayerDelivered, relayerCompleted] = await Promise.all([
+                queryFilterInChunks(this.router, this.router.filters.MessageDelivered(ethers.ZeroHash, hash), fromBlock, toBlock),
+                queryFilterInChunks(this.router, this.router.filters.DeliveryCompleted(ethers.ZeroHash, hash), fromBlock, toBlock),
+            ]);
+            logs.push(["MessageRouter", [...relayerDelivered, ...relayerCompleted]]);
+        }
+
+        // Failed settlements only emit SettlementStatusUpdated, which is indexed by settlementId
+        const settlementIds = await this.settlementController.getSettlementsByMessage(id, { blockTag: toBlock });
+        for (const settlementId of settlementIds) {
+            const updates = await queryFilterInChunks(
+                this.settlementController,
+                this.settlementController.filters.SettlementStatusUpdated(settlementId),
+                fromBlock,
+                toBlock
+            );
+            logs.push(["SettlementController", updates]);
+        }
+
+        const added: MessageTimelineEvent[] = [];
+        for (const [contract, contractLogs] of logs) {
+            for (const log of contractLogs) {
+                added.push(await this.toTimelineEvent(contract, log));
+            }
+        }
+        added.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+        for (const event of added) {
+            applyEvent(timeline, event);
+        }
+        timeline.complete = isTimelineComplete(timeline);
+        return added;
+    }
+
+    private async toTimelineEvent(contract: TrackedContractName, log: ProtocolLog): Promise<MessageTimelineEvent> {
+        return {
+            contract,
+            event: log.eventName,
+            address: log.address,
+            blockNumber: log.blockNumber,
+            timestamp: await this.getTimestamp(log.blockNumber),
+            transactionHash: log.transactionHash,
+            logIndex: log.index,
+            args: (log.args as Result).toObject(),
+        };
+    }
+
+    private async getTimestamp(blockNumber: number): Promise<number> {
+        if (!this.timestamps.has(blockNumber)) {
+            const block = await this.provider.getBlock(blockNumber);
+            this.timestamps.set(blockNumber, block!.timestamp);
+        }
+        return this.timestamps.get(blockNumber)!;
+    }
+}
+
+/**
+ * Whether a message reached a final state
+ * That is a final message or settlement status, or processing that completed without
+ * creating a settlement.
+ *
+ * @param timeline Timeline to check
+ */
+export function isTimelineComplete(timeline: MessageTimeline): boolean {
+    if (timeline.status && FINAL_MESSAGE_STATUSES.includes(timeline.status)) {
+        return true;
+    }
+    if (timeline.settlements.some(settlement =>
+        settlement.status && FINAL_SETTLEMENT_STATUSES.includes(settlement.status))) {
+        return true;
+    }
+    return timeline.settlements.length === 0 &&
+        timeline.events.some(event => event.event === "ProcessingCompleted");
+}
+
+function createTimeline(messageId: string): MessageTimeline {
+    return { messageId, events: [], deliveryHashes: [], settlements: [], complete: false };
+}
+
+/**
+ * Appends an event and updates the state derived from it
+ */
+function applyEvent(timeline: MessageTimeline, event: MessageTimelineEvent): void {
+    timeline.events.push(event);
+    const args = event.args;
+
+    switch (event.event) {
+        case "MessageStatusUpdated":
+            timeline.status = toMessageStatusName(args.newStatus as bigint);
+            break;
+        case "MessageRouted":
+            if (!timeline.deliveryHashes.includes(args.deliveryHash as string)) {
+                timeline.deliveryHashes.push(args.deliveryHash as string);
+            }
+            break;
+        case "SettlementProcessed":
+            Object.assign(getSettlement(timeline, args.settlementId as string), {
+                amount: args.amount as bigint,
+                recipient: args.recipient as string,
+            });
+            break;
+        case "SettlementStatusUpdated":
+            getSettlement(timeline, args.settlementId as string).status = toSettlementStatusName(args.status as bigint);
+            break;
+    }
+}
+
+function getSettlement(timeline: MessageTimeline, settlementId: string): TrackedSettlement {
+    let settlement = timeline.settlements.find(s => s.settlementId === settlementId);
+    if (!settlement) {
+        settlement = { settlementId };
+        timeline.settlements.push(settlement);
+    }
+    return settlement;
+}
@@ -0,0 +1,143 @@
+import { ContractTransactionReceipt, Signer } from "ethers";
+import { ProtocolCoordinator } from "../../typechain";
+import { LOCAL_CHAIN_ID } from "../constants";
+import { validateTargetChain } from "../utils/chain-registry";
+import { encodeRoutedPACS008Payload } from "../utils/cross-chain-envelope";
+import { decodeProtocolEvents, extractMessageId, waitForReceipt } from "../utils/receipt-helpers";
+import { DEFAULT_TX_CONFIG, MESSAGE_TYPE_PACS008, NetworkTxConfig, PACS008Message } from "../types";
+import {
+    DecodedProtocolEvent,
+    MessageFeeQuote,
+    MessageSubmissionOptions,
+    MessageSubmissionResponse,
+    PACS008MessageService,
+    TransactionStatus,
+} from "../types/message-service";
+
+/**
+ * Submits PACS.008 credit transfers through the ProtocolCoordinator
+ * Handles payload encoding, fee quoting, confirmation and event decoding
+ *
+ * @example
+ * const service = new PACS008MessageServiceImpl(protocolCoordinator);
+ * const response = await service.submitMessage(message, signer, { confirmations: 1 });
+ * console.log(response.messageId);
+ */
+export class PACS008MessageServiceImpl implements PACS008MessageService {
+    private readonly coordinator: ProtocolCoordinator;
+    private readonly config: NetworkTxConfig;
+
+    /**
+     * Creates a new PACS008MessageServiceImpl instance
+     * @param coordinator ProtocolCoordinator contract instance
+     * @param config Optional transaction configuration used when options are omitted
+     */
+    constructor(coordinator: ProtocolCoordinator, config: NetworkTxConfig = DEFAULT_TX_CONFIG) {
+        this.coordinator = coordinator;
+        this.config = config;
+    }
+
+    /**
+     * Quotes the fees for a PACS.008 message
+     * @param message Message to quote
+     * @param targetChain Wormhole chain ID of the target
+     * @returns Base, delivery and total fee
+     */
+    async quoteFee(
+        message: PACS008Message,
+        targetChain: number = LOCAL_CHAIN_ID
+    ): Promise<MessageFeeQuote> {
+        const [baseFee, deliveryFee] = await this.coordinator.quoteMessageFee(
+            this.buildSubmission(message, targetChain)
+        );
+
+        return { baseFee, deliveryFee, totalFee: baseFee + deliveryFee };
+    }
+
+    /**
+     * Encodes, quotes and submits a PACS.008 message
+     * @param message Message to submit
+     * @param signer Account paying for and submitting the message
+     * @param options Confirmation options
+     * @returns Submission response with receipt, messageId and decoded events
+     * @throws Error if the transaction cannot be broadcast
+     */
+    async submitMessage(
+        message: PACS008Message,
+        signer: Signer,
+        options: MessageSubmissionOptions = {}
+    ): Promise<MessageSubmissionResponse> {
+        const targetChain = options.targetChain ?? LOCAL_CHAIN_ID;
+        const confirmations = options.confirmations ?? this.config.confirmations;
+        const timeout = options.timeout ?? this.config.timeout;
+
+        const submission = this.buildSubmission(message, targetChain);
+        const fees = await this.quoteFee(message, targetChain);
+
+        const transaction = await this.coordinator
+            .connect(signer)
+            .submitMessage(submission, { value: fees.totalFee });
+
+        const response: MessageSubmissionResponse = {
+            transaction,
+            status: TransactionStatus.PENDING,
+            fees,
+            events: [],
+        };
+
+        if (confirmations === 0) {
+            return response;
+        }
+
+        const receipt = await waitForReceipt(transaction, confirmations, timeout);
+
+        if (receipt === undefined) {
+            response.status = TransactionStatus.TIMEOUT;
+            return response;
+        }
+
+        response.receipt = receipt;
+        response.status = receipt.status === 1
+            ? TransactionStatus.CONFIRMED
+            : TransactionStatus.FAILED;
+        response.messageId = this.extractMessageId(receipt);
+
+        if (options.decodeEvents) {
+            response.events = this.decodeEvents(receipt);
+        }
+
+        return response;
+    }
+
+    /**
+     * Extracts the message ID from a submission receipt
+     * @param receipt Receipt of a submitMessage transaction
+     * @returns Message ID, or undefined if the event is missing
+     */
+    extractMessageId(receipt: ContractTransactionReceipt): string | undefined {
+        return extractMessageId(receipt);
+    }
+
+    /**
+     * Decodes every protocol event contained in a receipt
+     * @param receipt Transaction receipt
+     * @returns Decoded events in log order
+     */
+    decodeEvents(receipt: ContractTransactionReceipt): DecodedProtocolEvent[] {
+        return decodeProtocolEvents(receipt);
+    }
+
+    /**
+     * Builds the coordinator submission struct for a message
+     * Target chains the router cannot reach are rejected before any call; cross-chain
+     * payloads are translated for WormholeSettlementReceiver.
+     */
+    private buildSubmission(message: PACS008Message, targetChain: number) {
+        return {
+            messageType: MESSAGE_TYPE_PACS008,
+            target: message.handlerAddr,
+            targetChain: validateTargetChain(targetChain),
+            payload: encodeRoutedPACS008Payload(message, targetChain),
+        };
+    }
+}
@@ -0,0 +1,261 @@
+import { ethers } from "ethers";
+import {
+    MessageRouter,
+    MessageRouter__factory,
+    TargetRegistry,
+    TargetRegistry__factory,
+    WormholeSettlementReceiver,
+    WormholeSettlementReceiver__factory,
+} from "../../typechain";
+import { ChainInfo, ChainPairStep, PeerDeployment, PeerLinkResult, PeerVerification, TargetType } from "../types";
+import { getContractAddress } from "../utils/address-book";
+import { configureChainPair, findChainByEvmChainId } from "../utils/chain-registry";
+import { encodeCrossChainEnvelope, encodeSettlementInstruction } from "../utils/cross-chain-envelope";
+import { WormholeRelaySimulator } from "./wormhole-relay-simulator";
+
+/** Metadata of the remote receivers registered as targets */
+const RECEIVER_METADATA = "SETTLEMENT_RECEIVER";
+
+/**
+ * Wires two deployments so that each can send settlements to the other
+ *
+ * For each direction the source MessageRouter gets the delivery gas limit of the
+ * target chain and the target receiver is registered as a target on the source
+ * TargetRegistry. On the target side, the receiver accepts the source router as
+ * sender and the target TargetRegistry registers it as emitter. Calls are only
+ * sent when the on-chain state differs, so connecting twice sends nothing.
+ *
+ * Each direction is then verified with a test settlement of 1 wei of the zero address:
+ * - on local networks, the source router routes it with routeMessage and a
+ *   WormholeRelaySimulator delivers it through the target MockWormholeRelayer.
+ *   The controller records it as a failed settlement, as no pool holds that token.
+ * - elsewhere, the envelope the source router would send is passed to
+ *   receiveWormholeMessages in an eth_call from the target relayer address, so
+ *   nothing is settled.
+ *
+ * @example
+ * const connector = new PeerConnector(
+ *     { chain: getChain("sepolia"), book: loadAddressBook("sepolia"), signer: sepoliaSigner },
+ *     { chain: getChain("arbitrum-sepolia"), book: loadAddressBook("arbitrum-sepolia"), signer: arbitrumSigner }
+ * );
+ * const results = await connector.connect();
+ */
+export class PeerConnector {
+    private readonly a: PeerDeployment;
+    private readonly b: PeerDeployment;
+
+    /**
+     * Creates a new PeerConnector instance
+     * @param a First deployment
+     * @param b Second deployment
+     */
+    constructor(a: PeerDeployment, b: PeerDeployment) {
+        if (a.chain.network === b.chain.network) {
+            throw new Error(`PeerConnector: Cannot connect ${a.chain.network} to itself`);
+        }
+        this.a = a;
+        this.b = b;
+    }
+
+    /**
+     * Wires and verifies both directions
+     * A direction whose target has no WormholeSettlementReceiver is reported with an error.
+     * @returns One result per direction, a to b first
+     */
+    async connect(): Promise<PeerLinkResult[]> {
+        return [await this.link(this.a, this.b), await this.link(this.b, this.a)];
+    }
+
+    private async link(source: PeerDeployment, target: PeerDeployment): Promise<PeerLinkResult> {
+        const result: PeerLinkResult = {
+            source: source.chain.network,
+            target: target.chain.network,
+            steps: [],
+            verified: false,
+        };
+        if (!target.book.contracts.WormholeSettlementReceiver) {
+            result.error = `No WormholeSettlementReceiver deployed on ${target.chain.network}`;
+            return result;
+        }
+
+        const router = MessageRouter__factory.connect(getContractAddress(source.book, "MessageRouter"), source.signer);
+        const receiver = WormholeSettlementReceiver__factory.connect(
+            getContractAddress(target.book, "WormholeSettlementReceiver"),
+            target.signer
+        );
+        const sourceRegistry = TargetRegistry__factory.connect(getContractAddress(source.book, "TargetRegistry"), source.signer);
+        const targetRegistry = TargetRegistry__factory.connect(getContractAddress(target.book, "TargetRegistry"), target.signer);
+
+        try {
+            result.steps.push(
+                ...(await configureChainPair(
+                    { chain: source.chain, router },
+                    { chain: target.chain, receiver },
+                    source.book.contracts.MessageRouter.blockNumber
+                ))
+            );
+            result.steps.push(await registerTarget(sourceRegistry, await receiver.getAddress(), target.chain));
+            result.steps.push(await registerEmitter(targetRegistry, await router.getAddress(), source.chain));
+
+            result.verification = await this.verify(source, target, router, receiver);
+            result.verified = true;
+        } catch (error) {
+            result.error = (error as Error).message;
+        }
+        return result;
+    }
+
+    /**
+     * Checks that the source router accepts the receiver and the receiver accepts a delivery from the router
+     * @returns How the test settlement reached the receiver
+     */
+    private async verify(
+        source: PeerDeployment,
+        target: PeerDeployment,
+        router: MessageRouter,
+        receiver: WormholeSettlementReceiver
+    ): Promise<PeerVerification> {
+        const receiverAddress = await receiver.getAddress();
+        if (!(await router.canRouteToTarget(receiverAddress, target.chain.wormholeChainId))) {
+            throw new Error(`PeerConnector: MessageRouter on ${source.chain.network} cannot route to ${receiverAddress}`);
+        }
+
+        const payload = encodeSettlementInstruction({
+            token: ethers.ZeroAddress,
+            amount: 1n,
+            recipient: await target.signer.getAddress(),
+        });
+        // Fails if the source relayer cannot quote deliveries to the target chain
+        const fee = await router.quoteRoutingFee(target.chain.wormholeChainId, ethers.dataLength(payload));
+        const messageId = ethers.id(`peers:connect ${source.chain.network} ${target.chain.network} ${Date.now()}`);
+
+        if ((await isLocal(source)) && (await isLocal(target))) {
+            await this.relay(source, target, router, receiver, messageId, payload, fee);
+            return "relay";
+        }
+
+        // The coordinator calls routeMessage, so it is the sender in the envelope
+        const envelope = encodeCrossChainEnvelope({
+            messageId,
+            sender: source.book.contracts.ProtocolCoordinator?.address ?? (await source.signer.getAddress()),
+            target: receiverAddress,
+            payload,
+        });
+
+        try {
+            await receiver.connect(target.signer.provider).receiveWormholeMessages.staticCall(
+                envelope,
+                [],
+                ethers.zeroPadValue(await router.getAddress(), 32),
+                source.chain.wormholeChainId,
+                ethers.id(envelope),
+                { from: await receiver.wormholeRelayer() }
+            );
+        } catch (error) {
+            const reason = (error as { reason?: string }).reason ?? (error as Error).message;
+            throw new Error(`PeerConnector: Receiver on ${target.chain.network} rejected the test settlement: ${reason}`);
+        }
+        return "call";
+    }
+
+    /**
+     * Routes the test settlement from the source router and delivers it with a WormholeRelaySimulator
+     * The signer of the source deployment needs the ROUTER_ROLE of the router.
+     */
+    private async relay(
+        source: PeerDeployment,
+        target: PeerDeployment,
+        router: MessageRouter,
+        receiver: WormholeSettlementReceiver,
+        messageId: string,
+        payload: string,
+        fee: bigint
+    ): Promise<void> {
+        const transaction = await router.routeMessage(
+            messageId,
+            await receiver.getAddress(),
+            target.chain.wormholeChainId,
+            payload,
+            { value: fee }
+        );
+        const receipt = (await transaction.wait())!;
+
+        // Only the send of the routing block is picked up
+        const simulator = new WormholeRelaySimulator([
+            {
+                name: source.chain.network,
+                wormholeChainId: source.chain.wormholeChainId,
+                relayer: await router.wormholeRelayer(),
+                signer: source.signer,
+                startBlock: receipt.blockNumber,
+            },
+            {
+                name: target.chain.network,
+                wormholeChainId: target.chain.wormholeChainId,
+                relayer: await receiver.wormholeRelayer(),
+                signer: target.signer,
+                startBlock: (await target.signer.provider!.getBlockNumber()) + 1,
+            },
+        ]);
+        const delivery = (await simulator.flush()).find(
+            ({ message }) => message.sourceTransactionHash === receipt.hash
+        );
+
+        if (!delivery) {
+            throw new Error(`PeerConnector: MessageRouter on ${source.chain.network} sent no test settlement`);
+        }
+        if (delivery.status !== "delivered") {
+            throw new Error(
+                `PeerConnector: Receiver on ${target.chain.network} rejected the test settlement: ${delivery.error}`
+            );
+        }
+    }
+}
+
+/**
+ * Whether a deployment runs on a local network, where Wormhole is mocked
+ */
+async function isLocal(deployment: PeerDeployment): Promise<boolean> {
+    const { chainId } = await deployment.signer.provider!.getNetwork();
+    return findChainByEvmChainId(chainId)?.local ?? false;
+}
+
+/**
+ * Registers the remote receiver as a target on the source TargetRegistry
+ */
+async function registerTarget(registry: TargetRegistry, receiver: string, chain: ChainInfo): Promise<ChainPairStep> {
+    const step: ChainPairStep = {
+        call: "TargetRegistry.registerTarget",
+        args: [receiver, chain.wormholeChainId, TargetType.CONTRACT, RECEIVER_METADATA],
+        status: "unchanged",
+    };
+    if (!(await registry.isValidTarget(receiver, chain.wormholeChainId))) {
+        const transaction = await registry.registerTarget(
+            receiver,
+            chain.wormholeChainId,
+            TargetType.CONTRACT,
+            ethers.toUtf8Bytes(RECEIVER_METADATA)
+        );
+        await transaction.wait();
+        Object.assign(step, { status: "sent", transactionHash: transaction.hash });
+    }
+    return step;
+}
+
+/**
+ * Registers the remote router as an emitter on the target TargetRegistry
+ */
+async function registerEmitter(registry: TargetRegistry, router: string, chain: ChainInfo): Promise<ChainPairStep> {
+    const emitter = ethers.zeroPadValue(router, 32);
+    const step: ChainPairStep = {
+        call: "TargetRegistry.registerEmitter",
+        args: [emitter, chain.wormholeChainId],
+        status: "unchanged",
+    };
+    if (!(await registry.isValidEmitter(emitter, chain.wormholeChainId))) {
+        const transaction = await registry.registerEmitter(emitter, chain.wormholeChainId);
+        await transaction.wait();
+        Object.assign(step, { status: "sent", transactionHash: transaction.hash });
+    }
+    return step;
+}
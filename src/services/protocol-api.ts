@@ -0,0 +1,457 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { ethers, Provider } from "ethers";
+import {
+    LiquidityPool__factory,
+    MessageRegistry__factory,
+    ProtocolCoordinator__factory,
+    ProtocolGovernance__factory,
+    SettlementController__factory,
+} from "../../typechain";
+import {
+    AddressBook,
+    ApiConfig,
+    ApiMessage,
+    ApiMessageList,
+    ApiMessageSummary,
+    ApiPool,
+    ApiProposal,
+    GFSSettlement,
+    MessageStatus,
+    MessageStatusName,
+    ProtocolApiOptions,
+    tEthereumAddress,
+} from "../types";
+import { getContractAddress } from "../utils/address-book";
+import { extractPACS008Payload } from "../utils/cross-chain-envelope";
+import { queryFilterInChunks } from "../utils/log-query";
+import { decodePACS008Payload } from "../utils/pacs008-codec";
+import {
+    decodeCoordinatorConfig,
+    decodeMessageResult,
+    decodeSettlement,
+    toMessageStatusName,
+    toProposalTypeName,
+} from "../utils/protocol-decoders";
+import { IndexerStore } from "./indexer-store";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/** Message found in the coordinator or registry events */
+interface MessageLocation {
+    messageId: string;
+    /** Submitting account, the zero address for messages registered outside the coordinator */
+    sender: tEthereumAddress;
+    blockNumber: number;
+    logIndex: number;
+}
+
+/**
+ * Error answered with its HTTP status
+ */
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+type Route = (params: string[], query: URLSearchParams) => Promise<unknown>;
+
+/**
+ * Read-only HTTP/JSON API over the protocol contracts of an address book
+ *
+ * Every route reads from chain. When an index written by the EventIndexer is
+ * configured, listings are served from it and single records are completed with
+ * their indexed view. Amounts are serialized as decimal strings.
+ *
+ * Routes:
+ * - GET /messages/:id
+ * - GET /messages?sender=&target=&status=&token=&limit=&offset=
+ * - GET /settlements/:id
+ * - GET /pools/:token
+ * - GET /proposals/:id
+ * - GET /config
+ *
+ * @example
+ * const api = new ProtocolApiServer(new ethers.JsonRpcProvider(url), loadAddressBook("sepolia"));
+ * const address = await api.listen(8080);
+ */
+export class ProtocolApiServer {
+    private readonly provider: Provider;
+    private readonly book: AddressBook;
+    private readonly index?: IndexerStore;
+    private readonly pageSize: number;
+    private readonly server: http.Server;
+    private readonly routes: [RegExp, Route][];
+
+    /**
+     * Creates a new ProtocolApiServer instance
+     * @param provider Provider of the address book's network
+     * @param book Address book of the protocol contracts
+     * @param options Optional index and paging
+     */
+    constructor(provider: Provider, book: AddressBook, options: ProtocolApiOptions = {}) {
+        this.provider = provider;
+        this.book = book;
+        this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+        if (options.indexDatabase) {
+            this.index = new IndexerStore(options.indexDatabase);
+            this.index.bind(book.network, book.chainId);
+        }
+
+        this.routes = [
+            [/^\/messages\/([^/]+)$/, ([id]) => this.getMessage(id)],
+            [/^\/messages$/, (_, query) => this.listMessages(query)],
+            [/^\/settlements\/([^/]+)$/, ([id]) => this.getSettlement(id)],
+            [/^\/pools\/([^/]+)$/, ([token]) => this.getPool(token)],
+            [/^\/proposals\/([^/]+)$/, ([id]) => this.getProposal(id)],
+            [/^\/config$/, () => this.getConfig()],
+        ];
+        this.server = http.createServer((request, response) => this.handle(request, response));
+    }
+
+    /**
+     * Starts listening
+     * @param port Port, 0 for a random one
+     * @param host Interface to bind
+     * @returns Bound address
+     */
+    listen(port: number = 0, host: string = "127.0.0.1"): Promise<AddressInfo> {
+        return new Promise((resolve, reject) => {
+            this.server.once("error", reject);
+            this.server.listen(port, host, () => resolve(this.server.address() as AddressInfo));
+        });
+    }
+
+    /**
+     * Stops listening and closes the index
+     */
+    async close(): Promise<void> {
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+        this.index?.close();
+    }
+
+    /**
+     * Returns a message of the MessageRegistry
+     * @param id Message ID
+     * @throws Error (404) if the message does not exist
+     */
+    async getMessage(id: string): Promise<ApiMessage> {
+        const messageId = parseBytes32(id, "message ID");
+        const registry = MessageRegistry__factory.connect(this.address("MessageRegistry"), this.provider);
+        if (!(await registry.messageExists(messageId))) {
+            throw new HttpError(404, `Message ${messageId} not found`);
+        }
+
+        const message = await registry.getMessage(messageId);
+        const status = toMessageStatusName(message.status);
+        const pacs008 = extractPACS008Payload(message.payload);
+        const result: ApiMessage = {
+            messageId,
+            messageType: message.messageType,
+            messageHash: message.messageHash,
+            sender: message.sender,
+            target: message.target,
+            targetChain: Number(message.targetChain),
+            timestamp: Number(message.timestamp),
+            status,
+            payload: message.payload,
+            pacs008: pacs008 ? decodePACS008Payload(pacs008) : undefined,
+            indexed: this.index?.getMessage(messageId),
+        };
+
+        if (status !== "PENDING") {
+            const coordinator = ProtocolCoordinator__factory.connect(this.address("ProtocolCoordinator"), this.provider);
+            const [success, raw] = await coordinator.getMessageResult(messageId);
+            result.result = decodeMessageResult(success, raw);
+        }
+        return result;
+    }
+
+    /**
+     * Lists messages by submitting account, target, status or token, newest first
+     * Without an index, sender or target is required and token is not supported;
+     * messages are then ordered by their events and only the page is read from chain.
+     *
+     * @param query sender, target, status, token, limit and offset
+     */
+    async listMessages(query: URLSearchParams): Promise<ApiMessageList> {
+        const sender = parseOptionalAddress(query.get("sender"), "sender");
+        const target = parseOptionalAddress(query.get("target"), "target");
+        const token = parseOptionalAddress(query.get("token"), "token");
+        const status = parseOptionalStatus(query.get("status"));
+        const limit = parseOptionalInteger(query.get("limit"), "limit") ?? this.pageSize;
+        const offset = parseOptionalInteger(query.get("offset"), "offset") ?? 0;
+
+        if (this.index) {
+            const messages = this.index.queryMessages({ sender, target, token, status, limit, offset });
+            return {
+                source: "index",
+                messages: messages.map(message => ({
+                    messageId: message.messageId,
+                    messageType: message.messageType,
+                    sender: message.sender,
+                    target: message.target,
+                    targetChain: message.targetChain,
+                    status: message.status,
+                    timestamp: message.registeredAt,
+                })),
+            };
+        }
+
+        if (token) {
+            throw new HttpError(400, "Filtering by token requires an index");
+        }
+        if (!sender && !target) {
+            throw new HttpError(400, "sender or target is required without an index");
+        }
+
+        let found = await this.findMessages(sender, target);
+        if (status) {
+            found = await this.filterByStatus(found, status, offset + limit);
+        }
+
+        const messages: ApiMessageSummary[] = [];
+        for (const { messageId, sender: submitter } of found.slice(offset, offset + limit)) {
+            const message = await this.getMessage(messageId);
+            messages.push({
+                messageId,
+                messageType: message.messageType,
+                sender: submitter,
+                target: message.target,
+                targetChain: message.targetChain,
+                status: message.status,
+                timestamp: message.timestamp,
+            });
+        }
+        return { source: "chain", messages };
+    }
+
+    /**
+     * Returns a settlement of the SettlementController
+     * @param id Settlement ID
+     * @throws Error (404) if the settlement does not exist
+     */
+    async getSettlement(id: string): Promise<GFSSettlement> {
+        const settlementId = parseBytes32(id, "settlement ID");
+        const controller = SettlementController__factory.connect(this.address("SettlementController"), this.provider);
+        const settlement = decodeSettlement(await controller.getSettlement(settlementId));
+        if (!settlement) {
+            throw new HttpError(404, `Settlement ${settlementId} not found`);
+        }
+        return settlement;
+    }
+
+    /**
+     * Returns LiquidityPool.getPoolInfo for a token
+     * @param token Pool token
+     * @throws Error (404) if no pool exists for the token
+     */
+    async getPool(token: string): Promise<ApiPool> {
+        const address = parseAddress(token, "token");
+        const pool = LiquidityPool__factory.connect(this.address("LiquidityPool"), this.provider);
+        const info = await pool.getPoolInfo(address);
+        if (!info.isActive && info.maxLiquidity === 0n) {
+            throw new HttpError(404, `No pool for token ${address}`);
+        }
+
+        return {
+            token: address,
+            totalLiquidity: info.totalLiquidity,
+            availableLiquidity: info.availableLiquidity,
+            lockedLiquidity: info.lockedLiquidity,
+            minLiquidity: info.minLiquidity,
+            maxLiquidity: info.maxLiquidity,
+            isActive: info.isActive,
+        };
+    }
+
+    /**
+     * Returns a proposal of ProtocolGovernance
+     * @param id Proposal ID
+     * @throws Error (404) if the proposal does not exist
+     */
+    async getProposal(id: string): Promise<ApiProposal> {
+        const proposalId = parseOptionalInteger(id, "proposal ID")!;
+        const governance = ProtocolGovernance__factory.connect(this.address("ProtocolGovernance"), this.provider);
+        const proposal = await governance.getProposal(proposalId);
+        if (proposal.proposer === ethers.ZeroAddress) {
+            throw new HttpError(404, `Proposal ${proposalId} not found`);
+        }
+
+        return {
+            proposalId: proposal.id,
+            proposalType: toProposalTypeName(proposal.proposalType),
+            proposer: proposal.proposer,
+            data: proposal.data,
+            timestamp: Number(proposal.timestamp),
+            executed: proposal.executed,
+            votesFor: proposal.votesFor,
+            votesAgainst: proposal.votesAgainst,
+            voters: this.index?.getProposal(proposal.id)?.voters,
+        };
+    }
+
+    /**
+     * Returns the deployment and the decoded coordinator configuration
+     */
+    async getConfig(): Promise<ApiConfig> {
+        const coordinator = ProtocolCoordinator__factory.connect(this.address("ProtocolCoordinator"), this.provider);
+
+        return {
+            network: this.book.network,
+            chainId: this.book.chainId,
+            addressBookVersion: this.book.version,
+            contracts: Object.fromEntries(Object.entries(this.book.contracts).map(([name, entry]) => [name, entry.address])),
+            coordinator: decodeCoordinatorConfig(await coordinator.getProtocolConfig()),
+            indexedBlock: this.index?.lastBlock,
+        };
+    }
+
+    private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+        const url = new URL(request.url ?? "/", "http://localhost");
+
+        try {
+            if (request.method !== "GET") {
+                throw new HttpError(405, `Method ${request.method} not allowed`);
+            }
+            const match = this.routes
+                .map(([pattern, route]) => [pattern.exec(url.pathname), route] as const)
+                .find(([params]) => params);
+            if (!match) {
+                throw new HttpError(404, `No route for ${url.pathname}`);
+            }
+
+            const [params, route] = match;
+            send(response, 200, await route(params!.slice(1).map(decodePathParam), url.searchParams));
+        } catch (error) {
+            const status = error instanceof HttpError ? error.status : 500;
+            send(response, status, { error: (error as Error).message });
+        }
+    }
+
+    /**
+     * Finds messages and their submitting account, newest first
+     * The registry records the coordinator as sender, so submitters come from its events.
+     */
+    private async findMessages(sender?: tEthereumAddress, target?: tEthereumAddress): Promise<MessageLocation[]> {
+        const coordinator = ProtocolCoordinator__factory.connect(this.address("ProtocolCoordinator"), this.provider);
+        const submissions = await queryFilterInChunks(
+            coordinator,
+            coordinator.filters.MessageSubmissionInitiated(undefined, sender),
+            this.book.contracts.ProtocolCoordinator.blockNumber ?? 0
+        );
+        const submitters = new Map(submissions.map(event => [event.args.messageId, event.args.sender]));
+
+        let found: MessageLocation[];
+        if (!target) {
+            found = submissions.map(event => ({
+                messageId: event.args.messageId,
+                sender: event.args.sender,
+                blockNumber: event.blockNumber,
+                logIndex: event.index,
+            }));
+        } else {
+            const registry = MessageRegistry__factory.connect(this.address("MessageRegistry"), this.provider);
+            const registered = await queryFilterInChunks(
+                registry,
+                registry.filters.MessageRegistered(),
+                this.book.contracts.MessageRegistry.blockNumber ?? 0
+            );
+            found = registered
+                .filter(event => event.args.target === target && (!sender || submitters.has(event.args.messageId)))
+                .map(event => ({
+                    messageId: event.args.messageId,
+                    sender: submitters.get(event.args.messageId) ?? ethers.ZeroAddress,
+                    blockNumber: event.blockNumber,
+                    logIndex: event.index,
+                }));
+        }
+        return found.sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+    }
+
+    /**
+     * Keeps the messages in a status, reading statuses only until enough are found
+     * @param limit Number of matches after which the rest is not read
+     */
+    private async filterByStatus(
+        found: MessageLocation[],
+        status: MessageStatusName,
+        limit: number
+    ): Promise<MessageLocation[]> {
+        const registry = MessageRegistry__factory.connect(this.address("MessageRegistry"), this.provider);
+        const matches: MessageLocation[] = [];
+        for (const location of found) {
+            if (matches.length >= limit) {
+                break;
+            }
+            if (toMessageStatusName(await registry.getMessageStatus(location.messageId)) === status) {
+                matches.push(location);
+            }
+        }
+        return matches;
+    }
+
+    private address(name: string): tEthereumAddress {
+        try {
+            return getContractAddress(this.book, name);
+        } catch (error) {
+            throw new HttpError(503, (error as Error).message);
+        }
+    }
+}
+
+/**
+ * Writes a JSON response, bigints as decimal strings
+ */
+function send(response: http.ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body, (_, value) => (typeof value === "bigint" ? value.toString() : value)));
+}
+
+function decodePathParam(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        throw new HttpError(400, `Invalid path parameter ${value}`);
+    }
+}
+
+function parseBytes32(value: string, label: string): string {
+    if (!ethers.isHexString(value, 32)) {
+        throw new HttpError(400, `Invalid ${label} ${value}`);
+    }
+    return value.toLowerCase();
+}
+
+function parseAddress(value: string, label: string): tEthereumAddress {
+    if (!ethers.isAddress(value)) {
+        throw new HttpError(400, `Invalid ${label} ${value}`);
+    }
+    return ethers.getAddress(value);
+}
+
+function parseOptionalAddress(value: string | null, label: string): tEthereumAddress | undefined {
+    return value === null ? undefined : parseAddress(value, label);
+}
+
+function parseOptionalInteger(value: string | null, label: string): number | undefined {
+    if (value === null) {
+        return undefined;
+    }
+    if (!/^\d+$/.test(value)) {
+        throw new HttpError(400, `Invalid ${label} ${value}`);
+    }
+    return Number(value);
+}
+
+function parseOptionalStatus(value: string | null): MessageStatusName | undefined {
+    if (value === null) {
+        return undefined;
+    }
+    const status = value.toUpperCase();
+    if (!(status in MessageStatus) || !isNaN(Number(status))) {
+        throw new HttpError(400, `Invalid status ${value}`);
+    }
+    return status as MessageStatusName;
+}
@@ -0,0 +1,237 @@
+import { ethers } from "ethers";
+import { MockWormholeRelayer, MockWormholeRelayer__factory } from "../../typechain";
+import {
+    RelayChainConfig,
+    RelayDelivery,
+    RelayedMessage,
+    RelaySimulatorOptions,
+} from "../types";
+
+interface RelayChain {
+    config: RelayChainConfig;
+    relayer: MockWormholeRelayer;
+    /** Next block to scan for SendEvent logs */
+    nextBlock: number;
+}
+
+/**
+ * In-process stand-in for the Wormhole relayer network
+ *
+ * Watches the SendEvent logs of the MockWormholeRelayer on every configured chain and
+ * delivers each send through the MockWormholeRelayer of its target chain, which calls
+ * receiveWormholeMessages on the receiver. Delivery can be delayed, dropped or
+ * duplicated to exercise the failure modes of a real relay.
+ *
+ * Chains are matched by Wormhole chain ID, so two deployments on a single Hardhat
+ * network can stand for two chains.
+ *
+ * @example
+ * const relay = new WormholeRelaySimulator([
+ *     { name: "source", wormholeChainId: 10002, relayer: sourceRelayer, signer: admin },
+ *     { name: "destination", wormholeChainId: 10003, relayer: destinationRelayer, signer: admin },
+ * ]);
+ * await router.routeMessage(messageId, receiver, 10003, payload, { value: fee });
+ * const [delivery] = await relay.flush();
+ */
+export class WormholeRelaySimulator {
+    private readonly chains = new Map<number, RelayChain>();
+    private readonly options: Required<RelaySimulatorOptions>;
+    private readonly queue: RelayedMessage[] = [];
+    private readonly history: RelayDelivery[] = [];
+    private timer?: NodeJS.Timeout;
+    private pass?: Promise<RelayDelivery[]>;
+
+    /**
+     * Creates a new WormholeRelaySimulator instance
+     * @param chains Chains to relay between
+     * @param options Delay, drop and duplicate behaviour
+     */
+    constructor(chains: RelayChainConfig[], options: RelaySimulatorOptions = {}) {
+        for (const config of chains) {
+            if (this.chains.has(config.wormholeChainId)) {
+                throw new Error(`WormholeRelaySimulator: Duplicate chain ${config.wormholeChainId}`);
+            }
+            this.chains.set(config.wormholeChainId, {
+                config,
+                relayer: MockWormholeRelayer__factory.connect(config.relayer, config.signer),
+                nextBlock: config.startBlock ?? 0,
+            });
+        }
+
+        this.options = {
+            delayBlocks: options.delayBlocks ?? 0,
+            delayMs: options.delayMs ?? 0,
+            dropRate: options.dropRate ?? 0,
+            duplicateRate: options.duplicateRate ?? 0,
+            random: options.random ?? Math.random,
+            pollInterval: options.pollInterval ?? 1000,
+        };
+    }
+
+    /** Every delivery made so far, in order */
+    get deliveries(): readonly RelayDelivery[] {
+        return this.history;
+    }
+
+    /** Sends observed but not delivered yet */
+    get pending(): readonly RelayedMessage[] {
+        return this.queue;
+    }
+
+    /**
+     * Picks up the new sends of every chain
+     * @returns Sends observed in this call
+     */
+    async poll(): Promise<RelayedMessage[]> {
+        const observed: RelayedMessage[] = [];
+
+        for (const chain of this.chains.values()) {
+            const head = await chain.relayer.runner!.provider!.getBlockNumber();
+            if (head < chain.nextBlock) {
+                continue;
+            }
+
+            const events = await chain.relayer.queryFilter(chain.relayer.filters.SendEvent(), chain.nextBlock, head);
+            for (const event of events) {
+                const { sequence, targetChain, targetAddress, sender, payload, receiverValue, gasLimit } = event.args;
+                observed.push({
+                    sequence,
+                    sourceChain: chain.config.wormholeChainId,
+                    targetChain: Number(targetChain),
+                    sourceAddress: sender,
+                    targetAddress,
+                    payload,
+                    receiverValue,
+                    gasLimit,
+                    deliveryHash: ethers.solidityPackedKeccak256(["uint64", "uint16"], [sequence, targetChain]),
+                    sourceTransactionHash: event.transactionHash,
+                    sourceBlockNumber: event.blockNumber,
+                    observedAt: Date.now(),
+                });
+            }
+            chain.nextBlock = head + 1;
+        }
+
+        this.queue.push(...observed);
+        return observed;
+    }
+
+    /**
+     * Polls the chains and delivers the sends whose delay has elapsed
+     * @returns Deliveries made in this pass
+     */
+    async relay(): Promise<RelayDelivery[]> {
+        await this.poll();
+
+        const ready: RelayedMessage[] = [];
+        for (const message of this.queue) {
+            if (await this.isReady(message)) {
+                ready.push(message);
+            }
+        }
+        return this.deliverAll(ready);
+    }
+
+    /**
+     * Polls the chains and delivers every pending send, ignoring the delay
+     * @returns Deliveries made
+     */
+    async flush(): Promise<RelayDelivery[]> {
+        await this.poll();
+        return this.deliverAll([...this.queue]);
+    }
+
+    /**
+     * Relays continuously every pollInterval ms until stop is called
+     */
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => {
+            if (!this.pass) {
+                this.pass = this.relay()
+                    .catch(error => {
+                        console.error(`WormholeRelaySimulator: ${(error as Error).message}`);
+                        return [];
+                    })
+                    .finally(() => (this.pass = undefined));
+            }
+        }, this.options.pollInterval);
+    }
+
+    /**
+     * Stops relaying and waits for the current pass to finish
+     */
+    async stop(): Promise<void> {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        await this.pass;
+    }
+
+    private async isReady(message: RelayedMessage): Promise<boolean> {
+        const { delayBlocks, delayMs } = this.options;
+        if (Date.now() - message.observedAt < delayMs) {
+            return false;
+        }
+        if (delayBlocks === 0) {
+            return true;
+        }
+        const source = this.chains.get(message.sourceChain)!;
+        const head = await source.relayer.runner!.provider!.getBlockNumber();
+        return head - message.sourceBlockNumber >= delayBlocks;
+    }
+
+    private async deliverAll(messages: RelayedMessage[]): Promise<RelayDelivery[]> {
+        const deliveries: RelayDelivery[] = [];
+
+        for (const message of messages) {
+            this.queue.splice(this.queue.indexOf(message), 1);
+
+            if (this.options.random() < this.options.dropRate) {
+                deliveries.push({ message, status: "dropped", duplicate: false });
+                continue;
+            }
+
+            deliveries.push(await this.deliver(message, false));
+            if (this.options.random() < this.options.duplicateRate) {
+                deliveries.push(await this.deliver(message, true));
+            }
+        }
+
+        this.history.push(...deliveries);
+        return deliveries;
+    }
+
+    private async deliver(message: RelayedMessage, duplicate: boolean): Promise<RelayDelivery> {
+        const destination = this.chains.get(message.targetChain);
+        if (!destination) {
+            return { message, status: "failed", duplicate, error: `No relayer for chain ${message.targetChain}` };
+        }
+
+        try {
+            const tx = await destination.relayer.deliver(
+                message.targetAddress,
+                message.payload,
+                ethers.zeroPadValue(message.sourceAddress, 32),
+                message.sourceChain,
+                message.sequence,
+                message.deliveryHash,
+                { value: message.receiverValue }
+            );
+            const receipt = await tx.wait();
+            return { message, status: "delivered", duplicate, transactionHash: receipt!.hash };
+        } catch (error) {
+            return { message, status: "failed", duplicate, error: revertReason(error) };
+        }
+    }
+}
+
+/**
+ * Extracts the revert reason of a failed delivery
+ * Hardhat nodes only report it inside the error message.
+ */
+function revertReason(error: unknown): string {
+    const { reason, message } = error as { reason?: string; message: string };
+    return reason ?? message.match(/reverted with reason string '(.*)'/)?.[1] ?? message;
+}
@@ -0,0 +1,44 @@
+import { tEthereumAddress } from "./base";
+
+/** Current layout version of the address book files */
+export const ADDRESS_BOOK_SCHEMA_VERSION = 1;
+
+/**
+ * Deployed contract entry of an address book
+ */
+export interface AddressBookEntry {
+    /** Address to interact with (the proxy for upgradeable contracts) */
+    address: tEthereumAddress;
+    /** keccak256 of the JSON encoded ABI */
+    abiHash: string;
+    /** Implementation behind the proxy, for upgradeable contracts */
+    implementation?: tEthereumAddress;
+    /** Proxy contract, for upgradeable contracts (same as address) */
+    proxy?: tEthereumAddress;
+    /** Account that sent the deployment transaction */
+    deployer?: tEthereumAddress;
+    /** Deployment transaction */
+    transactionHash?: string;
+    /** Block of the deployment transaction */
+    blockNumber?: number;
+}
+
+/**
+ * Per-chain address book written by the deploy pipeline
+ */
+export interface AddressBook {
+    /** Layout version, see ADDRESS_BOOK_SCHEMA_VERSION */
+    schemaVersion: number;
+    /** Revision of this network's book, bumped whenever an entry changes */
+    version: number;
+    /** Hardhat network name */
+    network: string;
+    /** EVM chain ID */
+    chainId: number;
+    /** Account running the deployment */
+    deployer: tEthereumAddress;
+    /** ISO 8601 timestamp of the last change */
+    updatedAt: string;
+    /** Deployed contracts by deployment name */
+    contracts: Record<string, AddressBookEntry>;
+}
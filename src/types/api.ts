@@ -0,0 +1,104 @@
+import { tEthereumAddress } from "./base";
+import { IndexedMessage } from "./indexer";
+import { PACS008Message } from "./pacs-008";
+import {
+    CoordinatorConfig,
+    MessageResult,
+    MessageStatusName,
+    ProposalTypeName,
+} from "./protocol";
+
+/**
+ * Options of the read-only protocol API
+ */
+export interface ProtocolApiOptions {
+    /** SQLite index written by the event indexer, used for listings when present */
+    indexDatabase?: string;
+    /** Default page size of listings (defaults to 50) */
+    pageSize?: number;
+}
+
+/**
+ * Message as stored by the MessageRegistry
+ */
+export interface ApiMessage {
+    messageId: string;
+    messageType: string;
+    messageHash: string;
+    /** Registrar of the message (the ProtocolCoordinator) */
+    sender: tEthereumAddress;
+    target: tEthereumAddress;
+    targetChain: number;
+    /** Registration timestamp (seconds) */
+    timestamp: number;
+    status: MessageStatusName;
+    payload: string;
+    /** Decoded payload, for PACS.008 messages */
+    pacs008?: PACS008Message;
+    /** Processing result, once the message was processed */
+    result?: MessageResult;
+    /** Indexed view, including the submitting account, when an index is configured */
+    indexed?: IndexedMessage;
+}
+
+/**
+ * Row of a message listing
+ */
+export interface ApiMessageSummary {
+    messageId: string;
+    messageType: string;
+    /** Submitting account */
+    sender: tEthereumAddress;
+    target: tEthereumAddress;
+    targetChain: number;
+    status: MessageStatusName;
+    timestamp: number;
+}
+
+export interface ApiMessageList {
+    /** Where the listing was read from */
+    source: "index" | "chain";
+    messages: ApiMessageSummary[];
+}
+
+/**
+ * LiquidityPool.getPoolInfo of a token
+ */
+export interface ApiPool {
+    token: tEthereumAddress;
+    totalLiquidity: bigint;
+    availableLiquidity: bigint;
+    lockedLiquidity: bigint;
+    minLiquidity: bigint;
+    maxLiquidity: bigint;
+    isActive: boolean;
+}
+
+/**
+ * Proposal as stored by ProtocolGovernance
+ */
+export interface ApiProposal {
+    proposalId: bigint;
+    proposalType: ProposalTypeName;
+    proposer: tEthereumAddress;
+    data: string;
+    timestamp: number;
+    executed: boolean;
+    votesFor: bigint;
+    votesAgainst: bigint;
+    /** Number of votes cast, when an index is configured */
+    voters?: number;
+}
+
+/**
+ * Deployment and decoded ProtocolCoordinator.getProtocolConfig
+ */
+export interface ApiConfig {
+    network: string;
+    chainId: number;
+    addressBookVersion: number;
+    contracts: Record<string, tEthereumAddress>;
+    coordinator: CoordinatorConfig;
+    /** Last block of the index, when an index is configured */
+    indexedBlock?: number;
+}
@@ -27,11 +27,13 @@ export enum eArbitrumNetwork {
     arbitrum = "arbitrum",
     arbitrumTestnet = "arbitrum-testnet",
     goerliNitro = "arbitrum-goerli",
+    arbitrumSepolia = "arbitrum-sepolia",
 }
 
 export enum eOptimismNetwork {
     main = "optimism",
     testnet = "optimism-testnet",
+    sepolia = "optimism-sepolia",
 }
 
 export enum eEthereumNetwork {
@@ -47,11 +49,13 @@ export enum eEthereumNetwork {
 export enum eBaseNetwork {
     base = "base",
     baseGoerli = "base-goerli",
+    baseSepolia = "base-sepolia",
 }
 
 export enum ePolygonNetwork {
     polygon = "polygon",
     mumbai = "mumbai",
+    amoy = "amoy",
 }
 
 export enum eHarmonyNetwork {
@@ -0,0 +1,88 @@
+import { tEthereumAddress } from "./base";
+import { PACS008Message } from "./pacs-008";
+
+/**
+ * State of an instruction in a batch report
+ * - PENDING: not broadcast yet
+ * - SUBMITTED: broadcast, waiting for its receipt
+ * - CONFIRMED: mined and successful
+ * - FAILED: rejected, reverted or dropped
+ */
+export type BatchEntryStatus = "PENDING" | "SUBMITTED" | "CONFIRMED" | "FAILED";
+
+/**
+ * Instruction of a batch
+ */
+export interface BatchInstruction {
+    /** Key of the instruction in the report, defaults to message.instructionId */
+    id?: string;
+    message: PACS008Message;
+    /** Wormhole chain ID of the target, defaults to local routing */
+    targetChain?: number;
+}
+
+/**
+ * Options of the batch submitter
+ */
+export interface BatchSubmitterOptions {
+    /** JSON report written after every change and resumed from when it exists */
+    reportFile?: string;
+    /** Maximum number of unconfirmed transactions (defaults to 4) */
+    concurrency?: number;
+    /** Retries of an RPC call failing with a transient error (defaults to 3) */
+    maxRetries?: number;
+    /** Delay before the first retry, doubled on each attempt (ms, defaults to 1000) */
+    retryDelay?: number;
+    /** Confirmations to wait for (defaults to the transaction config) */
+    confirmations?: number;
+    /** Maximum time to wait for a receipt (ms, defaults to the transaction config) */
+    timeout?: number;
+    /** Whether FAILED entries of a resumed report are submitted again (defaults to false) */
+    retryFailed?: boolean;
+    /** Called whenever an entry changes */
+    onProgress?: (entry: BatchReportEntry) => void;
+}
+
+/**
+ * Outcome of one instruction
+ * Amounts are decimal strings so the report stays plain JSON.
+ */
+export interface BatchReportEntry {
+    id: string;
+    instructionId: string;
+    targetChain: number;
+    /** Transfer amount (base units) */
+    amount: string;
+    status: BatchEntryStatus;
+    /** Fee sent with the submission (wei) */
+    fee?: string;
+    nonce?: number;
+    transactionHash?: string;
+    blockNumber?: number;
+    messageId?: string;
+    /** Settlement created in the submission transaction, for locally settled messages */
+    settlementId?: string;
+    /** Broadcast attempts */
+    attempts: number;
+    error?: string;
+}
+
+/**
+ * Resumable report of a batch
+ */
+export interface BatchReport {
+    coordinator: tEthereumAddress;
+    chainId: number;
+    signer: tEthereumAddress;
+    createdAt: string;
+    updatedAt: string;
+    entries: BatchReportEntry[];
+}
+
+/**
+ * Totals of a batch report
+ */
+export type BatchSummary = Record<BatchEntryStatus, number> & {
+    /** Sum of the fees of broadcast entries (wei) */
+    fees: bigint;
+};
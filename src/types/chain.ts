@@ -0,0 +1,67 @@
+import { Signer } from "ethers";
+import { AddressBook } from "./address-book";
+import { eNetwork } from "./base";
+
+/**
+ * Identifiers of one network
+ * EVM chain IDs identify networks to wallets and RPC nodes, Wormhole chain IDs
+ * (uint16) identify them to Wormhole and to MessageSubmission.targetChain.
+ */
+export interface ChainInfo {
+    network: eNetwork;
+    /** EVM chain ID (eth_chainId) */
+    evmChainId: number;
+    /** Wormhole chain ID, LOCAL_CHAIN_ID for local networks */
+    wormholeChainId: number;
+    /** Testnet, only paired with other testnets */
+    testnet: boolean;
+    /** Local network without Wormhole, messages are routed through MessageRouter.LOCAL_CHAIN */
+    local: boolean;
+    /** Gas limit of deliveries to this chain, set on the source MessageRouter with setChainGasLimit */
+    deliveryGasLimit: number;
+}
+
+/**
+ * Setup call of a chain pair
+ */
+export interface ChainPairStep {
+    /** Call on the contract, e.g. "MessageRouter.setChainGasLimit" */
+    call: string;
+    /** Arguments of the call */
+    args: (string | number)[];
+    /** Whether the call was sent, or the on-chain value already matched */
+    status: "sent" | "unchanged";
+    transactionHash?: string;
+}
+
+/**
+ * Deployment taking part in a peer link
+ */
+export interface PeerDeployment {
+    chain: ChainInfo;
+    book: AddressBook;
+    /** Account holding the admin, operator and registrar roles of the deployment */
+    signer: Signer;
+}
+
+/**
+ * How a peer link was verified
+ * - relay: a test settlement routed by the source router and delivered by WormholeRelaySimulator
+ * - call: a test settlement passed to the receiver in an eth_call
+ */
+export type PeerVerification = "relay" | "call";
+
+/**
+ * One direction of a peer link, messages from source to target
+ */
+export interface PeerLinkResult {
+    source: eNetwork;
+    target: eNetwork;
+    steps: ChainPairStep[];
+    /** Whether the target receiver accepted the test settlement */
+    verified: boolean;
+    /** How the test settlement reached the receiver, once verified */
+    verification?: PeerVerification;
+    /** Why the direction is not usable */
+    error?: string;
+}
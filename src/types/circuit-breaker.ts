@@ -0,0 +1,90 @@
+import { tEthereumAddress } from "./base";
+
+/**
+ * Part of the protocol a circuit breaker operation applies to
+ * - ingress: entry points, new submissions and inbound Wormhole deliveries
+ * - cross-chain: contracts only involved in cross-chain traffic
+ * - routing: message validation, registration, routing and processing
+ * - settlement: handlers, settlements and liquidity
+ * - governance: proposals and votes
+ * - all: every pausable contract
+ */
+export type PauseScope = "ingress" | "cross-chain" | "routing" | "settlement" | "governance" | "all";
+
+/**
+ * Pausable contract of the circuit breaker plan
+ */
+export interface PausableContract {
+    /** Deployment name */
+    contract: string;
+    /** Deployment names of the contracts it calls */
+    dependsOn: string[];
+    /** Scopes the contract belongs to, "all" is implied */
+    scopes: Exclude<PauseScope, "all">[];
+    /** Role required by pause() */
+    pauseRole: string;
+    /** Role required by unpause() */
+    unpauseRole: string;
+    /** What stops while the contract is paused */
+    description: string;
+}
+
+/** Pausable contracts in pause order, ingress first and settlement last */
+export type CircuitBreakerPlan = readonly PausableContract[];
+
+/**
+ * Outcome for one contract
+ * - paused / unpaused: transaction sent and the new state verified
+ * - unchanged: already in the requested state
+ * - missing: not in the address book
+ * - failed: the transaction failed or the state did not change
+ * - skipped: not attempted after an earlier failure
+ */
+export type CircuitBreakerOutcome = "paused" | "unpaused" | "unchanged" | "missing" | "failed" | "skipped";
+
+/**
+ * State of one contract in a circuit breaker report
+ */
+export interface CircuitBreakerEntry {
+    contract: string;
+    address?: tEthereumAddress;
+    /** paused() before the operation */
+    pausedBefore?: boolean;
+    /** paused() after the operation */
+    pausedAfter?: boolean;
+    outcome: CircuitBreakerOutcome;
+    transactionHash?: string;
+    error?: string;
+}
+
+/**
+ * Snapshot written after a pause, unpause or status check
+ */
+export interface CircuitBreakerReport {
+    network: string;
+    chainId: number;
+    operation: "pause" | "unpause" | "status";
+    scope: PauseScope;
+    /** Account sending the transactions */
+    operator: tEthereumAddress;
+    /** ISO times of the operation */
+    startedAt: string;
+    finishedAt: string;
+    /** Block of the final state check */
+    blockNumber: number;
+    /** Problems found before any transaction was sent */
+    preflight: string[];
+    entries: CircuitBreakerEntry[];
+}
+
+/**
+ * Options of a circuit breaker operation
+ */
+export interface CircuitBreakerOptions {
+    /** Contracts to operate on (defaults to all) */
+    scope?: PauseScope;
+    /** JSON file receiving the report */
+    reportFile?: string;
+    /** Unpause even when the preflight checks find problems */
+    force?: boolean;
+}
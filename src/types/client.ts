@@ -0,0 +1,112 @@
+import { BytesLike, ContractTransactionReceipt, ContractTransactionResponse } from "ethers";
+import { tEthereumAddress } from "./base";
+import { DecodedProtocolEvent, MessageFeeQuote, TransactionStatus } from "./message-service";
+import { MessageResult, MessageStatusName, SettlementStatusName } from "./protocol";
+
+/**
+ * Addresses of a GFS deployment, keyed by contract name
+ * Only the ProtocolCoordinator is mandatory; the registry, router and
+ * processor are read from the coordinator when omitted.
+ */
+export interface GFSAddressBook {
+    ProtocolCoordinator: tEthereumAddress;
+    MessageRegistry?: tEthereumAddress;
+    MessageRouter?: tEthereumAddress;
+    MessageProcessor?: tEthereumAddress;
+    SettlementController?: tEthereumAddress;
+    [contract: string]: tEthereumAddress | undefined;
+}
+
+/**
+ * Message to submit through the ProtocolCoordinator
+ */
+export interface GFSMessageRequest {
+    /** keccak256 of the ISO 20022 message identifier */
+    messageType: string;
+    /** Handler or contract receiving the message */
+    target: tEthereumAddress;
+    /** Wormhole chain ID of the target, defaults to local routing */
+    targetChain?: number;
+    /** Encoded payload */
+    payload: BytesLike;
+}
+
+/**
+ * Options for transactions sent by the client
+ */
+export interface GFSTransactionOptions {
+    /** Number of block confirmations to wait for (0 returns right after broadcast) */
+    confirmations?: number;
+    /** Maximum time to wait for the confirmations (ms) */
+    timeout?: number;
+    /** Whether protocol events in the receipt should be decoded */
+    decodeEvents?: boolean;
+}
+
+/**
+ * Result of a client transaction
+ */
+export interface GFSTransactionResult {
+    /** Broadcast transaction */
+    transaction: ContractTransactionResponse;
+    /** Receipt, if the transaction was confirmed */
+    receipt?: ContractTransactionReceipt;
+    /** Current status of the transaction */
+    status: TransactionStatus;
+    /** Decoded protocol events (empty unless decodeEvents is set) */
+    events: DecodedProtocolEvent[];
+}
+
+/**
+ * Result of a message submission
+ */
+export interface GFSSubmitResult extends GFSTransactionResult {
+    /** Message ID, once the submission is confirmed */
+    messageId?: string;
+    /** Fees paid for the submission */
+    fees: MessageFeeQuote;
+}
+
+/**
+ * Result of a message retry
+ */
+export interface GFSRetryResult extends GFSTransactionResult {
+    /** Delivery fee paid for the retry */
+    deliveryFee: bigint;
+}
+
+/**
+ * Settlement as stored by the SettlementController
+ */
+export interface GFSSettlement {
+    settlementId: string;
+    messageId: string;
+    token: tEthereumAddress;
+    amount: bigint;
+    sender: tEthereumAddress;
+    recipient: tEthereumAddress;
+    status: SettlementStatusName;
+    /** Unix timestamp (seconds) */
+    timestamp: bigint;
+}
+
+/**
+ * Snapshot of a message across the registry, processor and settlement controller
+ */
+export interface GFSMessageState {
+    messageId: string;
+    messageType: string;
+    /** Hash stored with the message */
+    messageHash: string;
+    sender: tEthereumAddress;
+    target: tEthereumAddress;
+    targetChain: number;
+    /** Unix timestamp (seconds) of the registration */
+    timestamp: bigint;
+    payload: string;
+    status: MessageStatusName;
+    /** Decoded processing result from getMessageResult */
+    result: MessageResult;
+    /** Settlements created for the message (requires SettlementController in the address book) */
+    settlements: GFSSettlement[];
+}
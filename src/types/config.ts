@@ -10,6 +10,26 @@ export interface IBaseConfiguration {
     ReserveAssets?: iParamsPerNetwork<SymbolMap<tEthereumAddress>>;
     WormHoleCoreContracts?: iParamsPerNetwork<tEthereumAddress>;
     WormHoleRelayContracts?: iParamsPerNetwork<tEthereumAddress>;
+    /** Wormhole chain ID of each network, as used by MessageSubmission.targetChain */
+    WormholeChainIds?: iParamsPerNetwork<number>;
+    /** Hardhat network entries generated by getHardhatNetworks */
+    Networks?: iParamsPerNetwork<NetworkConnection>;
+}
+
+/**
+ * Connection settings a Hardhat network entry is generated from
+ */
+export interface NetworkConnection {
+    /** EVM chain ID */
+    chainId: number;
+    /** Environment variable holding the RPC URL */
+    rpcUrlEnv: string;
+    /** Mainnet, deployments are tagged "production" */
+    production: boolean;
+    /** RPC request timeout (ms) */
+    timeout?: number;
+    /** Safety margin applied to gas estimates */
+    gasMultiplier?: number;
 }
 
 export interface ICommonConfiguration extends IBaseConfiguration {}
@@ -0,0 +1,46 @@
+import { tEthereumAddress } from "./base";
+
+/**
+ * Outer layer of a cross-chain message, built by MessageRouter._routeCrossChain:
+ * abi.encode(bytes32 messageId, address sender, address target, bytes payload)
+ */
+export interface CrossChainEnvelope {
+    messageId: string;
+    /** Caller of routeMessage on the source chain (the ProtocolCoordinator) */
+    sender: tEthereumAddress;
+    /** Receiver on the target chain, checked against address(this) */
+    target: tEthereumAddress;
+    /** Inner payload */
+    payload: string;
+}
+
+/**
+ * Inner layer expected by WormholeSettlementReceiver:
+ * abi.encode(address token, uint256 amount, address recipient)
+ */
+export interface SettlementInstruction {
+    token: tEthereumAddress;
+    amount: bigint;
+    recipient: tEthereumAddress;
+}
+
+/**
+ * Layout of an inner payload
+ * - settlement: the receiver's ABI tuple
+ * - pacs008: the selector format of PACS008Handler
+ */
+export type CrossChainPayloadFormat = "settlement" | "pacs008" | "unknown";
+
+/**
+ * Result of checking a cross-chain message against WormholeSettlementReceiver
+ */
+export interface CrossChainPayloadInspection {
+    /** Layout of the inner payload */
+    format: CrossChainPayloadFormat;
+    /** Decoded outer layer, when the data is an envelope */
+    envelope?: CrossChainEnvelope;
+    /** Decoded inner layer, when it is a settlement instruction */
+    instruction?: SettlementInstruction;
+    /** Reasons the receiver would reject the message (empty when deliverable) */
+    issues: string[];
+}
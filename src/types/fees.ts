@@ -0,0 +1,96 @@
+import { BytesLike } from "ethers";
+import { tEthereumAddress } from "./base";
+import { MessageFeeQuote } from "./message-service";
+
+/**
+ * Options of the fee estimator
+ */
+export interface FeeEstimatorOptions {
+    /** First block searched for fee parameter updates (defaults to the MessageRouter deployment block) */
+    fromBlock?: number;
+    /** Difference with the on-chain quote tolerated without warning (wei, defaults to 0) */
+    tolerance?: bigint;
+    /** Whether every estimate is compared with quoteMessageFee (defaults to true) */
+    compareOnChain?: boolean;
+    /** Called with each divergence warning (defaults to console.warn) */
+    onWarning?: (warning: string) => void;
+}
+
+/**
+ * Submission to quote, either with its payload or only the payload size
+ */
+export interface FeeEstimateRequest {
+    targetChain: number;
+    payload?: BytesLike;
+    payloadSize?: number;
+}
+
+/**
+ * MessageRouter fee state, as set through setCrossChainFeeParameters and setChainGasLimit
+ */
+export interface RouterFeeParameters {
+    router: tEthereumAddress;
+    wormhole: tEthereumAddress;
+    wormholeRelayer: tEthereumAddress;
+    /** Wormhole chain ID routed locally */
+    localChain: number;
+    /** ProtocolCoordinator.baseFee */
+    protocolBaseFee: bigint;
+    /** BASE_LOCAL_FEE */
+    localBaseFee: bigint;
+    /** PAYLOAD_FEE_MULTIPLIER (wei per byte) */
+    localPerByteFee: bigint;
+    /** Base cross-chain processing fee */
+    crossChainBaseFee: bigint;
+    /** Cross-chain processing fee per payload byte */
+    crossChainPerByteFee: bigint;
+    /** Default delivery gas limit (GAS_LIMIT) */
+    defaultGasLimit: bigint;
+    /** Gas limits configured per Wormhole chain ID */
+    chainGasLimits: Record<number, bigint>;
+    /** Block the parameters were read at */
+    blockNumber: number;
+}
+
+/**
+ * Itemized message fee
+ */
+export interface FeeBreakdown {
+    targetChain: number;
+    payloadSize: number;
+    /** Whether the message is routed locally */
+    local: boolean;
+    /** ProtocolCoordinator.baseFee */
+    protocolBaseFee: bigint;
+    /** Base routing fee, local or cross-chain */
+    routingBaseFee: bigint;
+    /** Payload size times the per-byte routing fee */
+    payloadFee: bigint;
+    /** Delivery gas limit, for cross-chain messages */
+    gasLimit?: bigint;
+    /** Whether the gas limit was set with setChainGasLimit */
+    gasLimitConfigured?: boolean;
+    /** Wormhole relayer delivery price, for cross-chain messages */
+    wormholeDeliveryCost: bigint;
+    /** Wormhole core message fee, for cross-chain messages */
+    wormholeMessageFee: bigint;
+    /** Routing fee, the second value of quoteMessageFee */
+    deliveryFee: bigint;
+    /** Value to send with submitMessage */
+    totalFee: bigint;
+    /** quoteMessageFee at the same block, unless disabled */
+    onChain?: MessageFeeQuote;
+    /** Off-chain total minus on-chain total */
+    divergence?: bigint;
+    warnings: string[];
+}
+
+/**
+ * Quotes of a batch of submissions
+ */
+export interface FeeBatchQuote {
+    quotes: FeeBreakdown[];
+    /** Sum of the total fees */
+    totalFee: bigint;
+    warnings: string[];
+}
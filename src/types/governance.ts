@@ -0,0 +1,97 @@
+import { tEthereumAddress } from "./base";
+import { MessageSchema } from "./message-schema";
+import { ProposalTypeName, TargetTypeName } from "./protocol";
+
+/**
+ * Parameters of each ProtocolGovernance proposal type
+ * Each proposal carries the arguments of the call that enacts it once executed.
+ */
+export interface ProposalParams {
+    /** MessageProtocol.updateProtocolVersion */
+    UPDATE_PROTOCOL: {
+        major: number;
+        minor: number;
+        patch: number;
+        description: string;
+    };
+    /** MessageProtocol.registerMessageFormat, requiredFields and schema bytes come from the schema */
+    ADD_MESSAGE_TYPE: {
+        schema: MessageSchema;
+    };
+    /** MessageProtocol.updateMessageSchema */
+    UPDATE_MESSAGE_TYPE: {
+        schema: MessageSchema;
+    };
+    /** TargetRegistry.registerTarget */
+    ADD_TARGET: {
+        target: tEthereumAddress;
+        /** Wormhole chain ID */
+        chainId: number;
+        targetType: TargetTypeName;
+        /** UTF-8 metadata, e.g. "SETTLEMENT_RECEIVER" */
+        metadata: string;
+    };
+    /** TargetRegistry.updateTargetStatus(target, false) */
+    REMOVE_TARGET: {
+        target: tEthereumAddress;
+        chainId: number;
+    };
+    /** Emergency measure, e.g. pausing a contract */
+    EMERGENCY_ACTION: {
+        /** Action name, e.g. "PAUSE" */
+        action: string;
+        /** Contract the action applies to */
+        target: tEthereumAddress;
+        reason: string;
+    };
+}
+
+/**
+ * Typed proposal, before encoding
+ */
+export type ProposalDraft = {
+    [T in ProposalTypeName]: { proposalType: T; params: ProposalParams[T] };
+}[ProposalTypeName];
+
+/**
+ * Why a proposal can or cannot execute
+ */
+export interface ProposalStatusReport {
+    proposalId: bigint;
+    proposalType: ProposalTypeName;
+    proposer: tEthereumAddress;
+    /** Decoded parameters, undefined when the data was not built by encodeProposal */
+    params?: ProposalParams[ProposalTypeName];
+    data: string;
+    /** Creation time (seconds) */
+    createdAt: number;
+    /** End of the voting period (seconds), votes are accepted until then */
+    votingEndsAt: number;
+    /** Earliest execution time (seconds) */
+    executableAt: number;
+    executed: boolean;
+    votesFor: bigint;
+    votesAgainst: bigint;
+    /** Voting power of all accounts, rebuilt from VotingPowerUpdated */
+    totalVotingPower: bigint;
+    /** Share of the voting power that voted (percent, rounded down as on-chain) */
+    turnout: number;
+    /** Results of isProposalExpired, hasReachedQuorum and hasPassedExecutionDelay */
+    votingEnded: boolean;
+    quorumReached: boolean;
+    executionDelayPassed: boolean;
+    /** Executed proposal with the same data, which blocks this one */
+    duplicateOf?: bigint;
+    canExecute: boolean;
+    /** Why the proposal cannot execute yet, or warnings when it can */
+    reasons: string[];
+}
+
+/**
+ * Outcome of a governance transaction
+ */
+export interface GovernanceTxResult {
+    transactionHash: string;
+    /** Proposal created by propose */
+    proposalId?: bigint;
+}
@@ -1,4 +1,24 @@
 export * from './base';
 export * from './config';
 export * from './pacs-008';
-export * from './transaction';
\ No newline at end of file
+export * from './transaction';
+export * from './message-service';
+export * from './iso20022';
+export * from './message-schema';
+export * from './protocol';
+export * from './client';
+export * from './address-book';
+export * from './roles';
+export * from './relay';
+export * from './cross-chain';
+export * from './tracker';
+export * from './indexer';
+export * from './api';
+export * from './fees';
+export * from './batch';
+export * from './recovery';
+export * from './liquidity';
+export * from './governance';
+export * from './circuit-breaker';
+export * from './wormhole';
+export * from './chain';
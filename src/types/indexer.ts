@@ -0,0 +1,202 @@
+import { tEthereumAddress } from "./base";
+import { MessageStatusName, ProposalTypeName, SettlementStatusName } from "./protocol";
+
+/**
+ * Options of the event indexer
+ */
+export interface EventIndexerOptions {
+    /** SQLite database file (":memory:" for a throwaway index) */
+    database: string;
+    /**
+     * Block to start from on an empty database (defaults to the earliest deployment block)
+     * Vote tallies are rebuilt from VotingPowerUpdated, so a later block undercounts them.
+     */
+    fromBlock?: number;
+    /** Blocks a log must be buried under before it is indexed (defaults to TX_CONFIGS) */
+    confirmations?: number;
+    /** Polling interval (ms) while running (defaults to TX_CONFIGS) */
+    pollInterval?: number;
+    /** Maximum number of blocks per getLogs call */
+    maxBlockRange?: number;
+}
+
+/**
+ * Raw event as stored by the indexer
+ */
+export interface IndexedEvent {
+    blockNumber: number;
+    blockHash: string;
+    logIndex: number;
+    transactionHash: string;
+    /** Block timestamp (seconds) */
+    timestamp: number;
+    /** Deployment name of the emitting contract */
+    contract: string;
+    address: tEthereumAddress;
+    event: string;
+    /** Named event arguments */
+    args: Record<string, unknown>;
+    /** Immutable contract state read at the head of the pass, for values the event does not carry */
+    state: Record<string, unknown>;
+}
+
+/**
+ * Progress of an index
+ */
+export interface IndexerProgress {
+    network: string;
+    chainId: number;
+    /** Last block fully indexed, undefined before the first pass */
+    lastBlock?: number;
+    /** Number of stored events */
+    events: number;
+}
+
+/**
+ * Outcome of one indexing pass
+ */
+export interface IndexerPassResult {
+    fromBlock: number;
+    toBlock: number;
+    /** Events added in this pass */
+    events: number;
+    /** Block the index was rolled back to after a reorg, if any */
+    reorgedTo?: number;
+}
+
+/**
+ * Paging and time window shared by every query
+ */
+export interface IndexerQuery {
+    /** Earliest timestamp (seconds, inclusive) */
+    fromTime?: number;
+    /** Latest timestamp (seconds, inclusive) */
+    toTime?: number;
+    /** Maximum rows (defaults to 100) */
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * Message as projected from the MessageRegistry, ProtocolCoordinator and MessageRouter events
+ */
+export interface IndexedMessage {
+    messageId: string;
+    messageType: string;
+    /** Account that called ProtocolCoordinator.submitMessage */
+    sender: tEthereumAddress;
+    target: tEthereumAddress;
+    targetChain: number;
+    status: MessageStatusName;
+    /** Token, amount and creditor decoded from PACS.008 payloads */
+    token?: tEthereumAddress;
+    amount?: bigint;
+    recipient?: tEthereumAddress;
+    deliveryHash?: string;
+    registeredBlock: number;
+    registeredAt: number;
+    updatedBlock: number;
+    updatedAt: number;
+    transactionHash: string;
+}
+
+export interface MessageQuery extends IndexerQuery {
+    sender?: tEthereumAddress;
+    target?: tEthereumAddress;
+    status?: MessageStatusName;
+    messageType?: string;
+    token?: tEthereumAddress;
+    targetChain?: number;
+}
+
+/**
+ * Settlement as projected from the SettlementController events
+ */
+export interface IndexedSettlement {
+    settlementId: string;
+    messageId: string;
+    token: tEthereumAddress;
+    amount: bigint;
+    recipient: tEthereumAddress;
+    status: SettlementStatusName;
+    createdBlock: number;
+    createdAt: number;
+    updatedBlock: number;
+    updatedAt: number;
+}
+
+export interface SettlementQuery extends IndexerQuery {
+    messageId?: string;
+    token?: tEthereumAddress;
+    recipient?: tEthereumAddress;
+    status?: SettlementStatusName;
+}
+
+/** Kind of a LiquidityPool balance change */
+export type LiquidityMovementKind =
+    | "added"
+    | "removed"
+    | "locked"
+    | "unlocked"
+    | "released"
+    | "settled"
+    | "emergencyWithdraw";
+
+/**
+ * LiquidityPool balance change
+ */
+export interface LiquidityMovement {
+    kind: LiquidityMovementKind;
+    /** Undefined for SettlementCompleted, which does not carry the token */
+    token?: tEthereumAddress;
+    amount: bigint;
+    /** Liquidity provider of added / removed liquidity */
+    provider?: tEthereumAddress;
+    /** Recipient of a completed settlement */
+    recipient?: tEthereumAddress;
+    settlementId?: string;
+    blockNumber: number;
+    logIndex: number;
+    transactionHash: string;
+    timestamp: number;
+}
+
+export interface LiquidityMovementQuery extends IndexerQuery {
+    token?: tEthereumAddress;
+    kind?: LiquidityMovementKind;
+    provider?: tEthereumAddress;
+    settlementId?: string;
+}
+
+/**
+ * LiquidityPool pool parameters as last created or updated
+ */
+export interface IndexedPool {
+    token: tEthereumAddress;
+    minLiquidity: bigint;
+    maxLiquidity: bigint;
+    createdBlock: number;
+    updatedBlock: number;
+}
+
+/**
+ * Governance proposal as projected from the ProtocolGovernance events
+ */
+export interface IndexedProposal {
+    proposalId: bigint;
+    proposalType: ProposalTypeName;
+    proposer: tEthereumAddress;
+    votesFor: bigint;
+    votesAgainst: bigint;
+    voters: number;
+    executed: boolean;
+    createdBlock: number;
+    createdAt: number;
+    executedBlock?: number;
+}
+
+export interface ProposalQuery extends IndexerQuery {
+    proposer?: tEthereumAddress;
+    proposalType?: ProposalTypeName;
+    executed?: boolean;
+}
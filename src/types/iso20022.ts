@@ -0,0 +1,120 @@
+import { ContractRunner } from "ethers";
+import { eNetwork, SymbolMap, tEthereumAddress } from "./base";
+import { ProtocolConfiguration } from "./config";
+import { PACS008Message } from "./pacs-008";
+
+/**
+ * Identification of a financial institution (FinInstnId)
+ */
+export interface InstitutionIdentifier {
+    /** Business Identifier Code (BICFI, or BIC in older versions) */
+    bic?: string;
+    /** Legal Entity Identifier */
+    lei?: string;
+}
+
+/**
+ * Directory resolving financial institutions to on-chain addresses
+ * Implementations may be static maps, databases or the TargetRegistry
+ */
+export interface InstitutionDirectory {
+    /**
+     * Resolves an institution to its on-chain address
+     * @param institution BIC and/or LEI of the institution
+     * @returns Address, or undefined if the institution is unknown
+     */
+    resolve(institution: InstitutionIdentifier): Promise<tEthereumAddress | undefined>;
+}
+
+/**
+ * Credit transfer transaction (CdtTrfTxInf) extracted from a pacs.008 document
+ */
+export interface PACS008Transaction {
+    /** Instruction identification (PmtId/InstrId) */
+    instrId?: string;
+    /** End to end identification (PmtId/EndToEndId) */
+    endToEndId: string;
+    /** Transaction identification (PmtId/TxId) */
+    txId?: string;
+    /** Unique end-to-end transaction reference (PmtId/UETR) */
+    uetr?: string;
+    /** Decimal amount as written in the document */
+    amount: string;
+    /** ISO 4217 currency code of the amount */
+    currency: string;
+    /** Debtor agent (DbtrAgt) */
+    debtorAgent: InstitutionIdentifier;
+    /** Creditor agent (CdtrAgt) */
+    creditorAgent: InstitutionIdentifier;
+}
+
+/**
+ * Parsed pacs.008 document (FIToFICstmrCdtTrf)
+ */
+export interface PACS008Document {
+    /** Message definition version from the namespace, e.g. "pacs.008.001.08" */
+    version?: string;
+    /** Message identification (GrpHdr/MsgId) */
+    msgId: string;
+    /** Creation date time (GrpHdr/CreDtTm) */
+    creationDateTime: string;
+    /** Credit transfer transactions in document order */
+    transactions: PACS008Transaction[];
+}
+
+/**
+ * Parsed pain.001 document (CstmrCdtTrfInitn)
+ * Transactions of every payment information block are flattened, each with the
+ * debtor agent of its block
+ */
+export interface Pain001Document {
+    /** Message definition version from the namespace, e.g. "pain.001.001.09" */
+    version?: string;
+    /** Message identification (GrpHdr/MsgId) */
+    msgId: string;
+    /** Creation date time (GrpHdr/CreDtTm) */
+    creationDateTime: string;
+    /** Credit transfer transactions in document order */
+    transactions: PACS008Transaction[];
+}
+
+/**
+ * Options for converting pacs.008 or pain.001 XML into on-chain messages
+ */
+export interface PACS008ConversionOptions {
+    /** Directory used to resolve the debtor and creditor agents */
+    directory: InstitutionDirectory;
+    /** PACS008Handler receiving the messages */
+    handlerAddr: tEthereumAddress;
+    /** Network whose ReserveAssets resolve currencies to tokens */
+    network: eNetwork;
+    /** Protocol configuration, defaults to getProtocolConfig(network) */
+    config?: ProtocolConfiguration;
+    /** Maps ISO 4217 codes to ReserveAssets symbols when they differ (e.g. EUR -> EURC) */
+    currencySymbols?: SymbolMap<string>;
+    /** Known token decimals by token address, skips the on-chain lookup */
+    tokenDecimals?: Record<tEthereumAddress, number>;
+    /** Provider used to read token decimals that are not in tokenDecimals */
+    runner?: ContractRunner;
+    /**
+     * Payment identifier used as instructionId, defaults to EndToEndId
+     * Falls back to the other one, then TxId and UETR, when missing or NOTPROVIDED
+     */
+    instructionIdSource?: "EndToEndId" | "InstrId";
+}
+
+/**
+ * Result of converting one credit transfer transaction
+ */
+export interface ConvertedPACS008Message {
+    /** Message ready for PACS008MessageService / encodePACS008Payload */
+    message: PACS008Message;
+    /** Encoded on-chain payload */
+    payload: string;
+    /** keccak256 of the original XML document, kept off-chain next to payloadHash to find the source document */
+    messageHash: string;
+    /** keccak256 of the payload, as currently stored by ProtocolCoordinator */
+    payloadHash: string;
+    /** Source transaction in the document */
+    transaction: PACS008Transaction;
+}
@@ -0,0 +1,159 @@
+import { Provider } from "ethers";
+import { AddressBook } from "./address-book";
+import { tEthereumAddress } from "./base";
+
+/**
+ * State of one LiquidityPool token pool
+ * Amounts are in token base units.
+ */
+export interface PoolSnapshot {
+    token: tEthereumAddress;
+    symbol: string;
+    decimals: number;
+    isActive: boolean;
+    totalLiquidity: bigint;
+    availableLiquidity: bigint;
+    lockedLiquidity: bigint;
+    minLiquidity: bigint;
+    maxLiquidity: bigint;
+    /** Whether the whole LiquidityPool is paused */
+    paused: boolean;
+    /** Whether accounts without LIQUIDITY_PROVIDER_ROLE may add liquidity */
+    permissionless: boolean;
+}
+
+/**
+ * What a provider may do on a pool
+ */
+export interface ProviderStatus {
+    provider: tEthereumAddress;
+    blacklisted: boolean;
+    /** Whether the provider may add liquidity (role or permissionless pool, not blacklisted) */
+    canAddLiquidity: boolean;
+    /** Token balance (base units) */
+    balance: bigint;
+    /** Allowance granted to the LiquidityPool (base units) */
+    allowance: bigint;
+    /** Time of the last withdrawal (seconds) */
+    lastWithdrawalAt?: number;
+    /** Earliest time of the next withdrawal (seconds) */
+    nextWithdrawalAt?: number;
+}
+
+/**
+ * Outcome of a liquidity pool operation
+ */
+export interface PoolOperationResult {
+    transactionHash: string;
+    /** Approval sent before adding liquidity */
+    approvalHash?: string;
+    /** Tokens added, withdrawn or removed (base units) */
+    amount?: bigint;
+}
+
+/**
+ * Destination of liquidity alerts
+ * - console: printed with console.warn
+ * - webhook: POSTed as JSON
+ * - file: appended to a JSON Lines file
+ */
+export type LiquidityAlertSink =
+    | { type: "console" }
+    | { type: "webhook"; url: string }
+    | { type: "file"; path: string };
+
+/**
+ * Alert severity, most severe first
+ * - INSUFFICIENT_LIQUIDITY: pending messages exceed the available liquidity
+ * - BELOW_MIN_LIQUIDITY: settling them takes the pool below minLiquidity
+ * - BELOW_THRESHOLD: settling them takes the pool below the configured threshold
+ */
+export type LiquidityAlertKind = "INSUFFICIENT_LIQUIDITY" | "BELOW_MIN_LIQUIDITY" | "BELOW_THRESHOLD";
+
+/**
+ * Chain whose PACS.008 messages settle on the monitored chain
+ */
+export interface LiquidityDemandSource {
+    /** Provider of the peer's network */
+    provider: Provider;
+    /** Address book of the peer, with its MessageRegistry */
+    book: AddressBook;
+    /** First block scanned for messages (defaults to the MessageRegistry deployment block) */
+    fromBlock?: number;
+}
+
+/**
+ * Options of the liquidity monitor
+ */
+export interface LiquidityMonitorOptions {
+    /** Tokens to watch, in addition to the pools created since fromBlock */
+    tokens?: tEthereumAddress[];
+    /** Minimum projected available liquidity by token address, in tokens (e.g. "5000") */
+    thresholds?: Record<tEthereumAddress, string>;
+    /** Threshold of the tokens missing from thresholds, in tokens */
+    defaultThreshold?: string;
+    /** Alert destinations (defaults to the console) */
+    sinks?: LiquidityAlertSink[];
+    /** Source chains whose pending messages are the demand on the pools (defaults to none) */
+    peers?: LiquidityDemandSource[];
+    /** Wormhole chain ID the peers' messages target (defaults to the CHAIN_REGISTRY entry of the book's chainId) */
+    wormholeChainId?: number;
+    /** First block scanned for pools and liquidity events (defaults to the LiquidityPool deployment block) */
+    fromBlock?: number;
+    /** Polling interval (ms) while running (defaults to TX_CONFIGS) */
+    pollInterval?: number;
+}
+
+/**
+ * Liquidity of one pool and the demand of the pending messages
+ * Amounts are in token base units.
+ */
+export interface PoolLiquidityStatus {
+    token: tEthereumAddress;
+    symbol: string;
+    decimals: number;
+    isActive: boolean;
+    totalLiquidity: bigint;
+    availableLiquidity: bigint;
+    lockedLiquidity: bigint;
+    minLiquidity: bigint;
+    /** Totals of the LiquidityLocked, LiquidityUnlocked and LiquidityReleased events since fromBlock */
+    lockedTotal: bigint;
+    unlockedTotal: bigint;
+    releasedTotal: bigint;
+    /** PACS.008 messages of the peers, PENDING and not settled here, paying out this token */
+    pendingMessages: number;
+    pendingDemand: bigint;
+    /** Available liquidity once the pending messages are settled, may be negative */
+    projectedAvailable: bigint;
+    threshold: bigint;
+}
+
+/**
+ * Alert raised when a pool cannot cover its projected demand
+ * Amounts are decimal strings of base units so the alert stays plain JSON.
+ */
+export interface LiquidityAlert {
+    /** ISO time of the alert */
+    raisedAt: string;
+    network: string;
+    kind: LiquidityAlertKind;
+    token: tEthereumAddress;
+    symbol: string;
+    message: string;
+    availableLiquidity: string;
+    pendingDemand: string;
+    projectedAvailable: string;
+    minLiquidity: string;
+    threshold: string;
+}
+
+/**
+ * Outcome of one monitoring pass
+ */
+export interface LiquidityCheckResult {
+    blockNumber: number;
+    pools: PoolLiquidityStatus[];
+    /** Alerts raised in this pass, conditions already reported are not repeated */
+    alerts: LiquidityAlert[];
+}
@@ -0,0 +1,203 @@
+/**
+ * Declarative schemas for selector-based ISO 20022 message payloads.
+ *
+ * A payload is a sequence of fields, each encoded as a 4 byte selector
+ * (first 4 bytes of keccak256 of the field name) followed by the 32 byte
+ * ABI encoding of its value. Only static Solidity types fit in one word.
+ * The encoder, decoder, `requiredFields` and schema bytes passed to
+ * `MessageProtocol.registerMessageFormat` are generated from a schema by
+ * `createMessageCodec` in utils/message-schema.
+ */
+
+import { ethers } from "ethers";
+
+/** Static Solidity type of a payload field */
+export type SchemaFieldType =
+    | "address"
+    | "bool"
+    | `uint${number}`
+    | `int${number}`
+    | `bytes${number}`;
+
+/**
+ * Declaration of one payload field
+ */
+export interface SchemaField {
+    /** Field name, also the preimage of its selector */
+    readonly name: string;
+    /** Solidity type of the value */
+    readonly type: SchemaFieldType;
+    /** Whether the field is part of requiredFields (default true) */
+    readonly required?: boolean;
+}
+
+/**
+ * Declaration of a message type
+ */
+export interface MessageSchema {
+    /** ISO 20022 message identifier, e.g. "pacs.009"; keccak256 of it is the on-chain messageType */
+    readonly messageType: string;
+    /** Schema version, stored in the schema bytes */
+    readonly version: string;
+    /** Payload fields in encoding order */
+    readonly fields: readonly SchemaField[];
+}
+
+/** TypeScript type of a Solidity field value */
+export type SchemaFieldValue<T extends SchemaFieldType> =
+    T extends "address" ? string :
+    T extends "bool" ? boolean :
+    T extends `uint${number}` | `int${number}` ? bigint :
+    string;
+
+type OptionalField<S extends MessageSchema> = Extract<S["fields"][number], { required: false }>;
+type RequiredField<S extends MessageSchema> = Exclude<S["fields"][number], { required: false }>;
+
+/**
+ * Values of a message, keyed by field name
+ * Fields declared with `required: false` are optional
+ */
+export type MessageValues<S extends MessageSchema> = {
+    [F in RequiredField<S> as F["name"]]: SchemaFieldValue<F["type"]>;
+} & {
+    [F in OptionalField<S> as F["name"]]?: SchemaFieldValue<F["type"]>;
+};
+
+/**
+ * Codec generated from a message schema
+ */
+export interface MessageCodec<S extends MessageSchema> {
+    /** Source schema */
+    readonly schema: S;
+    /** keccak256 of the message identifier, as used on-chain */
+    readonly messageType: string;
+    /** Selector of each field, keyed by field name */
+    readonly selectors: Readonly<Record<S["fields"][number]["name"], string>>;
+    /** Selectors of the required fields, for registerMessageFormat */
+    readonly requiredFields: string[];
+    /** ABI encoded schema, for registerMessageFormat / updateMessageSchema */
+    readonly schemaBytes: string;
+    /** Encodes message values into a payload */
+    encode(values: MessageValues<S>): string;
+    /** Decodes a payload, fields may appear in any order */
+    decode(payload: string | Uint8Array): MessageValues<S>;
+}
+
+/**
+ * Computes the selector of a payload field
+ * @param name Field name
+ * @returns First 4 bytes of keccak256(name)
+ */
+export function fieldSelector(name: string): string {
+    return ethers.id(name).slice(0, 10);
+}
+
+/**
+ * Computes the on-chain messageType of a message identifier
+ * @param messageType ISO 20022 message identifier, e.g. "pacs.008"
+ * @returns keccak256 of the identifier
+ */
+export function messageTypeHash(messageType: string): string {
+    return ethers.keccak256(ethers.toUtf8Bytes(messageType));
+}
+
+/**
+ * Declares a message schema, keeping the field literals for type inference
+ * @param schema Schema declaration
+ * @returns The same schema, typed precisely
+ *
+ * @example
+ * const PACS009_SCHEMA = defineMessageSchema({
+ *     messageType: "pacs.009",
+ *     version: "1",
+ *     fields: [
+ *         { name: "amount", type: "uint256" },
+ *         { name: "settlementDate", type: "uint64", required: false },
+ *     ],
+ * } as const);
+ */
+export function defineMessageSchema<const S extends MessageSchema>(schema: S): S {
+    return schema;
+}
+
+/**
+ * pacs.008 - FI to FI customer credit transfer
+ * Matches the layout decoded by PACS008Handler
+ */
+export const PACS008_SCHEMA = defineMessageSchema({
+    messageType: "pacs.008",
+    version: "1",
+    fields: [
+        { name: "debtorAgent", type: "address" },
+        { name: "creditorAgent", type: "address" },
+        { name: "token", type: "address" },
+        { name: "amount", type: "uint256" },
+        { name: "instructionId", type: "bytes32" },
+    ],
+});
+
+/**
+ * pacs.009 - Financial institution credit transfer
+ */
+export const PACS009_SCHEMA = defineMessageSchema({
+    messageType: "pacs.009",
+    version: "1",
+    fields: [
+        { name: "debtorAgent", type: "address" },
+        { name: "creditorAgent", type: "address" },
+        { name: "token", type: "address" },
+        { name: "amount", type: "uint256" },
+        { name: "instructionId", type: "bytes32" },
+        { name: "settlementDate", type: "uint64", required: false },
+    ],
+});
+
+/**
+ * pacs.002 - FI to FI payment status report
+ * Status and reason are ISO external codes (e.g. ACSC, RJCT / AC04) as bytes4
+ */
+export const PACS002_SCHEMA = defineMessageSchema({
+    messageType: "pacs.002",
+    version: "1",
+    fields: [
+        { name: "originalMessageId", type: "bytes32" },
+        { name: "originalInstructionId", type: "bytes32" },
+        { name: "transactionStatus", type: "bytes4" },
+        { name: "statusReason", type: "bytes4", required: false },
+        { name: "acceptanceDateTime", type: "uint64", required: false },
+    ],
+});
+
+/**
+ * camt.053 - Bank to customer statement
+ */
+export const CAMT053_SCHEMA = defineMessageSchema({
+    messageType: "camt.053",
+    version: "1",
+    fields: [
+        { name: "statementId", type: "bytes32" },
+        { name: "account", type: "address" },
+        { name: "token", type: "address" },
+        { name: "openingBalance", type: "int256" },
+        { name: "closingBalance", type: "int256" },
+        { name: "fromDateTime", type: "uint64" },
+        { name: "toDateTime", type: "uint64" },
+        { name: "entryCount", type: "uint32", required: false },
+    ],
+});
+
+/**
+ * pain.001 - Customer credit transfer initiation
+ */
+export const PAIN001_SCHEMA = defineMessageSchema({
+    messageType: "pain.001",
+    version: "1",
+    fields: [
+        { name: "debtor", type: "address" },
+        { name: "creditor", type: "address" },
+        { name: "token", type: "address" },
+        { name: "amount", type: "uint256" },
+        { name: "endToEndId", type: "bytes32" },
+        { name: "requestedExecutionDate", type: "uint64", required: false },
+    ],
+});
@@ -0,0 +1,98 @@
+import { ContractTransactionReceipt, ContractTransactionResponse, Result, Signer } from "ethers";
+import { PACS008Message } from "./pacs-008";
+
+/**
+ * Lifecycle state of a submitted message transaction
+ */
+export enum TransactionStatus {
+    /** Transaction broadcast but not yet confirmed */
+    PENDING = "PENDING",
+    /** Transaction mined with the requested number of confirmations */
+    CONFIRMED = "CONFIRMED",
+    /** Transaction mined but reverted */
+    FAILED = "FAILED",
+    /** Confirmations were not reached within the configured timeout */
+    TIMEOUT = "TIMEOUT",
+}
+
+/**
+ * Options controlling how a message submission is confirmed
+ */
+export interface MessageSubmissionOptions {
+    /** Number of block confirmations to wait for (0 returns right after broadcast) */
+    confirmations?: number;
+    /** Maximum time to wait for the confirmations (ms) */
+    timeout?: number;
+    /** Whether protocol events in the receipt should be decoded */
+    decodeEvents?: boolean;
+    /** Wormhole chain ID of the target, defaults to local routing */
+    targetChain?: number;
+}
+
+/**
+ * Fee quote returned by ProtocolCoordinator.quoteMessageFee
+ */
+export interface MessageFeeQuote {
+    /** Base protocol fee */
+    baseFee: bigint;
+    /** Routing / delivery fee charged by the MessageRouter */
+    deliveryFee: bigint;
+    /** Sum of both fees, sent as the transaction value */
+    totalFee: bigint;
+}
+
+/**
+ * Protocol event decoded from a transaction receipt
+ */
+export interface DecodedProtocolEvent {
+    /** Event name */
+    name: string;
+    /** Address of the emitting contract */
+    address: string;
+    /** Index of the log in the receipt */
+    logIndex: number;
+    /** Decoded event arguments */
+    args: Result;
+}
+
+/**
+ * Result of a message submission
+ */
+export interface MessageSubmissionResponse {
+    /** Broadcast transaction */
+    transaction: ContractTransactionResponse;
+    /** Receipt, if the transaction was confirmed */
+    receipt?: ContractTransactionReceipt;
+    /** Current status of the submission */
+    status: TransactionStatus;
+    /** Message ID extracted from MessageSubmissionInitiated, if confirmed */
+    messageId?: string;
+    /** Fees paid for the submission */
+    fees: MessageFeeQuote;
+    /** Decoded protocol events (empty unless decodeEvents is set) */
+    events: DecodedProtocolEvent[];
+}
+
+/**
+ * Service for submitting PACS.008 messages through the ProtocolCoordinator
+ */
+export interface PACS008MessageService {
+    /**
+     * Quotes the fees for a PACS.008 message
+     * @param message Message to quote
+     * @param targetChain Wormhole chain ID of the target
+     */
+    quoteFee(message: PACS008Message, targetChain?: number): Promise<MessageFeeQuote>;
+
+    /**
+     * Encodes and submits a PACS.008 message
+     * @param message Message to submit
+     * @param signer Account paying for and submitting the message
+     * @param options Confirmation options
+     */
+    submitMessage(
+        message: PACS008Message,
+        signer: Signer,
+        options?: MessageSubmissionOptions
+    ): Promise<MessageSubmissionResponse>;
+}
@@ -1,26 +1,34 @@
 import { ethers } from "ethers";
+import { fieldSelector, messageTypeHash, PACS008_SCHEMA } from "./message-schema";
 
-export const MESSAGE_TYPE_PACS008 = ethers.keccak256(ethers.toUtf8Bytes("pacs.008"));
+/** Name of a PACS008 payload field */
+export type PACS008Field = (typeof PACS008_SCHEMA)["fields"][number]["name"];
+
+/** On-chain message type of PACS008_SCHEMA */
+export const MESSAGE_TYPE_PACS008 = messageTypeHash(PACS008_SCHEMA.messageType);
 
-// Define required fields for PACS008
-export const PACS008_REQUIRED_FIELDS = [
-    ethers.id("debtorAgent").slice(0, 10),    // First 4 bytes
-    ethers.id("creditorAgent").slice(0, 10),
-    ethers.id("token").slice(0, 10),
-    ethers.id("amount").slice(0, 10),
-    ethers.id("instructionId").slice(0, 10)
-];
 /**
- * Message selectors for PACS008 message fields
+ * Message selectors for PACS008 message fields, derived from PACS008_SCHEMA
  * These are the first 4 bytes of the keccak256 hash of each field name
  */
-export const MESSAGE_SELECTORS = {
-    debtorAgent: ethers.id("debtorAgent").slice(0, 10),
-    creditorAgent: ethers.id("creditorAgent").slice(0, 10),
-    token: ethers.id("token").slice(0, 10),
-    amount: ethers.id("amount").slice(0, 10),
-    instructionId: ethers.id("instructionId").slice(0, 10)
-} as const;
+export const MESSAGE_SELECTORS = Object.fromEntries(
+    PACS008_SCHEMA.fields.map(field => [field.name, fieldSelector(field.name)])
+) as Readonly<Record<PACS008Field, string>>;
+
+/** Selectors of the required PACS008 fields, as registered with MessageProtocol */
+export const PACS008_REQUIRED_FIELDS = PACS008_SCHEMA.fields.map(field => MESSAGE_SELECTORS[field.name]);
+
+/** Size of one encoded field: 4 bytes selector + 32 bytes value */
+export const PACS008_FIELD_SIZE = 36;
+
+/** Size of a complete payload, as enforced by PACS008Handler */
+export const PACS008_PAYLOAD_SIZE = PACS008_FIELD_SIZE * PACS008_SCHEMA.fields.length;
+
+/** Minimum transfer amount accepted by PACS008Handler (MINIMUM_AMOUNT) */
+export const PACS008_MINIMUM_AMOUNT = 1n;
+
+/** Maximum transfer amount accepted by PACS008Handler (MAXIMUM_AMOUNT) */
+export const PACS008_MAXIMUM_AMOUNT = ethers.parseEther("1000000");
 
 /**
  * Interface representing a PACS008 message structure
@@ -39,4 +47,10 @@ export interface PACS008Message {
     handlerAddr: string;
     /** Unique identifier for the instruction */
     instructionId: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Fields of a PACS008 message carried in the on-chain payload
+ * The handler address is the submission target and is not part of the payload
+ */
+export type PACS008PayloadFields = Omit<PACS008Message, "handlerAddr">;
@@ -0,0 +1,108 @@
+/**
+ * Mirrors of the Solidity enums used in protocol state and events
+ * Values match the on-chain ordinals
+ */
+
+/** IMessageRegistry.MessageStatus */
+export enum MessageStatus {
+    PENDING = 0,
+    DELIVERED = 1,
+    PROCESSED = 2,
+    FAILED = 3,
+    SETTLED = 4,
+    CANCELLED = 5,
+}
+
+/** ISettlementController.SettlementStatus */
+export enum SettlementStatus {
+    NONE = 0,
+    IN_PROGRESS = 1,
+    COMPLETED = 2,
+    FAILED = 3,
+    CANCELLED = 4,
+}
+
+/** IMessageProcessor.ProcessingAction */
+export enum ProcessingAction {
+    NOTIFICATION_ONLY = 0,
+    SETTLEMENT_REQUIRED = 1,
+    CROSS_CHAIN_ACTION = 2,
+    STATUS_UPDATE = 3,
+    CANCELLATION = 4,
+}
+
+/** IProtocolGovernance.ProposalType */
+export enum ProposalType {
+    UPDATE_PROTOCOL = 0,
+    ADD_MESSAGE_TYPE = 1,
+    UPDATE_MESSAGE_TYPE = 2,
+    ADD_TARGET = 3,
+    REMOVE_TARGET = 4,
+    EMERGENCY_ACTION = 5,
+}
+
+/** ITargetRegistry.TargetType */
+export enum TargetType {
+    CONTRACT = 0,
+    INSTITUTION = 1,
+    BOTH = 2,
+}
+
+/** Name of a MessageStatus, e.g. "PROCESSED" */
+export type MessageStatusName = keyof typeof MessageStatus;
+
+/** Name of a SettlementStatus, e.g. "COMPLETED" */
+export type SettlementStatusName = keyof typeof SettlementStatus;
+
+/** Name of a ProcessingAction, e.g. "SETTLEMENT_REQUIRED" */
+export type ProcessingActionName = keyof typeof ProcessingAction;
+
+/** Name of a ProposalType, e.g. "ADD_TARGET" */
+export type ProposalTypeName = keyof typeof ProposalType;
+
+/** Name of a TargetType, e.g. "CONTRACT" */
+export type TargetTypeName = keyof typeof TargetType;
+
+/**
+ * Decoded return value of ProtocolCoordinator.getProtocolConfig
+ */
+export interface CoordinatorConfig {
+    /** Base protocol fee (wei) */
+    baseFee: bigint;
+    /** Maximum payload size (bytes) */
+    maxMessageSize: bigint;
+    messageRegistry: string;
+    messageProtocol: string;
+    messageRouter: string;
+    messageProcessor: string;
+}
+
+/**
+ * Decoded handler result, as returned by ProtocolCoordinator.getMessageResult
+ */
+export interface MessageResult {
+    /** Whether the handler call succeeded */
+    success: boolean;
+    /** Raw result bytes (handler return data, or revert data on failure) */
+    raw: string;
+    /** Value returned by handleMessage, if it succeeded */
+    returnData?: string;
+    /** Settlement ID returned by settlement handlers (abi.encode(bytes32)) */
+    settlementId?: string;
+    /** Revert reason, if the handler reverted with Error(string) */
+    revertReason?: string;
+}
+
+/**
+ * Decoded IMessageProcessor.ProcessingResult
+ */
+export interface ProcessingResult extends MessageResult {
+    messageId: string;
+    action: ProcessingActionName;
+    /**
+     * Settlement ID as stored by the MessageProcessor
+     * The processor decodes the raw return data as bytes32 and therefore
+     * stores the ABI offset word; `settlementId` holds the actual value.
+     */
+    storedSettlementId: string;
+}
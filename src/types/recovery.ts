@@ -0,0 +1,96 @@
+import { Signer } from "ethers";
+import { tEthereumAddress } from "./base";
+import { MessageStatusName } from "./protocol";
+
+/**
+ * Action taken on a stuck message, in escalation order
+ */
+export type RecoveryAction = "RETRY" | "CANCEL" | "EMERGENCY_CANCEL" | "SKIP";
+
+/**
+ * Result of a recovery decision
+ * - EXECUTED: transaction mined successfully
+ * - REJECTED: the call reverts in simulation, nothing was sent
+ * - FAILED: transaction sent but failed or timed out
+ * - SIMULATED: dry run, the call would succeed
+ * - SKIPPED: no action allowed
+ */
+export type RecoveryOutcome = "EXECUTED" | "REJECTED" | "FAILED" | "SIMULATED" | "SKIPPED";
+
+/**
+ * Escalation policy for stuck messages
+ */
+export interface RecoveryPolicy {
+    /** Seconds without activity (registration or retry) before a message is handled */
+    minAge: number;
+    /** Retries before cancelling (defaults to 3) */
+    maxRetries?: number;
+    /** Statuses considered stuck (defaults to PENDING and FAILED) */
+    statuses?: MessageStatusName[];
+    /** Whether the sender may cancel once retries are exhausted (defaults to true) */
+    allowCancel?: boolean;
+    /** Whether to escalate to emergencyCancelMessage (defaults to false) */
+    allowEmergencyCancel?: boolean;
+}
+
+/**
+ * Options of the recovery orchestrator
+ */
+export interface MessageRecoveryOptions {
+    policy: RecoveryPolicy;
+    /** JSON Lines journal receiving every decision */
+    journalFile?: string;
+    /** Account holding EMERGENCY_ROLE, defaults to the signer */
+    emergencySigner?: Signer;
+    /** First block scanned for messages, ideally the coordinator deployment block (defaults to 0) */
+    fromBlock?: number;
+    /** Simulate every action without sending transactions */
+    dryRun?: boolean;
+    /** Confirmations to wait for (defaults to the transaction config) */
+    confirmations?: number;
+    /** Maximum time to wait for a receipt (ms, defaults to the transaction config) */
+    timeout?: number;
+}
+
+/**
+ * Message in a stuck status, with its recovery history
+ */
+export interface StuckMessage {
+    messageId: string;
+    status: MessageStatusName;
+    /** Submitting account, from MessageSubmissionInitiated */
+    sender: tEthereumAddress;
+    target: tEthereumAddress;
+    targetChain: number;
+    payloadSize: number;
+    /** Registration timestamp (seconds) */
+    registeredAt: number;
+    /** Timestamp of the last retry (seconds) */
+    lastRetryAt?: number;
+    /** Seconds since the last registration or retry */
+    age: number;
+    /** MessageRetryInitiated events of the message */
+    retries: number;
+}
+
+/**
+ * Journal entry of one decision
+ * Fees are decimal strings so the journal stays plain JSON.
+ */
+export interface RecoveryDecision {
+    /** ISO time of the decision */
+    decidedAt: string;
+    messageId: string;
+    status: MessageStatusName;
+    age: number;
+    retries: number;
+    action: RecoveryAction;
+    reason: string;
+    outcome: RecoveryOutcome;
+    /** Account sending the action */
+    actor?: tEthereumAddress;
+    /** Value sent with a retry (wei) */
+    fee?: string;
+    transactionHash?: string;
+    error?: string;
+}
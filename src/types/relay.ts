@@ -0,0 +1,75 @@
+import { Signer } from "ethers";
+import { tEthereumAddress } from "./base";
+
+/**
+ * Chain served by the relay simulator
+ * Two deployments on the same network can act as two chains, each with its own
+ * MockWormholeRelayer and Wormhole chain ID.
+ */
+export interface RelayChainConfig {
+    /** Label used in logs */
+    name: string;
+    /** Wormhole chain ID of the chain */
+    wormholeChainId: number;
+    /** MockWormholeRelayer deployed on the chain */
+    relayer: tEthereumAddress;
+    /** Account sending the deliveries on the chain */
+    signer: Signer;
+    /** First block to watch for sends (defaults to 0) */
+    startBlock?: number;
+}
+
+/**
+ * Behaviour of the relay simulator
+ */
+export interface RelaySimulatorOptions {
+    /** Blocks the source chain must advance past a send before it is delivered */
+    delayBlocks?: number;
+    /** Time (ms) between observing a send and delivering it */
+    delayMs?: number;
+    /** Probability (0-1) that a send is never delivered */
+    dropRate?: number;
+    /** Probability (0-1) that a delivered send is delivered a second time */
+    duplicateRate?: number;
+    /** Random source in [0, 1), replace for deterministic runs */
+    random?: () => number;
+    /** Polling interval (ms) once started */
+    pollInterval?: number;
+}
+
+/**
+ * Send observed on a source relayer
+ */
+export interface RelayedMessage {
+    sequence: bigint;
+    sourceChain: number;
+    targetChain: number;
+    /** Contract that called sendPayloadToEvm (the MessageRouter) */
+    sourceAddress: tEthereumAddress;
+    targetAddress: tEthereumAddress;
+    payload: string;
+    receiverValue: bigint;
+    gasLimit: bigint;
+    /** keccak256(abi.encodePacked(sequence, targetChain)), as stored by MessageRouter */
+    deliveryHash: string;
+    sourceTransactionHash: string;
+    sourceBlockNumber: number;
+    /** Time (ms) the send was picked up */
+    observedAt: number;
+}
+
+export type RelayDeliveryStatus = "delivered" | "failed" | "dropped";
+
+/**
+ * Outcome of relaying one send
+ */
+export interface RelayDelivery {
+    message: RelayedMessage;
+    status: RelayDeliveryStatus;
+    /** Whether this is the extra delivery of a duplicated send */
+    duplicate: boolean;
+    /** Delivery transaction on the destination chain */
+    transactionHash?: string;
+    /** Revert reason of a failed delivery */
+    error?: string;
+}
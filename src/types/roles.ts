@@ -0,0 +1,127 @@
+import { tEthereumAddress } from "./base";
+
+/** Named account from the hardhat config (namedAccounts) */
+export type NamedAccount = "admin" | "deployer";
+
+/**
+ * Holder of a role: either a deployed contract or a named account
+ */
+export type RoleHolder =
+    | { contract: string }
+    | { account: NamedAccount };
+
+/**
+ * Single entry of the role manifest
+ */
+export interface RoleGrant {
+    /** Deployment name of the contract defining the role */
+    contract: string;
+    /** Role constant name, e.g. "PROCESSOR_ROLE" or "DEFAULT_ADMIN_ROLE" */
+    role: string;
+    /** Account or contract holding the role */
+    grantee: RoleHolder;
+    /** Why the grant is needed */
+    description?: string;
+}
+
+/** Declarative list of every role expected on the protocol contracts */
+export type RoleManifest = readonly RoleGrant[];
+
+/**
+ * Manifest entry resolved against the deployments of a network
+ */
+export interface ResolvedRoleGrant extends RoleGrant {
+    /** Role identifier (bytes32) */
+    roleId: string;
+    /** Address of the contract defining the role */
+    contractAddress: tEthereumAddress;
+    /** Address of the holder */
+    granteeAddress: tEthereumAddress;
+}
+
+/**
+ * Result of applying one manifest entry
+ */
+export interface RoleGrantResult {
+    grant: RoleGrant;
+    /** granted: sent grantRole, held: already in place, pending: contract or grantee not deployed */
+    status: "granted" | "held" | "pending";
+    transactionHash?: string;
+}
+
+/**
+ * Role held on-chain that the manifest does not declare
+ */
+export interface ExtraRoleGrant {
+    contract: string;
+    contractAddress: tEthereumAddress;
+    role: string;
+    roleId: string;
+    holder: tEthereumAddress;
+    /** Deployment or named account matching the holder, if known */
+    holderName?: string;
+}
+
+/**
+ * Difference between the live roles and the manifest
+ */
+export interface RoleManifestReport {
+    network: string;
+    /** Contracts that were inspected */
+    contracts: string[];
+    /** Manifest entries not held on-chain */
+    missing: ResolvedRoleGrant[];
+    /** On-chain grants absent from the manifest */
+    extra: ExtraRoleGrant[];
+    /** Manifest entries skipped because the contract or grantee is not deployed */
+    pending: RoleGrant[];
+}
+
+/**
+ * Current holder of a role, rebuilt from RoleGranted / RoleRevoked events
+ */
+export interface RoleHolderRecord {
+    address: tEthereumAddress;
+    /** Deployment or named account matching the address, if known */
+    name?: string;
+    /** Block of the grant still in effect */
+    blockNumber: number;
+    /** Transaction of the grant still in effect */
+    transactionHash: string;
+}
+
+/**
+ * Holders of one role on one contract
+ */
+export interface RoleAssignment {
+    /** Role constant name, or the role hash if no constant matches */
+    role: string;
+    roleId: string;
+    holders: RoleHolderRecord[];
+}
+
+/**
+ * Roles of one contract at the audited block
+ */
+export interface ContractRoleAudit {
+    contract: string;
+    address: tEthereumAddress;
+    /** First block scanned for events */
+    fromBlock: number;
+    roles: RoleAssignment[];
+}
+
+/**
+ * AccessControl holders of every contract in an address book
+ */
+export interface RoleAuditReport {
+    network: string;
+    chainId: number;
+    /** Block the events were replayed up to */
+    blockNumber: number;
+    /** ISO 8601 timestamp of the audit */
+    generatedAt: string;
+    /** Version of the address book that was audited */
+    addressBookVersion: number;
+    contracts: ContractRoleAudit[];
+}
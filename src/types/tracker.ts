@@ -0,0 +1,99 @@
+import { tEthereumAddress } from "./base";
+import { MessageStatusName, SettlementStatusName } from "./protocol";
+
+/**
+ * Contracts whose events make up a message timeline
+ */
+export type TrackedContractName =
+    | "ProtocolCoordinator"
+    | "MessageRouter"
+    | "MessageProcessor"
+    | "MessageRegistry"
+    | "SettlementController";
+
+/**
+ * Addresses of the tracked contracts
+ * settlementController may belong to the destination chain of a cross-chain message,
+ * as long as it is reachable through the same provider.
+ */
+export type MessageTrackerContracts = Record<
+    "protocolCoordinator" | "messageRouter" | "messageProcessor" | "messageRegistry" | "settlementController",
+    tEthereumAddress
+>;
+
+/**
+ * Options of a message tracker
+ */
+export interface MessageTrackerOptions {
+    /** First block scanned by backfill (defaults to 0, or the earliest tracked deployment of an address book) */
+    fromBlock?: number;
+}
+
+/**
+ * Event of a message timeline
+ */
+export interface MessageTimelineEvent {
+    contract: TrackedContractName;
+    /** Event name, e.g. "MessageRouted" */
+    event: string;
+    address: tEthereumAddress;
+    blockNumber: number;
+    /** Block timestamp (seconds) */
+    timestamp: number;
+    transactionHash: string;
+    logIndex: number;
+    /** Named event arguments */
+    args: Record<string, unknown>;
+}
+
+/**
+ * Settlement created for a message
+ */
+export interface TrackedSettlement {
+    settlementId: string;
+    /** Latest status reported by SettlementStatusUpdated */
+    status?: SettlementStatusName;
+    amount?: bigint;
+    recipient?: tEthereumAddress;
+}
+
+/**
+ * Every event of a message, in chain order, with the state derived from them
+ */
+export interface MessageTimeline {
+    messageId: string;
+    events: MessageTimelineEvent[];
+    /** Latest status reported by MessageStatusUpdated */
+    status?: MessageStatusName;
+    /** Delivery hashes reported by MessageRouted, one per routing attempt */
+    deliveryHashes: string[];
+    settlements: TrackedSettlement[];
+    /** Whether the message reached a final state (see isTimelineComplete) */
+    complete: boolean;
+}
+
+/**
+ * Options of a historical backfill
+ */
+export interface MessageBackfillOptions {
+    /** First block to scan (defaults to the tracker's fromBlock) */
+    fromBlock?: number;
+    /** Last block to scan (defaults to the latest block) */
+    toBlock?: number;
+}
+
+/**
+ * Options of a live watch
+ */
+export interface MessageWatchOptions {
+    /** First block to scan (defaults to the latest block when the watch starts) */
+    fromBlock?: number;
+    /** Maximum time to watch (ms) */
+    timeout?: number;
+    /** Polling interval (ms) */
+    pollInterval?: number;
+    /** Called once for each new event, in chain order */
+    onEvent?: (event: MessageTimelineEvent, timeline: MessageTimeline) => void;
+    /** Stop condition, defaults to isTimelineComplete */
+    until?: (timeline: MessageTimeline) => boolean;
+}
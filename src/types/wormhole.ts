@@ -0,0 +1,16 @@
+import { eNetwork, tEthereumAddress } from "./base";
+
+/**
+ * Wormhole contracts the protocol is deployed against on one network
+ */
+export interface WormholeAddresses {
+    network: eNetwork;
+    /** Wormhole chain ID of the network */
+    wormholeChainId: number;
+    /** Wormhole core contract */
+    wormhole: tEthereumAddress;
+    /** Standard relayer */
+    wormholeRelayer: tEthereumAddress;
+    /** Whether the addresses are the deployed MockWormhole and MockWormholeRelayer */
+    mocked: boolean;
+}
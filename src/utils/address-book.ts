@@ -0,0 +1,189 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import type { Deployment } from "hardhat-deploy/types";
+import {
+    ADDRESS_BOOK_SCHEMA_VERSION,
+    AddressBook,
+    AddressBookEntry,
+    GFSAddressBook,
+    tEthereumAddress,
+} from "../types";
+
+/**
+ * Directory holding the address books, one `<network>.json` per chain
+ * Can be overridden with ADDRESS_BOOK_DIR
+ */
+export const ADDRESS_BOOK_DIR = process.env.ADDRESS_BOOK_DIR
+    ? path.resolve(process.env.ADDRESS_BOOK_DIR)
+    : path.resolve(__dirname, "../../address-books");
+
+/** Suffixes of the deployments hardhat-deploy creates next to a proxied contract */
+const PROXY_PARTS = ["_Implementation", "_Proxy"];
+
+/**
+ * Returns the path of a network's address book
+ * @param network Hardhat network name
+ * @param dir Address book directory
+ */
+export function getAddressBookPath(network: string, dir: string = ADDRESS_BOOK_DIR): string {
+    return path.join(dir, `${network}.json`);
+}
+
+/**
+ * Computes the hash identifying a contract ABI
+ * @param abi Contract ABI
+ * @returns keccak256 of the JSON encoded ABI
+ */
+export function computeAbiHash(abi: unknown): string {
+    return ethers.id(JSON.stringify(abi));
+}
+
+/**
+ * Loads the address book of a network
+ * @param network Hardhat network name
+ * @param dir Address book directory
+ * @returns Address book
+ * @throws Error if the file is missing or uses an unsupported layout
+ *
+ * @example
+ * const book = loadAddressBook("sepolia");
+ * const coordinator = ProtocolCoordinator__factory.connect(
+ *     getContractAddress(book, "ProtocolCoordinator"), signer);
+ */
+export function loadAddressBook(network: string, dir: string = ADDRESS_BOOK_DIR): AddressBook {
+    const file = getAddressBookPath(network, dir);
+    if (!fs.existsSync(file)) {
+        throw new Error(`AddressBook: No address book for network ${network} at ${file}`);
+    }
+
+    const book = JSON.parse(fs.readFileSync(file, "utf8")) as AddressBook;
+    if (book.schemaVersion !== ADDRESS_BOOK_SCHEMA_VERSION) {
+        throw new Error(
+            `AddressBook: Unsupported schema version ${book.schemaVersion} in ${file}, expected ${ADDRESS_BOOK_SCHEMA_VERSION}`
+        );
+    }
+    return book;
+}
+
+/**
+ * Returns the address of a deployed contract
+ * @param book Address book
+ * @param name Deployment name, e.g. "ProtocolCoordinator"
+ * @throws Error if the contract is not in the book
+ */
+export function getContractAddress(book: AddressBook, name: string): tEthereumAddress {
+    const entry = book.contracts[name];
+    if (!entry) {
+        throw new Error(`AddressBook: Contract ${name} not deployed on ${book.network}`);
+    }
+    return entry.address;
+}
+
+/**
+ * Resolves a contract address by name and network
+ * @param network Hardhat network name
+ * @param name Deployment name
+ * @param dir Address book directory
+ */
+export function resolveContractAddress(
+    network: string,
+    name: string,
+    dir: string = ADDRESS_BOOK_DIR
+): tEthereumAddress {
+    return getContractAddress(loadAddressBook(network, dir), name);
+}
+
+/**
+ * Builds the address book entries of hardhat-deploy deployments
+ * Proxied contracts are listed once, with their proxy and implementation, and
+ * the ABI hash of the implementation.
+ *
+ * @param deployments Deployments by name, as returned by deployments.all()
+ * @returns Entries by deployment name
+ */
+export function buildAddressBookEntries(deployments: Record<string, Deployment>): Record<string, AddressBookEntry> {
+    const contracts: Record<string, AddressBookEntry> = {};
+
+    for (const [name, deployment] of Object.entries(deployments)) {
+        if (PROXY_PARTS.some(suffix => name.endsWith(suffix))) {
+            continue;
+        }
+
+        const implementation = deployments[`${name}_Implementation`];
+        contracts[name] = {
+            address: deployment.address,
+            abiHash: computeAbiHash((implementation ?? deployment).abi),
+            ...(deployment.implementation && {
+                implementation: deployment.implementation,
+                proxy: deployment.address,
+            }),
+            deployer: deployment.receipt?.from,
+            transactionHash: deployment.transactionHash,
+            blockNumber: deployment.receipt?.blockNumber,
+        };
+    }
+
+    return contracts;
+}
+
+/**
+ * Converts an address book to the flat name -> address map used by GFSClient
+ * @param book Address book
+ */
+export function toGFSAddressBook(book: AddressBook): GFSAddressBook {
+    return {
+        ...Object.fromEntries(Object.entries(book.contracts).map(([name, entry]) => [name, entry.address])),
+        ProtocolCoordinator: getContractAddress(book, "ProtocolCoordinator"),
+    };
+}
+
+/**
+ * Writes a network's address book
+ * The version is bumped when any contract entry differs from the existing file;
+ * an unchanged book is left untouched.
+ *
+ * @param book Address book without version / timestamp
+ * @param dir Address book directory
+ * @returns Written (or unchanged) address book
+ */
+export function writeAddressBook(
+    book: Omit<AddressBook, "schemaVersion" | "version" | "updatedAt">,
+    dir: string = ADDRESS_BOOK_DIR
+): AddressBook {
+    const file = getAddressBookPath(book.network, dir);
+    const previous = fs.existsSync(file)
+        ? (JSON.parse(fs.readFileSync(file, "utf8")) as AddressBook)
+        : undefined;
+
+    if (
+        previous &&
+        previous.chainId === book.chainId &&
+        previous.deployer === book.deployer &&
+        sameContracts(previous.contracts, book.contracts)
+    ) {
+        return previous;
+    }
+
+    const next: AddressBook = {
+        schemaVersion: ADDRESS_BOOK_SCHEMA_VERSION,
+        version: (previous?.version ?? 0) + 1,
+        network: book.network,
+        chainId: book.chainId,
+        deployer: book.deployer,
+        updatedAt: new Date().toISOString(),
+        contracts: sortByName(book.contracts),
+    };
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(next, null, 2) + "\n");
+    return next;
+}
+
+function sameContracts(a: Record<string, AddressBookEntry>, b: Record<string, AddressBookEntry>): boolean {
+    return JSON.stringify(sortByName(a)) === JSON.stringify(sortByName(b));
+}
+
+function sortByName(contracts: Record<string, AddressBookEntry>): Record<string, AddressBookEntry> {
+    return Object.fromEntries(Object.entries(contracts).sort(([a], [b]) => a.localeCompare(b)));
+}
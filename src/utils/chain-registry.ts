@@ -0,0 +1,184 @@
+import { ethers } from "ethers";
+import { CHAIN_REGISTRY } from "../constants/chains";
+import { LOCAL_CHAIN_ID } from "../constants";
+import { AddressBook, ChainInfo, ChainPairStep, eNetwork } from "../types";
+import { queryFilterInChunks } from "./log-query";
+import { MessageRouter, WormholeSettlementReceiver } from "../../typechain";
+
+/**
+ * Looks up a network in CHAIN_REGISTRY
+ * @param network Network name, e.g. "sepolia"
+ * @returns Chain identifiers
+ * @throws Error if the network is not registered
+ * @example
+ * getChain("arbitrum-sepolia").wormholeChainId; // 10003
+ */
+export function getChain(network: string): ChainInfo {
+    const chain = CHAIN_REGISTRY.find(entry => entry.network === network);
+    if (!chain) {
+        throw new Error(`ChainRegistry: Unknown network ${network}`);
+    }
+    return chain;
+}
+
+/**
+ * Looks up a network by EVM chain ID
+ * @param evmChainId EVM chain ID, e.g. from provider.getNetwork()
+ * @returns Chain identifiers, undefined if the chain is not registered
+ */
+export function findChainByEvmChainId(evmChainId: number | bigint): ChainInfo | undefined {
+    return CHAIN_REGISTRY.find(entry => entry.evmChainId === Number(evmChainId));
+}
+
+/**
+ * Identifies the chain of an address book by its EVM chain ID
+ * Local chains (hardhat, localhost, forks) route through LOCAL_CHAIN_ID. A local deployment
+ * paired with another one stands in for a Wormhole chain: its entry takes the book's
+ * network name and the given Wormhole chain ID.
+ * @param book Address book
+ * @param wormholeChainId Wormhole chain ID a local deployment stands for
+ * @returns Chain identifiers
+ * @throws Error if the chain is not registered, a local chain has no Wormhole chain ID or another chain has a different one
+ * @example
+ * getAddressBookChain(loadAddressBook("localhost"), 10002).network; // "localhost"
+ */
+export function getAddressBookChain(book: AddressBook, wormholeChainId?: number): ChainInfo {
+    const chain = findChainByEvmChainId(book.chainId);
+    if (!chain) {
+        throw new Error(`ChainRegistry: Chain ${book.chainId} of ${book.network} is not registered`);
+    }
+    if (!chain.local) {
+        if (wormholeChainId !== undefined && wormholeChainId !== chain.wormholeChainId) {
+            throw new Error(`ChainRegistry: ${book.network} has Wormhole chain ID ${chain.wormholeChainId}, not ${wormholeChainId}`);
+        }
+        return chain;
+    }
+    if (wormholeChainId === undefined || wormholeChainId === LOCAL_CHAIN_ID) {
+        throw new Error(`ChainRegistry: ${book.network} is a local chain, give the Wormhole chain ID it stands for`);
+    }
+    return { ...chain, network: book.network as eNetwork, wormholeChainId };
+}
+
+/**
+ * Looks up a network by Wormhole chain ID
+ * Wormhole chain IDs are only unique among mainnets or among testnets.
+ * @param wormholeChainId Wormhole chain ID
+ * @param testnet Whether to look among testnets
+ * @returns Chain identifiers, undefined if the chain is not registered
+ */
+export function findChainByWormholeChainId(wormholeChainId: number, testnet: boolean): ChainInfo | undefined {
+    return CHAIN_REGISTRY.find(
+        entry => !entry.local && entry.wormholeChainId === wormholeChainId && entry.testnet === testnet
+    );
+}
+
+/**
+ * Checks a MessageSubmission.targetChain before it reaches the contract
+ * The target must be LOCAL_CHAIN_ID or the Wormhole chain ID of a registered network,
+ * of the same kind (mainnet or testnet) as the source network when one is given.
+ * EVM chain IDs are rejected with the Wormhole chain ID they stand for.
+ * @param targetChain Target chain of the submission
+ * @param sourceNetwork Network the submission is sent on
+ * @returns The target chain as a number
+ * @throws Error if the target chain cannot be routed
+ * @example
+ * validateTargetChain(11155111); // throws: EVM chain ID of sepolia, use Wormhole chain ID 10002
+ */
+export function validateTargetChain(targetChain: number | bigint, sourceNetwork?: string): number {
+    const chainId = Number(targetChain);
+    if (!Number.isInteger(chainId) || chainId < 0 || chainId > 0xffff) {
+        const evmChain = Number.isInteger(chainId) ? findChainByEvmChainId(chainId) : undefined;
+        throw new Error(
+            `ChainRegistry: Target chain ${targetChain} is not a Wormhole chain ID (uint16)` +
+                (evmChain ? `, it is the EVM chain ID of ${evmChain.network}: use ${evmChain.wormholeChainId}` : "")
+        );
+    }
+    if (chainId === LOCAL_CHAIN_ID) {
+        return chainId;
+    }
+
+    const source = sourceNetwork ? CHAIN_REGISTRY.find(entry => entry.network === sourceNetwork) : undefined;
+    const candidates = CHAIN_REGISTRY.filter(entry => !entry.local && entry.wormholeChainId === chainId);
+    if (candidates.length === 0) {
+        throw new Error(`ChainRegistry: Target chain ${chainId} is not the Wormhole chain ID of a registered network`);
+    }
+    if (source && !source.local && !candidates.some(entry => entry.testnet === source.testnet)) {
+        throw new Error(
+            `ChainRegistry: Target chain ${chainId} (${candidates.map(entry => entry.network).join(", ")}) ` +
+                `cannot be reached from ${source.testnet ? "testnet" : "mainnet"} ${source.network}`
+        );
+    }
+    return chainId;
+}
+
+/**
+ * Sets up one direction of a chain pair
+ * The source MessageRouter gets the delivery gas limit of the target chain, and the
+ * target WormholeSettlementReceiver accepts the source router as sender. Each call is
+ * only sent when the on-chain value differs, so the setup can be repeated. Local chains
+ * and forks pair with any chain, under the Wormhole chain ID they stand for (see
+ * getAddressBookChain).
+ * @param source Source chain and its MessageRouter (signer with DEFAULT_ADMIN_ROLE)
+ * @param target Target chain and its receiver (signer with OPERATOR_ROLE)
+ * @param fromBlock First block of the router's ChainGasLimitUpdated events
+ * @returns The calls, sent or unchanged
+ * @throws Error if the chains cannot be paired
+ * @example
+ * await configureChainPair(
+ *     { chain: getChain("arbitrum-sepolia"), router },
+ *     { chain: getChain("sepolia"), receiver }
+ * );
+ */
+export async function configureChainPair(
+    source: { chain: ChainInfo; router: MessageRouter },
+    target: { chain: ChainInfo; receiver: WormholeSettlementReceiver },
+    fromBlock: number = 0
+): Promise<ChainPairStep[]> {
+    for (const { chain } of [source, target]) {
+        if (chain.wormholeChainId === LOCAL_CHAIN_ID) {
+            throw new Error(`ChainRegistry: ${chain.network} routes through LOCAL_CHAIN, give it the Wormhole chain ID it stands for`);
+        }
+    }
+    if (!source.chain.local && !target.chain.local && source.chain.testnet !== target.chain.testnet) {
+        throw new Error(`ChainRegistry: Cannot pair ${source.chain.network} with ${target.chain.network}, mainnets pair with mainnets only`);
+    }
+    if (source.chain.wormholeChainId === target.chain.wormholeChainId) {
+        throw new Error(`ChainRegistry: ${source.chain.network} and ${target.chain.network} share Wormhole chain ID ${source.chain.wormholeChainId}`);
+    }
+
+    const steps: ChainPairStep[] = [];
+
+    // chainGasLimits is private, the last ChainGasLimitUpdated event holds the current value
+    const updates = await queryFilterInChunks(
+        source.router,
+        source.router.filters.ChainGasLimitUpdated(target.chain.wormholeChainId),
+        fromBlock
+    );
+    const gasLimit = updates.at(-1)?.args.gasLimit;
+    const gasLimitStep: ChainPairStep = {
+        call: "MessageRouter.setChainGasLimit",
+        args: [target.chain.wormholeChainId, target.chain.deliveryGasLimit],
+        status: "unchanged",
+    };
+    if (gasLimit !== BigInt(target.chain.deliveryGasLimit)) {
+        const transaction = await source.router.setChainGasLimit(target.chain.wormholeChainId, target.chain.deliveryGasLimit);
+        await transaction.wait();
+        Object.assign(gasLimitStep, { status: "sent", transactionHash: transaction.hash });
+    }
+    steps.push(gasLimitStep);
+
+    const sender = ethers.zeroPadValue(await source.router.getAddress(), 32);
+    const senderStep: ChainPairStep = {
+        call: "WormholeSettlementReceiver.setRegisteredSender",
+        args: [source.chain.wormholeChainId, sender],
+        status: "unchanged",
+    };
+    if ((await target.receiver.registeredSenders(source.chain.wormholeChainId)).toLowerCase() !== sender.toLowerCase()) {
+        const transaction = await target.receiver.setRegisteredSender(source.chain.wormholeChainId, sender);
+        await transaction.wait();
+        Object.assign(senderStep, { status: "sent", transactionHash: transaction.hash });
+    }
+    steps.push(senderStep);
+
+    return steps;
+}
@@ -1,8 +1,21 @@
-import { iParamsPerNetwork, eNetwork, tEthereumAddress, ProtocolConfiguration, ICommonConfiguration } from "../types";
+import {
+    iParamsPerNetwork,
+    eNetwork,
+    tEthereumAddress,
+    ProtocolConfiguration,
+    ICommonConfiguration,
+    NetworkTxConfig,
+    DEFAULT_TX_CONFIG,
+} from "../types";
 import { isValidAddress } from "./utils";
 import EthereumV1Market from "../config/ethereum";
 import EthereumV1TestnetMarket from "../config/test";
-import { HardhatRuntimeEnvironment } from "hardhat/types";
+import PolygonV1Market from "../config/polygon";
+import ArbitrumV1Market from "../config/arbitrum";
+import OptimismV1Market from "../config/optimism";
+import BaseV1Market from "../config/base";
+import AvalancheV1Market from "../config/avalanche";
+import { HardhatRuntimeEnvironment, NetworksUserConfig } from "hardhat/types";
 
 declare var hre: HardhatRuntimeEnvironment;
 
@@ -66,6 +79,16 @@ export const loadProtocolConfig = (configName: ConfigNames): ProtocolConfigurati
             return EthereumV1TestnetMarket;
         case ConfigNames.Ethereum:
             return EthereumV1Market;
+        case ConfigNames.Polygon:
+            return PolygonV1Market;
+        case ConfigNames.Arbitrum:
+            return ArbitrumV1Market;
+        case ConfigNames.Optimistic:
+            return OptimismV1Market;
+        case ConfigNames.Base:
+            return BaseV1Market;
+        case ConfigNames.Avalanche:
+            return AvalancheV1Market;
         default:
             throw new Error(
                 `Unsupported protocol configuration: ${configName} is not one of the supported configs ${Object.values(
@@ -75,16 +98,92 @@ export const loadProtocolConfig = (configName: ConfigNames): ProtocolConfigurati
     }
 };
 
+/** Configurations generating Hardhat networks, each owns the networks of its Networks entries */
+const NETWORK_CONFIG_NAMES = [
+    ConfigNames.Polygon,
+    ConfigNames.Arbitrum,
+    ConfigNames.Optimistic,
+    ConfigNames.Base,
+    ConfigNames.Avalanche,
+];
+
 /**
-* Gets protocol configuration from environment or defaults to Test config
-* @returns Protocol configuration
-*/
-export function getProtocolConfig(): ProtocolConfiguration {
+ * Names the protocol configuration whose Networks entries contain a network
+ * @param network Hardhat network name
+ * @returns Configuration name, undefined for networks no configuration generates (hardhat, sepolia, ...)
+ */
+export function getNetworkConfigName(network: string): ConfigNames | undefined {
+    return NETWORK_CONFIG_NAMES.find(name => network in (loadProtocolConfig(name).Networks ?? {}));
+}
+
+/**
+ * Gets the protocol configuration of a network
+ * PROTOCOL_CONFIG_NAME selects it by ConfigNames key. Without it, the network selects the
+ * configuration listing it in Networks, and networks no configuration lists use the Test config.
+ * @param network Hardhat network name, defaults to the network of the running task
+ * @returns Protocol configuration
+ * @throws Error if PROTOCOL_CONFIG_NAME is unknown or names another configuration than the network's
+ */
+export function getProtocolConfig(network: string = hre.network.name): ProtocolConfiguration {
     const PROTOCOL_CONFIG_NAME = process.env.PROTOCOL_CONFIG_NAME;
+    const networkConfig = getNetworkConfigName(network);
+    if (!PROTOCOL_CONFIG_NAME) {
+        return loadProtocolConfig(networkConfig ?? ConfigNames.Test);
+    }
 
-    return loadProtocolConfig(
-        PROTOCOL_CONFIG_NAME ?
-            (ConfigNames[PROTOCOL_CONFIG_NAME as keyof typeof ConfigNames] || ConfigNames.Test) :
-            ConfigNames.Test
-    );
+    const configName = ConfigNames[PROTOCOL_CONFIG_NAME as keyof typeof ConfigNames];
+    if (!configName) {
+        throw new Error(
+            `Unknown PROTOCOL_CONFIG_NAME ${PROTOCOL_CONFIG_NAME}, expected one of ${Object.keys(ConfigNames).join(", ")}`
+        );
+    }
+    if (networkConfig && networkConfig !== configName) {
+        throw new Error(
+            `PROTOCOL_CONFIG_NAME ${PROTOCOL_CONFIG_NAME} does not match network ${network} of the ${networkConfig} configuration`
+        );
+    }
+    return loadProtocolConfig(configName);
+}
+
+/**
+ * Gets the transaction settings of a network from its protocol configuration
+ * @param network Hardhat network name
+ * @returns Confirmations, timeout and polling of the network, DEFAULT_TX_CONFIG if it has none
+ * @throws Error if PROTOCOL_CONFIG_NAME does not apply to the network, see getProtocolConfig
+ * @example
+ * const manager = new LiquidityPoolManager(pool, signer, getTxConfig(hre.network.name));
+ */
+export function getTxConfig(network: string): NetworkTxConfig {
+    return getProtocolConfig(network).TransactionConfig[network as eNetwork] ?? DEFAULT_TX_CONFIG;
+}
+
+/**
+ * Generates the Hardhat network entries of every protocol configuration with Networks
+ * The RPC URL is read from the environment variable named by each entry, mainnets
+ * are tagged "production" and testnets "test".
+ * @param mnemonic Seed phrase of the deployer accounts
+ * @returns Network entries keyed by eNetwork name
+ * @example
+ * networks: {
+ *     ...getHardhatNetworks(MNEMONIC),
+ *     hardhat: { ... },
+ * }
+ */
+export function getHardhatNetworks(mnemonic: string): NetworksUserConfig {
+    const networks: NetworksUserConfig = {};
+    for (const name of NETWORK_CONFIG_NAMES) {
+        for (const [network, connection] of Object.entries(loadProtocolConfig(name).Networks ?? {})) {
+            networks[network] = {
+                url: process.env[connection.rpcUrlEnv] || "",
+                accounts: { mnemonic },
+                chainId: connection.chainId,
+                live: true,
+                saveDeployments: true,
+                tags: [connection.production ? "production" : "test"],
+                timeout: connection.timeout ?? 120000,
+                gasMultiplier: connection.gasMultiplier ?? 1,
+            };
+        }
+    }
+    return networks;
 }
@@ -0,0 +1,283 @@
+/**
+ * Codec for the two layers of a cross-chain settlement message.
+ *
+ * MessageRouter._routeCrossChain wraps the submitted payload in an envelope,
+ * abi.encode(messageId, sender, target, payload), and WormholeSettlementReceiver
+ * decodes the inner payload as abi.encode(token, amount, recipient).
+ *
+ * PACS.008 payloads use the 180 byte selector format of PACS008Handler instead,
+ * which the receiver cannot decode. The helpers below detect that mismatch and
+ * translate PACS.008 payloads into settlement instructions.
+ *
+ * ProtocolCoordinator.submitMessage only accepts payloads carrying the PACS.008
+ * selectors, while the receiver only reads the first three words. A translated
+ * payload is therefore the settlement instruction followed by the PACS.008
+ * payload it was built from, which passes both.
+ */
+
+import { AbiCoder, BytesLike, ethers } from "ethers";
+import { LOCAL_CHAIN_ID } from "../constants";
+import {
+    CrossChainEnvelope,
+    CrossChainPayloadFormat,
+    CrossChainPayloadInspection,
+    PACS008_PAYLOAD_SIZE,
+    PACS008PayloadFields,
+    SettlementInstruction,
+    tEthereumAddress,
+} from "../types";
+import { decodePACS008Payload, encodePACS008Payload, isValidPACS008Payload } from "./pacs008-codec";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/** Layout of the envelope built by MessageRouter */
+const ENVELOPE_ABI = ["bytes32", "address", "address", "bytes"];
+
+/** Layout of the inner payload decoded by WormholeSettlementReceiver */
+const SETTLEMENT_ABI = ["address", "uint256", "address"];
+
+/** Size of an encoded settlement instruction: three static words */
+const SETTLEMENT_INSTRUCTION_SIZE = 96;
+
+/**
+ * Encodes the envelope MessageRouter sends through Wormhole
+ * @param envelope Message ID, source sender, target receiver and inner payload
+ * @returns abi.encode(bytes32, address, address, bytes)
+ */
+export function encodeCrossChainEnvelope(envelope: CrossChainEnvelope): string {
+    return abiCoder.encode(ENVELOPE_ABI, [envelope.messageId, envelope.sender, envelope.target, envelope.payload]);
+}
+
+/**
+ * Decodes a cross-chain envelope, e.g. the payload of a MockWormholeRelayer SendEvent
+ * @param data Envelope bytes
+ * @throws Error if the data is not an envelope
+ */
+export function decodeCrossChainEnvelope(data: BytesLike): CrossChainEnvelope {
+    try {
+        const [messageId, sender, target, payload] = abiCoder.decode(ENVELOPE_ABI, data);
+        return { messageId, sender, target, payload };
+    } catch (error) {
+        throw new Error(`CrossChainEnvelope: Invalid envelope: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Encodes the inner payload expected by WormholeSettlementReceiver
+ * @param instruction Token, amount and recipient
+ * @returns abi.encode(address, uint256, address)
+ * @throws Error if SettlementController would reject the instruction
+ */
+export function encodeSettlementInstruction(instruction: SettlementInstruction): string {
+    assertValidInstruction(instruction);
+    return abiCoder.encode(SETTLEMENT_ABI, [instruction.token, instruction.amount, instruction.recipient]);
+}
+
+/**
+ * Decodes a settlement instruction
+ * Only exact three-word tuples, optionally followed by the PACS.008 payload they were
+ * translated from, are accepted, so a PACS.008 payload never decodes by accident.
+ *
+ * @param payload Inner payload
+ * @throws Error on wrong length, malformed addresses or a PACS.008 part that does not match
+ */
+export function decodeSettlementInstruction(payload: BytesLike): SettlementInstruction {
+    const length = ethers.dataLength(payload);
+    if (length !== SETTLEMENT_INSTRUCTION_SIZE && length !== SETTLEMENT_INSTRUCTION_SIZE + PACS008_PAYLOAD_SIZE) {
+        throw new Error(
+            `CrossChainEnvelope: Invalid settlement instruction length ${length}, expected ${SETTLEMENT_INSTRUCTION_SIZE}`
+        );
+    }
+
+    let instruction: SettlementInstruction;
+    try {
+        const [token, amount, recipient] = abiCoder.decode(
+            SETTLEMENT_ABI,
+            ethers.dataSlice(payload, 0, SETTLEMENT_INSTRUCTION_SIZE)
+        );
+        instruction = { token, amount, recipient };
+    } catch (error) {
+        throw new Error(`CrossChainEnvelope: Invalid settlement instruction: ${(error as Error).message}`);
+    }
+
+    if (length > SETTLEMENT_INSTRUCTION_SIZE) {
+        const translated = translatePACS008ToSettlement(ethers.dataSlice(payload, SETTLEMENT_INSTRUCTION_SIZE));
+        if (
+            translated.token !== instruction.token ||
+            translated.amount !== instruction.amount ||
+            translated.recipient !== instruction.recipient
+        ) {
+            throw new Error("CrossChainEnvelope: Settlement instruction does not match its PACS.008 payload");
+        }
+    }
+    return instruction;
+}
+
+/**
+ * Detects the layout of an inner payload
+ * @param payload Inner payload
+ */
+export function detectPayloadFormat(payload: BytesLike): CrossChainPayloadFormat {
+    if (isValidPACS008Payload(payload)) {
+        return "pacs008";
+    }
+    try {
+        decodeSettlementInstruction(payload);
+        return "settlement";
+    } catch {
+        return "unknown";
+    }
+}
+
+/**
+ * Converts a PACS.008 payload into the settlement instruction the receiver expects
+ * The creditor agent is the recipient, as in PACS008Handler.
+ *
+ * @param payload PACS.008 selector payload
+ * @returns Settlement instruction
+ * @throws Error if the payload is not a valid PACS.008 payload
+ */
+export function translatePACS008ToSettlement(payload: BytesLike): SettlementInstruction {
+    const message = decodePACS008Payload(payload);
+    return { token: message.tokenAddr, amount: message.amount, recipient: message.creditorAddr };
+}
+
+/**
+ * Builds the inner payload of a cross-chain settlement from either layout
+ * PACS.008 payloads are translated and kept after the instruction, so the coordinator
+ * still validates them; settlement instructions are checked and kept.
+ *
+ * @param payload PACS.008 payload or settlement instruction
+ * @returns abi.encode(token, amount, recipient), followed by the PACS.008 payload if there is one
+ * @throws Error if the payload is in neither layout
+ *
+ * @example
+ * const payload = encodePACS008Payload(fields);
+ * await router.routeMessage(messageId, receiver, targetChain, toCrossChainSettlementPayload(payload), { value: fee });
+ */
+export function toCrossChainSettlementPayload(payload: BytesLike): string {
+    switch (detectPayloadFormat(payload)) {
+        case "pacs008":
+            return ethers.concat([encodeSettlementInstruction(translatePACS008ToSettlement(payload)), payload]);
+        case "settlement":
+            assertValidInstruction(decodeSettlementInstruction(payload));
+            return ethers.hexlify(payload);
+        default:
+            throw new Error("CrossChainEnvelope: Payload is neither a PACS.008 payload nor a settlement instruction");
+    }
+}
+
+/**
+ * Encodes the payload of a PACS.008 submission for its route
+ * Local routes carry the PACS.008 payload for PACS008Handler; cross-chain routes the
+ * settlement payload for WormholeSettlementReceiver.
+ *
+ * @param message Message fields
+ * @param targetChain Wormhole chain ID of the target
+ * @returns Payload to submit to the ProtocolCoordinator
+ * @throws Error if the message is invalid
+ */
+export function encodeRoutedPACS008Payload(
+    message: PACS008PayloadFields,
+    targetChain: number = LOCAL_CHAIN_ID
+): string {
+    const payload = encodePACS008Payload(message);
+    return targetChain === LOCAL_CHAIN_ID ? payload : toCrossChainSettlementPayload(payload);
+}
+
+/**
+ * Returns the PACS.008 part of a submitted payload
+ * @param payload Payload of a registered message, in either route layout
+ * @returns PACS.008 payload, or undefined if the payload carries none
+ */
+export function extractPACS008Payload(payload: BytesLike): string | undefined {
+    if (isValidPACS008Payload(payload)) {
+        return ethers.hexlify(payload);
+    }
+    if (ethers.dataLength(payload) === SETTLEMENT_INSTRUCTION_SIZE + PACS008_PAYLOAD_SIZE) {
+        try {
+            decodeSettlementInstruction(payload);
+            return ethers.dataSlice(payload, SETTLEMENT_INSTRUCTION_SIZE);
+        } catch {
+            return undefined;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Builds a complete envelope for WormholeSettlementReceiver
+ * @param envelope Envelope fields, with the inner payload in either layout
+ * @returns Envelope bytes with a settlement instruction as inner payload
+ */
+export function buildSettlementEnvelope(envelope: CrossChainEnvelope): string {
+    return encodeCrossChainEnvelope({ ...envelope, payload: toCrossChainSettlementPayload(envelope.payload) });
+}
+
+/**
+ * Checks an envelope against the rules of WormholeSettlementReceiver and SettlementController
+ * @param data Envelope bytes
+ * @param receiver Receiver the envelope is delivered to, to check the target
+ * @returns Detected layout, decoded layers and the reasons delivery would fail
+ *
+ * @example
+ * const { issues } = inspectCrossChainEnvelope(sendEvent.args.payload, receiverAddress);
+ * if (issues.length) console.warn(issues.join("\n"));
+ */
+export function inspectCrossChainEnvelope(
+    data: BytesLike,
+    receiver?: tEthereumAddress
+): CrossChainPayloadInspection {
+    let envelope: CrossChainEnvelope;
+    try {
+        envelope = decodeCrossChainEnvelope(data);
+    } catch (error) {
+        return { format: "unknown", issues: [(error as Error).message] };
+    }
+
+    const issues: string[] = [];
+    if (receiver && envelope.target.toLowerCase() !== receiver.toLowerCase()) {
+        issues.push(`Envelope target ${envelope.target} is not the receiver ${receiver}`);
+    }
+
+    const format = detectPayloadFormat(envelope.payload);
+    let instruction: SettlementInstruction | undefined;
+
+    switch (format) {
+        case "pacs008":
+            issues.push(
+                "Inner payload uses the PACS.008 selector format; WormholeSettlementReceiver expects " +
+                    "abi.encode(address token, uint256 amount, address recipient). Use toCrossChainSettlementPayload."
+            );
+            break;
+        case "settlement":
+            instruction = decodeSettlementInstruction(envelope.payload);
+            issues.push(...instructionIssues(instruction));
+            break;
+        default:
+            issues.push("Inner payload is not an abi.encode(address, uint256, address) settlement instruction");
+    }
+
+    return { format, envelope, instruction, issues };
+}
+
+/**
+ * Rules of SettlementController.processSettlement
+ */
+function instructionIssues(instruction: SettlementInstruction): string[] {
+    const issues: string[] = [];
+    if (instruction.amount <= 0n) {
+        issues.push("Invalid amount: settlement amount must be greater than zero");
+    }
+    if (instruction.recipient === ethers.ZeroAddress) {
+        issues.push("Invalid recipient: settlement recipient is the zero address");
+    }
+    return issues;
+}
+
+function assertValidInstruction(instruction: SettlementInstruction): void {
+    const [issue] = instructionIssues(instruction);
+    if (issue) {
+        throw new Error(`CrossChainEnvelope: ${issue}`);
+    }
+}
@@ -0,0 +1,170 @@
+import { AbiCoder, BytesLike, ethers } from "ethers";
+import {
+    ProposalDraft,
+    ProposalParams,
+    ProposalType,
+    ProposalTypeName,
+    TargetType,
+    TargetTypeName,
+} from "../types";
+import { createMessageCodec, decodeSchema, encodeSchema } from "./message-schema";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/** ABI layout of the data of each proposal type, the arguments of the enacting call */
+const PROPOSAL_DATA_ABI: Record<ProposalTypeName, string[]> = {
+    UPDATE_PROTOCOL: ["uint16", "uint16", "uint16", "string"],
+    ADD_MESSAGE_TYPE: ["bytes32", "bytes4[]", "bytes"],
+    UPDATE_MESSAGE_TYPE: ["bytes32", "bytes"],
+    ADD_TARGET: ["address", "uint16", "uint8", "bytes"],
+    REMOVE_TARGET: ["address", "uint16"],
+    EMERGENCY_ACTION: ["string", "address", "string"],
+};
+
+/**
+ * Encodes a typed proposal into the arguments of ProtocolGovernance.createProposal
+ *
+ * @param draft Proposal type and parameters
+ * @returns On-chain proposal type and data
+ * @throws Error if a parameter is out of range or not a valid address, schema or target type
+ *
+ * @example
+ * const { proposalType, data } = encodeProposal({
+ *     proposalType: "ADD_TARGET",
+ *     params: { target, chainId: 10002, targetType: "CONTRACT", metadata: "SETTLEMENT_RECEIVER" },
+ * });
+ * await governance.createProposal(proposalType, data);
+ */
+export function encodeProposal(draft: ProposalDraft): { proposalType: ProposalType; data: string } {
+    let values: unknown[];
+
+    switch (draft.proposalType) {
+        case "UPDATE_PROTOCOL": {
+            const { major, minor, patch, description } = draft.params;
+            values = [major, minor, patch, description];
+            break;
+        }
+        case "ADD_MESSAGE_TYPE": {
+            const codec = createMessageCodec(draft.params.schema);
+            values = [codec.messageType, codec.requiredFields, codec.schemaBytes];
+            break;
+        }
+        case "UPDATE_MESSAGE_TYPE": {
+            const { schema } = draft.params;
+            createMessageCodec(schema);
+            values = [ethers.id(schema.messageType), encodeSchema(schema)];
+            break;
+        }
+        case "ADD_TARGET": {
+            const { target, chainId, targetType, metadata } = draft.params;
+            if (!(targetType in TargetType)) {
+                throw new Error(`GovernanceProposals: Unknown target type ${targetType}`);
+            }
+            values = [toAddress(target), chainId, TargetType[targetType], ethers.toUtf8Bytes(metadata)];
+            break;
+        }
+        case "REMOVE_TARGET":
+            values = [toAddress(draft.params.target), draft.params.chainId];
+            break;
+        case "EMERGENCY_ACTION": {
+            const { action, target, reason } = draft.params;
+            if (!action) {
+                throw new Error("GovernanceProposals: Emergency action name is empty");
+            }
+            values = [action, toAddress(target), reason];
+            break;
+        }
+        default:
+            throw new Error(`GovernanceProposals: Unknown proposal type ${(draft as ProposalDraft).proposalType}`);
+    }
+
+    try {
+        return {
+            proposalType: ProposalType[draft.proposalType],
+            data: abiCoder.encode(PROPOSAL_DATA_ABI[draft.proposalType], values),
+        };
+    } catch (error) {
+        throw new Error(`GovernanceProposals: Invalid ${draft.proposalType} parameters: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Decodes the data of a proposal built by encodeProposal
+ *
+ * @param proposalType Proposal type name
+ * @param data Proposal data, as returned by ProtocolGovernance.getProposal
+ * @returns Typed parameters
+ * @throws Error if the data does not match the layout of the proposal type
+ */
+export function decodeProposalData<T extends ProposalTypeName>(proposalType: T, data: BytesLike): ProposalParams[T] {
+    let values: ethers.Result;
+    try {
+        values = abiCoder.decode(PROPOSAL_DATA_ABI[proposalType], data);
+    } catch {
+        throw new Error(`GovernanceProposals: Data is not an encoded ${proposalType} proposal`);
+    }
+
+    const params: ProposalParams[ProposalTypeName] = (() => {
+        switch (proposalType as ProposalTypeName) {
+            case "UPDATE_PROTOCOL":
+                return { major: Number(values[0]), minor: Number(values[1]), patch: Number(values[2]), description: values[3] };
+            case "ADD_MESSAGE_TYPE":
+            case "UPDATE_MESSAGE_TYPE": {
+                const schema = decodeSchema(values[values.length - 1]);
+                if (ethers.id(schema.messageType) !== values[0]) {
+                    throw new Error(`GovernanceProposals: Message type ${values[0]} does not match schema ${schema.messageType}`);
+                }
+                return { schema };
+            }
+            case "ADD_TARGET":
+                return {
+                    target: values[0],
+                    chainId: Number(values[1]),
+                    targetType: TargetType[Number(values[2])] as TargetTypeName,
+                    metadata: ethers.toUtf8String(values[3]),
+                };
+            case "REMOVE_TARGET":
+                return { target: values[0], chainId: Number(values[1]) };
+            case "EMERGENCY_ACTION":
+                return { action: values[0], target: values[1], reason: values[2] };
+        }
+    })();
+
+    return params as ProposalParams[T];
+}
+
+/**
+ * Describes a proposal in one line
+ * @param draft Proposal type and parameters
+ * @returns Description, e.g. "Register target 0x... on chain 10002 (CONTRACT, SETTLEMENT_RECEIVER)"
+ */
+export function describeProposal(draft: ProposalDraft): string {
+    switch (draft.proposalType) {
+        case "UPDATE_PROTOCOL": {
+            const { major, minor, patch, description } = draft.params;
+            return `Update the protocol to ${major}.${minor}.${patch}: ${description}`;
+        }
+        case "ADD_MESSAGE_TYPE":
+            return `Register message type ${draft.params.schema.messageType} v${draft.params.schema.version}`;
+        case "UPDATE_MESSAGE_TYPE":
+            return `Update the schema of ${draft.params.schema.messageType} to v${draft.params.schema.version}`;
+        case "ADD_TARGET": {
+            const { target, chainId, targetType, metadata } = draft.params;
+            return `Register target ${target} on chain ${chainId} (${targetType}, ${metadata})`;
+        }
+        case "REMOVE_TARGET":
+            return `Deactivate target ${draft.params.target} on chain ${draft.params.chainId}`;
+        case "EMERGENCY_ACTION": {
+            const { action, target, reason } = draft.params;
+            return `Emergency ${action} on ${target}: ${reason}`;
+        }
+    }
+}
+
+function toAddress(value: string): string {
+    try {
+        return ethers.getAddress(value);
+    } catch {
+        throw new Error(`GovernanceProposals: Invalid address ${value}`);
+    }
+}
@@ -0,0 +1,100 @@
+import { ContractRunner, Filter, Log, Provider } from "ethers";
+import type { TypedContractEvent, TypedDeferredTopicFilter, TypedEventLog } from "../../typechain/common";
+
+/** Blocks per eth_getLogs request, public RPCs reject wider ranges */
+export const DEFAULT_MAX_BLOCK_RANGE = 2000;
+
+/**
+ * Typed contract whose events can be queried in chunks
+ */
+export interface QueryableContract {
+    readonly runner: ContractRunner | null;
+    queryFilter<TCEvent extends TypedContractEvent>(
+        filter: TypedDeferredTopicFilter<TCEvent>,
+        fromBlock?: number,
+        toBlock?: number
+    ): Promise<Array<TypedEventLog<TCEvent>>>;
+}
+
+/**
+ * Splits a block range into ranges of at most maxBlockRange blocks
+ * @param fromBlock First block
+ * @param toBlock Last block, included
+ * @param maxBlockRange Maximum number of blocks per range
+ * @returns Inclusive [from, to] ranges in ascending order, none if toBlock < fromBlock
+ * @example
+ * blockRanges(0, 4500, 2000); // [[0, 1999], [2000, 3999], [4000, 4500]]
+ */
+export function blockRanges(
+    fromBlock: number,
+    toBlock: number,
+    maxBlockRange: number = DEFAULT_MAX_BLOCK_RANGE
+): [number, number][] {
+    if (!Number.isInteger(maxBlockRange) || maxBlockRange < 1) {
+        throw new Error(`LogQuery: Invalid block range size ${maxBlockRange}`);
+    }
+    const ranges: [number, number][] = [];
+    for (let start = fromBlock; start <= toBlock; start += maxBlockRange) {
+        ranges.push([start, Math.min(start + maxBlockRange - 1, toBlock)]);
+    }
+    return ranges;
+}
+
+/**
+ * Reads the logs of a filter with one eth_getLogs request per block range
+ * @param provider Provider to read the logs from
+ * @param filter Addresses and topics
+ * @param fromBlock First block, ideally the deployment block
+ * @param toBlock Last block, defaults to the current block
+ * @param maxBlockRange Maximum number of blocks per request
+ * @returns Logs in chain order
+ * @example
+ * const logs = await getLogsInChunks(provider, { address, topics: [topicHash] }, entry.blockNumber ?? 0);
+ */
+export async function getLogsInChunks(
+    provider: Provider,
+    filter: Omit<Filter, "fromBlock" | "toBlock">,
+    fromBlock: number,
+    toBlock?: number,
+    maxBlockRange: number = DEFAULT_MAX_BLOCK_RANGE
+): Promise<Log[]> {
+    toBlock ??= await provider.getBlockNumber();
+
+    const logs: Log[] = [];
+    for (const [start, end] of blockRanges(fromBlock, toBlock, maxBlockRange)) {
+        logs.push(...(await provider.getLogs({ ...filter, fromBlock: start, toBlock: end })));
+    }
+    return logs;
+}
+
+/**
+ * Runs a typed queryFilter with one request per block range
+ * @param contract Typechain contract connected to a provider
+ * @param filter Event filter, e.g. contract.filters.MessageSubmissionInitiated()
+ * @param fromBlock First block, ideally the deployment block
+ * @param toBlock Last block, defaults to the current block
+ * @param maxBlockRange Maximum number of blocks per request
+ * @returns Typed event logs in chain order
+ * @throws Error if the contract has no provider
+ * @example
+ * const updates = await queryFilterInChunks(governance, governance.filters.VotingPowerUpdated(), deploymentBlock);
+ */
+export async function queryFilterInChunks<TCEvent extends TypedContractEvent>(
+    contract: QueryableContract,
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlock: number,
+    toBlock?: number,
+    maxBlockRange: number = DEFAULT_MAX_BLOCK_RANGE
+): Promise<Array<TypedEventLog<TCEvent>>> {
+    const provider = contract.runner?.provider;
+    if (!provider) {
+        throw new Error("LogQuery: Contract is not connected to a provider");
+    }
+    toBlock ??= await provider.getBlockNumber();
+
+    const logs: Array<TypedEventLog<TCEvent>> = [];
+    for (const [start, end] of blockRanges(fromBlock, toBlock, maxBlockRange)) {
+        logs.push(...(await contract.queryFilter(filter, start, end)));
+    }
+    return logs;
+}
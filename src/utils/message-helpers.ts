@@ -1,5 +1,17 @@
-import { ethers } from "hardhat";
+import { encodePACS008Payload } from "./pacs008-codec";
 
+/**
+ * Creates a PACS.008 payload without applying the handler's validation rules,
+ * so that tests can build payloads the handler must reject
+ *
+ * @deprecated Use encodePACS008Payload from ./pacs008-codec
+ * @param debtorAgent Address of the sending institution
+ * @param creditorAgent Address of the receiving institution
+ * @param token Address of the token being transferred
+ * @param amount Amount to transfer
+ * @param instructionId Instruction identifier (hex or text, up to 32 bytes)
+ * @returns Encoded payload string
+ */
 export function CreatePACS008Payload(
     debtorAgent: string,
     creditorAgent: string,
@@ -7,44 +19,14 @@ export function CreatePACS008Payload(
     amount: bigint,
     instructionId: string
 ) {
-    // Create field selectors (4 bytes each)
-    const debtorAgentSelector = ethers.id("debtorAgent").slice(0, 10);  // First 4 bytes
-    const creditorAgentSelector = ethers.id("creditorAgent").slice(0, 10);
-    const tokenSelector = ethers.id("token").slice(0, 10);
-    const amountSelector = ethers.id("amount").slice(0, 10);
-    const instructionIdSelector = ethers.id("instructionId").slice(0, 10);
-
-    // Encode each field with its selector
-    const encodedFields = [
-        // debtorAgent field
-        {
-            selector: debtorAgentSelector,
-            value: ethers.zeroPadValue(ethers.getAddress(debtorAgent), 32)
-        },
-        // creditorAgent field
-        {
-            selector: creditorAgentSelector,
-            value: ethers.zeroPadValue(ethers.getAddress(creditorAgent), 32)
-        },
-        // token field
+    return encodePACS008Payload(
         {
-            selector: tokenSelector,
-            value: ethers.zeroPadValue(ethers.getAddress(token), 32)
+            debtorAddr: debtorAgent,
+            creditorAddr: creditorAgent,
+            tokenAddr: token,
+            amount,
+            instructionId
         },
-        // amount field
-        {
-            selector: amountSelector,
-            value: ethers.zeroPadValue(ethers.toBeHex(amount), 32)
-        },
-        // instructionId field
-        {
-            selector: instructionIdSelector,
-            value: ethers.zeroPadValue(instructionId, 32)
-        }
-    ];
-
-    // Concatenate all fields
-    return ethers.concat(
-        encodedFields.map(field => ethers.concat([field.selector, field.value]))
+        { validate: false }
     );
-}
\ No newline at end of file
+}
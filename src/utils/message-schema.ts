@@ -0,0 +1,213 @@
+import { AbiCoder, BytesLike, ethers } from "ethers";
+import {
+    fieldSelector,
+    MessageCodec,
+    MessageSchema,
+    MessageValues,
+    messageTypeHash,
+    SchemaField,
+    SchemaFieldType,
+} from "../types/message-schema";
+
+export { fieldSelector };
+
+/** Size of one encoded field: 4 bytes selector + 32 bytes value */
+const FIELD_SIZE = 36;
+
+/** ABI layout of the schema bytes */
+const SCHEMA_ABI = ["string", "string", "tuple(string name, string type, bytes4 selector, bool required)[]"];
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/**
+ * Generates the encoder, decoder and registration data of a message schema
+ *
+ * @param schema Schema declared with defineMessageSchema
+ * @returns Codec for the message type
+ * @throws Error if the schema has duplicate names, colliding selectors or unsupported types
+ *
+ * @example
+ * const pacs009 = createMessageCodec(PACS009_SCHEMA);
+ * await messageProtocol.registerMessageFormat(pacs009.messageType, pacs009.requiredFields, pacs009.schemaBytes);
+ * const payload = pacs009.encode({ debtorAgent, creditorAgent, token, amount, instructionId });
+ */
+export function createMessageCodec<const S extends MessageSchema>(schema: S): MessageCodec<S> {
+    assertValidSchema(schema);
+
+    const selectors = Object.fromEntries(
+        schema.fields.map(field => [field.name, fieldSelector(field.name)])
+    ) as Record<S["fields"][number]["name"], string>;
+    const fieldsBySelector = new Map<string, SchemaField>(
+        schema.fields.map(field => [fieldSelector(field.name), field])
+    );
+
+    const encode = (values: MessageValues<S>): string => {
+        const record = values as Record<string, unknown>;
+        const parts: string[] = [];
+
+        for (const field of schema.fields) {
+            const value = record[field.name];
+            if (value === undefined) {
+                if (field.required !== false) {
+                    throw new Error(`MessageSchema: Missing required field ${field.name} for ${schema.messageType}`);
+                }
+                continue;
+            }
+            parts.push(fieldSelector(field.name), encodeValue(schema, field, value));
+        }
+
+        return ethers.concat(parts);
+    };
+
+    const decode = (payload: BytesLike): MessageValues<S> => {
+        const bytes = ethers.getBytes(payload);
+        if (bytes.length === 0 || bytes.length % FIELD_SIZE !== 0) {
+            throw new Error(
+                `MessageSchema: Invalid ${schema.messageType} payload length ${bytes.length}, expected a multiple of ${FIELD_SIZE}`
+            );
+        }
+
+        const values: Record<string, unknown> = {};
+
+        for (let offset = 0; offset < bytes.length; offset += FIELD_SIZE) {
+            const selector = ethers.hexlify(bytes.slice(offset, offset + 4));
+            const field = fieldsBySelector.get(selector);
+
+            if (!field) {
+                throw new Error(`MessageSchema: Unknown ${schema.messageType} selector ${selector} at offset ${offset}`);
+            }
+            if (field.name in values) {
+                throw new Error(`MessageSchema: Duplicate field ${field.name} at offset ${offset}`);
+            }
+
+            const word = bytes.slice(offset + 4, offset + FIELD_SIZE);
+            try {
+                values[field.name] = abiCoder.decode([field.type], word)[0];
+            } catch {
+                throw new Error(`MessageSchema: Invalid ${field.type} value for ${field.name}: ${ethers.hexlify(word)}`);
+            }
+        }
+
+        for (const field of schema.fields) {
+            if (field.required !== false && !(field.name in values)) {
+                throw new Error(`MessageSchema: Missing required field ${field.name} for ${schema.messageType}`);
+            }
+        }
+
+        return values as MessageValues<S>;
+    };
+
+    return {
+        schema,
+        messageType: messageTypeHash(schema.messageType),
+        selectors,
+        requiredFields: schema.fields
+            .filter(field => field.required !== false)
+            .map(field => fieldSelector(field.name)),
+        schemaBytes: encodeSchema(schema),
+        encode,
+        decode,
+    };
+}
+
+/**
+ * ABI encodes a schema for on-chain registration
+ * Layout: abi.encode(string messageType, string version, (string name, string type, bytes4 selector, bool required)[])
+ *
+ * @param schema Message schema
+ * @returns Schema bytes
+ */
+export function encodeSchema(schema: MessageSchema): string {
+    return abiCoder.encode(SCHEMA_ABI, [
+        schema.messageType,
+        schema.version,
+        schema.fields.map(field => [field.name, field.type, fieldSelector(field.name), field.required !== false]),
+    ]);
+}
+
+/**
+ * Decodes schema bytes read from MessageProtocol.getMessageFormat
+ * @param schemaBytes Schema bytes produced by encodeSchema
+ * @returns Message schema
+ * @throws Error if the bytes are not an encoded schema or selectors do not match the names
+ */
+export function decodeSchema(schemaBytes: BytesLike): MessageSchema {
+    let decoded: ethers.Result;
+    try {
+        decoded = abiCoder.decode(SCHEMA_ABI, schemaBytes);
+    } catch {
+        throw new Error("MessageSchema: Schema bytes are not an encoded message schema");
+    }
+
+    const [messageType, version, fields] = decoded;
+    const schema: MessageSchema = {
+        messageType,
+        version,
+        fields: (fields as ethers.Result[]).map(([name, type, selector, required]) => {
+            if (selector !== fieldSelector(name)) {
+                throw new Error(`MessageSchema: Selector ${selector} does not match field ${name}`);
+            }
+            return { name, type: type as SchemaFieldType, required };
+        }),
+    };
+
+    assertValidSchema(schema);
+    return schema;
+}
+
+function encodeValue(schema: MessageSchema, field: SchemaField, value: unknown): string {
+    try {
+        return abiCoder.encode([field.type], [value]);
+    } catch (error) {
+        throw new Error(
+            `MessageSchema: Invalid ${field.type} value for ${schema.messageType}.${field.name}: ${(error as Error).message}`
+        );
+    }
+}
+
+function assertValidSchema(schema: MessageSchema): void {
+    if (schema.fields.length === 0) {
+        throw new Error(`MessageSchema: ${schema.messageType} declares no fields`);
+    }
+    if (!schema.fields.some(field => field.required !== false)) {
+        throw new Error(`MessageSchema: ${schema.messageType} needs at least one required field`);
+    }
+
+    const selectors = new Map<string, string>();
+    for (const field of schema.fields) {
+        if (!isStaticType(field.type)) {
+            throw new Error(`MessageSchema: Unsupported type ${field.type} for ${schema.messageType}.${field.name}`);
+        }
+
+        const selector = fieldSelector(field.name);
+        const existing = selectors.get(selector);
+        if (existing !== undefined) {
+            throw new Error(
+                existing === field.name
+                    ? `MessageSchema: Duplicate field ${field.name} in ${schema.messageType}`
+                    : `MessageSchema: Selector collision between ${existing} and ${field.name} in ${schema.messageType}`
+            );
+        }
+        selectors.set(selector, field.name);
+    }
+}
+
+function isStaticType(type: string): boolean {
+    if (type === "address" || type === "bool") {
+        return true;
+    }
+
+    const integer = /^u?int(\d+)$/.exec(type);
+    if (integer) {
+        const bits = Number(integer[1]);
+        return bits >= 8 && bits <= 256 && bits % 8 === 0;
+    }
+
+    const fixedBytes = /^bytes(\d+)$/.exec(type);
+    if (fixedBytes) {
+        const size = Number(fixedBytes[1]);
+        return size >= 1 && size <= 32;
+    }
+
+    return false;
+}
@@ -0,0 +1,59 @@
+import { ethers, HDNodeWallet, Provider, Signer, Wallet } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Returns the first account of a network in hardhat.config.ts as a signer that can sign offline
+ * Mnemonics and private keys give a Wallet; "remote" accounts the node's first account.
+ *
+ * @param hre Hardhat runtime environment
+ * @param network Network name, defaults to the network of the task
+ * @returns Signer connected to the network
+ * @throws Error if the network is unknown or has no RPC URL
+ *
+ * @example
+ * const signer = await getNetworkSigner(hre, "arbitrum-sepolia");
+ */
+export async function getNetworkSigner(
+    hre: HardhatRuntimeEnvironment,
+    network: string = hre.network.name
+): Promise<Signer> {
+    const config = hre.config.networks[network];
+    const provider = getNetworkProvider(hre, network);
+
+    const accounts = config.accounts;
+    if (accounts === "remote") {
+        return network === hre.network.name
+            ? (await hre.ethers.getSigners())[0]
+            : (provider as ethers.JsonRpcProvider).getSigner();
+    }
+    if (Array.isArray(accounts)) {
+        const [account] = accounts;
+        return new Wallet(typeof account === "string" ? account : account.privateKey, provider);
+    }
+    return HDNodeWallet.fromPhrase(
+        accounts.mnemonic,
+        accounts.passphrase,
+        `${accounts.path}/${accounts.initialIndex}`
+    ).connect(provider);
+}
+
+/**
+ * Returns a provider of a network in hardhat.config.ts
+ * @param hre Hardhat runtime environment
+ * @param network Network name, defaults to the network of the task
+ * @returns hre.ethers.provider for the network of the task, a JsonRpcProvider for the others
+ * @throws Error if the network is unknown or has no RPC URL
+ */
+export function getNetworkProvider(hre: HardhatRuntimeEnvironment, network: string = hre.network.name): Provider {
+    const config = hre.config.networks[network];
+    if (!config) {
+        throw new Error(`NetworkSigner: Unknown network ${network}`);
+    }
+    if (network === hre.network.name) {
+        return hre.ethers.provider;
+    }
+    if ("url" in config && config.url) {
+        return new ethers.JsonRpcProvider(config.url);
+    }
+    throw new Error(`NetworkSigner: No RPC URL configured for ${network}`);
+}
@@ -0,0 +1,216 @@
+/**
+ * Canonical codec for PACS.008 message payloads.
+ *
+ * A payload is the concatenation of five fields, each encoded as a 4 byte
+ * selector (first 4 bytes of keccak256 of the field name) followed by a
+ * 32 byte value. This is the 180 byte layout parsed by
+ * `PACS008Handler._decodeAndValidatePayload`.
+ *
+ * The codec only depends on ethers so it can be used outside Hardhat,
+ * e.g. to inspect payloads stored in the MessageRegistry.
+ *
+ * Decoding keeps the low 20 bytes of address words like the handler does,
+ * but rejects unknown and duplicate selectors, which the handler ignores.
+ */
+
+import { BytesLike, ethers } from "ethers";
+import {
+    MESSAGE_SELECTORS,
+    PACS008Field,
+    PACS008Message,
+    PACS008PayloadFields,
+    PACS008_FIELD_SIZE,
+    PACS008_MAXIMUM_AMOUNT,
+    PACS008_MINIMUM_AMOUNT,
+    PACS008_PAYLOAD_SIZE,
+} from "../types/pacs-008";
+import { PACS008_SCHEMA } from "../types/message-schema";
+
+/**
+ * Options for payload encoding
+ */
+export interface PACS008EncodeOptions {
+    /**
+     * Whether to apply the handler's validation rules before encoding.
+     * Disable only to build deliberately invalid payloads in tests.
+     */
+    validate?: boolean;
+}
+
+/** Encoding order of the payload fields, as declared by PACS008_SCHEMA */
+const FIELD_ORDER: PACS008Field[] = PACS008_SCHEMA.fields.map(field => field.name);
+
+/** Reverse lookup from selector to field name */
+const SELECTOR_TO_FIELD = new Map<string, PACS008Field>(
+    FIELD_ORDER.map(field => [MESSAGE_SELECTORS[field], field])
+);
+
+/**
+ * Converts an instruction identifier to its bytes32 representation.
+ * Hex strings of up to 32 bytes are left padded, any other string is
+ * UTF-8 encoded and right padded.
+ *
+ * @param instructionId Hex string or text identifier (e.g. an ISO 20022 InstrId)
+ * @returns bytes32 hex string
+ * @throws Error if the identifier does not fit in 32 bytes
+ */
+export function encodeInstructionId(instructionId: string): string {
+    if (ethers.isHexString(instructionId, true) && ethers.dataLength(instructionId) <= 32) {
+        return ethers.zeroPadValue(instructionId, 32);
+    }
+
+    const bytes = ethers.toUtf8Bytes(instructionId);
+    if (bytes.length === 0 || bytes.length > 32) {
+        throw new Error(`PACS008Codec: Instruction ID must be 1 to 32 bytes, got ${bytes.length}`);
+    }
+    return ethers.zeroPadBytes(bytes, 32);
+}
+
+/**
+ * Converts a bytes32 instruction identifier back to text when it was
+ * produced from a text identifier, otherwise returns the hex value.
+ *
+ * @param instructionId bytes32 hex string
+ * @returns Text identifier or the unchanged hex string
+ */
+export function decodeInstructionId(instructionId: string): string {
+    try {
+        const text = ethers.toUtf8String(ethers.getBytes(instructionId)).replace(/\0+$/, "");
+        if (text.length > 0 && /^[\x20-\x7e]+$/.test(text)) {
+            return text;
+        }
+    } catch {
+        // Not valid UTF-8
+    }
+    return instructionId;
+}
+
+/**
+ * Encodes a PACS.008 message into the on-chain payload format
+ *
+ * @param fields Message fields (the handler address is not part of the payload)
+ * @param options Encoding options
+ * @returns 180 byte payload as hex string
+ * @throws Error if the fields violate the handler's validation rules
+ *
+ * @example
+ * const payload = encodePACS008Payload({
+ *     debtorAddr, creditorAddr, tokenAddr,
+ *     amount: ethers.parseEther("1"),
+ *     instructionId: "INSTR-0001"
+ * });
+ */
+export function encodePACS008Payload(
+    fields: PACS008PayloadFields,
+    options: PACS008EncodeOptions = {}
+): string {
+    if (options.validate ?? true) {
+        assertValidFields(fields);
+    }
+
+    const values: Record<PACS008Field, string> = {
+        debtorAgent: ethers.zeroPadValue(ethers.getAddress(fields.debtorAddr), 32),
+        creditorAgent: ethers.zeroPadValue(ethers.getAddress(fields.creditorAddr), 32),
+        token: ethers.zeroPadValue(ethers.getAddress(fields.tokenAddr), 32),
+        amount: ethers.toBeHex(fields.amount, 32),
+        instructionId: encodeInstructionId(fields.instructionId),
+    };
+
+    return ethers.concat(
+        FIELD_ORDER.flatMap(field => [MESSAGE_SELECTORS[field], values[field]])
+    );
+}
+
+/**
+ * Decodes an on-chain PACS.008 payload
+ * Fields may appear in any order, as accepted by the handler
+ *
+ * @param payload Raw payload, e.g. ISO20022Message.payload from the MessageRegistry
+ * @param handlerAddr Handler the payload was sent to (ISO20022Message.target)
+ * @returns Decoded message, with instructionId as bytes32 hex string
+ * @throws Error on wrong length, unknown or duplicate selectors, or invalid values
+ */
+export function decodePACS008Payload(
+    payload: BytesLike,
+    handlerAddr: string = ethers.ZeroAddress
+): PACS008Message {
+    const bytes = ethers.getBytes(payload);
+
+    if (bytes.length !== PACS008_PAYLOAD_SIZE) {
+        throw new Error(
+            `PACS008Codec: Invalid payload length ${bytes.length}, expected ${PACS008_PAYLOAD_SIZE}`
+        );
+    }
+
+    const values = new Map<PACS008Field, string>();
+
+    for (let offset = 0; offset < bytes.length; offset += PACS008_FIELD_SIZE) {
+        const selector = ethers.hexlify(bytes.slice(offset, offset + 4));
+        const value = ethers.hexlify(bytes.slice(offset + 4, offset + PACS008_FIELD_SIZE));
+        const field = SELECTOR_TO_FIELD.get(selector);
+
+        if (!field) {
+            throw new Error(`PACS008Codec: Unknown selector ${selector} at offset ${offset}`);
+        }
+        if (values.has(field)) {
+            throw new Error(`PACS008Codec: Duplicate field ${field} at offset ${offset}`);
+        }
+        values.set(field, value);
+    }
+
+    const message: PACS008Message = {
+        debtorAddr: toAddress(values.get("debtorAgent")!),
+        creditorAddr: toAddress(values.get("creditorAgent")!),
+        tokenAddr: toAddress(values.get("token")!),
+        amount: ethers.toBigInt(values.get("amount")!),
+        handlerAddr,
+        instructionId: values.get("instructionId")!,
+    };
+
+    assertValidFields(message);
+
+    return message;
+}
+
+/**
+ * Checks whether a payload is a well-formed PACS.008 payload
+ * @param payload Raw payload
+ * @returns True if decodePACS008Payload would succeed
+ */
+export function isValidPACS008Payload(payload: BytesLike): boolean {
+    try {
+        decodePACS008Payload(payload);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Applies the validation rules of PACS008Handler to message fields
+ */
+function assertValidFields(fields: PACS008PayloadFields): void {
+    for (const [name, value] of [
+        ["debtorAgent", fields.debtorAddr],
+        ["creditorAgent", fields.creditorAddr],
+        ["token", fields.tokenAddr],
+    ]) {
+        if (!ethers.isAddress(value) || ethers.getAddress(value) === ethers.ZeroAddress) {
+            throw new Error(`PACS008Codec: Invalid ${name} address ${value}`);
+        }
+    }
+
+    if (fields.amount < PACS008_MINIMUM_AMOUNT || fields.amount > PACS008_MAXIMUM_AMOUNT) {
+        throw new Error(
+            `PACS008Codec: Amount ${fields.amount} outside [${PACS008_MINIMUM_AMOUNT}, ${PACS008_MAXIMUM_AMOUNT}]`
+        );
+    }
+}
+
+/**
+ * Converts a 32 byte word to an address
+ * Upper bytes are dropped, as address(uint160(uint256(value))) does in the handler
+ */
+function toAddress(word: string): string {
+    return ethers.getAddress(ethers.dataSlice(word, 12));
+}
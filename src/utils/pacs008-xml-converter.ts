@@ -0,0 +1,392 @@
+/**
+ * Converts ISO 20022 pacs.008 (FIToFICustomerCreditTransfer) and pain.001
+ * (CustomerCreditTransferInitiation) XML documents into on-chain PACS.008 messages.
+ *
+ * - Debtor and creditor agents are resolved from their BIC / LEI through a
+ *   pluggable InstitutionDirectory
+ * - The settlement currency is resolved to a token through the network's
+ *   ReserveAssets, and the amount is scaled by the token's decimals
+ * - EndToEndId (or InstrId) becomes the instructionId
+ * - The messageHash is keccak256 of the original XML. It is not sent on chain:
+ *   ProtocolCoordinator records keccak256(payload), returned as payloadHash, so
+ *   the caller keeps both hashes to match an on-chain message to its source document
+ */
+
+import { ethers } from "ethers";
+import { IERC20Metadata__factory } from "../../typechain";
+import {
+    ConvertedPACS008Message,
+    InstitutionDirectory,
+    InstitutionIdentifier,
+    PACS008ConversionOptions,
+    PACS008Document,
+    PACS008Transaction,
+    Pain001Document,
+    tEthereumAddress,
+} from "../types";
+import { getParamPerNetwork, getProtocolConfig } from "./config-helpers";
+import { encodePACS008Payload } from "./pacs008-codec";
+import { XmlElement, findChild, findPath, getText, parseXml } from "./xml-parser";
+
+/** EndToEndId value used when the debtor did not provide one */
+const NOT_PROVIDED = "NOTPROVIDED";
+
+/**
+ * Directory backed by in-memory BIC / LEI maps
+ *
+ * BICs are matched on the full 11 character code first, then on the
+ * primary office, so a registered "DEUTDEFF" also resolves "DEUTDEFF500".
+ *
+ * @example
+ * const directory = new StaticInstitutionDirectory({
+ *     bic: { DEUTDEFF: "0x..." },
+ *     lei: { "7LTWFZYICNSX8D621K86": "0x..." }
+ * });
+ */
+export class StaticInstitutionDirectory implements InstitutionDirectory {
+    private readonly bics = new Map<string, tEthereumAddress>();
+    private readonly leis = new Map<string, tEthereumAddress>();
+
+    /**
+     * Creates a new StaticInstitutionDirectory instance
+     * @param entries Addresses by BIC and by LEI
+     */
+    constructor(entries: { bic?: Record<string, tEthereumAddress>; lei?: Record<string, tEthereumAddress> } = {}) {
+        Object.entries(entries.bic ?? {}).forEach(([bic, address]) => this.register({ bic }, address));
+        Object.entries(entries.lei ?? {}).forEach(([lei, address]) => this.register({ lei }, address));
+    }
+
+    /**
+     * Adds or replaces an institution
+     * @param institution BIC and/or LEI of the institution
+     * @param address On-chain address of the institution
+     */
+    register(institution: InstitutionIdentifier, address: tEthereumAddress): void {
+        const checksummed = ethers.getAddress(address);
+        if (institution.bic) {
+            this.bics.set(normalizeBic(institution.bic), checksummed);
+        }
+        if (institution.lei) {
+            this.leis.set(institution.lei.toUpperCase(), checksummed);
+        }
+    }
+
+    async resolve(institution: InstitutionIdentifier): Promise<tEthereumAddress | undefined> {
+        if (institution.bic) {
+            const bic = normalizeBic(institution.bic);
+            const address = this.bics.get(bic) ?? this.bics.get(`${bic.slice(0, 8)}XXX`);
+            if (address) {
+                return address;
+            }
+        }
+        return institution.lei ? this.leis.get(institution.lei.toUpperCase()) : undefined;
+    }
+}
+
+/**
+ * Computes the hash identifying the original ISO 20022 document
+ * @param xml Original XML, exactly as received
+ * @returns keccak256 of the UTF-8 encoded document
+ */
+export function computeMessageHash(xml: string): string {
+    return ethers.keccak256(ethers.toUtf8Bytes(xml));
+}
+
+/**
+ * Parses a pacs.008 XML document
+ * The document may be wrapped, e.g. in a business application header envelope
+ *
+ * @param xml pacs.008.001.xx document
+ * @returns Group header and credit transfer transactions
+ * @throws Error if the document is not a pacs.008 or misses mandatory fields
+ */
+export function parsePACS008Xml(xml: string): PACS008Document {
+    const root = parseXml(xml);
+    const document = findElement(root, "FIToFICstmrCdtTrf");
+
+    if (!document) {
+        throw new Error("PACS008XmlConverter: Document does not contain FIToFICstmrCdtTrf");
+    }
+
+    const groupHeader = findChild(document, "GrpHdr");
+    const transactions = document.children
+        .filter(child => child.name === "CdtTrfTxInf")
+        .map((transaction, index) => parseTransaction(transaction, index));
+
+    if (transactions.length === 0) {
+        throw new Error("PACS008XmlConverter: Document has no CdtTrfTxInf");
+    }
+
+    return {
+        version: getNamespaceVersion(root, /pacs\.008\.\d{3}\.\d{2}/),
+        msgId: required(getText(groupHeader, "MsgId"), "GrpHdr/MsgId"),
+        creationDateTime: required(getText(groupHeader, "CreDtTm"), "GrpHdr/CreDtTm"),
+        transactions,
+    };
+}
+
+/**
+ * Parses a pain.001 XML document
+ * Each transaction takes the debtor agent of its payment information block
+ *
+ * @param xml pain.001.001.xx document
+ * @returns Group header and credit transfer transactions of every PmtInf
+ * @throws Error if the document is not a pain.001 or misses mandatory fields
+ */
+export function parsePain001Xml(xml: string): Pain001Document {
+    const root = parseXml(xml);
+    const document = findElement(root, "CstmrCdtTrfInitn");
+
+    if (!document) {
+        throw new Error("PACS008XmlConverter: Document does not contain CstmrCdtTrfInitn");
+    }
+
+    const groupHeader = findChild(document, "GrpHdr");
+    const transactions = document.children
+        .filter(child => child.name === "PmtInf")
+        .flatMap((paymentInformation, block) => {
+            const debtorAgent = parseInstitution(findPath(paymentInformation, "DbtrAgt", "FinInstnId"));
+            return paymentInformation.children
+                .filter(child => child.name === "CdtTrfTxInf")
+                .map((transaction, index) => ({
+                    ...parseTransaction(transaction, index, `PmtInf[${block}]/`),
+                    debtorAgent,
+                }));
+        });
+
+    if (transactions.length === 0) {
+        throw new Error("PACS008XmlConverter: Document has no CdtTrfTxInf");
+    }
+
+    return {
+        version: getNamespaceVersion(root, /pain\.001\.\d{3}\.\d{2}/),
+        msgId: required(getText(groupHeader, "MsgId"), "GrpHdr/MsgId"),
+        creationDateTime: required(getText(groupHeader, "CreDtTm"), "GrpHdr/CreDtTm"),
+        transactions,
+    };
+}
+
+/**
+ * Converts a pacs.008 XML document into on-chain PACS.008 messages
+ * One message is produced per credit transfer transaction
+ *
+ * @param xml pacs.008.001.xx document, exactly as received
+ * @param options Directory, handler, network and token resolution options
+ * @returns Converted messages in document order
+ * @throws Error if an agent, currency or token cannot be resolved
+ *
+ * @example
+ * const [converted] = await convertPACS008Xml(xml, {
+ *     directory,
+ *     handlerAddr: pacs008Handler.target as string,
+ *     network: eEthereumNetwork.sepolia,
+ *     runner: provider
+ * });
+ * await service.submitMessage(converted.message, signer);
+ */
+export async function convertPACS008Xml(
+    xml: string,
+    options: PACS008ConversionOptions
+): Promise<ConvertedPACS008Message[]> {
+    return convertCreditTransfers(parsePACS008Xml(xml).transactions, computeMessageHash(xml), options);
+}
+
+/**
+ * Converts credit transfer transactions into on-chain PACS.008 messages
+ * Shared by the pacs.008 and pain.001 converters
+ *
+ * @param transactions Transactions in document order
+ * @param messageHash Hash of the source document
+ * @param options Directory, handler, network and token resolution options
+ * @returns Converted messages in document order
+ * @throws Error if an agent, currency or token cannot be resolved
+ */
+export async function convertCreditTransfers(
+    transactions: PACS008Transaction[],
+    messageHash: string,
+    options: PACS008ConversionOptions
+): Promise<ConvertedPACS008Message[]> {
+    const config = options.config ?? getProtocolConfig(options.network);
+    const reserves = getParamPerNetwork(config.ReserveAssets, options.network) ?? {};
+    const decimals = new Map<string, number>(
+        Object.entries(options.tokenDecimals ?? {}).map(([token, value]) => [ethers.getAddress(token), value])
+    );
+
+    const results: ConvertedPACS008Message[] = [];
+
+    for (const transaction of transactions) {
+        const symbol = options.currencySymbols?.[transaction.currency] ?? transaction.currency;
+        const reserve = reserves[symbol];
+        if (!reserve || !ethers.isAddress(reserve)) {
+            throw new Error(
+                `PACS008XmlConverter: No reserve asset for currency ${transaction.currency} (symbol ${symbol}) on ${options.network}`
+            );
+        }
+        const tokenAddr = ethers.getAddress(reserve);
+
+        if (!decimals.has(tokenAddr)) {
+            decimals.set(tokenAddr, await readDecimals(tokenAddr, options));
+        }
+
+        const message = {
+            debtorAddr: await resolveAgent(options.directory, transaction.debtorAgent, "debtor", transaction),
+            creditorAddr: await resolveAgent(options.directory, transaction.creditorAgent, "creditor", transaction),
+            tokenAddr,
+            amount: toBaseUnits(transaction, decimals.get(tokenAddr)!),
+            handlerAddr: options.handlerAddr,
+            instructionId: toInstructionId(transaction, options.instructionIdSource ?? "EndToEndId"),
+        };
+        const payload = encodePACS008Payload(message);
+
+        results.push({
+            message,
+            payload,
+            messageHash,
+            payloadHash: ethers.keccak256(payload),
+            transaction,
+        });
+    }
+
+    return results;
+}
+
+/**
+ * Converts a pain.001 XML document into on-chain PACS.008 messages
+ * One message is produced per credit transfer transaction, across payment information blocks
+ *
+ * @param xml pain.001.001.xx document, exactly as received
+ * @param options Directory, handler, network and token resolution options
+ * @returns Converted messages in document order
+ * @throws Error if an agent, currency or token cannot be resolved
+ *
+ * @example
+ * const converted = await convertPain001Xml(fs.readFileSync("payments.xml", "utf8"), options);
+ * await submitter.submit(converted.map(({ message }) => ({ message })));
+ */
+export async function convertPain001Xml(
+    xml: string,
+    options: PACS008ConversionOptions
+): Promise<ConvertedPACS008Message[]> {
+    return convertCreditTransfers(parsePain001Xml(xml).transactions, computeMessageHash(xml), options);
+}
+
+function parseTransaction(transaction: XmlElement, index: number, parent: string = ""): PACS008Transaction {
+    // pain.001 nests the instructed amount in Amt
+    const amount = findChild(transaction, "IntrBkSttlmAmt")
+        ?? findChild(transaction, "InstdAmt")
+        ?? findPath(transaction, "Amt", "InstdAmt");
+    const location = `${parent}CdtTrfTxInf[${index}]`;
+
+    return {
+        instrId: getText(transaction, "PmtId", "InstrId"),
+        endToEndId: required(getText(transaction, "PmtId", "EndToEndId"), `${location}/PmtId/EndToEndId`),
+        txId: getText(transaction, "PmtId", "TxId"),
+        uetr: getText(transaction, "PmtId", "UETR"),
+        amount: required(amount?.text.trim(), `${location}/IntrBkSttlmAmt`),
+        currency: required(amount?.attributes["Ccy"], `${location}/IntrBkSttlmAmt/@Ccy`).toUpperCase(),
+        debtorAgent: parseInstitution(findPath(transaction, "DbtrAgt", "FinInstnId")),
+        creditorAgent: parseInstitution(findPath(transaction, "CdtrAgt", "FinInstnId")),
+    };
+}
+
+function parseInstitution(institution: XmlElement | undefined): InstitutionIdentifier {
+    return {
+        // BICFI since pacs.008.001.03, BIC before
+        bic: getText(institution, "BICFI") ?? getText(institution, "BIC"),
+        lei: getText(institution, "LEI"),
+    };
+}
+
+async function resolveAgent(
+    directory: InstitutionDirectory,
+    institution: InstitutionIdentifier,
+    role: "debtor" | "creditor",
+    transaction: PACS008Transaction
+): Promise<tEthereumAddress> {
+    if (!institution.bic && !institution.lei) {
+        throw new Error(`PACS008XmlConverter: No BIC or LEI for ${role} agent of ${transaction.endToEndId}`);
+    }
+
+    const address = await directory.resolve(institution);
+    if (!address) {
+        throw new Error(
+            `PACS008XmlConverter: Unknown ${role} agent ${institution.bic ?? ""}${institution.lei ? ` (LEI ${institution.lei})` : ""}`
+        );
+    }
+    return address;
+}
+
+async function readDecimals(token: tEthereumAddress, options: PACS008ConversionOptions): Promise<number> {
+    if (!options.runner) {
+        throw new Error(`PACS008XmlConverter: Decimals of ${token} unknown and no runner provided`);
+    }
+    return Number(await IERC20Metadata__factory.connect(token, options.runner).decimals());
+}
+
+function toBaseUnits(transaction: PACS008Transaction, decimals: number): bigint {
+    if (!/^\d+(\.\d+)?$/.test(transaction.amount)) {
+        throw new Error(`PACS008XmlConverter: Invalid amount ${transaction.amount} for ${transaction.endToEndId}`);
+    }
+
+    const [, fraction = ""] = transaction.amount.split(".");
+    if (fraction.replace(/0+$/, "").length > decimals) {
+        throw new Error(
+            `PACS008XmlConverter: Amount ${transaction.amount} has more than ${decimals} decimals for ${transaction.endToEndId}`
+        );
+    }
+    return ethers.parseUnits(transaction.amount, decimals);
+}
+
+/**
+ * Identifiers are Max35Text and always encoded as text, those longer
+ * than 32 bytes are hashed
+ */
+function toInstructionId(transaction: PACS008Transaction, source: "EndToEndId" | "InstrId"): string {
+    const endToEndId = transaction.endToEndId === NOT_PROVIDED ? undefined : transaction.endToEndId;
+    const preferred = source === "InstrId"
+        ? transaction.instrId ?? endToEndId
+        : endToEndId ?? transaction.instrId;
+    const id = preferred ?? transaction.txId ?? transaction.uetr;
+
+    if (!id) {
+        throw new Error("PACS008XmlConverter: Transaction has no EndToEndId, InstrId, TxId or UETR");
+    }
+    const bytes = ethers.toUtf8Bytes(id);
+    return bytes.length > 32 ? ethers.keccak256(bytes) : ethers.zeroPadBytes(bytes, 32);
+}
+
+/**
+ * Reads the message definition version from the root or Document namespace
+ */
+function getNamespaceVersion(root: XmlElement, pattern: RegExp): string | undefined {
+    return [root, findElement(root, "Document")]
+        .flatMap(element => Object.entries(element?.attributes ?? {}))
+        .filter(([name]) => name.startsWith("xmlns"))
+        .map(([, value]) => pattern.exec(value)?.[0])
+        .find(version => version !== undefined);
+}
+
+function findElement(element: XmlElement, name: string): XmlElement | undefined {
+    if (element.name === name) {
+        return element;
+    }
+    for (const child of element.children) {
+        const found = findElement(child, name);
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
+
+function normalizeBic(bic: string): string {
+    const normalized = bic.trim().toUpperCase();
+    return normalized.length === 8 ? `${normalized}XXX` : normalized;
+}
+
+function required<T>(value: T | undefined, path: string): T {
+    if (value === undefined) {
+        throw new Error(`PACS008XmlConverter: Missing ${path}`);
+    }
+    return value;
+}
@@ -0,0 +1,179 @@
+import { AbiCoder, BytesLike, ethers } from "ethers";
+import {
+    CoordinatorConfig,
+    MessageResult,
+    MessageStatus,
+    MessageStatusName,
+    ProcessingAction,
+    ProcessingActionName,
+    ProcessingResult,
+    ProposalType,
+    ProposalTypeName,
+    SettlementStatus,
+    SettlementStatusName,
+} from "../types/protocol";
+import { GFSSettlement } from "../types/client";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/** Layout of ProtocolCoordinator.getProtocolConfig */
+const COORDINATOR_CONFIG_ABI = ["uint256", "uint256", "address", "address", "address", "address"];
+
+/**
+ * Converts an on-chain MessageStatus ordinal to its name
+ * @param value Ordinal as returned by the contracts
+ * @throws Error if the ordinal is out of range
+ */
+export function toMessageStatusName(value: bigint | number): MessageStatusName {
+    return enumName(MessageStatus, value, "MessageStatus") as MessageStatusName;
+}
+
+/**
+ * Converts an on-chain SettlementStatus ordinal to its name
+ * @param value Ordinal as returned by the contracts
+ * @throws Error if the ordinal is out of range
+ */
+export function toSettlementStatusName(value: bigint | number): SettlementStatusName {
+    return enumName(SettlementStatus, value, "SettlementStatus") as SettlementStatusName;
+}
+
+/**
+ * Converts an on-chain ProcessingAction ordinal to its name
+ * @param value Ordinal as returned by the contracts
+ * @throws Error if the ordinal is out of range
+ */
+export function toProcessingActionName(value: bigint | number): ProcessingActionName {
+    return enumName(ProcessingAction, value, "ProcessingAction") as ProcessingActionName;
+}
+
+/**
+ * Converts an on-chain ProposalType ordinal to its name
+ * @param value Ordinal as returned by the contracts
+ * @throws Error if the ordinal is out of range
+ */
+export function toProposalTypeName(value: bigint | number): ProposalTypeName {
+    return enumName(ProposalType, value, "ProposalType") as ProposalTypeName;
+}
+
+/**
+ * Decodes the bytes returned by ProtocolCoordinator.getProtocolConfig
+ * @param config abi.encode(baseFee, MAX_MESSAGE_SIZE, registry, protocol, router, processor)
+ * @returns Typed configuration
+ */
+export function decodeCoordinatorConfig(config: BytesLike): CoordinatorConfig {
+    const [baseFee, maxMessageSize, messageRegistry, messageProtocol, messageRouter, messageProcessor] =
+        abiCoder.decode(COORDINATOR_CONFIG_ABI, config);
+
+    return { baseFee, maxMessageSize, messageRegistry, messageProtocol, messageRouter, messageProcessor };
+}
+
+/**
+ * Decodes the result of ProtocolCoordinator.getMessageResult
+ *
+ * `result` is the raw return data of `handleMessage(bytes32,bytes) returns (bytes)`,
+ * i.e. abi.encode(bytes(handlerResult)). Settlement handlers return
+ * abi.encode(settlementId), which therefore sits in the third word, not the second.
+ *
+ * @param success Whether processing succeeded
+ * @param result Raw result bytes
+ * @returns Decoded result with settlementId or revert reason
+ *
+ * @example
+ * const [success, result] = await protocolCoordinator.getMessageResult(messageId);
+ * const { settlementId } = decodeMessageResult(success, result);
+ */
+export function decodeMessageResult(success: boolean, result: BytesLike): MessageResult {
+    const raw = ethers.hexlify(result);
+
+    if (!success) {
+        return { success, raw, revertReason: decodeRevertReason(raw) };
+    }
+
+    let returnData: string | undefined;
+    try {
+        [returnData] = abiCoder.decode(["bytes"], raw);
+    } catch {
+        // Not the return data of a handleMessage call
+        return { success, raw };
+    }
+
+    return {
+        success,
+        raw,
+        returnData,
+        settlementId: ethers.dataLength(returnData!) === 32 ? returnData : undefined,
+    };
+}
+
+/**
+ * Decodes an IMessageProcessor.ProcessingResult as returned by getProcessingStatus
+ * @param result ProcessingResult struct
+ * @returns Decoded result with the action name and the actual settlementId
+ */
+export function decodeProcessingResult(result: {
+    messageId: string;
+    action: bigint | number;
+    success: boolean;
+    result: BytesLike;
+    settlementId: string;
+}): ProcessingResult {
+    return {
+        ...decodeMessageResult(result.success, result.result),
+        messageId: result.messageId,
+        action: toProcessingActionName(result.action),
+        storedSettlementId: result.settlementId,
+    };
+}
+
+/**
+ * Decodes an ISettlementController.Settlement as returned by getSettlement
+ * @param settlement Settlement struct
+ * @returns Settlement with its status name, or undefined for the empty struct of an unknown ID
+ */
+export function decodeSettlement(settlement: {
+    settlementId: string;
+    messageId: string;
+    token: string;
+    amount: bigint;
+    sender: string;
+    recipient: string;
+    status: bigint | number;
+    timestamp: bigint;
+}): GFSSettlement | undefined {
+    if (settlement.settlementId === ethers.ZeroHash) {
+        return undefined;
+    }
+    return {
+        settlementId: settlement.settlementId,
+        messageId: settlement.messageId,
+        token: settlement.token,
+        amount: settlement.amount,
+        sender: settlement.sender,
+        recipient: settlement.recipient,
+        status: toSettlementStatusName(settlement.status),
+        timestamp: settlement.timestamp,
+    };
+}
+
+/**
+ * Decodes an Error(string) revert reason
+ */
+function decodeRevertReason(data: string): string | undefined {
+    const errorSelector = ethers.id("Error(string)").slice(0, 10);
+    if (!data.startsWith(errorSelector)) {
+        return undefined;
+    }
+    try {
+        return abiCoder.decode(["string"], ethers.dataSlice(data, 4))[0];
+    } catch {
+        return undefined;
+    }
+}
+
+function enumName(enumType: Record<string, string | number>, value: bigint | number, label: string): string {
+    const name = enumType[Number(value)];
+    if (typeof name !== "string") {
+        throw new Error(`ProtocolDecoders: Unknown ${label} value ${value}`);
+    }
+    return name;
+}
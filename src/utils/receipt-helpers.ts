@@ -0,0 +1,109 @@
+import {
+    ContractTransactionReceipt,
+    ContractTransactionResponse,
+    Interface,
+    isError,
+    TransactionReceipt,
+} from "ethers";
+import {
+    LiquidityPool__factory,
+    MessageProcessor__factory,
+    MessageRegistry__factory,
+    MessageRouter__factory,
+    PACS008Handler__factory,
+    ProtocolCoordinator__factory,
+    SettlementController__factory,
+} from "../../typechain";
+import { DecodedProtocolEvent } from "../types/message-service";
+
+/**
+ * Interfaces of every contract that can emit events during a submission
+ */
+const PROTOCOL_INTERFACES: Interface[] = [
+    ProtocolCoordinator__factory.createInterface(),
+    MessageRouter__factory.createInterface(),
+    MessageRegistry__factory.createInterface(),
+    MessageProcessor__factory.createInterface(),
+    PACS008Handler__factory.createInterface(),
+    SettlementController__factory.createInterface(),
+    LiquidityPool__factory.createInterface(),
+];
+
+const SUBMISSION_TOPIC = ProtocolCoordinator__factory.createInterface()
+    .getEvent("MessageSubmissionInitiated").topicHash;
+
+/**
+ * Waits for the requested confirmations within the timeout
+ * Reverted transactions resolve with their receipt instead of throwing
+ *
+ * @param transaction Broadcast transaction
+ * @param confirmations Number of block confirmations to wait for
+ * @param timeout Maximum time to wait (ms)
+ * @returns Receipt, or undefined on timeout
+ * @throws Error if the transaction could not be mined
+ */
+export async function waitForReceipt(
+    transaction: ContractTransactionResponse,
+    confirmations: number,
+    timeout: number
+): Promise<ContractTransactionReceipt | undefined> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<undefined>(resolve => {
+        timer = setTimeout(() => resolve(undefined), timeout);
+    });
+
+    try {
+        const receipt = await Promise.race([transaction.wait(confirmations), timeoutPromise]);
+        return receipt ?? undefined;
+    } catch (error) {
+        // Reverted transactions still carry their receipt
+        if (isError(error, "CALL_EXCEPTION") && error.receipt) {
+            return error.receipt as ContractTransactionReceipt;
+        }
+        throw new Error(`Transaction failed: ${(error as Error).message} (tx: ${transaction.hash})`);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Extracts the message ID from a submission receipt
+ * @param receipt Receipt of a ProtocolCoordinator.submitMessage transaction
+ * @returns Message ID, or undefined if MessageSubmissionInitiated is missing
+ */
+export function extractMessageId(receipt: TransactionReceipt): string | undefined {
+    return receipt.logs.find(log => log.topics[0] === SUBMISSION_TOPIC)?.topics[1];
+}
+
+/**
+ * Decodes every protocol event contained in a receipt
+ * Logs of unknown contracts are skipped
+ *
+ * @param receipt Transaction receipt
+ * @returns Decoded events in log order
+ */
+export function decodeProtocolEvents(receipt: TransactionReceipt): DecodedProtocolEvent[] {
+    const events: DecodedProtocolEvent[] = [];
+
+    for (const log of receipt.logs) {
+        for (const iface of PROTOCOL_INTERFACES) {
+            try {
+                const parsedLog = iface.parseLog({ topics: [...log.topics], data: log.data });
+                if (parsedLog) {
+                    events.push({
+                        name: parsedLog.name,
+                        address: log.address,
+                        logIndex: log.index,
+                        args: parsedLog.args,
+                    });
+                    break;
+                }
+            } catch {
+                // Same topic with a different layout, try the next interface
+                continue;
+            }
+        }
+    }
+
+    return events;
+}
@@ -0,0 +1,224 @@
+import { Contract, ethers, Interface, InterfaceAbi, Provider } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+    AddressBook,
+    ContractRoleAudit,
+    RoleAssignment,
+    RoleAuditReport,
+    RoleHolderRecord,
+    tEthereumAddress,
+} from "../types";
+import { loadAddressBook } from "./address-book";
+import { getLogsInChunks } from "./log-query";
+
+/** AccessControl surface shared by all protocol contracts */
+export const ACCESS_CONTROL_ABI = [
+    "function hasRole(bytes32 role, address account) view returns (bool)",
+    "function grantRole(bytes32 role, address account)",
+    "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+    "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+];
+
+const accessControl = new Interface(ACCESS_CONTROL_ABI);
+
+/**
+ * Grant still in effect after replaying a contract's role events
+ */
+export interface ActiveRoleGrant {
+    roleId: string;
+    account: tEthereumAddress;
+    blockNumber: number;
+    transactionHash: string;
+}
+
+/**
+ * Options of auditRoles
+ */
+export interface RoleAuditOptions {
+    /** Address book to audit, defaults to the one of the current network */
+    addressBook?: AddressBook;
+    /** Only audit these contracts */
+    contracts?: string[];
+}
+
+/**
+ * Rebuilds the current role holders of a contract from its RoleGranted / RoleRevoked events
+ * The logs are read in DEFAULT_MAX_BLOCK_RANGE chunks.
+ * @param provider Provider to read the logs from
+ * @param address AccessControl contract
+ * @param fromBlock First block to scan, ideally the deployment block
+ * @param toBlock Last block to scan, defaults to the current block
+ * @returns Grants not revoked afterwards, in grant order
+ */
+export async function replayRoleEvents(
+    provider: Provider,
+    address: tEthereumAddress,
+    fromBlock: number = 0,
+    toBlock?: number
+): Promise<ActiveRoleGrant[]> {
+    const topics = [[accessControl.getEvent("RoleGranted")!.topicHash, accessControl.getEvent("RoleRevoked")!.topicHash]];
+    const logs = await getLogsInChunks(provider, { address, topics }, fromBlock, toBlock);
+
+    const active = new Map<string, ActiveRoleGrant>();
+    for (const log of logs) {
+        const event = accessControl.parseLog(log)!;
+        const roleId = event.args.role as string;
+        const account = event.args.account as tEthereumAddress;
+        const key = `${roleId}:${account.toLowerCase()}`;
+
+        if (event.name === "RoleGranted") {
+            active.set(key, { roleId, account, blockNumber: log.blockNumber, transactionHash: log.transactionHash });
+        } else {
+            active.delete(key);
+        }
+    }
+    return [...active.values()];
+}
+
+/**
+ * Reads the public role constants (`*_ROLE() returns (bytes32)`) of a contract
+ * @param provider Provider used for the calls
+ * @param address Contract address
+ * @param abi Contract ABI
+ * @returns Role names by role hash, always including DEFAULT_ADMIN_ROLE
+ */
+export async function readRoleConstants(
+    provider: Provider,
+    address: tEthereumAddress,
+    abi: InterfaceAbi
+): Promise<Map<string, string>> {
+    const contract = new Contract(address, abi, provider);
+    const names = new Map<string, string>([[ethers.ZeroHash, "DEFAULT_ADMIN_ROLE"]]);
+
+    for (const name of roleConstantNames(contract.interface)) {
+        names.set(await contract.getFunction(name)(), name);
+    }
+    return names;
+}
+
+/**
+ * Lists the current AccessControl holders of every contract in an address book
+ *
+ * Role hashes are named after the contract's public role constants; holders are
+ * named after the address book entries and the named accounts.
+ *
+ * @param hre Hardhat runtime environment
+ * @param options Address book and contract filter
+ * @returns Holders per role per contract at the current block
+ *
+ * @example
+ * const report = await auditRoles(hre, { contracts: ["LiquidityPool"] });
+ * const emergency = report.contracts[0].roles.find(r => r.role === "EMERGENCY_ROLE");
+ */
+export async function auditRoles(
+    hre: HardhatRuntimeEnvironment,
+    options: RoleAuditOptions = {}
+): Promise<RoleAuditReport> {
+    const book = options.addressBook ?? loadAddressBook(hre.network.name);
+    const provider = hre.ethers.provider;
+    const blockNumber = await provider.getBlockNumber();
+    const holderNames = await knownHolders(hre, book);
+
+    const contracts: ContractRoleAudit[] = [];
+    for (const [name, entry] of Object.entries(book.contracts)) {
+        if (options.contracts && !options.contracts.includes(name)) {
+            continue;
+        }
+
+        const abi = await loadAbi(hre, name);
+        if (abi && !new Interface(abi).getEvent("RoleGranted")) {
+            // Not an AccessControl contract
+            continue;
+        }
+
+        const fromBlock = entry.blockNumber ?? 0;
+        const grants = await replayRoleEvents(provider, entry.address, fromBlock, blockNumber);
+        if (grants.length === 0) {
+            continue;
+        }
+
+        const roleNames = abi ? await readRoleConstants(provider, entry.address, abi) : new Map<string, string>();
+        const roles = new Map<string, RoleAssignment>();
+        for (const grant of grants) {
+            const role = roles.get(grant.roleId) ?? {
+                role: roleNames.get(grant.roleId) ?? grant.roleId,
+                roleId: grant.roleId,
+                holders: [] as RoleHolderRecord[],
+            };
+            role.holders.push({
+                address: grant.account,
+                name: holderNames.get(grant.account.toLowerCase()),
+                blockNumber: grant.blockNumber,
+                transactionHash: grant.transactionHash,
+            });
+            roles.set(grant.roleId, role);
+        }
+
+        contracts.push({
+            contract: name,
+            address: entry.address,
+            fromBlock,
+            roles: [...roles.values()].sort((a, b) => a.role.localeCompare(b.role)),
+        });
+    }
+
+    return {
+        network: book.network,
+        chainId: book.chainId,
+        blockNumber,
+        generatedAt: new Date().toISOString(),
+        addressBookVersion: book.version,
+        contracts,
+    };
+}
+
+/**
+ * Maps lowercase addresses of the address book and named accounts to their names
+ */
+export async function knownHolders(
+    hre: HardhatRuntimeEnvironment,
+    book?: AddressBook
+): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    const contracts = book
+        ? Object.entries(book.contracts).map(([name, entry]) => [name, entry.address] as const)
+        : Object.entries(await hre.deployments.all()).map(([name, deployment]) => [name, deployment.address] as const);
+
+    for (const [name, address] of contracts) {
+        names.set(address.toLowerCase(), name);
+    }
+    for (const [name, address] of Object.entries(await hre.getNamedAccounts())) {
+        names.set(address.toLowerCase(), name);
+    }
+    return names;
+}
+
+function roleConstantNames(iface: Interface): string[] {
+    const names: string[] = [];
+    iface.forEachFunction(fragment => {
+        if (
+            fragment.name.endsWith("_ROLE") &&
+            fragment.inputs.length === 0 &&
+            fragment.outputs.length === 1 &&
+            fragment.outputs[0].type === "bytes32"
+        ) {
+            names.push(fragment.name);
+        }
+    });
+    return names;
+}
+
+/**
+ * ABI of a deployment, falling back to the artifact of the same name
+ */
+async function loadAbi(hre: HardhatRuntimeEnvironment, name: string): Promise<InterfaceAbi | undefined> {
+    const deployment = await hre.deployments.getOrNull(name);
+    if (deployment) {
+        return deployment.abi;
+    }
+    try {
+        return (await hre.artifacts.readArtifact(name)).abi;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,226 @@
+import { Contract, ethers } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ROLE_MANIFEST } from "../constants/roles";
+import {
+    ExtraRoleGrant,
+    NamedAccount,
+    ResolvedRoleGrant,
+    RoleGrant,
+    RoleGrantResult,
+    RoleHolder,
+    RoleManifest,
+    RoleManifestReport,
+    tEthereumAddress,
+} from "../types";
+import { getProtocolConfig } from "./config-helpers";
+import { DeploymentHelper } from "./deploy-helper";
+import { ACCESS_CONTROL_ABI, knownHolders, replayRoleEvents } from "./role-audit";
+
+/**
+ * Options shared by the manifest helpers
+ */
+export interface RoleManifestOptions {
+    /** Manifest to use, defaults to ROLE_MANIFEST */
+    manifest?: RoleManifest;
+    /** Only keep entries where one of these deployments is the contract or the grantee */
+    involving?: string[];
+}
+
+/**
+ * Returns the bytes32 identifier of a role constant
+ * @param role Role constant name, e.g. "PROCESSOR_ROLE"
+ * @returns keccak256 of the name, or zero for DEFAULT_ADMIN_ROLE
+ */
+export function getRoleId(role: string): string {
+    return role === "DEFAULT_ADMIN_ROLE" ? ethers.ZeroHash : ethers.id(role);
+}
+
+/**
+ * Formats a manifest entry for logs, e.g. "MessageProcessor.PROCESSOR_ROLE -> MessageRouter"
+ * @param grant Manifest entry
+ */
+export function formatRoleGrant(grant: RoleGrant): string {
+    return `${grant.contract}.${grant.role} -> ${holderName(grant.grantee)}`;
+}
+
+/**
+ * Logs the outcome of applyRoleManifest, one line per entry
+ * @param results Results returned by applyRoleManifest
+ */
+export function printRoleGrantResults(results: RoleGrantResult[]): void {
+    for (const { grant, status } of results) {
+        console.log(` - ${formatRoleGrant(grant)}: ${status}`);
+    }
+}
+
+/**
+ * Resolves the manifest against the deployments of the current network
+ * Entries whose contract or grantee is not deployed are returned as pending.
+ *
+ * @param hre Hardhat runtime environment
+ * @param options Manifest and filter
+ */
+export async function resolveRoleManifest(
+    hre: HardhatRuntimeEnvironment,
+    options: RoleManifestOptions = {}
+): Promise<{ resolved: ResolvedRoleGrant[]; pending: RoleGrant[] }> {
+    const deployments = await hre.deployments.all();
+    const contracts = Object.fromEntries(Object.entries(deployments).map(([name, { address }]) => [name, address]));
+
+    return resolveRoleManifestFrom(contracts, await hre.getNamedAccounts(), options);
+}
+
+/**
+ * Resolves the manifest against explicit addresses, for contracts deployed
+ * outside hardhat-deploy (e.g. test fixtures)
+ * Entries whose contract or grantee is missing are returned as pending.
+ *
+ * @param contracts Addresses by deployment name
+ * @param accounts Addresses of the named accounts
+ * @param options Manifest and filter
+ *
+ * @example
+ * const { resolved } = resolveRoleManifestFrom(
+ *     { MessageRouter: router.target, ProtocolCoordinator: coordinator.target },
+ *     { admin: admin.address, deployer: admin.address }
+ * );
+ */
+export function resolveRoleManifestFrom(
+    contracts: Record<string, tEthereumAddress>,
+    accounts: Partial<Record<NamedAccount, tEthereumAddress>>,
+    options: RoleManifestOptions = {}
+): { resolved: ResolvedRoleGrant[]; pending: RoleGrant[] } {
+    const resolved: ResolvedRoleGrant[] = [];
+    const pending: RoleGrant[] = [];
+
+    for (const grant of selectGrants(options)) {
+        const contractAddress = contracts[grant.contract];
+        const granteeAddress =
+            "account" in grant.grantee ? accounts[grant.grantee.account] : contracts[grant.grantee.contract];
+
+        if (!contractAddress || !granteeAddress) {
+            pending.push(grant);
+            continue;
+        }
+        resolved.push({ ...grant, roleId: getRoleId(grant.role), contractAddress, granteeAddress });
+    }
+
+    return { resolved, pending };
+}
+
+/**
+ * Grants every manifest role that is not held yet
+ * Safe to run repeatedly: roles already in place are left untouched.
+ *
+ * @param hre Hardhat runtime environment
+ * @param options Manifest and filter
+ * @returns Outcome of each entry
+ *
+ * @example
+ * // Wire the roles of a freshly deployed router
+ * await applyRoleManifest(hre, { involving: ["MessageRouter"] });
+ */
+export async function applyRoleManifest(
+    hre: HardhatRuntimeEnvironment,
+    options: RoleManifestOptions = {}
+): Promise<RoleGrantResult[]> {
+    const { admin } = await hre.getNamedAccounts();
+    const adminSigner = await hre.ethers.getSigner(admin);
+    const helper = new DeploymentHelper(hre, getProtocolConfig(hre.network.name));
+    const { resolved, pending } = await resolveRoleManifest(hre, options);
+    const results: RoleGrantResult[] = [];
+
+    for (const grant of resolved) {
+        const contract = new Contract(grant.contractAddress, ACCESS_CONTROL_ABI, adminSigner);
+
+        if (await contract.hasRole(grant.roleId, grant.granteeAddress)) {
+            results.push({ grant, status: "held" });
+            continue;
+        }
+
+        const receipt = await helper.waitForTx(await contract.grantRole(grant.roleId, grant.granteeAddress));
+        results.push({ grant, status: "granted", transactionHash: receipt.hash });
+    }
+
+    return [...results, ...pending.map(grant => ({ grant, status: "pending" as const }))];
+}
+
+/**
+ * Compares the live roles of the manifest contracts with the manifest
+ *
+ * Current holders are rebuilt from the RoleGranted / RoleRevoked events of each
+ * contract since its deployment block, then confirmed with hasRole.
+ *
+ * @param hre Hardhat runtime environment
+ * @param options Manifest and filter
+ * @returns Missing grants, extra grants and pending entries
+ */
+export async function verifyRoleManifest(
+    hre: HardhatRuntimeEnvironment,
+    options: RoleManifestOptions = {}
+): Promise<RoleManifestReport> {
+    const { resolved, pending } = await resolveRoleManifest(hre, options);
+    // Extra grants are checked against every entry of the inspected contracts, not only the filtered ones
+    const { resolved: declared } = await resolveRoleManifest(hre, { manifest: options.manifest });
+    const provider = hre.ethers.provider;
+    const names = await knownHolders(hre);
+    const roleNames = new Map(
+        selectGrants({ manifest: options.manifest }).map(grant => [getRoleId(grant.role), grant.role])
+    );
+    const contracts = [...new Set(resolved.map(grant => grant.contract))];
+
+    const missing: ResolvedRoleGrant[] = [];
+    for (const grant of resolved) {
+        const contract = new Contract(grant.contractAddress, ACCESS_CONTROL_ABI, provider);
+        if (!(await contract.hasRole(grant.roleId, grant.granteeAddress))) {
+            missing.push(grant);
+        }
+    }
+
+    const extra: ExtraRoleGrant[] = [];
+    for (const name of contracts) {
+        const deployment = await hre.deployments.get(name);
+        const contract = new Contract(deployment.address, ACCESS_CONTROL_ABI, provider);
+        const expected = new Set(
+            declared
+                .filter(grant => grant.contract === name)
+                .map(grant => roleKey(grant.roleId, grant.granteeAddress))
+        );
+
+        const grants = await replayRoleEvents(provider, deployment.address, deployment.receipt?.blockNumber);
+        for (const { roleId, account: holder } of grants) {
+            if (expected.has(roleKey(roleId, holder)) || !(await contract.hasRole(roleId, holder))) {
+                continue;
+            }
+            extra.push({
+                contract: name,
+                contractAddress: deployment.address,
+                role: roleNames.get(roleId) ?? roleId,
+                roleId,
+                holder,
+                holderName: names.get(holder.toLowerCase()),
+            });
+        }
+    }
+
+    return { network: hre.network.name, contracts, missing, extra, pending };
+}
+
+function selectGrants({ manifest = ROLE_MANIFEST, involving }: RoleManifestOptions): RoleManifest {
+    if (!involving) {
+        return manifest;
+    }
+    return manifest.filter(
+        grant =>
+            involving.includes(grant.contract) ||
+            ("contract" in grant.grantee && involving.includes(grant.grantee.contract))
+    );
+}
+
+function holderName(holder: RoleHolder): string {
+    return "account" in holder ? holder.account : holder.contract;
+}
+
+function roleKey(roleId: string, holder: tEthereumAddress): string {
+    return `${roleId}:${holder.toLowerCase()}`;
+}
@@ -1,37 +1,110 @@
+import { Provider } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { getParamPerNetwork } from "./config-helpers";
-import { eNetwork, eEthereumNetwork } from "../types";
-
-// Get network-specific Wormhole contract addresses
-export const getWormholeAddresses = (network: eNetwork, config: any) => {
-    switch (network) {
-        case "sepolia": {
-            console.log(`Deploying on Sepolia testnet...`);
-            return {
-                wormholeRelayer: getParamPerNetwork(config.WormHoleRelayContracts, eEthereumNetwork.sepolia),
-                wormhole: getParamPerNetwork(config.WormHoleCoreContracts, eEthereumNetwork.sepolia)
-            };
-        }
-        case "holesky": {
-            console.log(`Deploying on Holesky testnet...`);
-            return {
-                wormholeRelayer: getParamPerNetwork(config.WormHoleRelayContracts, eEthereumNetwork.holesky),
-                wormhole: getParamPerNetwork(config.WormHoleCoreContracts, eEthereumNetwork.holesky)
-            };
-        }
-        case "hardhat": {
-            console.log(`Deploying on hardhat local network...`);
-            return {
-                wormholeRelayer: getParamPerNetwork(config.WormHoleRelayContracts, eEthereumNetwork.holesky),
-                wormhole: getParamPerNetwork(config.WormHoleCoreContracts, eEthereumNetwork.holesky)
-            };
-        }
-        default: {
-            console.log(`Deploying on unknown network: ${network}`);
-            return {
-                wormholeRelayer: getParamPerNetwork(config.WormHoleRelayContracts, eEthereumNetwork.holesky),
-                wormhole: getParamPerNetwork(config.WormHoleCoreContracts, eEthereumNetwork.holesky)
-            };
+import { isUnitMode } from "./deploy-utils";
+import { isValidAddress } from "./utils";
+import { LOCAL_CHAIN_ID } from "../constants";
+import { eEthereumNetwork, eNetwork, ProtocolConfiguration, WormholeAddresses } from "../types";
+
+/** Networks without Wormhole, served by the MockWormhole and MockWormholeRelayer deployments */
+const LOCAL_NETWORKS: string[] = [
+    eEthereumNetwork.hardhat,
+    eEthereumNetwork.coverage,
+    eEthereumNetwork.buidlerevm,
+    eEthereumNetwork.ganache,
+    "localhost",
+];
+
+/**
+ * Whether deployments on a network use MockWormhole and MockWormholeRelayer
+ * True in unit mode, and on local networks unless FORK names the forked network.
+ * @param networkName Hardhat network name
+ * @returns Whether the Wormhole mocks stand in for Wormhole
+ */
+export const usesWormholeMocks = (networkName: string): boolean =>
+    isUnitMode() || (!process.env.FORK && LOCAL_NETWORKS.includes(networkName));
+
+/**
+ * Reads the Wormhole chain ID, core contract and relayer of a network from a protocol configuration
+ * @param network Network to resolve
+ * @param config Protocol configuration
+ * @returns Wormhole addresses of the network
+ * @throws Error naming every missing or invalid configuration entry
+ * @example
+ * const { wormholeChainId, wormhole, wormholeRelayer } = getWormholeAddresses(eBaseNetwork.base, BaseV1Market);
+ */
+export const getWormholeAddresses = (network: eNetwork, config: ProtocolConfiguration): WormholeAddresses => {
+    const wormholeChainId = getParamPerNetwork(config.WormholeChainIds, network);
+    const wormhole = getParamPerNetwork(config.WormHoleCoreContracts, network);
+    const wormholeRelayer = getParamPerNetwork(config.WormHoleRelayContracts, network);
+
+    const missing = [
+        wormholeChainId === undefined ? "WormholeChainIds" : undefined,
+        !wormhole || !isValidAddress(wormhole) ? "WormHoleCoreContracts" : undefined,
+        !wormholeRelayer || !isValidAddress(wormholeRelayer) ? "WormHoleRelayContracts" : undefined,
+    ].filter(entry => entry !== undefined);
+    if (missing.length > 0) {
+        throw new Error(`WormholeHelper: ${config.MarketId} has no valid ${missing.join(", ")} entry for ${network}`);
+    }
+
+    return { network, wormholeChainId: wormholeChainId!, wormhole: wormhole!, wormholeRelayer: wormholeRelayer!, mocked: false };
+};
+
+/**
+ * Checks that the Wormhole core contract and relayer have code on chain
+ * @param provider Provider of the network
+ * @param addresses Addresses to check
+ * @throws Error naming every address without code
+ */
+export const verifyWormholeAddresses = async (provider: Provider, addresses: WormholeAddresses): Promise<void> => {
+    const contracts = { "Wormhole core contract": addresses.wormhole, "Wormhole relayer": addresses.wormholeRelayer };
+    const empty: string[] = [];
+    for (const [label, address] of Object.entries(contracts)) {
+        if ((await provider.getCode(address)) === "0x") {
+            empty.push(`${label} ${address}`);
         }
     }
+    if (empty.length > 0) {
+        throw new Error(`WormholeHelper: No contract code on ${addresses.network} at ${empty.join(", ")}`);
+    }
 };
 
+/**
+ * Resolves the Wormhole contracts a deployment runs against
+ * Where usesWormholeMocks holds, the deployed MockWormhole and MockWormholeRelayer
+ * are used with LOCAL_CHAIN_ID. Otherwise the configured addresses are returned
+ * once they are verified to have code on chain.
+ * @param hre Hardhat runtime environment
+ * @param config Protocol configuration
+ * @returns Wormhole addresses for the deployment
+ * @throws Error if the mocks are not deployed, or the configuration is incomplete or wrong
+ * @example
+ * const { wormhole, wormholeRelayer } = await resolveWormholeAddresses(hre, getProtocolConfig());
+ */
+export const resolveWormholeAddresses = async (
+    hre: HardhatRuntimeEnvironment,
+    config: ProtocolConfiguration
+): Promise<WormholeAddresses> => {
+    const network = (process.env.FORK ? process.env.FORK : hre.network.name) as eNetwork;
+
+    if (usesWormholeMocks(hre.network.name)) {
+        const wormhole = await hre.deployments.getOrNull("MockWormhole");
+        const wormholeRelayer = await hre.deployments.getOrNull("MockWormholeRelayer");
+        if (!wormhole || !wormholeRelayer) {
+            throw new Error(
+                `WormholeHelper: MockWormhole and MockWormholeRelayer are not deployed on ${network}, run the "mocks" deploy scripts first`
+            );
+        }
+        return {
+            network,
+            wormholeChainId: LOCAL_CHAIN_ID,
+            wormhole: wormhole.address,
+            wormholeRelayer: wormholeRelayer.address,
+            mocked: true,
+        };
+    }
+
+    const addresses = getWormholeAddresses(network, config);
+    await verifyWormholeAddresses(hre.ethers.provider, addresses);
+    return addresses;
+};
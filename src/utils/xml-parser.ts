@@ -0,0 +1,228 @@
+/**
+ * Minimal XML parser for ISO 20022 documents.
+ *
+ * Supports elements, attributes, text, CDATA, comments, processing
+ * instructions and the predefined / numeric entities. DTDs, including their
+ * internal subset, are skipped and never expanded. Quoted attribute values
+ * may contain `>`. Namespace prefixes are stripped from element and
+ * attribute names, which is sufficient for the flat namespaces used by
+ * ISO 20022 messages. Namespace declarations are kept verbatim
+ * (`xmlns`, `xmlns:prefix`) so the message version can be read from them.
+ */
+
+/**
+ * Parsed XML element
+ */
+export interface XmlElement {
+    /** Local name (without namespace prefix) */
+    name: string;
+    /** Attributes by local name */
+    attributes: Record<string, string>;
+    /** Child elements in document order */
+    children: XmlElement[];
+    /** Concatenated text content of this element (not of its children) */
+    text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: "\"",
+    apos: "'",
+};
+
+/**
+ * Parses an XML document
+ * @param xml XML document
+ * @returns Root element
+ * @throws Error if the document is not well-formed
+ */
+export function parseXml(xml: string): XmlElement {
+    const stack: XmlElement[] = [];
+    let root: XmlElement | undefined;
+    let position = 0;
+
+    while (position < xml.length) {
+        const tagStart = xml.indexOf("<", position);
+        const text = xml.slice(position, tagStart === -1 ? xml.length : tagStart);
+
+        if (text.trim().length > 0) {
+            if (stack.length === 0) {
+                throw new Error(`XmlParser: Text outside of root element at offset ${position}`);
+            }
+            stack[stack.length - 1].text += decodeEntities(text);
+        }
+        if (tagStart === -1) {
+            break;
+        }
+
+        if (xml.startsWith("<!--", tagStart)) {
+            position = skipTo(xml, "-->", tagStart);
+        } else if (xml.startsWith("<![CDATA[", tagStart)) {
+            const end = xml.indexOf("]]>", tagStart);
+            if (end === -1 || stack.length === 0) {
+                throw new Error(`XmlParser: Invalid CDATA section at offset ${tagStart}`);
+            }
+            stack[stack.length - 1].text += xml.slice(tagStart + 9, end);
+            position = end + 3;
+        } else if (xml.startsWith("<?", tagStart)) {
+            position = skipTo(xml, "?>", tagStart);
+        } else if (xml.startsWith("<!", tagStart)) {
+            position = skipDeclaration(xml, tagStart);
+        } else if (xml.startsWith("</", tagStart)) {
+            const end = skipTo(xml, ">", tagStart);
+            const name = localName(xml.slice(tagStart + 2, end - 1).trim());
+            const element = stack.pop();
+            if (!element || element.name !== name) {
+                throw new Error(`XmlParser: Unexpected closing tag </${name}> at offset ${tagStart}`);
+            }
+            position = end;
+        } else {
+            const end = skipTag(xml, tagStart);
+            const selfClosing = xml[end - 2] === "/";
+            const element = parseTag(xml.slice(tagStart + 1, selfClosing ? end - 2 : end - 1), tagStart);
+
+            if (stack.length > 0) {
+                stack[stack.length - 1].children.push(element);
+            } else if (root) {
+                throw new Error(`XmlParser: Multiple root elements at offset ${tagStart}`);
+            } else {
+                root = element;
+            }
+            if (!selfClosing) {
+                stack.push(element);
+            }
+            position = end;
+        }
+    }
+
+    if (!root) {
+        throw new Error("XmlParser: Document has no root element");
+    }
+    if (stack.length > 0) {
+        throw new Error(`XmlParser: Unclosed element <${stack[stack.length - 1].name}>`);
+    }
+    return root;
+}
+
+/**
+ * Returns the first child with the given local name
+ * @param element Parent element
+ * @param name Local name of the child
+ */
+export function findChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+    return element?.children.find(child => child.name === name);
+}
+
+/**
+ * Follows a path of child names, e.g. `findPath(tx, "DbtrAgt", "FinInstnId", "BICFI")`
+ * @param element Starting element
+ * @param path Local names of the nested children
+ */
+export function findPath(element: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+    return path.reduce<XmlElement | undefined>((current, name) => findChild(current, name), element);
+}
+
+/**
+ * Returns the trimmed text of the element at the given path
+ * @param element Starting element
+ * @param path Local names of the nested children
+ * @returns Text, or undefined if the element is missing or empty
+ */
+export function getText(element: XmlElement | undefined, ...path: string[]): string | undefined {
+    const text = findPath(element, ...path)?.text.trim();
+    return text ? text : undefined;
+}
+
+function parseTag(content: string, offset: number): XmlElement {
+    const match = /^([^\s/>]+)/.exec(content);
+    if (!match) {
+        throw new Error(`XmlParser: Invalid tag at offset ${offset}`);
+    }
+
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    const attributeContent = content.slice(match[1].length);
+    let attribute: RegExpExecArray | null;
+    while ((attribute = attributePattern.exec(attributeContent)) !== null) {
+        const name = attribute[1].startsWith("xmlns") ? attribute[1] : localName(attribute[1]);
+        attributes[name] = decodeEntities(attribute[3] ?? attribute[4]);
+    }
+
+    return { name: localName(match[1]), attributes, children: [], text: "" };
+}
+
+function localName(name: string): string {
+    const separator = name.indexOf(":");
+    return separator === -1 ? name : name.slice(separator + 1);
+}
+
+function skipTo(xml: string, terminator: string, from: number): number {
+    const end = xml.indexOf(terminator, from);
+    if (end === -1) {
+        throw new Error(`XmlParser: Unterminated markup at offset ${from}`);
+    }
+    return end + terminator.length;
+}
+
+/**
+ * Skips a start tag, `>` inside quoted attribute values does not end it
+ * @returns Offset after the closing `>`
+ */
+function skipTag(xml: string, from: number): number {
+    let quote: string | undefined;
+    for (let index = from + 1; index < xml.length; index++) {
+        const char = xml[index];
+        if (quote) {
+            quote = char === quote ? undefined : quote;
+        } else if (char === "\"" || char === "'") {
+            quote = char;
+        } else if (char === ">") {
+            return index + 1;
+        }
+    }
+    throw new Error(`XmlParser: Unterminated markup at offset ${from}`);
+}
+
+/**
+ * Skips a `<!DOCTYPE ...>` or other `<!...>` declaration
+ * The internal subset between `[` and `]` is skipped with its declarations,
+ * comments and quoted literals, whatever `>` they contain.
+ * @returns Offset after the closing `>`
+ */
+function skipDeclaration(xml: string, from: number): number {
+    let quote: string | undefined;
+    let inSubset = false;
+    for (let index = from + 2; index < xml.length; index++) {
+        const char = xml[index];
+        if (quote) {
+            quote = char === quote ? undefined : quote;
+        } else if (char === "\"" || char === "'") {
+            quote = char;
+        } else if (inSubset && xml.startsWith("<!--", index)) {
+            index = skipTo(xml, "-->", index) - 1;
+        } else if (inSubset && xml.startsWith("<?", index)) {
+            index = skipTo(xml, "?>", index) - 1;
+        } else if (char === "[") {
+            inSubset = true;
+        } else if (char === "]") {
+            inSubset = false;
+        } else if (char === ">" && !inSubset) {
+            return index + 1;
+        }
+    }
+    throw new Error(`XmlParser: Unterminated markup at offset ${from}`);
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, code: string) => {
+        if (code.startsWith("#x")) {
+            return String.fromCodePoint(parseInt(code.slice(2), 16));
+        }
+        if (code.startsWith("#")) {
+            return String.fromCodePoint(parseInt(code.slice(1), 10));
+        }
+        return ENTITIES[code] ?? entity;
+    });
+}
@@ -0,0 +1,106 @@
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+import { BatchInstruction, eNetwork } from "../src/types";
+import { getContractAddress, loadAddressBook } from "../src/utils/address-book";
+import { getTxConfig } from "../src/utils/config-helpers";
+import { getNetworkSigner } from "../src/utils/network-signer";
+
+/**
+ * Submits a payment file through the ProtocolCoordinator of the address book
+ *
+ * The file is either a pain.001 XML document, whose agents are resolved with a
+ * JSON directory ({ "bic": { "DEUTDEFF": "0x..." }, "lei": {} }), or a JSON list
+ * of PACS.008 messages with decimal string amounts. Running the task again with
+ * the same report resumes the batch. Transactions are signed by the first account
+ * of the network in hardhat.config.ts before they are broadcast.
+ *
+ * @example
+ * npx hardhat batch:submit --network sepolia --file payments.xml --directory institutions.json
+ * npx hardhat batch:submit --network localhost --file payments.json --concurrency 8
+ */
+task("batch:submit", "Submits a pain.001 file or a JSON list of PACS.008 messages as one batch")
+    .addParam("file", "pain.001 XML document or JSON list of messages")
+    .addOptionalParam("report", "Resumable JSON report (defaults to <file>.report.json)")
+    .addOptionalParam("directory", "JSON directory of institution addresses by BIC and LEI, for pain.001 files")
+    .addOptionalParam("targetChain", "Wormhole chain ID of the target, defaults to local routing", undefined, types.int)
+    .addOptionalParam("concurrency", "Maximum number of unconfirmed transactions", undefined, types.int)
+    .addFlag("retryFailed", "Submit the failed entries of the report again")
+    .setAction(
+        async (
+            args: {
+                file: string;
+                report?: string;
+                directory?: string;
+                targetChain?: number;
+                concurrency?: number;
+                retryFailed: boolean;
+            },
+            hre
+        ) => {
+            const { BatchSubmitter, summarizeBatchReport } = await import("../src/services/batch-submitter");
+            const { convertPain001Xml, StaticInstitutionDirectory } = await import("../src/utils/pacs008-xml-converter");
+            const { ProtocolCoordinator__factory } = await import("../typechain");
+
+            const network = hre.network.name as eNetwork;
+            const book = loadAddressBook(network);
+            const handlerAddr = getContractAddress(book, "PACS008Handler");
+            const content = fs.readFileSync(args.file, "utf8");
+            let instructions: BatchInstruction[];
+
+            if (content.trimStart().startsWith("<")) {
+                if (!args.directory) {
+                    throw new Error("batch:submit: --directory is required for pain.001 files");
+                }
+                const converted = await convertPain001Xml(content, {
+                    directory: new StaticInstitutionDirectory(JSON.parse(fs.readFileSync(args.directory, "utf8"))),
+                    handlerAddr,
+                    network,
+                    runner: hre.ethers.provider,
+                });
+                instructions = converted.map(({ message }) => ({ message, targetChain: args.targetChain }));
+            } else {
+                instructions = (JSON.parse(content) as Record<string, string>[]).map(({ id, amount, ...message }) => ({
+                    id,
+                    message: {
+                        debtorAddr: message.debtorAddr,
+                        creditorAddr: message.creditorAddr,
+                        tokenAddr: message.tokenAddr,
+                        amount: BigInt(amount),
+                        handlerAddr: message.handlerAddr ?? handlerAddr,
+                        instructionId: message.instructionId,
+                    },
+                    targetChain: args.targetChain,
+                }));
+            }
+
+            const signer = await getNetworkSigner(hre);
+            const coordinator = ProtocolCoordinator__factory.connect(getContractAddress(book, "ProtocolCoordinator"), signer);
+            const reportFile = args.report ?? `${args.file}.report.json`;
+            const statuses = new Map<string, string>();
+            const submitter = new BatchSubmitter(
+                coordinator,
+                signer,
+                {
+                    reportFile,
+                    concurrency: args.concurrency,
+                    retryFailed: args.retryFailed,
+                    onProgress: entry => {
+                        if (statuses.get(entry.id) !== entry.status) {
+                            statuses.set(entry.id, entry.status);
+                            console.log(` - ${entry.id}: ${entry.status}${entry.error ? ` (${entry.error})` : ""}`);
+                        }
+                    },
+                },
+                getTxConfig(network)
+            );
+
+            console.log(`Submitting ${instructions.length} instructions on ${network}, report in ${reportFile}`);
+            const summary = summarizeBatchReport(await submitter.submit(instructions));
+
+            console.log(`\nConfirmed: ${summary.CONFIRMED}, failed: ${summary.FAILED}, unconfirmed: ${summary.SUBMITTED}`);
+            console.log(`Fees: ${hre.ethers.formatEther(summary.fees)} ETH`);
+            if (summary.FAILED > 0 || summary.SUBMITTED > 0) {
+                throw new Error(`batch:submit: ${summary.FAILED + summary.SUBMITTED} instructions not confirmed, see ${reportFile}`);
+            }
+        }
+    );
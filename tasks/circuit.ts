@@ -0,0 +1,77 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { CircuitBreakerReport, eNetwork, PauseScope } from "../src/types";
+import { loadAddressBook } from "../src/utils/address-book";
+import { getTxConfig } from "../src/utils/config-helpers";
+
+const SCOPES: PauseScope[] = ["ingress", "cross-chain", "routing", "settlement", "governance", "all"];
+
+/**
+ * Circuit breaker tasks pausing the protocol contracts of the address book in dependency order
+ *
+ * Pausing goes ingress first and settlement last, unpausing the other way round
+ * after checking the operator's roles and that nothing downstream stays paused.
+ * Every task verifies paused() on chain and can write the result as a JSON report.
+ *
+ * @example
+ * npx hardhat circuit:pause --network sepolia --scope cross-chain --report incidents/pause.json
+ * npx hardhat circuit:status --network sepolia
+ * npx hardhat circuit:unpause --network sepolia --scope cross-chain --report incidents/unpause.json
+ */
+
+async function connectBreaker(hre: HardhatRuntimeEnvironment, scope: string) {
+    if (!SCOPES.includes(scope as PauseScope)) {
+        throw new Error(`circuit: Unknown scope ${scope}, expected one of ${SCOPES.join(", ")}`);
+    }
+    const { CircuitBreaker } = await import("../src/services/circuit-breaker");
+
+    const network = hre.network.name as eNetwork;
+    const [signer] = await hre.ethers.getSigners();
+    return new CircuitBreaker(
+        signer,
+        loadAddressBook(network),
+        getTxConfig(network)
+    );
+}
+
+function printReport(report: CircuitBreakerReport): void {
+    console.log(`\n=== Circuit breaker ${report.operation} (${report.scope}) on ${report.network} ===`);
+    console.log(`Operator: ${report.operator}, block ${report.blockNumber}`);
+    for (const issue of report.preflight) {
+        console.log(`! ${issue}`);
+    }
+    for (const entry of report.entries) {
+        const state = entry.pausedAfter === undefined ? "" : entry.pausedAfter ? " [paused]" : " [running]";
+        console.log(`${entry.contract}: ${entry.outcome}${state}${entry.error ? ` - ${entry.error}` : ""}`);
+    }
+    console.log("=========================================\n");
+}
+
+task("circuit:pause", "Pauses the protocol contracts, ingress first")
+    .addOptionalParam("scope", `Contracts to pause: ${SCOPES.join(", ")}`, "all")
+    .addOptionalParam("report", "JSON file receiving the report")
+    .setAction(async (args: { scope: string; report?: string }, hre) => {
+        const breaker = await connectBreaker(hre, args.scope);
+        const report = await breaker.pause({ scope: args.scope as PauseScope, reportFile: args.report });
+        printReport(report);
+        if (report.entries.some(entry => entry.outcome === "failed")) {
+            throw new Error("circuit:pause: Some contracts are not paused, see the report");
+        }
+    });
+
+task("circuit:unpause", "Unpauses the protocol contracts, settlement first, after preflight checks")
+    .addOptionalParam("scope", `Contracts to unpause: ${SCOPES.join(", ")}`, "all")
+    .addOptionalParam("report", "JSON file receiving the report")
+    .addFlag("force", "Unpause even when the preflight checks find problems")
+    .setAction(async (args: { scope: string; report?: string; force: boolean }, hre) => {
+        const breaker = await connectBreaker(hre, args.scope);
+        printReport(await breaker.unpause({ scope: args.scope as PauseScope, reportFile: args.report, force: args.force }));
+    });
+
+task("circuit:status", "Shows which protocol contracts are paused")
+    .addOptionalParam("scope", `Contracts to check: ${SCOPES.join(", ")}`, "all")
+    .addOptionalParam("report", "JSON file receiving the snapshot")
+    .setAction(async (args: { scope: string; report?: string }, hre) => {
+        const breaker = await connectBreaker(hre, args.scope);
+        printReport(await breaker.status({ scope: args.scope as PauseScope, reportFile: args.report }));
+    });
@@ -0,0 +1,143 @@
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+    CAMT053_SCHEMA,
+    eNetwork,
+    MessageSchema,
+    PACS002_SCHEMA,
+    PACS008_SCHEMA,
+    PACS009_SCHEMA,
+    PAIN001_SCHEMA,
+    ProposalDraft,
+    ProposalStatusReport,
+    ProposalType,
+    ProposalTypeName,
+} from "../src/types";
+import { getContractAddress, loadAddressBook } from "../src/utils/address-book";
+import { getTxConfig } from "../src/utils/config-helpers";
+
+/** Built-in schemas message type proposals may refer to by name */
+const BUILT_IN_SCHEMAS: Record<string, MessageSchema> = {
+    PACS008_SCHEMA,
+    PACS009_SCHEMA,
+    PACS002_SCHEMA,
+    CAMT053_SCHEMA,
+    PAIN001_SCHEMA,
+};
+
+/**
+ * Governance tasks wrapping the ProtocolGovernance of the address book
+ *
+ * Proposal parameters are JSON matching ProposalParams of the proposal type. The
+ * schema of message type proposals is either a MessageSchema object or the name
+ * of a built-in schema such as "PACS009_SCHEMA".
+ *
+ * @example
+ * npx hardhat gov:propose --network sepolia --type ADD_TARGET \
+ *     --params '{"target":"0x...","chainId":10002,"targetType":"CONTRACT","metadata":"SETTLEMENT_RECEIVER"}'
+ * npx hardhat gov:propose --network sepolia --type ADD_MESSAGE_TYPE --params '{"schema":"PACS009_SCHEMA"}'
+ * npx hardhat gov:vote --network sepolia --id 3 --support true
+ * npx hardhat gov:status --network sepolia --id 3
+ * npx hardhat gov:execute --network sepolia --id 3
+ */
+
+async function connectGovernance(hre: HardhatRuntimeEnvironment) {
+    const { GovernanceClient } = await import("../src/services/governance-client");
+    const { ProtocolGovernance__factory } = await import("../typechain");
+
+    const network = hre.network.name as eNetwork;
+    const book = loadAddressBook(network);
+    const [signer] = await hre.ethers.getSigners();
+    const governance = ProtocolGovernance__factory.connect(getContractAddress(book, "ProtocolGovernance"), signer);
+    return new GovernanceClient(
+        governance,
+        signer,
+        getTxConfig(network),
+        book.contracts.ProtocolGovernance.blockNumber
+    );
+}
+
+function parseDraft(type: string, json: string): ProposalDraft {
+    const names = Object.keys(ProposalType).filter(key => Number.isNaN(Number(key)));
+    if (!names.includes(type)) {
+        throw new Error(`gov:propose: Unknown proposal type ${type}, expected one of ${names.join(", ")}`);
+    }
+    const params = JSON.parse(json);
+    if (typeof params.schema === "string") {
+        if (!BUILT_IN_SCHEMAS[params.schema]) {
+            throw new Error(`gov:propose: Unknown message schema ${params.schema}, expected one of ${Object.keys(BUILT_IN_SCHEMAS).join(", ")}`);
+        }
+        params.schema = BUILT_IN_SCHEMAS[params.schema];
+    }
+    return { proposalType: type as ProposalTypeName, params } as ProposalDraft;
+}
+
+function printStatus(status: ProposalStatusReport): void {
+    const time = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+    console.log(`\n=== Proposal ${status.proposalId} (${status.proposalType}) ===`);
+    console.log(`Proposer: ${status.proposer}`);
+    console.log(`Parameters: ${status.params ? JSON.stringify(status.params) : `undecodable data ${status.data}`}`);
+    console.log(`Created: ${time(status.createdAt)}, voting ends: ${time(status.votingEndsAt)}, executable: ${time(status.executableAt)}`);
+    console.log(
+        `Votes: ${status.votesFor} for, ${status.votesAgainst} against, ` +
+            `${status.turnout}% of ${status.totalVotingPower} voting power`
+    );
+    console.log(
+        `Voting ended: ${status.votingEnded}, quorum reached: ${status.quorumReached}, ` +
+            `execution delay passed: ${status.executionDelayPassed}, executed: ${status.executed}`
+    );
+    console.log(`\nCan execute: ${status.canExecute}`);
+    for (const reason of status.reasons) {
+        console.log(` - ${reason}`);
+    }
+    console.log("=========================================\n");
+}
+
+task("gov:propose", "Creates a governance proposal from typed parameters")
+    .addParam("type", "Proposal type, e.g. ADD_TARGET")
+    .addOptionalParam("params", "Proposal parameters as JSON")
+    .addOptionalParam("paramsFile", "JSON file with the proposal parameters")
+    .setAction(async (args: { type: string; params?: string; paramsFile?: string }, hre) => {
+        if (!args.params === !args.paramsFile) {
+            throw new Error("gov:propose: Pass either --params or --params-file");
+        }
+        const draft = parseDraft(args.type, args.params ?? fs.readFileSync(args.paramsFile!, "utf8"));
+        const { describeProposal } = await import("../src/utils/governance-proposals");
+
+        const client = await connectGovernance(hre);
+        console.log(describeProposal(draft));
+        const { proposalId, transactionHash } = await client.propose(draft);
+        console.log(`Created proposal ${proposalId}: ${transactionHash}`);
+    });
+
+task("gov:vote", "Votes on a proposal with the signer's voting power")
+    .addParam("id", "Proposal ID", undefined, types.bigint)
+    .addParam("support", "Whether to vote for the proposal", undefined, types.boolean)
+    .setAction(async (args: { id: bigint; support: boolean }, hre) => {
+        const client = await connectGovernance(hre);
+        const { transactionHash } = await client.vote(args.id, args.support);
+        console.log(`Voted ${args.support ? "for" : "against"} proposal ${args.id}: ${transactionHash}`);
+    });
+
+task("gov:status", "Explains whether a proposal can execute")
+    .addParam("id", "Proposal ID", undefined, types.bigint)
+    .addFlag("json", "Print the status as JSON")
+    .setAction(async (args: { id: bigint; json: boolean }, hre) => {
+        const client = await connectGovernance(hre);
+        const status = await client.getStatus(args.id);
+        if (args.json) {
+            console.log(JSON.stringify(status, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2));
+        } else {
+            printStatus(status);
+        }
+    });
+
+task("gov:execute", "Executes a proposal once voting, quorum and delay allow it")
+    .addParam("id", "Proposal ID", undefined, types.bigint)
+    .setAction(async (args: { id: bigint }, hre) => {
+        const client = await connectGovernance(hre);
+        const { transactionHash } = await client.execute(args.id);
+        console.log(`Executed proposal ${args.id}: ${transactionHash}`);
+    });
@@ -0,0 +1,68 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task, types } from "hardhat/config";
+import { IndexerPassResult } from "../src/types";
+import { loadAddressBook } from "../src/utils/address-book";
+
+/** Default location of the index of a network */
+const INDEXER_DIR = path.resolve(__dirname, "../indexer");
+
+/**
+ * Indexes the events of the address book contracts into a local SQLite database
+ * Runs until interrupted, or for a single pass with --once.
+ *
+ * @example
+ * npx hardhat indexer:start --network sepolia
+ * npx hardhat indexer:start --network localhost --confirmations 0 --once
+ */
+task("indexer:start", "Indexes the protocol events of the address book into a local SQLite database")
+    .addOptionalParam("database", "SQLite database file (defaults to indexer/<network>.sqlite)")
+    .addOptionalParam("fromBlock", "First block to index on an empty database", undefined, types.int)
+    .addOptionalParam("confirmations", "Confirmations before a block is indexed (defaults to TX_CONFIGS)", undefined, types.int)
+    .addOptionalParam("pollInterval", "Polling interval in ms (defaults to TX_CONFIGS)", undefined, types.int)
+    .addFlag("once", "Run a single pass and exit")
+    .setAction(
+        async (
+            args: { database?: string; fromBlock?: number; confirmations?: number; pollInterval?: number; once: boolean },
+            hre
+        ) => {
+            const { EventIndexer } = await import("../src/services/event-indexer");
+
+            const database = args.database ?? path.join(INDEXER_DIR, `${hre.network.name}.sqlite`);
+            if (!args.database) {
+                fs.mkdirSync(INDEXER_DIR, { recursive: true });
+            }
+
+            const indexer = new EventIndexer(hre.ethers.provider, loadAddressBook(hre.network.name), {
+                database,
+                fromBlock: args.fromBlock,
+                confirmations: args.confirmations,
+                pollInterval: args.pollInterval,
+            });
+
+            const report = (result: IndexerPassResult) => {
+                if (result.reorgedTo !== undefined) {
+                    console.log(`Reorg detected, rolled back to block ${result.reorgedTo}`);
+                }
+                if (result.toBlock >= result.fromBlock) {
+                    console.log(`Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.events} events`);
+                }
+            };
+
+            console.log(`Indexing ${hre.network.name} into ${database}`);
+            if (args.once) {
+                try {
+                    report(await indexer.sync());
+                } finally {
+                    await indexer.close();
+                }
+                return;
+            }
+
+            indexer.start(report);
+            await new Promise<void>(resolve => process.once("SIGINT", resolve));
+            await indexer.stop();
+            console.log(`Stopped at block ${indexer.store.lastBlock}`);
+            await indexer.close();
+        }
+    );
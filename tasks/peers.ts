@@ -0,0 +1,77 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { PeerDeployment } from "../src/types";
+import { ADDRESS_BOOK_DIR, loadAddressBook } from "../src/utils/address-book";
+import { getAddressBookChain } from "../src/utils/chain-registry";
+import { getNetworkSigner } from "../src/utils/network-signer";
+
+/**
+ * Cross-chain peer wiring between the deployments in the address books of two networks
+ *
+ * The signer of the other network comes from its entry in hardhat.config.ts, so both
+ * networks need an RPC URL and accounts holding the admin, operator and registrar roles
+ * (and the router role on local networks, where the test settlement is really routed).
+ * Each chain is identified by the chainId of its address book. Local nodes and forks
+ * route through LOCAL_CHAIN, so they are given the Wormhole chain ID they stand for.
+ * The task fails unless both directions are verified.
+ *
+ * @example
+ * npx hardhat peers:connect --network sepolia --peer arbitrum-sepolia
+ * npx hardhat peers:connect --network localhost --peer ganache --wormhole-chain-id 10002 --peer-wormhole-chain-id 10003
+ */
+
+async function loadPeer(
+    hre: HardhatRuntimeEnvironment,
+    network: string,
+    books: string,
+    wormholeChainId?: number
+): Promise<PeerDeployment> {
+    const book = loadAddressBook(network, books);
+    return {
+        chain: getAddressBookChain(book, wormholeChainId),
+        book,
+        signer: await getNetworkSigner(hre, network),
+    };
+}
+
+task("peers:connect", "Wires the deployments of two networks to each other and verifies the link")
+    .addParam("peer", "Network of the other deployment, e.g. arbitrum-sepolia")
+    .addOptionalParam("wormholeChainId", "Wormhole chain ID a local --network stands for", undefined, types.int)
+    .addOptionalParam("peerWormholeChainId", "Wormhole chain ID a local --peer stands for", undefined, types.int)
+    .addOptionalParam("books", "Address book directory", ADDRESS_BOOK_DIR)
+    .setAction(
+        async (
+            args: { peer: string; wormholeChainId?: number; peerWormholeChainId?: number; books: string },
+            hre
+        ) => {
+            const { PeerConnector } = await import("../src/services/peer-connector");
+
+            const connector = new PeerConnector(
+                await loadPeer(hre, hre.network.name, args.books, args.wormholeChainId),
+                await loadPeer(hre, args.peer, args.books, args.peerWormholeChainId)
+            );
+            const results = await connector.connect();
+
+            for (const result of results) {
+                console.log(`\n=== ${result.source} -> ${result.target} ===`);
+                for (const step of result.steps) {
+                    const hash = step.transactionHash ? ` ${step.transactionHash}` : "";
+                    console.log(`${step.status === "sent" ? "+" : "="} ${step.call}(${step.args.join(", ")})${hash}`);
+                }
+                if (result.verified) {
+                    const by = result.verification === "relay" ? "delivered by the relay simulator" : "accepted in an eth_call";
+                    console.log(`Verified: test settlement ${by}`);
+                } else {
+                    console.log(`Not connected: ${result.error}`);
+                }
+            }
+            console.log("");
+
+            const failed = results.filter(result => !result.verified);
+            if (failed.length > 0) {
+                throw new Error(
+                    `peers:connect: ${failed.map(result => `${result.source} -> ${result.target}`).join(", ")} not verified`
+                );
+            }
+        }
+    );
@@ -0,0 +1,199 @@
+import { ethers } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { eNetwork, LiquidityAlertSink, LiquidityCheckResult } from "../src/types";
+import { getContractAddress, loadAddressBook } from "../src/utils/address-book";
+import { getTxConfig } from "../src/utils/config-helpers";
+import { getNetworkProvider } from "../src/utils/network-signer";
+
+/**
+ * Liquidity provider tasks wrapping the LiquidityPool of the address book
+ *
+ * Tokens are given as an address or an address book deployment name, amounts as
+ * decimal token amounts. Every task checks the pool state first and reports why
+ * an operation cannot succeed instead of sending a reverting transaction.
+ *
+ * @example
+ * npx hardhat pool:create --network sepolia --token MockERC20Token --min 0 --max 1000000
+ * npx hardhat pool:add --network sepolia --token MockERC20Token --amount 250.5
+ * npx hardhat pool:info --network sepolia --token MockERC20Token
+ * npx hardhat pool:remove --network sepolia --token MockERC20Token --shares 100
+ */
+
+async function connectPool(hre: HardhatRuntimeEnvironment, token: string) {
+    const { LiquidityPoolManager } = await import("../src/services/liquidity-manager");
+    const { LiquidityPool__factory } = await import("../typechain");
+
+    const network = hre.network.name as eNetwork;
+    const book = loadAddressBook(network);
+    const [signer] = await hre.ethers.getSigners();
+    const pool = LiquidityPool__factory.connect(getContractAddress(book, "LiquidityPool"), signer);
+    const manager = new LiquidityPoolManager(
+        pool,
+        signer,
+        getTxConfig(network),
+        book.contracts.LiquidityPool.blockNumber
+    );
+
+    return {
+        manager,
+        token: ethers.isAddress(token) ? token : getContractAddress(book, token),
+    };
+}
+
+task("pool:create", "Creates a liquidity pool for a token")
+    .addParam("token", "Token address or deployment name")
+    .addParam("min", "Minimum liquidity, in tokens")
+    .addParam("max", "Maximum liquidity, in tokens")
+    .setAction(async (args: { token: string; min: string; max: string }, hre) => {
+        const { manager, token } = await connectPool(hre, args.token);
+        const { transactionHash } = await manager.createPool(
+            token,
+            await manager.parseAmount(token, args.min),
+            await manager.parseAmount(token, args.max)
+        );
+        console.log(`Created the pool of ${token}: ${transactionHash}`);
+    });
+
+task("pool:update", "Changes the liquidity limits of a pool")
+    .addParam("token", "Token address or deployment name")
+    .addParam("min", "Minimum liquidity, in tokens")
+    .addParam("max", "Maximum liquidity, in tokens")
+    .setAction(async (args: { token: string; min: string; max: string }, hre) => {
+        const { manager, token } = await connectPool(hre, args.token);
+        const { transactionHash } = await manager.updatePool(
+            token,
+            await manager.parseAmount(token, args.min),
+            await manager.parseAmount(token, args.max)
+        );
+        console.log(`Updated the pool of ${token}: ${transactionHash}`);
+    });
+
+task("pool:add", "Deposits tokens into a pool, approving it first when needed")
+    .addParam("token", "Token address or deployment name")
+    .addParam("amount", "Amount to deposit, in tokens")
+    .setAction(async (args: { token: string; amount: string }, hre) => {
+        const { manager, token } = await connectPool(hre, args.token);
+        const { transactionHash, approvalHash } = await manager.addLiquidity(token, await manager.parseAmount(token, args.amount));
+        if (approvalHash) {
+            console.log(`Approved the pool: ${approvalHash}`);
+        }
+        console.log(`Added ${args.amount} tokens: ${transactionHash}`);
+    });
+
+task("pool:remove", "Burns pool shares for tokens")
+    .addParam("token", "Token address or deployment name")
+    .addParam("shares", "Shares to burn, scaled like the token")
+    .setAction(async (args: { token: string; shares: string }, hre) => {
+        const { manager, token } = await connectPool(hre, args.token);
+        const pool = await manager.getPool(token);
+        const { transactionHash, amount } = await manager.removeLiquidity(token, await manager.parseAmount(token, args.shares));
+        console.log(`Withdrew ${ethers.formatUnits(amount!, pool.decimals)} ${pool.symbol}: ${transactionHash}`);
+    });
+
+task("pool:info", "Shows a pool and what a provider may do on it")
+    .addParam("token", "Token address or deployment name")
+    .addOptionalParam("provider", "Provider address, defaults to the first signer")
+    .setAction(async (args: { token: string; provider?: string }, hre) => {
+        const { manager, token } = await connectPool(hre, args.token);
+        const pool = await manager.getPool(token);
+        const provider = await manager.getProviderStatus(token, args.provider);
+        const format = (amount: bigint) => `${ethers.formatUnits(amount, pool.decimals)} ${pool.symbol}`;
+
+        console.log(`\n=== Pool ${pool.symbol} (${token}) ===`);
+        console.log(`Active: ${pool.isActive}, paused: ${pool.paused}, permissionless: ${pool.permissionless}`);
+        console.log(`Total liquidity: ${format(pool.totalLiquidity)}`);
+        console.log(`Available: ${format(pool.availableLiquidity)}, locked: ${format(pool.lockedLiquidity)}`);
+        console.log(`Limits: ${format(pool.minLiquidity)} - ${format(pool.maxLiquidity)}`);
+
+        console.log(`\nProvider ${provider.provider}`);
+        console.log(`Blacklisted: ${provider.blacklisted}, may add liquidity: ${provider.canAddLiquidity}`);
+        console.log(`Balance: ${format(provider.balance)}, allowance: ${format(provider.allowance)}`);
+        if (provider.nextWithdrawalAt !== undefined) {
+            console.log(`Next withdrawal: ${new Date(provider.nextWithdrawalAt * 1000).toISOString()}`);
+        }
+        console.log("=========================================\n");
+    });
+
+task("pool:emergency-withdraw", "Withdraws the whole token balance of the paused pool")
+    .addParam("token", "Token address or deployment name")
+    .setAction(async (args: { token: string }, hre) => {
+        const { manager, token } = await connectPool(hre, args.token);
+        const pool = await manager.getPool(token);
+        const { transactionHash, amount } = await manager.emergencyWithdraw(token);
+        console.log(`Withdrew ${ethers.formatUnits(amount!, pool.decimals)} ${pool.symbol}: ${transactionHash}`);
+    });
+
+/**
+ * Watches the pools against the demand of pending PACS.008 messages
+ * The demand is read from the MessageRegistry of every --peers network, each with its
+ * address book and RPC URL. Runs until interrupted, or for a single pass with --once.
+ *
+ * @example
+ * npx hardhat pool:monitor --network sepolia --peers arbitrum-sepolia,base-sepolia --threshold 10000 --webhook http://localhost:9000/alerts
+ * npx hardhat pool:monitor --network localhost --file alerts.jsonl --once
+ */
+task("pool:monitor", "Alerts when pending messages would drain a pool below its threshold or minimum")
+    .addOptionalParam("peers", "Comma separated networks whose messages settle on this one", "")
+    .addOptionalParam("threshold", "Minimum projected available liquidity, in tokens", "0")
+    .addOptionalParam("webhook", "URL receiving the alerts as JSON POST requests")
+    .addOptionalParam("file", "JSON Lines file receiving the alerts")
+    .addOptionalParam("fromBlock", "First block scanned (defaults to the deployment block)", undefined, types.int)
+    .addOptionalParam("pollInterval", "Polling interval in ms (defaults to TX_CONFIGS)", undefined, types.int)
+    .addFlag("once", "Run a single pass and exit")
+    .setAction(
+        async (
+            args: {
+                peers: string;
+                threshold: string;
+                webhook?: string;
+                file?: string;
+                fromBlock?: number;
+                pollInterval?: number;
+                once: boolean;
+            },
+            hre
+        ) => {
+            const { LiquidityMonitor } = await import("../src/services/liquidity-monitor");
+
+            const sinks: LiquidityAlertSink[] = [{ type: "console" }];
+            if (args.webhook) {
+                sinks.push({ type: "webhook", url: args.webhook });
+            }
+            if (args.file) {
+                sinks.push({ type: "file", path: args.file });
+            }
+            const peers = args.peers
+                .split(",")
+                .map(peer => peer.trim())
+                .filter(Boolean)
+                .map(peer => ({ provider: getNetworkProvider(hre, peer), book: loadAddressBook(peer) }));
+            const monitor = new LiquidityMonitor(hre.ethers.provider, loadAddressBook(hre.network.name), {
+                peers,
+                defaultThreshold: args.threshold,
+                sinks,
+                fromBlock: args.fromBlock,
+                pollInterval: args.pollInterval,
+            });
+
+            const report = (result: LiquidityCheckResult) => {
+                for (const pool of result.pools) {
+                    const format = (amount: bigint) => `${ethers.formatUnits(amount, pool.decimals)} ${pool.symbol}`;
+                    console.log(
+                        `Block ${result.blockNumber} ${pool.symbol}: ${format(pool.availableLiquidity)} available, ` +
+                            `${pool.pendingMessages} pending messages for ${format(pool.pendingDemand)}`
+                    );
+                }
+            };
+
+            if (args.once) {
+                report(await monitor.check());
+                return;
+            }
+
+            console.log(`Monitoring the pools of ${hre.network.name}`);
+            monitor.start(report);
+            await new Promise<void>(resolve => process.once("SIGINT", resolve));
+            await monitor.stop();
+        }
+    );
@@ -0,0 +1,73 @@
+import { task, types } from "hardhat/config";
+import { eNetwork } from "../src/types";
+import { getContractAddress, loadAddressBook } from "../src/utils/address-book";
+import { getTxConfig } from "../src/utils/config-helpers";
+
+/**
+ * Retries or cancels the messages stuck in the MessageRegistry of the address book
+ *
+ * The first signer retries and cancels its own messages. With --emergency the
+ * second signer, which must hold EMERGENCY_ROLE, cancels the remaining ones.
+ *
+ * @example
+ * npx hardhat messages:recover --network sepolia --min-age 3600 --journal recovery/sepolia.jsonl --dry-run
+ * npx hardhat messages:recover --network sepolia --min-age 3600 --max-retries 2 --emergency
+ */
+task("messages:recover", "Retries, then cancels messages stuck in PENDING or FAILED")
+    .addParam("minAge", "Seconds without activity before a message is handled", undefined, types.int)
+    .addOptionalParam("maxRetries", "Retries before cancelling", undefined, types.int)
+    .addOptionalParam("journal", "JSON Lines journal of the decisions", "recovery-journal.jsonl")
+    .addOptionalParam("fromBlock", "First block scanned for messages, defaults to the coordinator deployment block", undefined, types.int)
+    .addFlag("noCancel", "Never cancel, only retry")
+    .addFlag("emergency", "Escalate to emergencyCancelMessage with the second signer")
+    .addFlag("dryRun", "Simulate the actions without sending transactions")
+    .setAction(
+        async (
+            args: {
+                minAge: number;
+                maxRetries?: number;
+                journal: string;
+                fromBlock?: number;
+                noCancel: boolean;
+                emergency: boolean;
+                dryRun: boolean;
+            },
+            hre
+        ) => {
+            const { MessageRecoveryOrchestrator } = await import("../src/services/message-recovery");
+            const { ProtocolCoordinator__factory } = await import("../typechain");
+
+            const network = hre.network.name as eNetwork;
+            const book = loadAddressBook(network);
+            const [signer, emergencySigner] = await hre.ethers.getSigners();
+            if (args.emergency && !emergencySigner) {
+                throw new Error("messages:recover: --emergency requires a second signer");
+            }
+
+            const coordinator = ProtocolCoordinator__factory.connect(getContractAddress(book, "ProtocolCoordinator"), signer);
+            const orchestrator = new MessageRecoveryOrchestrator(
+                coordinator,
+                signer,
+                {
+                    policy: {
+                        minAge: args.minAge,
+                        maxRetries: args.maxRetries,
+                        allowCancel: !args.noCancel,
+                        allowEmergencyCancel: args.emergency,
+                    },
+                    journalFile: args.journal,
+                    emergencySigner: args.emergency ? emergencySigner : undefined,
+                    fromBlock: args.fromBlock ?? book.contracts.ProtocolCoordinator.blockNumber,
+                    dryRun: args.dryRun,
+                },
+                getTxConfig(network)
+            );
+
+            const decisions = await orchestrator.run();
+            for (const decision of decisions) {
+                const detail = decision.error ? ` (${decision.error})` : decision.transactionHash ? ` ${decision.transactionHash}` : "";
+                console.log(` - ${decision.messageId}: ${decision.action} ${decision.outcome}, ${decision.reason}${detail}`);
+            }
+            console.log(`\n${decisions.length} decisions on ${network}, journal in ${args.journal}`);
+        }
+    );
@@ -0,0 +1,106 @@
+import * as fs from "fs";
+import { task } from "hardhat/config";
+import { auditRoles } from "../src/utils/role-audit";
+import { formatRoleGrant, verifyRoleManifest } from "../src/utils/role-manifest";
+
+/**
+ * Diffs the live roles of the protocol contracts against ROLE_MANIFEST
+ *
+ * @example
+ * npx hardhat roles:verify --network sepolia
+ * npx hardhat roles:verify --network sepolia --contracts MessageRouter,ProtocolCoordinator --json
+ */
+task("roles:verify", "Compares on-chain roles with the role manifest and flags extra grants")
+    .addOptionalParam("contracts", "Comma separated deployments to check (contract or grantee)")
+    .addFlag("json", "Print the report as JSON")
+    .setAction(async ({ contracts, json }: { contracts?: string; json: boolean }, hre) => {
+        const involving = contracts?.split(",").map(name => name.trim()).filter(Boolean);
+        const report = await verifyRoleManifest(hre, { involving });
+
+        if (json) {
+            console.log(JSON.stringify(report, null, 2));
+        } else {
+            console.log(`\n=== Role Verification (${report.network}) ===`);
+            console.log(`Contracts checked: ${report.contracts.join(", ") || "none"}`);
+
+            console.log(`\nMissing grants: ${report.missing.length}`);
+            for (const grant of report.missing) {
+                console.log(` - ${formatRoleGrant(grant)} (${grant.granteeAddress})`);
+            }
+
+            console.log(`\nExtra grants: ${report.extra.length}`);
+            for (const grant of report.extra) {
+                console.log(` - ${grant.contract}.${grant.role} -> ${grant.holderName ?? "unknown"} (${grant.holder})`);
+            }
+
+            if (report.pending.length > 0) {
+                console.log(`\nNot deployed on this network: ${report.pending.length}`);
+                for (const grant of report.pending) {
+                    console.log(` - ${formatRoleGrant(grant)}`);
+                }
+            }
+            console.log("=========================================\n");
+        }
+
+        if (report.missing.length > 0 || report.extra.length > 0) {
+            throw new Error(
+                `roles:verify: ${report.missing.length} missing and ${report.extra.length} extra grants on ${report.network}`
+            );
+        }
+    });
+
+/**
+ * Lists the current holders of every role on the contracts of the address book
+ *
+ * @example
+ * npx hardhat roles:audit --network sepolia
+ * npx hardhat roles:audit --network sepolia --contracts LiquidityPool --role EMERGENCY_ROLE
+ * npx hardhat roles:audit --network sepolia --json --output evidence/roles-sepolia.json
+ */
+task("roles:audit", "Rebuilds the AccessControl holders of the address book contracts from their events")
+    .addOptionalParam("contracts", "Comma separated contracts to audit")
+    .addOptionalParam("role", "Only show this role, by name or hash")
+    .addOptionalParam("output", "Write the JSON report to this file")
+    .addFlag("json", "Print the report as JSON")
+    .setAction(
+        async (
+            { contracts, role, output, json }: { contracts?: string; role?: string; output?: string; json: boolean },
+            hre
+        ) => {
+            const report = await auditRoles(hre, {
+                contracts: contracts?.split(",").map(name => name.trim()).filter(Boolean),
+            });
+
+            if (role) {
+                for (const contract of report.contracts) {
+                    contract.roles = contract.roles.filter(r => r.role === role || r.roleId === role.toLowerCase());
+                }
+                report.contracts = report.contracts.filter(contract => contract.roles.length > 0);
+            }
+
+            if (output) {
+                fs.writeFileSync(output, JSON.stringify(report, null, 2) + "\n");
+                console.log(`Role audit written to ${output}`);
+            }
+
+            if (json) {
+                console.log(JSON.stringify(report, null, 2));
+                return;
+            }
+
+            console.log(
+                `\n=== Role Audit (${report.network}, chain ${report.chainId}, block ${report.blockNumber}) ===`
+            );
+            console.log(`Address book v${report.addressBookVersion}`);
+            for (const contract of report.contracts) {
+                console.log(`\n${contract.contract} (${contract.address})`);
+                for (const { role: name, holders } of contract.roles) {
+                    console.log(`  ${name}`);
+                    for (const holder of holders) {
+                        console.log(`    - ${holder.address}${holder.name ? ` (${holder.name})` : ""} since block ${holder.blockNumber}`);
+                    }
+                }
+            }
+            console.log("\n=====================================\n");
+        }
+    );
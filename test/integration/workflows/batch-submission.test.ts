@@ -0,0 +1,164 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'hardhat';
+import { HDNodeWallet, Provider } from 'ethers';
+import { deployLocalFixture } from './fixtures';
+import { BatchSubmitter, summarizeBatchReport } from '../../../src/services/batch-submitter';
+import { convertPain001Xml, StaticInstitutionDirectory } from '../../../src/utils/pacs008-xml-converter';
+import { getProtocolConfig } from '../../../src/utils/config-helpers';
+import { encodePACS008Payload } from '../../../src/utils/pacs008-codec';
+import { LOCAL_CHAIN_ID } from '../../../src/constants';
+import {
+    BatchInstruction, BatchReport, eEthereumNetwork, MESSAGE_TYPE_PACS008, PACS008_MAXIMUM_AMOUNT,
+} from '../../../src/types';
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+const PAIN001_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.09">
+  <CstmrCdtTrfInitn>
+    <GrpHdr><MsgId>BATCH-0001</MsgId><CreDtTm>2024-06-01T09:00:00</CreDtTm><NbOfTxs>3</NbOfTxs></GrpHdr>
+    <PmtInf>
+      <PmtInfId>PMT-1</PmtInfId>
+      <DbtrAgt><FinInstnId><BICFI>DEBTDEFF</BICFI></FinInstnId></DbtrAgt>
+      <CdtTrfTxInf>
+        <PmtId><EndToEndId>E2E-1</EndToEndId></PmtId>
+        <Amt><InstdAmt Ccy="EUR">10.50</InstdAmt></Amt>
+        <CdtrAgt><FinInstnId><BICFI>CRDTFRPP</BICFI></FinInstnId></CdtrAgt>
+      </CdtTrfTxInf>
+      <CdtTrfTxInf>
+        <PmtId><EndToEndId>E2E-2</EndToEndId></PmtId>
+        <Amt><InstdAmt Ccy="EUR">20</InstdAmt></Amt>
+        <CdtrAgt><FinInstnId><BICFI>CRDTFRPP</BICFI></FinInstnId></CdtrAgt>
+      </CdtTrfTxInf>
+    </PmtInf>
+    <PmtInf>
+      <PmtInfId>PMT-2</PmtInfId>
+      <DbtrAgt><FinInstnId><BICFI>DEBTDEFF</BICFI></FinInstnId></DbtrAgt>
+      <CdtTrfTxInf>
+        <PmtId><EndToEndId>E2E-3</EndToEndId></PmtId>
+        <Amt><InstdAmt Ccy="EUR">5</InstdAmt></Amt>
+        <CdtrAgt><FinInstnId><BICFI>CRDTFRPP</BICFI></FinInstnId></CdtrAgt>
+      </CdtTrfTxInf>
+    </PmtInf>
+  </CstmrCdtTrfInitn>
+</Document>`;
+
+describe('Batch Submission', () => {
+    let fixture: Awaited<ReturnType<typeof deployLocalFixture>>;
+    let sender: SignerWithAddress;
+    let receiver: SignerWithAddress;
+    // The submitter signs offline, which Hardhat's signers do not support
+    let submitter: HDNodeWallet;
+    let instructions: BatchInstruction[];
+    let reportFile: string;
+
+    beforeEach(async () => {
+        fixture = await deployLocalFixture();
+        [, sender, receiver] = await ethers.getSigners();
+        submitter = ethers.Wallet.createRandom(ethers.provider);
+        await ethers.provider.send('hardhat_setBalance', [submitter.address, ethers.toQuantity(ethers.parseEther('100'))]);
+        reportFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'batch-')), 'report.json');
+
+        const token = await fixture.erc20Token.getAddress();
+        const converted = await convertPain001Xml(PAIN001_XML, {
+            directory: new StaticInstitutionDirectory({ bic: { DEBTDEFF: sender.address, CRDTFRPP: receiver.address } }),
+            handlerAddr: await fixture.messageHandler.getAddress(),
+            network: eEthereumNetwork.hardhat,
+            config: { ...getProtocolConfig(), ReserveAssets: { [eEthereumNetwork.hardhat]: { EUR: token } } },
+            tokenDecimals: { [token]: 18 },
+        });
+        instructions = converted.map(({ message }) => ({ message }));
+    });
+
+    function createSubmitter(options = {}, signer: HDNodeWallet = submitter) {
+        return new BatchSubmitter(fixture.protocolCoordinator, signer, {
+            reportFile, concurrency: 2, confirmations: 1, timeout: 10000, retryDelay: 10, ...options,
+        });
+    }
+
+    it('should submit a pain.001 file with gapless nonces and record settlements', async () => {
+        const firstNonce = await submitter.getNonce();
+        const failing = { id: 'TOO_LARGE', message: { ...instructions[0].message, amount: PACS008_MAXIMUM_AMOUNT + 1n } };
+
+        const report = await createSubmitter().submit([instructions[0], failing, instructions[1], instructions[2]]);
+
+        expect(summarizeBatchReport(report)).to.include({ CONFIRMED: 3, FAILED: 1, PENDING: 0, SUBMITTED: 0 });
+        const confirmed = report.entries.filter(entry => entry.status === 'CONFIRMED');
+        expect(confirmed.map(entry => entry.nonce!).sort((a, b) => a - b)).to.deep.equal([firstNonce, firstNonce + 1, firstNonce + 2]);
+        for (const entry of confirmed) {
+            expect(entry.messageId).to.match(/^0x[0-9a-f]{64}$/);
+            const settlement = await fixture.settlementController.getSettlement(entry.settlementId!);
+            expect(settlement.messageId).to.not.equal(ethers.ZeroHash);
+        }
+        expect(await fixture.erc20Token.balanceOf(receiver.address)).to.equal(ethers.parseEther('35.5'));
+
+        const saved: BatchReport = JSON.parse(fs.readFileSync(reportFile, 'utf8'));
+        expect(saved.entries.find(entry => entry.id === 'TOO_LARGE')!.error).to.be.a('string');
+    });
+
+    it('should resume a report without submitting confirmed instructions twice', async () => {
+        await createSubmitter().submit(instructions.slice(0, 2));
+
+        // Broadcast the third instruction and crash before its receipt was recorded
+        const { message } = instructions[2];
+        const submission = {
+            messageType: MESSAGE_TYPE_PACS008,
+            target: message.handlerAddr,
+            targetChain: LOCAL_CHAIN_ID,
+            payload: encodePACS008Payload(message),
+        };
+        const [baseFee, deliveryFee] = await fixture.protocolCoordinator.quoteMessageFee(submission);
+        const transaction = await fixture.protocolCoordinator.connect(submitter).submitMessage(submission, { value: baseFee + deliveryFee });
+
+        const partial: BatchReport = JSON.parse(fs.readFileSync(reportFile, 'utf8'));
+        partial.entries.push({
+            id: message.instructionId,
+            instructionId: message.instructionId,
+            targetChain: LOCAL_CHAIN_ID,
+            amount: message.amount.toString(),
+            status: 'SUBMITTED',
+            nonce: transaction.nonce,
+            transactionHash: transaction.hash,
+            attempts: 1,
+        });
+        fs.writeFileSync(reportFile, JSON.stringify(partial));
+
+        const nonce = await submitter.getNonce();
+        const report = await createSubmitter().submit(instructions);
+
+        expect(await submitter.getNonce()).to.equal(nonce);
+        expect(summarizeBatchReport(report)).to.include({ CONFIRMED: 3 });
+        expect(report.entries[2].transactionHash).to.equal(transaction.hash);
+    });
+
+    it('should record the transaction before broadcasting it and submit it once when the broadcast fails', async () => {
+        const recorded: string[] = [];
+        let failures = 0;
+        // Broadcasts reach the node, then the connection drops before the answer
+        const flaky: Provider = Object.create(ethers.provider, {
+            broadcastTransaction: {
+                value: async (signed: string) => {
+                    const transaction = await ethers.provider.broadcastTransaction(signed);
+                    const saved: BatchReport = JSON.parse(fs.readFileSync(reportFile, 'utf8'));
+                    recorded.push(saved.entries.find(entry => entry.transactionHash === transaction.hash)!.status);
+                    failures++;
+                    throw new Error('socket hang up');
+                },
+            },
+        });
+        const nonce = await submitter.getNonce();
+
+        const report = await createSubmitter({}, submitter.connect(flaky)).submit(instructions);
+
+        expect(summarizeBatchReport(report)).to.include({ CONFIRMED: 3, FAILED: 0 });
+        expect(recorded).to.deep.equal(['SUBMITTED', 'SUBMITTED', 'SUBMITTED']);
+        expect(failures).to.equal(3);
+        expect(await submitter.getNonce()).to.equal(nonce + 3);
+        const submitted = await fixture.protocolCoordinator.queryFilter(
+            fixture.protocolCoordinator.filters.MessageSubmissionInitiated(undefined, submitter.address)
+        );
+        expect(submitted).to.have.length(3);
+    });
+});
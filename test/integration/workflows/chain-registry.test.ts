@@ -0,0 +1,55 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { deployCrossChainFixture, SOURCE_CHAIN_ID, TARGET_CHAIN_ID } from './fixtures';
+import { CHAIN_REGISTRY, getWormholeChainIds } from '../../../src/constants/chains';
+import { LOCAL_CHAIN_ID } from '../../../src/constants';
+import { eNetwork } from '../../../src/types';
+import { ConfigNames, loadProtocolConfig } from '../../../src/utils/config-helpers';
+import { configureChainPair, getChain, validateTargetChain } from '../../../src/utils/chain-registry';
+
+describe('Chain Registry', () => {
+    it('should agree with the protocol configurations and reject unroutable target chains', () => {
+        for (const name of [ConfigNames.Ethereum, ConfigNames.Polygon, ConfigNames.Arbitrum, ConfigNames.Optimistic, ConfigNames.Base, ConfigNames.Avalanche]) {
+            const config = loadProtocolConfig(name);
+            for (const [network, wormholeChainId] of Object.entries(config.WormholeChainIds ?? {})) {
+                expect(getChain(network).wormholeChainId, `${name} ${network}`).to.equal(wormholeChainId);
+            }
+            for (const [network, connection] of Object.entries(config.Networks ?? {})) {
+                expect(getChain(network).evmChainId, `${name} ${network}`).to.equal(connection.chainId);
+            }
+        }
+        expect(new Set(CHAIN_REGISTRY.map(chain => chain.evmChainId)).size).to.equal(CHAIN_REGISTRY.length);
+        expect(() => getWormholeChainIds('mumbai' as eNetwork)).to.throw('ChainRegistry: Unknown network mumbai');
+
+        expect(validateTargetChain(LOCAL_CHAIN_ID)).to.equal(1);
+        expect(validateTargetChain(10002n, 'arbitrum-sepolia')).to.equal(10002);
+        expect(() => validateTargetChain(11155111))
+            .to.throw('Target chain 11155111 is not a Wormhole chain ID (uint16), it is the EVM chain ID of sepolia: use 10002');
+        expect(() => validateTargetChain(4242)).to.throw('4242 is not the Wormhole chain ID of a registered network');
+        expect(() => validateTargetChain(10002, 'arbitrum')).to.throw('Target chain 10002 (sepolia) cannot be reached from mainnet arbitrum');
+    });
+
+    it('should set the gas limit and registered sender of a chain pair once', async () => {
+        const { source, destination } = await deployCrossChainFixture();
+        const sourceChain = getChain('arbitrum-sepolia');
+        const targetChain = getChain('sepolia');
+        expect([sourceChain.wormholeChainId, targetChain.wormholeChainId]).to.deep.equal([SOURCE_CHAIN_ID, TARGET_CHAIN_ID]);
+
+        const pair = [
+            { chain: sourceChain, router: source.messageRouter },
+            { chain: targetChain, receiver: destination.settlementReceiver },
+        ] as const;
+        const first = await configureChainPair(...pair);
+        // The fixture already registered the source router as sender
+        expect(first.map(step => step.status)).to.deep.equal(['sent', 'unchanged']);
+        expect(first[0].args).to.deep.equal([10002, 300_000]);
+
+        const second = await configureChainPair(...pair);
+        expect(second.map(step => step.status)).to.deep.equal(['unchanged', 'unchanged']);
+        expect(await destination.settlementReceiver.registeredSenders(SOURCE_CHAIN_ID))
+            .to.equal(ethers.zeroPadValue(await source.messageRouter.getAddress(), 32).toLowerCase());
+
+        await expect(configureChainPair({ ...pair[0], chain: getChain('arbitrum') }, pair[1]))
+            .to.be.rejectedWith('Cannot pair arbitrum with sepolia');
+    });
+});
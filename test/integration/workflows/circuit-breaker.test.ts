@@ -0,0 +1,105 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'hardhat';
+import { createAddressBook, deployCrossChainFixture } from './fixtures';
+import { CircuitBreaker } from '../../../src/services/circuit-breaker';
+import { AddressBook, CircuitBreakerReport } from '../../../src/types';
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe('Circuit Breaker', () => {
+    let admin: SignerWithAddress;
+    let operator: SignerWithAddress;
+    let book: AddressBook;
+    let reportFile: string;
+
+    beforeEach(async () => {
+        const { source, destination } = await deployCrossChainFixture();
+        const governance = await ethers.deployContract('ProtocolGovernance');
+        [admin, operator] = await ethers.getSigners();
+        reportFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'circuit-')), 'report.json');
+
+        book = await createAddressBook({
+            ProtocolCoordinator: source.protocolCoordinator,
+            WormholeSettlementReceiver: destination.settlementReceiver,
+            MessageRouter: source.messageRouter,
+            MessageRegistry: source.messageRegistry,
+            MessageProtocol: source.messageProtocol,
+            TargetRegistry: source.targetRegistry,
+            MessageProcessor: source.messageProcessor,
+            SettlementController: destination.settlementController,
+            LiquidityPool: destination.liquidityPool,
+            ProtocolGovernance: governance,
+        });
+    });
+
+    it('should pause only the cross-chain contracts and write a verified report', async () => {
+        const breaker = new CircuitBreaker(admin, book);
+        const report = await breaker.pause({ scope: 'cross-chain', reportFile });
+
+        expect(report.preflight).to.be.empty;
+        expect(report.entries).to.deep.equal([
+            {
+                contract: 'WormholeSettlementReceiver',
+                address: book.contracts.WormholeSettlementReceiver.address,
+                pausedBefore: false,
+                pausedAfter: true,
+                outcome: 'paused',
+                transactionHash: report.entries[0].transactionHash,
+            },
+        ]);
+        const written: CircuitBreakerReport = JSON.parse(fs.readFileSync(reportFile, 'utf8'));
+        expect(written.entries[0].outcome).to.equal('paused');
+
+        const status = await breaker.status();
+        const paused = status.entries.filter(entry => entry.pausedAfter).map(entry => entry.contract);
+        expect(paused).to.deep.equal(['WormholeSettlementReceiver']);
+        expect(status.entries.find(entry => entry.contract === 'PACS008Handler')!.outcome).to.equal('missing');
+
+        const unpaused = await breaker.unpause({ scope: 'cross-chain' });
+        expect(unpaused.entries.map(entry => entry.outcome)).to.deep.equal(['unpaused']);
+    });
+
+    it('should pause everything in order and refuse an unpause that leaves downstream contracts paused', async () => {
+        const breaker = new CircuitBreaker(admin, book);
+        const paused = await breaker.pause({ reportFile });
+        expect(paused.entries.map(entry => entry.contract)).to.deep.equal([
+            'ProtocolCoordinator', 'WormholeSettlementReceiver', 'MessageRouter', 'MessageRegistry', 'MessageProtocol',
+            'TargetRegistry', 'MessageProcessor', 'PACS008Handler', 'SettlementController', 'LiquidityPool', 'ProtocolGovernance',
+        ]);
+        expect(paused.entries.filter(entry => entry.outcome !== 'paused').map(entry => entry.contract)).to.deep.equal(['PACS008Handler']);
+
+        await expect(breaker.unpause({ scope: 'ingress', reportFile }))
+            .to.be.rejectedWith('Unpause preflight failed: MessageRouter stays paused');
+        const refused: CircuitBreakerReport = JSON.parse(fs.readFileSync(reportFile, 'utf8'));
+        expect(refused.entries.every(entry => entry.outcome === 'skipped')).to.be.true;
+        expect(await (await ethers.getContractAt('ProtocolCoordinator', book.contracts.ProtocolCoordinator.address)).paused()).to.be.true;
+
+        await expect(new CircuitBreaker(operator, book).unpause())
+            .to.be.rejectedWith(`${operator.address} lacks ProtocolGovernance.EMERGENCY_ROLE`);
+
+        const resumed = await breaker.unpause();
+        expect(resumed.entries[0].contract).to.equal('ProtocolGovernance');
+        expect(resumed.entries.every(entry => ['unpaused', 'missing'].includes(entry.outcome))).to.be.true;
+        expect((await breaker.status()).entries.some(entry => entry.pausedAfter)).to.be.false;
+    });
+
+    it('should only require the downstream contracts of the receiver to unpause cross-chain traffic', async () => {
+        const breaker = new CircuitBreaker(admin, book);
+        await breaker.pause();
+
+        await expect(breaker.unpause({ scope: 'cross-chain' }))
+            .to.be.rejectedWith('Unpause preflight failed: SettlementController stays paused: settlement processing; LiquidityPool stays paused');
+
+        await breaker.unpause({ scope: 'settlement' });
+        const resumed = await breaker.unpause({ scope: 'cross-chain' });
+
+        expect(resumed.preflight).to.be.empty;
+        expect(resumed.entries.map(entry => [entry.contract, entry.outcome])).to.deep.equal([['WormholeSettlementReceiver', 'unpaused']]);
+        const paused = (await breaker.status()).entries.filter(entry => entry.pausedAfter).map(entry => entry.contract);
+        expect(paused).to.deep.equal([
+            'ProtocolCoordinator', 'MessageRouter', 'MessageRegistry', 'MessageProtocol', 'TargetRegistry', 'MessageProcessor', 'ProtocolGovernance',
+        ]);
+    });
+});
@@ -0,0 +1,166 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'hardhat';
+import type { TransactionRequest } from 'ethers';
+import { createAddressBook, deployCrossChainFixture, SOURCE_CHAIN_ID, TARGET_CHAIN_ID } from './fixtures';
+import { EventIndexer } from '../../../src/services/event-indexer';
+import { WormholeRelaySimulator } from '../../../src/services/wormhole-relay-simulator';
+import { encodeSettlementInstruction } from '../../../src/utils/cross-chain-envelope';
+import { generatePACS008Payload } from '../../../src/utils/payload-generator';
+import { AddressBook, MESSAGE_TYPE_PACS008, ProposalType } from '../../../src/types';
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe('Event Indexer', () => {
+    let fixture: Awaited<ReturnType<typeof deployCrossChainFixture>>;
+    let book: AddressBook;
+    let admin: SignerWithAddress;
+    let sender: SignerWithAddress;
+    let receiver: SignerWithAddress;
+    let token: string;
+
+    beforeEach(async () => {
+        fixture = await deployCrossChainFixture();
+        [admin, sender, receiver] = await ethers.getSigners();
+        token = await fixture.destination.erc20Token.getAddress();
+
+        book = await createAddressBook({
+            ProtocolCoordinator: fixture.source.protocolCoordinator,
+            MessageRegistry: fixture.source.messageRegistry,
+            MessageRouter: fixture.source.messageRouter,
+            SettlementController: fixture.destination.settlementController,
+            LiquidityPool: fixture.destination.liquidityPool,
+        });
+    });
+
+    function createIndexer(database = ':memory:') {
+        return new EventIndexer(ethers.provider, book, { database, confirmations: 0, fromBlock: 0 });
+    }
+
+    async function submitMessage(amount = ethers.parseEther('1')) {
+        const submission = {
+            messageType: MESSAGE_TYPE_PACS008,
+            target: await fixture.destination.settlementReceiver.getAddress(),
+            targetChain: TARGET_CHAIN_ID,
+            payload: generatePACS008Payload(sender.address, receiver.address, token, amount),
+        };
+        const [baseFee, deliveryFee] = await fixture.source.protocolCoordinator.quoteMessageFee(submission);
+        await fixture.source.protocolCoordinator.connect(sender).submitMessage(submission, { value: baseFee + deliveryFee });
+    }
+
+    async function settle(messageId: string, amount: bigint) {
+        const payload = encodeSettlementInstruction({ token, amount, recipient: receiver.address });
+        const fee = await fixture.source.messageRouter.quoteRoutingFee(TARGET_CHAIN_ID, ethers.dataLength(payload));
+        await fixture.source.messageRouter.routeMessage(
+            messageId, await fixture.destination.settlementReceiver.getAddress(), TARGET_CHAIN_ID, payload, { value: fee }
+        );
+        await new WormholeRelaySimulator([
+            { name: 'source', wormholeChainId: SOURCE_CHAIN_ID, relayer: fixture.source.relayer.target as string, signer: admin },
+            { name: 'destination', wormholeChainId: TARGET_CHAIN_ID, relayer: fixture.destination.relayer.target as string, signer: admin },
+        ]).flush();
+    }
+
+    it('should project messages, settlements, liquidity and pools', async () => {
+        await submitMessage(ethers.parseEther('2'));
+        const messageId = ethers.id('INDEXED_SETTLEMENT');
+        await settle(messageId, ethers.parseEther('3'));
+
+        const indexer = createIndexer();
+        const result = await indexer.sync();
+        expect(result.events).to.be.gt(0);
+
+        const [message] = indexer.store.queryMessages({ sender: sender.address, token });
+        expect(message).to.include({
+            messageType: MESSAGE_TYPE_PACS008,
+            status: 'PENDING',
+            targetChain: TARGET_CHAIN_ID,
+            amount: ethers.parseEther('2'),
+            recipient: receiver.address,
+        });
+        expect(indexer.store.queryMessages({ status: 'SETTLED' })).to.have.length(0);
+
+        const [settlement] = indexer.store.querySettlements({ messageId });
+        expect(settlement).to.include({ status: 'COMPLETED', token, amount: ethers.parseEther('3') });
+        expect(indexer.store.getSettlement(settlement.settlementId)).to.deep.equal(settlement);
+
+        const kinds = indexer.store.queryLiquidityMovements().map(movement => movement.kind);
+        expect(kinds).to.include.members(['added', 'locked', 'settled']);
+        expect(indexer.store.getPool(token)).to.not.equal(undefined);
+
+        await indexer.close();
+    });
+
+    it('should only read state at the pass head and rebuild vote tallies from events', async () => {
+        const governance = await ethers.deployContract('ProtocolGovernance');
+        await governance.updateVotingPower(sender.address, 40);
+        await governance.createProposal(ProposalType.ADD_TARGET, ethers.toUtf8Bytes('NEW_TARGET'));
+        await governance.vote(1, true);
+        await governance.connect(sender).vote(1, false);
+        // Later changes of voting power do not change cast votes
+        await governance.updateVotingPower(sender.address, 5);
+
+        await submitMessage(ethers.parseEther('2'));
+        const messageId = ethers.id('INDEXED_PRUNED');
+        await settle(messageId, ethers.parseEther('3'));
+        book.contracts.ProtocolGovernance = { address: await governance.getAddress(), abiHash: '' };
+
+        // A node without the state of past blocks, like a pruned RPC
+        const head = await ethers.provider.getBlockNumber();
+        const pruned = Object.create(ethers.provider, {
+            call: {
+                value: async (tx: TransactionRequest) => {
+                    if (typeof tx.blockTag === 'number' && tx.blockTag < head) {
+                        throw new Error(`missing trie node for block ${tx.blockTag}`);
+                    }
+                    return ethers.provider.call(tx);
+                },
+            },
+        });
+
+        const indexer = new EventIndexer(pruned, book, { database: ':memory:', confirmations: 0, fromBlock: 0 });
+        await indexer.sync();
+
+        expect(indexer.store.getProposal(1)).to.include({ votesFor: 100n, votesAgainst: 40n, voters: 2 });
+        expect(indexer.store.queryMessages({ token })[0]).to.include({ amount: ethers.parseEther('2') });
+        expect(indexer.store.querySettlements({ messageId })[0]).to.include({ status: 'COMPLETED', amount: ethers.parseEther('3') });
+        await indexer.close();
+    });
+
+    it('should resume from the last indexed block', async () => {
+        const database = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-')), 'index.sqlite');
+        await submitMessage();
+
+        const first = createIndexer(database);
+        await first.sync();
+        const lastBlock = first.store.lastBlock!;
+        await first.close();
+
+        await submitMessage();
+        const second = createIndexer(database);
+        const result = await second.sync();
+
+        expect(result.fromBlock).to.equal(lastBlock + 1);
+        expect(second.store.queryMessages()).to.have.length(2);
+        await second.close();
+    });
+
+    it('should roll back events of reorged blocks', async () => {
+        const indexer = createIndexer();
+        await indexer.sync();
+
+        const snapshot = await ethers.provider.send('evm_snapshot', []);
+        await submitMessage();
+        await indexer.sync();
+        expect(indexer.store.queryMessages()).to.have.length(1);
+
+        // Replace the indexed blocks with a longer fork
+        await ethers.provider.send('evm_revert', [snapshot]);
+        await ethers.provider.send('hardhat_mine', ['0x3']);
+
+        const result = await indexer.sync();
+        expect(result.reorgedTo).to.be.lt(result.fromBlock);
+        expect(indexer.store.queryMessages()).to.have.length(0);
+        await indexer.close();
+    });
+});
@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { deployCrossChainFixture, TARGET_CHAIN_ID } from './fixtures';
+import { FeeEstimator } from '../../../src/services/fee-estimator';
+import { LOCAL_CHAIN_ID } from '../../../src/constants';
+
+describe('Fee Estimator', () => {
+    let fixture: Awaited<ReturnType<typeof deployCrossChainFixture>>;
+    let warnings: string[];
+
+    beforeEach(async () => {
+        fixture = await deployCrossChainFixture();
+        warnings = [];
+    });
+
+    function createEstimator() {
+        return new FeeEstimator(ethers.provider, fixture.source.protocolCoordinator.target as string, {
+            onWarning: warning => warnings.push(warning),
+        });
+    }
+
+    it('should itemize local and cross-chain fees matching quoteMessageFee', async () => {
+        await fixture.source.messageRouter.setCrossChainFeeParameters(ethers.parseEther('0.003'), 300);
+        await fixture.source.messageRouter.setChainGasLimit(TARGET_CHAIN_ID, 400_000);
+
+        const { quotes, totalFee } = await createEstimator().estimateBatch([
+            { targetChain: LOCAL_CHAIN_ID, payloadSize: 100 },
+            { targetChain: TARGET_CHAIN_ID, payload: ethers.randomBytes(96) },
+            { targetChain: TARGET_CHAIN_ID, payloadSize: 96 },
+        ]);
+
+        const [local, crossChain] = quotes;
+        expect(local).to.include({ local: true, routingBaseFee: ethers.parseEther('0.001'), payloadFee: 10_000n, divergence: 0n });
+        expect(crossChain).to.include({
+            local: false,
+            routingBaseFee: ethers.parseEther('0.003'),
+            payloadFee: 96n * 300n,
+            gasLimit: 400_000n,
+            gasLimitConfigured: true,
+            divergence: 0n,
+        });
+        expect(crossChain.wormholeDeliveryCost).to.be.gt(0n);
+        expect(totalFee).to.equal(quotes.reduce((sum, quote) => sum + quote.onChain!.totalFee, 0n));
+        expect(warnings).to.have.length(0);
+    });
+
+    it('should warn when the estimate diverges from the on-chain quote', async () => {
+        const estimator = createEstimator();
+        await estimator.getParameters();
+
+        // The cached parameters miss this update until refresh
+        await fixture.source.messageRouter.setCrossChainFeeParameters(ethers.parseEther('0.005'), 200);
+
+        const stale = await estimator.estimate({ targetChain: TARGET_CHAIN_ID, payloadSize: 64 });
+        expect(stale.divergence).to.equal(-ethers.parseEther('0.003'));
+        expect(warnings).to.have.length(1);
+
+        await estimator.refresh();
+        const fresh = await estimator.estimate({ targetChain: TARGET_CHAIN_ID, payloadSize: 64 });
+        expect(fresh.divergence).to.equal(0n);
+        expect(warnings).to.have.length(1);
+    });
+});
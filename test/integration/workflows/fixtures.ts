@@ -1,10 +1,68 @@
 import { ethers, deployments } from "hardhat";
+import { BaseContract, Contract } from "ethers";
 import { 
     ProtocolCoordinator, MessageRegistry, MessageProtocol, 
     MessageRouter, MessageProcessor, PACS008Handler, SettlementController,
     ERC20Token,
     LiquidityPool
 } from "../../../typechain";
+import {
+    ADDRESS_BOOK_SCHEMA_VERSION, AddressBook, PACS008_SCHEMA, ProcessingAction,
+} from "../../../src/types";
+import { LOCAL_CHAIN_ID } from "../../../src/constants";
+import { createMessageCodec } from "../../../src/utils/message-schema";
+import { ACCESS_CONTROL_ABI } from "../../../src/utils/role-audit";
+import { resolveRoleManifestFrom } from "../../../src/utils/role-manifest";
+
+/** Wormhole chain IDs of the two simulated chains */
+export const SOURCE_CHAIN_ID = 10003;
+export const TARGET_CHAIN_ID = 10002;
+
+/**
+ * Builds an in-memory address book of fixture contracts, as the deploy pipeline
+ * would write it for the given network (deployed by the first signer)
+ */
+export async function createAddressBook(
+    contracts: Record<string, { getAddress(): Promise<string> }>,
+    network: string = "hardhat"
+): Promise<AddressBook> {
+    const [deployer] = await ethers.getSigners();
+    return {
+        schemaVersion: ADDRESS_BOOK_SCHEMA_VERSION,
+        version: 1,
+        network,
+        chainId: 31337,
+        deployer: deployer.address,
+        updatedAt: new Date().toISOString(),
+        contracts: Object.fromEntries(
+            await Promise.all(
+                Object.entries(contracts).map(async ([name, contract]) => [name, { address: await contract.getAddress(), abiHash: "" }])
+            )
+        ),
+    };
+}
+
+/**
+ * Grants the ROLE_MANIFEST entries between the given contracts of one chain,
+ * as deploy/03_after/01_permissions.ts does after the deploy scripts
+ * The first signer deployed them and stands for the named accounts.
+ *
+ * @param contracts Fixture contracts by deployment name
+ */
+async function grantManifestRoles(contracts: Record<string, BaseContract>) {
+    const [admin] = await ethers.getSigners();
+    const addresses = Object.fromEntries(
+        await Promise.all(Object.entries(contracts).map(async ([name, contract]) => [name, await contract.getAddress()]))
+    );
+    const { resolved } = resolveRoleManifestFrom(addresses, { admin: admin.address, deployer: admin.address });
+
+    for (const grant of resolved) {
+        const contract = new Contract(grant.contractAddress, ACCESS_CONTROL_ABI, admin);
+        if (!(await contract.hasRole(grant.roleId, grant.granteeAddress))) {
+            await contract.grantRole(grant.roleId, grant.granteeAddress);
+        }
+    }
+}
 
 export async function deployContractsFixture() {
     const deployResult = await deployments.fixture([
@@ -35,4 +93,157 @@ export async function deployContractsFixture() {
         erc20Token,
         liquidityPool
     };
-}
\ No newline at end of file
+}
+
+/**
+ * Deploys two protocol stacks on the hardhat network, each standing for a chain
+ * with its own MockWormholeRelayer, for use with WormholeRelaySimulator.
+ *
+ * - source (SOURCE_CHAIN_ID): coordinator, router and registries, with the
+ *   destination receiver registered as a TARGET_CHAIN_ID target
+ * - destination (TARGET_CHAIN_ID): WormholeSettlementReceiver, settlement
+ *   controller and a funded liquidity pool, trusting the source router
+ */
+export const deployCrossChainFixture = deployments.createFixture(async () => {
+    const [admin] = await ethers.getSigners();
+
+    // Source chain
+    const sourceRelayer = await ethers.deployContract("MockWormholeRelayer");
+    const wormhole = await ethers.deployContract("MockWormhole");
+    const targetRegistry = await ethers.deployContract("TargetRegistry");
+    const messageProcessor = await ethers.deployContract("MessageProcessor");
+    const messageRegistry = await ethers.deployContract("MessageRegistry");
+    const messageProtocol = await ethers.deployContract("MessageProtocol");
+    const messageRouter = await ethers.deployContract("MessageRouter", [
+        sourceRelayer.target, wormhole.target, targetRegistry.target, messageProcessor.target
+    ]);
+    const protocolCoordinator = await ethers.deployContract("ProtocolCoordinator", [
+        messageRegistry.target, messageProtocol.target, messageRouter.target, messageProcessor.target
+    ]);
+
+    await grantManifestRoles({
+        TargetRegistry: targetRegistry,
+        MessageProcessor: messageProcessor,
+        MessageRegistry: messageRegistry,
+        MessageProtocol: messageProtocol,
+        MessageRouter: messageRouter,
+        ProtocolCoordinator: protocolCoordinator,
+    });
+
+    const pacs008Codec = createMessageCodec(PACS008_SCHEMA);
+    await messageProtocol.registerMessageFormat(
+        pacs008Codec.messageType, pacs008Codec.requiredFields, pacs008Codec.schemaBytes
+    );
+
+    // Destination chain
+    const targetRelayer = await ethers.deployContract("MockWormholeRelayer");
+    const erc20Token = await ethers.deployContract("MockERC20Token", ["Mock Token", "MOCK"]);
+    const liquidityPool = await ethers.deployContract("LiquidityPool");
+    const settlementController = await ethers.deployContract("SettlementController", [liquidityPool.target]);
+    const settlementReceiver = await ethers.deployContract("WormholeSettlementReceiver", [
+        targetRelayer.target, settlementController.target
+    ]);
+
+    await grantManifestRoles({
+        LiquidityPool: liquidityPool,
+        SettlementController: settlementController,
+        WormholeSettlementReceiver: settlementReceiver,
+    });
+    await settlementReceiver.setRegisteredSender(SOURCE_CHAIN_ID, ethers.zeroPadValue(await messageRouter.getAddress(), 32));
+
+    const liquidity = ethers.parseEther("1000");
+    await liquidityPool.createPool(erc20Token.target, 0, ethers.parseEther("1000000"));
+    await erc20Token.mint(admin.address, liquidity);
+    await erc20Token.approve(liquidityPool.target, liquidity);
+    await liquidityPool.addLiquidity(erc20Token.target, liquidity);
+
+    // The receiver is the cross-chain target of the source router
+    await targetRegistry.registerTarget(
+        settlementReceiver.target, TARGET_CHAIN_ID, 0, ethers.toUtf8Bytes("SETTLEMENT_RECEIVER")
+    );
+
+    return {
+        source: {
+            relayer: sourceRelayer,
+            wormhole,
+            targetRegistry,
+            messageProcessor,
+            messageRegistry,
+            messageProtocol,
+            messageRouter,
+            protocolCoordinator,
+        },
+        destination: {
+            relayer: targetRelayer,
+            erc20Token,
+            liquidityPool,
+            settlementController,
+            settlementReceiver,
+        },
+    };
+});
+
+/**
+ * Deploys a single protocol stack routing PACS.008 messages locally, from the
+ * coordinator through the PACS008Handler to a funded liquidity pool.
+ * Unlike deployContractsFixture it does not depend on the deploy scripts,
+ * only on the role manifest.
+ */
+export const deployLocalFixture = deployments.createFixture(async () => {
+    const [admin] = await ethers.getSigners();
+
+    const relayer = await ethers.deployContract("MockWormholeRelayer");
+    const wormhole = await ethers.deployContract("MockWormhole");
+    const targetRegistry = await ethers.deployContract("TargetRegistry");
+    const messageProcessor = await ethers.deployContract("MessageProcessor");
+    const messageRegistry = await ethers.deployContract("MessageRegistry");
+    const messageProtocol = await ethers.deployContract("MessageProtocol");
+    const messageRouter = await ethers.deployContract("MessageRouter", [
+        relayer.target, wormhole.target, targetRegistry.target, messageProcessor.target
+    ]);
+    const protocolCoordinator = await ethers.deployContract("ProtocolCoordinator", [
+        messageRegistry.target, messageProtocol.target, messageRouter.target, messageProcessor.target
+    ]);
+    const erc20Token = await ethers.deployContract("MockERC20Token", ["Mock Token", "MOCK"]);
+    const liquidityPool = await ethers.deployContract("LiquidityPool");
+    const settlementController = await ethers.deployContract("SettlementController", [liquidityPool.target]);
+    const messageHandler = await ethers.deployContract("PACS008Handler", [settlementController.target]);
+
+    await grantManifestRoles({
+        TargetRegistry: targetRegistry,
+        MessageProcessor: messageProcessor,
+        MessageRegistry: messageRegistry,
+        MessageProtocol: messageProtocol,
+        MessageRouter: messageRouter,
+        ProtocolCoordinator: protocolCoordinator,
+        LiquidityPool: liquidityPool,
+        SettlementController: settlementController,
+        PACS008Handler: messageHandler,
+    });
+
+    const pacs008Codec = createMessageCodec(PACS008_SCHEMA);
+    await messageProtocol.registerMessageFormat(
+        pacs008Codec.messageType, pacs008Codec.requiredFields, pacs008Codec.schemaBytes
+    );
+    await messageProcessor.registerMessageHandler(pacs008Codec.messageType, messageHandler.target);
+    await messageProcessor.setRequiredAction(pacs008Codec.messageType, ProcessingAction.SETTLEMENT_REQUIRED);
+    await targetRegistry.registerTarget(messageHandler.target, LOCAL_CHAIN_ID, 0, ethers.toUtf8Bytes("PACS008_HANDLER"));
+
+    const liquidity = ethers.parseEther("1000");
+    await liquidityPool.createPool(erc20Token.target, 0, ethers.parseEther("1000000"));
+    await erc20Token.mint(admin.address, liquidity);
+    await erc20Token.approve(liquidityPool.target, liquidity);
+    await liquidityPool.addLiquidity(erc20Token.target, liquidity);
+
+    return {
+        protocolCoordinator,
+        messageRegistry,
+        messageProtocol,
+        messageRouter,
+        messageProcessor,
+        messageHandler,
+        settlementController,
+        erc20Token,
+        liquidityPool,
+    };
+});
@@ -0,0 +1,120 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { createAddressBook, deployCrossChainFixture, deployLocalFixture, TARGET_CHAIN_ID } from './fixtures';
+import { GFSClient } from '../../../src/services/gfs-client';
+import { toGFSAddressBook } from '../../../src/utils/address-book';
+import { PACS008Message, TransactionStatus } from '../../../src/types';
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe('GFS Client', () => {
+    let admin: SignerWithAddress;
+    let sender: SignerWithAddress;
+    let receiver: SignerWithAddress;
+
+    beforeEach(async () => {
+        [admin, sender, receiver] = await ethers.getSigners();
+    });
+
+    function createMessage(tokenAddr: string, handlerAddr: string): PACS008Message {
+        return {
+            debtorAddr: sender.address,
+            creditorAddr: receiver.address,
+            tokenAddr,
+            amount: ethers.parseEther('1'),
+            handlerAddr,
+            instructionId: 'INSTR-0001',
+        };
+    }
+
+    it('should submit, track and read the settlement of a local message', async () => {
+        const fixture = await deployLocalFixture();
+        const book = toGFSAddressBook(await createAddressBook({
+            ProtocolCoordinator: fixture.protocolCoordinator,
+            MessageRegistry: fixture.messageRegistry,
+            SettlementController: fixture.settlementController,
+        }));
+        const message = createMessage(await fixture.erc20Token.getAddress(), await fixture.messageHandler.getAddress());
+        const client = new GFSClient(sender, book);
+        const request = GFSClient.pacs008Request(message);
+
+        const fees = await client.quote(request);
+        const submitted = await client.submit(request, { confirmations: 1, timeout: 10000, decodeEvents: true });
+        expect(submitted).to.include({ status: TransactionStatus.CONFIRMED });
+        expect(submitted.fees).to.deep.equal(fees);
+        expect(submitted.transaction.value).to.equal(fees.totalFee);
+        expect(submitted.events.map(({ name }) => name)).to.include('MessageSubmissionInitiated');
+
+        // Read-only clients track through a provider
+        const state = await new GFSClient(ethers.provider, book).track(submitted.messageId!);
+        expect(state).to.include({
+            messageId: submitted.messageId,
+            sender: await fixture.protocolCoordinator.getAddress(),
+            target: message.handlerAddr,
+            payload: request.payload,
+        });
+        expect(state.result.success).to.be.true;
+        expect(state.settlements).to.have.length(1);
+        expect(state.result.settlementId).to.equal(state.settlements[0].settlementId);
+        expect(state.settlements[0]).to.include({
+            messageId: submitted.messageId,
+            token: message.tokenAddr,
+            amount: message.amount,
+            recipient: receiver.address,
+        });
+        expect(await client.getSettlement(ethers.ZeroHash)).to.be.undefined;
+
+        await expect(client.track(ethers.id('MISSING'))).to.be.rejectedWith('GFSClient: Message');
+    });
+
+    it('should retry a pending cross-chain message and send cancellations to the coordinator', async () => {
+        const { source, destination } = await deployCrossChainFixture();
+        const book = toGFSAddressBook(await createAddressBook({ ProtocolCoordinator: source.protocolCoordinator }));
+        const message = createMessage(
+            await destination.erc20Token.getAddress(),
+            await destination.settlementReceiver.getAddress()
+        );
+        const client = new GFSClient(sender, book);
+        const options = { confirmations: 1, timeout: 10000 };
+
+        const { messageId } = await client.submit(GFSClient.pacs008Request(message, TARGET_CHAIN_ID), options);
+        const state = await client.track(messageId!);
+        expect(state).to.include({ status: 'PENDING', targetChain: TARGET_CHAIN_ID });
+        // No SettlementController in the book
+        expect(state.settlements).to.be.empty;
+
+        const retried = await client.retry(messageId!, options);
+        const [, deliveryFee] = await source.protocolCoordinator.quoteMessageFee({
+            messageType: state.messageType, target: state.target, targetChain: state.targetChain, payload: state.payload,
+        });
+        expect(retried.status).to.equal(TransactionStatus.CONFIRMED);
+        expect(retried.deliveryFee).to.equal(deliveryFee);
+        expect(retried.transaction.value).to.equal(deliveryFee);
+
+        // The registry does not allow cancelling a message, the checks before it tell both paths apart
+        const other = new GFSClient(receiver, book);
+        await expect(other.cancel(messageId!, options)).to.be.rejectedWith('Not message sender');
+        await expect(other.cancel(messageId!, { ...options, emergency: true })).to.be.rejectedWith('Caller not emergency admin');
+        await expect(client.cancel(messageId!, options)).to.be.rejectedWith('Invalid status transition');
+        await expect(new GFSClient(admin, book).cancel(messageId!, { ...options, emergency: true }))
+            .to.be.rejectedWith('Invalid status transition');
+        expect((await client.track(messageId!)).status).to.equal('PENDING');
+    });
+
+    it('should require a signer for transactions', async () => {
+        const fixture = await deployLocalFixture();
+        const book = toGFSAddressBook(await createAddressBook({ ProtocolCoordinator: fixture.protocolCoordinator }));
+        const request = GFSClient.pacs008Request(
+            createMessage(await fixture.erc20Token.getAddress(), await fixture.messageHandler.getAddress())
+        );
+        const messageId = ethers.id('MESSAGE');
+
+        const reader = new GFSClient(ethers.provider, book);
+        expect((await reader.quote(request)).totalFee).to.be.greaterThan(0n);
+        await expect(reader.submit(request)).to.be.rejectedWith('A Signer is required to submit');
+        await expect(reader.retry(messageId)).to.be.rejectedWith('A Signer is required to retry');
+        await expect(reader.cancel(messageId)).to.be.rejectedWith('A Signer is required to cancel');
+        await expect(reader.getSettlement(ethers.ZeroHash)).to.be.rejectedWith('no SettlementController');
+        expect(() => new GFSClient(ethers.provider, { ProtocolCoordinator: 'invalid' }))
+            .to.throw('no valid ProtocolCoordinator address');
+    });
+});
@@ -0,0 +1,97 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { GovernanceClient } from '../../../src/services/governance-client';
+import { decodeProposalData, encodeProposal } from '../../../src/utils/governance-proposals';
+import { PACS009_SCHEMA, ProposalDraft, ProposalType } from '../../../src/types';
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ProtocolGovernance } from "../../../typechain";
+
+describe('Governance Proposals', () => {
+    let governance: ProtocolGovernance;
+    let admin: SignerWithAddress;
+    let voter: SignerWithAddress;
+
+    const target = '0x000000000000000000000000000000000000dEaD';
+    const addTarget: ProposalDraft = {
+        proposalType: 'ADD_TARGET',
+        params: {
+            target,
+            chainId: 10002,
+            targetType: 'CONTRACT',
+            metadata: 'SETTLEMENT_RECEIVER',
+        },
+    };
+
+    beforeEach(async () => {
+        [admin, voter] = await ethers.getSigners();
+        governance = await ethers.deployContract('ProtocolGovernance');
+        await governance.updateVotingPower(voter.address, 100);
+    });
+
+    it('should round-trip the data of every proposal type', () => {
+        const drafts: ProposalDraft[] = [
+            { proposalType: 'UPDATE_PROTOCOL', params: { major: 1, minor: 2, patch: 0, description: 'PACS.009 support' } },
+            { proposalType: 'ADD_MESSAGE_TYPE', params: { schema: PACS009_SCHEMA } },
+            { proposalType: 'UPDATE_MESSAGE_TYPE', params: { schema: PACS009_SCHEMA } },
+            addTarget,
+            { proposalType: 'REMOVE_TARGET', params: { target, chainId: 10002 } },
+            { proposalType: 'EMERGENCY_ACTION', params: { action: 'PAUSE', target, reason: 'Incident' } },
+        ];
+
+        for (const draft of drafts) {
+            const { proposalType, data } = encodeProposal(draft);
+            expect(proposalType).to.equal(ProposalType[draft.proposalType]);
+            const params = decodeProposalData(draft.proposalType, data);
+            expect(encodeProposal({ proposalType: draft.proposalType, params } as ProposalDraft).data).to.equal(data);
+        }
+        expect(() => encodeProposal({ ...addTarget, params: { ...addTarget.params, chainId: 70000 } }))
+            .to.throw('Invalid ADD_TARGET parameters');
+    });
+
+    it('should explain why a proposal cannot execute until voting, quorum and delay allow it', async () => {
+        const client = new GovernanceClient(governance, admin);
+        const { proposalId } = await client.propose(addTarget);
+
+        const pending = await client.getStatus(proposalId!);
+        expect(pending.params).to.deep.equal(addTarget.params);
+        expect(pending.canExecute).to.be.false;
+        expect(pending.reasons).to.have.length(3);
+        expect(pending.reasons[1]).to.equal('Quorum not reached: 0% of the voting power voted, 51% needed');
+        await expect(client.execute(proposalId!)).to.be.rejectedWith('cannot execute: Voting is open until');
+
+        await new GovernanceClient(governance, voter).vote(proposalId!, true);
+        await expect(new GovernanceClient(governance, voter).vote(proposalId!, true)).to.be.rejectedWith('already voted');
+        expect((await client.getStatus(proposalId!)).turnout).to.equal(50);
+
+        await client.vote(proposalId!, false);
+        await network.provider.send('evm_increaseTime', [9 * 24 * 3600]);
+        await network.provider.send('evm_mine');
+
+        const ready = await client.getStatus(proposalId!);
+        expect(ready).to.include({ canExecute: true, votingEnded: true, quorumReached: true, executionDelayPassed: true });
+        await client.execute(proposalId!);
+        expect((await governance.getProposal(proposalId!)).executed).to.be.true;
+
+        // The same data again is rejected by executeProposal as a duplicate
+        const { proposalId: duplicateId } = await client.propose(addTarget);
+        await client.vote(duplicateId!, true);
+        await new GovernanceClient(governance, voter).vote(duplicateId!, true);
+        await network.provider.send('evm_increaseTime', [9 * 24 * 3600]);
+        await network.provider.send('evm_mine');
+        const duplicate = await client.getStatus(duplicateId!);
+        expect(duplicate.duplicateOf).to.equal(proposalId);
+        expect(duplicate.reasons).to.deep.equal([`Proposal ${proposalId} with the same data was already executed`]);
+    });
+
+    it('should report missing voting power instead of calling hasReachedQuorum', async () => {
+        const client = new GovernanceClient(governance, admin);
+        const { proposalId } = await client.propose(addTarget);
+        await governance.updateVotingPower(admin.address, 0);
+        await governance.updateVotingPower(voter.address, 0);
+        await expect(governance.hasReachedQuorum(proposalId!)).to.be.reverted;
+
+        const status = await client.getStatus(proposalId!);
+        expect(status).to.include({ totalVotingPower: 0n, quorumReached: false, canExecute: false });
+        expect(status.reasons).to.include('No voting power assigned');
+    });
+});
@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { deployLocalFixture } from './fixtures';
+import { LiquidityPoolManager } from '../../../src/services/liquidity-manager';
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe('Liquidity Pool Manager', () => {
+    let fixture: Awaited<ReturnType<typeof deployLocalFixture>>;
+    let admin: SignerWithAddress;
+    let provider: SignerWithAddress;
+    let token: string;
+
+    beforeEach(async () => {
+        fixture = await deployLocalFixture();
+        [admin, provider] = await ethers.getSigners();
+        token = await fixture.erc20Token.getAddress();
+        await fixture.erc20Token.mint(provider.address, ethers.parseEther('100'));
+    });
+
+    it('should check permissions and limits before approving and depositing', async () => {
+        const manager = new LiquidityPoolManager(fixture.liquidityPool, provider);
+        const amount = await manager.parseAmount(token, '25.5');
+
+        await expect(manager.addLiquidity(token, amount)).to.be.rejectedWith('needs LIQUIDITY_PROVIDER_ROLE');
+
+        await fixture.liquidityPool.setPermissionlessLiquidity(true);
+        await new LiquidityPoolManager(fixture.liquidityPool, admin).updatePool(token, 0n, ethers.parseEther('1010'));
+        await expect(manager.addLiquidity(token, amount)).to.be.rejectedWith('only 10.0 MOCK can be added');
+
+        await fixture.liquidityPool.updatePool(token, 0n, ethers.parseEther('1000000'));
+        const { approvalHash } = await manager.addLiquidity(token, amount);
+        expect(approvalHash).to.match(/^0x/);
+        expect((await manager.getPool(token)).totalLiquidity).to.equal(ethers.parseEther('1025.5'));
+
+        await fixture.liquidityPool.setProviderBlacklist(provider.address, true);
+        await expect(manager.addLiquidity(token, amount)).to.be.rejectedWith('is blacklisted');
+    });
+
+    it('should enforce the withdrawal cooldown and the emergency withdrawal prerequisites', async () => {
+        const manager = new LiquidityPoolManager(fixture.liquidityPool, admin);
+
+        const { amount } = await manager.removeLiquidity(token, ethers.parseEther('10'));
+        expect(amount).to.equal(ethers.parseEther('10'));
+        expect((await manager.getProviderStatus(token)).nextWithdrawalAt).to.be.a('number');
+        await expect(manager.removeLiquidity(token, ethers.parseEther('10'))).to.be.rejectedWith('Withdrawal cooldown active');
+
+        await network.provider.send('evm_increaseTime', [3600]);
+        await network.provider.send('evm_mine');
+        await expect(manager.removeLiquidity(token, ethers.parseEther('5000')))
+            .to.be.rejectedWith('the provider does not hold that many shares');
+
+        await expect(manager.emergencyWithdraw(token)).to.be.rejectedWith('must be paused');
+        await fixture.liquidityPool.pause();
+        const withdrawal = await manager.emergencyWithdraw(token);
+        expect(withdrawal.amount).to.equal(ethers.parseEther('990'));
+    });
+});
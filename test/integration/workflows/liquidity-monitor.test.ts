@@ -0,0 +1,156 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { ethers } from 'hardhat';
+import { createAddressBook, deployCrossChainFixture, SOURCE_CHAIN_ID, TARGET_CHAIN_ID } from './fixtures';
+import { LiquidityMonitor } from '../../../src/services/liquidity-monitor';
+import { WormholeRelaySimulator } from '../../../src/services/wormhole-relay-simulator';
+import { toCrossChainSettlementPayload } from '../../../src/utils/cross-chain-envelope';
+import { generatePACS008Payload } from '../../../src/utils/payload-generator';
+import { AddressBook, LiquidityAlert, MESSAGE_TYPE_PACS008 } from '../../../src/types';
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe('Liquidity Monitor', () => {
+    let fixture: Awaited<ReturnType<typeof deployCrossChainFixture>>;
+    let admin: SignerWithAddress;
+    let sender: SignerWithAddress;
+    let token: string;
+    // One book per chain, as the deploy pipeline writes them
+    let book: AddressBook;
+    let peerBook: AddressBook;
+    let sink: http.Server;
+    let received: LiquidityAlert[];
+
+    beforeEach(async () => {
+        fixture = await deployCrossChainFixture();
+        [admin, sender] = await ethers.getSigners();
+        token = await fixture.destination.erc20Token.getAddress();
+        book = await createAddressBook({
+            LiquidityPool: fixture.destination.liquidityPool,
+            SettlementController: fixture.destination.settlementController,
+        }, 'sepolia');
+        peerBook = await createAddressBook({
+            ProtocolCoordinator: fixture.source.protocolCoordinator,
+            MessageRegistry: fixture.source.messageRegistry,
+        }, 'arbitrum-sepolia');
+
+        received = [];
+        sink = http.createServer((request, response) => {
+            let body = '';
+            request.on('data', chunk => (body += chunk));
+            request.on('end', () => {
+                received.push(JSON.parse(body));
+                response.end();
+            });
+        });
+        await new Promise<void>(resolve => sink.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => sink.close(resolve));
+    });
+
+    function createMonitor(options = {}) {
+        return new LiquidityMonitor(ethers.provider, book, {
+            peers: [{ provider: ethers.provider, book: peerBook }],
+            wormholeChainId: TARGET_CHAIN_ID,
+            fromBlock: 0,
+            ...options,
+        });
+    }
+
+    async function submit(amount: string, targetChain = TARGET_CHAIN_ID, target?: string) {
+        const submission = {
+            messageType: MESSAGE_TYPE_PACS008,
+            target: target ?? await fixture.destination.settlementReceiver.getAddress(),
+            targetChain,
+            payload: toCrossChainSettlementPayload(
+                generatePACS008Payload(sender.address, admin.address, token, ethers.parseEther(amount))
+            ),
+        };
+        const [baseFee, deliveryFee] = await fixture.source.protocolCoordinator.quoteMessageFee(submission);
+        await fixture.source.protocolCoordinator.connect(sender).submitMessage(submission, { value: baseFee + deliveryFee });
+    }
+
+    it('should project the pending demand and alert every sink once per condition', async () => {
+        const alertFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'liquidity-')), 'alerts.jsonl');
+        const monitor = createMonitor({
+            defaultThreshold: '500',
+            sinks: [
+                { type: 'file', path: alertFile },
+                { type: 'webhook', url: `http://127.0.0.1:${(sink.address() as AddressInfo).port}/alerts` },
+            ],
+        });
+
+        await fixture.destination.liquidityPool.lockLiquidity(token, ethers.parseEther('100'), ethers.id('LOCKED'));
+        await submit('300');
+        const first = await monitor.check();
+
+        expect(first.alerts).to.be.empty;
+        expect(first.pools).to.have.length(1);
+        expect(first.pools[0]).to.include({
+            token,
+            symbol: 'MOCK',
+            availableLiquidity: ethers.parseEther('900'),
+            lockedTotal: ethers.parseEther('100'),
+            pendingMessages: 1,
+            projectedAvailable: ethers.parseEther('600'),
+        });
+
+        await submit('200');
+        const [belowThreshold] = (await monitor.check()).alerts;
+        expect(belowThreshold).to.include({ kind: 'BELOW_THRESHOLD', token, projectedAvailable: ethers.parseEther('400').toString() });
+        expect((await monitor.check()).alerts).to.be.empty;
+
+        await submit('500');
+        const [insufficient] = (await monitor.check()).alerts;
+        expect(insufficient.kind).to.equal('INSUFFICIENT_LIQUIDITY');
+        expect(insufficient.message).to.equal('3 pending messages need 1000.0 MOCK but only 900.0 MOCK is available');
+
+        const logged = fs.readFileSync(alertFile, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+        expect(logged.map(alert => alert.kind)).to.deep.equal(['BELOW_THRESHOLD', 'INSUFFICIENT_LIQUIDITY']);
+        expect(received).to.deep.equal(logged);
+    });
+
+    it('should only count the messages of the peers targeting this chain until they settle', async () => {
+        const relay = new WormholeRelaySimulator([
+            { name: 'source', wormholeChainId: SOURCE_CHAIN_ID, relayer: fixture.source.relayer.target as string, signer: admin },
+            { name: 'destination', wormholeChainId: TARGET_CHAIN_ID, relayer: fixture.destination.relayer.target as string, signer: admin },
+        ]);
+        // Another destination of the source chain, its messages settle elsewhere
+        const OTHER_CHAIN_ID = 10004;
+        const otherReceiver = ethers.Wallet.createRandom().address;
+        await fixture.source.targetRegistry.registerTarget(otherReceiver, OTHER_CHAIN_ID, 0, ethers.toUtf8Bytes('OTHER_RECEIVER'));
+        const monitor = createMonitor({ sinks: [] });
+
+        await submit('300');
+        await submit('400', OTHER_CHAIN_ID, otherReceiver);
+        const [pending] = (await monitor.check()).pools;
+        expect(pending).to.include({ pendingMessages: 1, pendingDemand: ethers.parseEther('300') });
+
+        // The pool's own chain registers nothing: the demand is on the peer only
+        const [withoutPeers] = (await createMonitor({ peers: [] }).check()).pools;
+        expect(withoutPeers.pendingMessages).to.equal(0);
+
+        const deliveries = await relay.flush();
+        expect(deliveries.map(delivery => delivery.status)).to.include('delivered');
+        const [settled] = (await monitor.check()).pools;
+        expect(settled).to.include({
+            pendingMessages: 0,
+            pendingDemand: 0n,
+            availableLiquidity: ethers.parseEther('700'),
+        });
+    });
+
+    it('should require the Wormhole chain ID of chains missing from the chain registry', async () => {
+        const unknown = { ...book, chainId: 999 };
+
+        expect(() => new LiquidityMonitor(ethers.provider, unknown, { peers: [{ provider: ethers.provider, book: peerBook }] }))
+            .to.throw('LiquidityMonitor: Chain 999 is not in CHAIN_REGISTRY, set wormholeChainId');
+        // Without peers there is no demand to match
+        expect(new LiquidityMonitor(ethers.provider, unknown)).to.be.instanceOf(LiquidityMonitor);
+    });
+});
@@ -0,0 +1,96 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers, network } from 'hardhat';
+import { deployCrossChainFixture, TARGET_CHAIN_ID } from './fixtures';
+import { MessageRecoveryOrchestrator, readRecoveryJournal } from '../../../src/services/message-recovery';
+import { generatePACS008Payload } from '../../../src/utils/payload-generator';
+import { MESSAGE_TYPE_PACS008, MessageRecoveryOptions } from '../../../src/types';
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ProtocolCoordinator } from "../../../typechain";
+
+describe('Message Recovery', () => {
+    let protocolCoordinator: ProtocolCoordinator;
+    let admin: SignerWithAddress;
+    let sender: SignerWithAddress;
+    let messageId: string;
+    let journalFile: string;
+
+    beforeEach(async () => {
+        const { source, destination } = await deployCrossChainFixture();
+        protocolCoordinator = source.protocolCoordinator;
+        [admin, sender] = await ethers.getSigners();
+        journalFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'recovery-')), 'journal.jsonl');
+
+        // Cross-chain messages stay PENDING on the source chain until delivery is confirmed
+        const submission = {
+            messageType: MESSAGE_TYPE_PACS008,
+            target: await destination.settlementReceiver.getAddress(),
+            targetChain: TARGET_CHAIN_ID,
+            payload: generatePACS008Payload(
+                sender.address, admin.address, await destination.erc20Token.getAddress(), ethers.parseEther('1')
+            ),
+        };
+        const [baseFee, deliveryFee] = await protocolCoordinator.quoteMessageFee(submission);
+        await protocolCoordinator.connect(sender).submitMessage(submission, { value: baseFee + deliveryFee });
+        [{ args: { messageId } }] = await protocolCoordinator.queryFilter(protocolCoordinator.filters.MessageSubmissionInitiated());
+    });
+
+    async function elapse(seconds: number) {
+        await network.provider.send('evm_increaseTime', [seconds]);
+        await network.provider.send('evm_mine');
+    }
+
+    function createOrchestrator(options: Partial<MessageRecoveryOptions> = {}) {
+        return new MessageRecoveryOrchestrator(protocolCoordinator, sender, {
+            policy: { minAge: 3600, maxRetries: 1, allowEmergencyCancel: true },
+            journalFile,
+            emergencySigner: admin,
+            confirmations: 1,
+            timeout: 10000,
+            ...options,
+        });
+    }
+
+    it('should only handle messages older than the policy age', async () => {
+        expect(await createOrchestrator().scan()).to.be.empty;
+
+        await elapse(3600);
+        const [stuck] = await createOrchestrator().scan();
+
+        expect(stuck).to.include({ messageId, status: 'PENDING', sender: sender.address, targetChain: TARGET_CHAIN_ID, retries: 0 });
+        expect(stuck.age).to.be.at.least(3600);
+    });
+
+    it('should retry with a re-quoted fee, then escalate and journal every decision', async () => {
+        await elapse(3600);
+        const [retry] = await createOrchestrator().run();
+
+        expect(retry).to.include({ messageId, action: 'RETRY', outcome: 'EXECUTED', actor: sender.address });
+        expect(BigInt(retry.fee!)).to.be.greaterThan(0n);
+        const retries = await protocolCoordinator.queryFilter(protocolCoordinator.filters.MessageRetryInitiated(messageId));
+        expect(retries).to.have.length(1);
+
+        // The retry resets the age of the message
+        expect(await createOrchestrator().run()).to.be.empty;
+
+        await elapse(3600);
+        const dryRun = await createOrchestrator({ dryRun: true }).run();
+        const decisions = await createOrchestrator().run();
+
+        // The registry does not allow cancelling a message, so both cancellations are rejected
+        expect(dryRun.map(decision => decision.outcome)).to.deep.equal(['REJECTED', 'REJECTED']);
+        expect(decisions.map(({ action, outcome, retries }) => ({ action, outcome, retries }))).to.deep.equal([
+            { action: 'CANCEL', outcome: 'REJECTED', retries: 1 },
+            { action: 'EMERGENCY_CANCEL', outcome: 'REJECTED', retries: 1 },
+        ]);
+        expect(decisions[1].actor).to.equal(admin.address);
+
+        const journal = readRecoveryJournal(journalFile);
+        expect(journal.map(decision => decision.action)).to.deep.equal(
+            ['RETRY', 'CANCEL', 'EMERGENCY_CANCEL', 'CANCEL', 'EMERGENCY_CANCEL']
+        );
+        expect(journal.slice(1).every(decision => decision.error)).to.be.true;
+    });
+});
@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { deployLocalFixture } from './fixtures';
+import { PACS008MessageServiceImpl } from '../../../src/services/pacs008-message.service';
+import { encodePACS008Payload } from '../../../src/utils/pacs008-codec';
+import { LOCAL_CHAIN_ID } from '../../../src/constants';
+import { MESSAGE_TYPE_PACS008, PACS008Message } from '../../../src/types';
+import { TransactionStatus } from '../../../src/types/message-service';
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe('PACS008 Message Service', () => {
+    let fixture: Awaited<ReturnType<typeof deployLocalFixture>>;
+    let service: PACS008MessageServiceImpl;
+    let admin: SignerWithAddress;
+    let sender: SignerWithAddress;
+    let message: PACS008Message;
+
+    beforeEach(async () => {
+        fixture = await deployLocalFixture();
+        [admin, sender] = await ethers.getSigners();
+        service = new PACS008MessageServiceImpl(fixture.protocolCoordinator);
+        message = {
+            debtorAddr: sender.address,
+            creditorAddr: admin.address,
+            tokenAddr: await fixture.erc20Token.getAddress(),
+            amount: ethers.parseEther('1'),
+            handlerAddr: await fixture.messageHandler.getAddress(),
+            instructionId: 'INSTR-0001',
+        };
+    });
+
+    afterEach(async () => {
+        await network.provider.send('evm_setAutomine', [true]);
+    });
+
+    /** Resolves once the mempool holds a transaction */
+    async function waitForPending() {
+        while ((await network.provider.send('eth_getBlockByNumber', ['pending', false])).transactions.length === 0) {
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+    }
+
+    it('should quote the coordinator fees of the encoded submission', async () => {
+        const quote = await service.quoteFee(message);
+        const [baseFee, deliveryFee] = await fixture.protocolCoordinator.quoteMessageFee({
+            messageType: MESSAGE_TYPE_PACS008,
+            target: message.handlerAddr,
+            targetChain: LOCAL_CHAIN_ID,
+            payload: encodePACS008Payload(message),
+        });
+
+        expect(quote).to.deep.equal({ baseFee, deliveryFee, totalFee: baseFee + deliveryFee });
+        expect(quote.baseFee).to.equal(ethers.parseEther('0.001'));
+    });
+
+    it('should submit with the quoted fee and read the messageId from the event topics', async () => {
+        const response = await service.submitMessage(message, sender, { confirmations: 1, timeout: 10000, decodeEvents: true });
+
+        expect(response.status).to.equal(TransactionStatus.CONFIRMED);
+        expect(response.transaction.value).to.equal(response.fees.totalFee);
+
+        const [event] = await fixture.protocolCoordinator.queryFilter(
+            fixture.protocolCoordinator.filters.MessageSubmissionInitiated()
+        );
+        expect(response.messageId).to.equal(event.args.messageId);
+        expect(response.messageId).to.equal(service.extractMessageId(response.receipt!));
+        expect(response.events.map(({ name }) => name)).to.include('MessageSubmissionInitiated');
+        expect((await fixture.messageRegistry.getMessage(response.messageId!)).payload)
+            .to.equal(encodePACS008Payload(message));
+    });
+
+    it('should return PENDING without waiting when no confirmation is requested', async () => {
+        const response = await service.submitMessage(message, sender, { confirmations: 0 });
+
+        expect(response.status).to.equal(TransactionStatus.PENDING);
+        expect(response.receipt).to.be.undefined;
+        expect(response.messageId).to.be.undefined;
+    });
+
+    it('should report TIMEOUT when the transaction is not mined in time', async () => {
+        await network.provider.send('evm_setAutomine', [false]);
+
+        const response = await service.submitMessage(message, sender, { confirmations: 1, timeout: 100 });
+
+        expect(response.status).to.equal(TransactionStatus.TIMEOUT);
+        expect(response.receipt).to.be.undefined;
+        await network.provider.send('evm_mine');
+        expect((await response.transaction.wait())!.status).to.equal(1);
+    });
+
+    it('should recover the receipt of a reverted submission', async () => {
+        await network.provider.send('evm_setAutomine', [false]);
+
+        // Mined after a pause sent later with a higher priority fee
+        const pending = service.submitMessage(message, sender, { confirmations: 1, timeout: 10000 });
+        await waitForPending();
+        await fixture.protocolCoordinator.connect(admin).pause({ maxPriorityFeePerGas: ethers.parseUnits('100', 'gwei') });
+        // Each transaction reserves the block gas limit, the pause is mined first
+        await network.provider.send('evm_mine');
+        await network.provider.send('evm_mine');
+
+        const response = await pending;
+        expect(response.status).to.equal(TransactionStatus.FAILED);
+        expect(response.receipt!.status).to.equal(0);
+        expect(response.messageId).to.be.undefined;
+        expect(await fixture.protocolCoordinator.paused()).to.be.true;
+    });
+});
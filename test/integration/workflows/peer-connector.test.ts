@@ -0,0 +1,205 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import hre, { ethers } from 'hardhat';
+import { Network, Signer } from 'ethers';
+import { HttpNetworkConfig } from 'hardhat/types';
+import { createAddressBook, deployCrossChainFixture, SOURCE_CHAIN_ID, TARGET_CHAIN_ID } from './fixtures';
+import { PeerConnector } from '../../../src/services/peer-connector';
+import { writeAddressBook } from '../../../src/utils/address-book';
+import { getChain } from '../../../src/utils/chain-registry';
+import { getRoleId } from '../../../src/utils/role-manifest';
+import { PeerDeployment } from '../../../src/types';
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe('Peer Connector', () => {
+    let fixture: Awaited<ReturnType<typeof deployCrossChainFixture>>;
+    let admin: SignerWithAddress;
+    let source: PeerDeployment;
+    let target: PeerDeployment;
+
+    beforeEach(async () => {
+        fixture = await deployCrossChainFixture();
+        [admin] = await ethers.getSigners();
+        // Both chains live on the hardhat network, the destination stack gets its own TargetRegistry
+        const targetRegistry = await ethers.deployContract('TargetRegistry');
+
+        source = {
+            chain: getChain('arbitrum-sepolia'),
+            book: await createAddressBook({
+                MessageRouter: fixture.source.messageRouter,
+                TargetRegistry: fixture.source.targetRegistry,
+                ProtocolCoordinator: fixture.source.protocolCoordinator,
+            }, 'arbitrum-sepolia'),
+            signer: admin,
+        };
+        target = {
+            chain: getChain('sepolia'),
+            book: await createAddressBook({
+                WormholeSettlementReceiver: fixture.destination.settlementReceiver,
+                TargetRegistry: targetRegistry,
+            }, 'sepolia'),
+            signer: admin,
+        };
+    });
+
+    /** Wraps a signer so that its provider reports the EVM chain ID of a remote network */
+    function asRemote(signer: Signer, chainId: number): Signer {
+        const provider = new Proxy(signer.provider!, {
+            get(target, key) {
+                if (key === 'getNetwork') {
+                    return async () => new Network('remote', chainId);
+                }
+                const value = Reflect.get(target, key);
+                return typeof value === 'function' ? value.bind(target) : value;
+            },
+        });
+        return new Proxy(signer, {
+            get(target, key) {
+                if (key === 'provider') {
+                    return provider;
+                }
+                const value = Reflect.get(target, key);
+                return typeof value === 'function' ? value.bind(target) : value;
+            },
+        });
+    }
+
+    it('should wire and verify a link idempotently', async () => {
+        const connector = new PeerConnector(source, target);
+        const [forward, backward] = await connector.connect();
+
+        expect(forward.error).to.be.undefined;
+        expect(forward).to.include({ verified: true, verification: 'relay' });
+        // Routed by the source router and relayed to the receiver, the controller holds no pool for the token
+        const receiver = fixture.destination.settlementReceiver;
+        const [received] = await receiver.queryFilter(receiver.filters.SettlementInstructionReceived());
+        const { messageId, sender, token, amount, recipient } = received.args;
+        expect([sender, token, amount, recipient]).to.deep.equal([admin.address, ethers.ZeroAddress, 1n, admin.address]);
+        const router = fixture.source.messageRouter;
+        const [routed] = await router.queryFilter(router.filters.MessageRouted(messageId));
+        expect(routed.args.targetChain).to.equal(target.chain.wormholeChainId);
+        // The fixture already registered the receiver as target and the router as sender
+        expect(forward.steps.map(step => [step.call, step.status])).to.deep.equal([
+            ['MessageRouter.setChainGasLimit', 'sent'],
+            ['WormholeSettlementReceiver.setRegisteredSender', 'unchanged'],
+            ['TargetRegistry.registerTarget', 'unchanged'],
+            ['TargetRegistry.registerEmitter', 'sent'],
+        ]);
+        expect(backward).to.include({ verified: false, error: 'No WormholeSettlementReceiver deployed on arbitrum-sepolia' });
+
+        const [again] = await connector.connect();
+        expect(again.verified).to.be.true;
+        expect(again.steps.every(step => step.status === 'unchanged')).to.be.true;
+        expect(await receiver.queryFilter(receiver.filters.SettlementInstructionReceived())).to.have.length(2);
+    });
+
+    it('should verify remote links with an eth_call', async () => {
+        await new PeerConnector(source, target).connect();
+        const receiver = fixture.destination.settlementReceiver;
+
+        const [forward] = await new PeerConnector(
+            { ...source, signer: asRemote(admin, source.chain.evmChainId) },
+            { ...target, signer: asRemote(admin, target.chain.evmChainId) }
+        ).connect();
+        expect(forward).to.include({ verified: true, verification: 'call' });
+        // Nothing was sent beyond the first, relayed, test settlement
+        expect(await receiver.queryFilter(receiver.filters.SettlementInstructionReceived())).to.have.length(1);
+
+        await receiver.pause();
+        const [paused] = await new PeerConnector(
+            { ...source, signer: asRemote(admin, source.chain.evmChainId) },
+            { ...target, signer: asRemote(admin, target.chain.evmChainId) }
+        ).connect();
+        expect(paused.verified).to.be.false;
+        expect(paused.error).to.include('Receiver on sepolia rejected the test settlement');
+    });
+
+    it('should report a link the receiver rejects', async () => {
+        await fixture.destination.settlementReceiver.pause();
+        const [forward] = await new PeerConnector(source, target).connect();
+
+        expect(forward.verified).to.be.false;
+        expect(forward.verification).to.be.undefined;
+        expect(forward.error).to.include('Receiver on sepolia rejected the test settlement');
+    });
+
+    describe('peers:connect', () => {
+        let node: http.Server;
+        let books: string;
+
+        // A second local node: a JSON-RPC endpoint in front of the hardhat network
+        beforeEach(async () => {
+            node = http.createServer((request, response) => {
+                let body = '';
+                request.on('data', chunk => (body += chunk));
+                request.on('end', async () => {
+                    const answer = async ({ id, method, params }: { id: number; method: string; params?: unknown[] }) => {
+                        try {
+                            return { jsonrpc: '2.0', id, result: await hre.network.provider.request({ method, params }) };
+                        } catch (error) {
+                            return { jsonrpc: '2.0', id, error: { code: -32603, message: (error as Error).message, data: (error as { data?: string }).data } };
+                        }
+                    };
+                    const call = JSON.parse(body);
+                    response.setHeader('content-type', 'application/json');
+                    response.end(JSON.stringify(Array.isArray(call) ? await Promise.all(call.map(answer)) : await answer(call)));
+                });
+            });
+            await new Promise<void>(resolve => node.listen(0, '127.0.0.1', resolve));
+            hre.config.networks.node = {
+                ...(hre.config.networks.localhost as HttpNetworkConfig),
+                url: `http://127.0.0.1:${(node.address() as AddressInfo).port}`,
+            };
+            books = fs.mkdtempSync(path.join(os.tmpdir(), 'peers-'));
+        });
+
+        afterEach(async () => {
+            delete hre.config.networks.node;
+            node.closeAllConnections();
+            await new Promise(resolve => node.close(resolve));
+        });
+
+        it('should pair two local nodes under the Wormhole chain IDs they stand for', async () => {
+            // Each node gets the other half of a stack: a router on the destination, a receiver on the source
+            const destinationRegistry = await ethers.deployContract('TargetRegistry');
+            const destinationRouter = await ethers.deployContract('MessageRouter', [
+                fixture.destination.relayer.target, fixture.source.wormhole.target, destinationRegistry.target, fixture.source.messageProcessor.target,
+            ]);
+            const sourceReceiver = await ethers.deployContract('WormholeSettlementReceiver', [
+                fixture.source.relayer.target, fixture.destination.settlementController.target,
+            ]);
+            await fixture.destination.settlementController.grantRole(getRoleId('HANDLER_ROLE'), sourceReceiver.target);
+
+            writeAddressBook(await createAddressBook({
+                MessageRouter: fixture.source.messageRouter,
+                TargetRegistry: fixture.source.targetRegistry,
+                ProtocolCoordinator: fixture.source.protocolCoordinator,
+                WormholeSettlementReceiver: sourceReceiver,
+            }, 'hardhat'), books);
+            writeAddressBook(await createAddressBook({
+                MessageRouter: destinationRouter,
+                TargetRegistry: destinationRegistry,
+                WormholeSettlementReceiver: fixture.destination.settlementReceiver,
+            }, 'node'), books);
+
+            await expect(hre.run('peers:connect', { peer: 'node', books }))
+                .to.be.rejectedWith('ChainRegistry: hardhat is a local chain, give the Wormhole chain ID it stands for');
+
+            await hre.run('peers:connect', { peer: 'node', books, wormholeChainId: SOURCE_CHAIN_ID, peerWormholeChainId: TARGET_CHAIN_ID });
+
+            for (const [receiver, sourceChain, router] of [
+                [fixture.destination.settlementReceiver, SOURCE_CHAIN_ID, fixture.source.messageRouter],
+                [sourceReceiver, TARGET_CHAIN_ID, destinationRouter],
+            ] as const) {
+                expect(await receiver.queryFilter(receiver.filters.SettlementInstructionReceived())).to.have.length(1);
+                expect(await receiver.registeredSenders(sourceChain))
+                    .to.equal(ethers.zeroPadValue(await router.getAddress(), 32).toLowerCase());
+            }
+            expect(await destinationRegistry.isValidTarget(sourceReceiver.target, SOURCE_CHAIN_ID)).to.be.true;
+        });
+    });
+});
@@ -0,0 +1,174 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'hardhat';
+import { createAddressBook, deployCrossChainFixture, SOURCE_CHAIN_ID, TARGET_CHAIN_ID } from './fixtures';
+import { EventIndexer } from '../../../src/services/event-indexer';
+import { ProtocolApiServer } from '../../../src/services/protocol-api';
+import { WormholeRelaySimulator } from '../../../src/services/wormhole-relay-simulator';
+import { encodeSettlementInstruction } from '../../../src/utils/cross-chain-envelope';
+import { generatePACS008Payload } from '../../../src/utils/payload-generator';
+import { AddressBook, MESSAGE_TYPE_PACS008, ProposalType } from '../../../src/types';
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe('Protocol API', () => {
+    let fixture: Awaited<ReturnType<typeof deployCrossChainFixture>>;
+    let book: AddressBook;
+    let admin: SignerWithAddress;
+    let sender: SignerWithAddress;
+    let receiver: SignerWithAddress;
+    let token: string;
+    let api: ProtocolApiServer | undefined;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        fixture = await deployCrossChainFixture();
+        [admin, sender, receiver] = await ethers.getSigners();
+        token = await fixture.destination.erc20Token.getAddress();
+
+        const governance = await ethers.deployContract('ProtocolGovernance');
+        await governance.createProposal(ProposalType.ADD_TARGET, ethers.toUtf8Bytes('NEW_TARGET'));
+
+        book = await createAddressBook({
+            ProtocolCoordinator: fixture.source.protocolCoordinator,
+            MessageRegistry: fixture.source.messageRegistry,
+            MessageRouter: fixture.source.messageRouter,
+            SettlementController: fixture.destination.settlementController,
+            LiquidityPool: fixture.destination.liquidityPool,
+            ProtocolGovernance: governance,
+        });
+    });
+
+    afterEach(async () => {
+        await api?.close();
+        api = undefined;
+    });
+
+    async function serve(indexDatabase?: string) {
+        api = new ProtocolApiServer(ethers.provider, book, { indexDatabase });
+        const { address, port } = await api.listen();
+        baseUrl = `http://${address}:${port}`;
+    }
+
+    async function get(path: string) {
+        const response = await fetch(`${baseUrl}${path}`);
+        return { status: response.status, body: await response.json() };
+    }
+
+    async function submitMessage(amount = ethers.parseEther('1')): Promise<string> {
+        const submission = {
+            messageType: MESSAGE_TYPE_PACS008,
+            target: await fixture.destination.settlementReceiver.getAddress(),
+            targetChain: TARGET_CHAIN_ID,
+            payload: generatePACS008Payload(sender.address, receiver.address, token, amount),
+        };
+        const [baseFee, deliveryFee] = await fixture.source.protocolCoordinator.quoteMessageFee(submission);
+        const tx = await fixture.source.protocolCoordinator.connect(sender).submitMessage(submission, { value: baseFee + deliveryFee });
+        const receipt = await tx.wait();
+        const [event] = await fixture.source.protocolCoordinator.queryFilter(
+            fixture.source.protocolCoordinator.filters.MessageSubmissionInitiated(), receipt!.blockNumber, receipt!.blockNumber
+        );
+        return event.args.messageId;
+    }
+
+    it('should serve messages, settlements, pools, proposals and config from chain', async () => {
+        const messageId = await submitMessage(ethers.parseEther('2'));
+
+        const settlementMessageId = ethers.id('API_SETTLEMENT');
+        const payload = encodeSettlementInstruction({ token, amount: ethers.parseEther('3'), recipient: receiver.address });
+        const fee = await fixture.source.messageRouter.quoteRoutingFee(TARGET_CHAIN_ID, ethers.dataLength(payload));
+        await fixture.source.messageRouter.routeMessage(
+            settlementMessageId, await fixture.destination.settlementReceiver.getAddress(), TARGET_CHAIN_ID, payload, { value: fee }
+        );
+        await new WormholeRelaySimulator([
+            { name: 'source', wormholeChainId: SOURCE_CHAIN_ID, relayer: fixture.source.relayer.target as string, signer: admin },
+            { name: 'destination', wormholeChainId: TARGET_CHAIN_ID, relayer: fixture.destination.relayer.target as string, signer: admin },
+        ]).flush();
+        const [settlementId] = await fixture.destination.settlementController.getSettlementsByMessage(settlementMessageId);
+
+        await serve();
+
+        const message = await get(`/messages/${messageId}`);
+        expect(message.status).to.equal(200);
+        expect(message.body).to.include({ messageId, status: 'PENDING', targetChain: TARGET_CHAIN_ID });
+        expect(message.body.pacs008.amount).to.equal(ethers.parseEther('2').toString());
+
+        const list = await get(`/messages?sender=${sender.address}&status=pending`);
+        expect(list.body.source).to.equal('chain');
+        expect(list.body.messages.map((m: any) => m.messageId)).to.deep.equal([messageId]);
+        expect(list.body.messages[0].sender).to.equal(sender.address);
+
+        const settlement = await get(`/settlements/${settlementId}`);
+        expect(settlement.body).to.include({ status: 'COMPLETED', token, amount: ethers.parseEther('3').toString() });
+
+        const pool = await get(`/pools/${token}`);
+        expect(pool.body).to.include({ token, isActive: true });
+
+        const proposal = await get('/proposals/1');
+        expect(proposal.body).to.include({ proposalId: '1', proposalType: 'ADD_TARGET', proposer: admin.address });
+
+        const config = await get('/config');
+        expect(config.body).to.include({ network: 'hardhat', chainId: 31337 });
+        expect(config.body.contracts.LiquidityPool).to.equal(book.contracts.LiquidityPool.address);
+    });
+
+    it('should page chain listings in event order and only read the page', async () => {
+        const [first, second, third] = [
+            await submitMessage(ethers.parseEther('1')),
+            await submitMessage(ethers.parseEther('2')),
+            await submitMessage(ethers.parseEther('3')),
+        ];
+        await serve();
+
+        const reads: string[] = [];
+        const getMessage = api!.getMessage.bind(api);
+        api!.getMessage = async (id: string) => {
+            reads.push(id);
+            return getMessage(id);
+        };
+        const ids = async (query: string) => (await get(`/messages?${query}`)).body.messages.map((m: any) => m.messageId);
+
+        expect(await ids(`sender=${sender.address}&limit=2`)).to.deep.equal([third, second]);
+        expect(await ids(`sender=${sender.address}&limit=2&offset=2`)).to.deep.equal([first]);
+        expect(reads).to.deep.equal([third, second, first]);
+
+        const target = await fixture.destination.settlementReceiver.getAddress();
+        expect(await ids(`target=${target}&status=PENDING&limit=1&offset=1`)).to.deep.equal([second]);
+        expect(reads).to.have.length(4);
+    });
+
+    it('should answer 400, 404 and 405 errors', async () => {
+        await serve();
+
+        expect((await get('/messages/0x1234')).status).to.equal(400);
+        expect((await get('/messages/%E0%A4%A')).status).to.equal(400);
+        expect((await get(`/messages/${ethers.id('MISSING')}`)).status).to.equal(404);
+        expect((await get('/messages')).status).to.equal(400);
+        expect((await get('/proposals/42')).status).to.equal(404);
+        expect((await get(`/pools/${ethers.Wallet.createRandom().address}`)).status).to.equal(404);
+        expect((await get('/unknown')).body).to.have.property('error');
+        expect((await fetch(`${baseUrl}/config`, { method: 'POST' })).status).to.equal(405);
+    });
+
+    it('should serve listings and proposal voters from the index', async () => {
+        await submitMessage();
+        const database = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'api-')), 'index.sqlite');
+        const indexer = new EventIndexer(ethers.provider, book, { database, confirmations: 0, fromBlock: 0 });
+        await indexer.sync();
+        await indexer.close();
+
+        await serve(database);
+
+        const list = await get(`/messages?token=${token}&status=PENDING`);
+        expect(list.body.source).to.equal('index');
+        expect(list.body.messages).to.have.length(1);
+        expect(list.body.messages[0].sender).to.equal(sender.address);
+
+        const proposal = await get('/proposals/1');
+        expect(proposal.body.voters).to.equal(0);
+
+        const config = await get('/config');
+        expect(config.body.indexedBlock).to.be.a('number');
+    });
+});
@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { deployLocalFixture } from './fixtures';
+import { PACS008MessageServiceImpl } from '../../../src/services/pacs008-message.service';
+import {
+    decodeCoordinatorConfig,
+    decodeMessageResult,
+    decodeProcessingResult,
+    toMessageStatusName,
+} from '../../../src/utils/protocol-decoders';
+import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe('Protocol Decoders', () => {
+    let fixture: Awaited<ReturnType<typeof deployLocalFixture>>;
+    let sender: SignerWithAddress;
+    let receiver: SignerWithAddress;
+
+    beforeEach(async () => {
+        fixture = await deployLocalFixture();
+        [, sender, receiver] = await ethers.getSigners();
+    });
+
+    async function submit(): Promise<string> {
+        const service = new PACS008MessageServiceImpl(fixture.protocolCoordinator);
+        const { messageId } = await service.submitMessage({
+            debtorAddr: sender.address,
+            creditorAddr: receiver.address,
+            tokenAddr: await fixture.erc20Token.getAddress(),
+            amount: ethers.parseEther('1'),
+            handlerAddr: await fixture.messageHandler.getAddress(),
+            instructionId: 'INSTR-0001',
+        }, sender, { confirmations: 1, timeout: 10000 });
+        return messageId!;
+    }
+
+    it('should decode getProtocolConfig', async () => {
+        await fixture.protocolCoordinator.updateBaseFee(ethers.parseEther('0.002'));
+
+        expect(decodeCoordinatorConfig(await fixture.protocolCoordinator.getProtocolConfig())).to.deep.equal({
+            baseFee: ethers.parseEther('0.002'),
+            maxMessageSize: await fixture.protocolCoordinator.MAX_MESSAGE_SIZE(),
+            messageRegistry: await fixture.messageRegistry.getAddress(),
+            messageProtocol: await fixture.messageProtocol.getAddress(),
+            messageRouter: await fixture.messageRouter.getAddress(),
+            messageProcessor: await fixture.messageProcessor.getAddress(),
+        });
+    });
+
+    it('should read the settlementId of a processed message from the handler return data', async () => {
+        const messageId = await submit();
+        const [settlementId] = await fixture.settlementController.getSettlementsByMessage(messageId);
+
+        const [success, result] = await fixture.protocolCoordinator.getMessageResult(messageId);
+        expect(decodeMessageResult(success, result)).to.include({ success: true, settlementId });
+
+        // The processor stores the first word of the return data, the offset of the bytes
+        const processing = decodeProcessingResult(await fixture.messageProcessor.getProcessingStatus(messageId));
+        expect(processing).to.include({ messageId, action: 'SETTLEMENT_REQUIRED', settlementId });
+        expect(processing.storedSettlementId).to.equal(ethers.toBeHex(32, 32));
+    });
+
+    it('should decode the revert reason of a failed message', async () => {
+        const handler = fixture.messageHandler;
+        await handler.revokeRole(await handler.PROCESSOR_ROLE(), await fixture.messageProcessor.getAddress());
+        const messageId = await submit();
+
+        const [success, result] = await fixture.protocolCoordinator.getMessageResult(messageId);
+        expect(decodeMessageResult(success, result)).to.deep.equal({
+            success: false,
+            raw: result,
+            revertReason: 'Unauthorized processor',
+        });
+        expect(await fixture.settlementController.getSettlementsByMessage(messageId)).to.be.empty;
+    });
+
+    it('should decode Error(string) reasons and reject unknown enum values', () => {
+        const reason = ethers.concat([
+            ethers.id('Error(string)').slice(0, 10),
+            ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Insufficient liquidity']),
+        ]);
+
+        expect(decodeMessageResult(false, reason).revertReason).to.equal('Insufficient liquidity');
+        expect(decodeMessageResult(false, '0x1234').revertReason).to.be.undefined;
+        expect(decodeMessageResult(true, '0x1234')).to.deep.equal({ success: true, raw: '0x1234' });
+        expect(toMessageStatusName(0)).to.equal('PENDING');
+        expect(() => toMessageStatusName(42)).to.throw('Unknown MessageStatus value 42');
+    });
+});
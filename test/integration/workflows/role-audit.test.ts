@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { Filter, Provider } from 'ethers';
+import { replayRoleEvents } from '../../../src/utils/role-audit';
+import { blockRanges } from '../../../src/utils/log-query';
+import { getRoleId } from '../../../src/utils/role-manifest';
+
+describe('Role Audit', () => {
+    it('should split block ranges into bounded chunks', () => {
+        expect(blockRanges(0, 4500, 2000)).to.deep.equal([[0, 1999], [2000, 3999], [4000, 4500]]);
+        expect(blockRanges(10, 10)).to.deep.equal([[10, 10]]);
+        expect(blockRanges(11, 10)).to.be.empty;
+        expect(() => blockRanges(0, 10, 0)).to.throw('Invalid block range size 0');
+    });
+
+    it('should replay grants and revocations across several log requests', async () => {
+        const [admin, first, second] = await ethers.getSigners();
+        const registry = await ethers.deployContract('TargetRegistry');
+        const deploymentBlock = (await registry.deploymentTransaction()!.wait())!.blockNumber;
+        const validator = getRoleId('VALIDATOR_ROLE');
+
+        await registry.grantRole(validator, first.address);
+        await ethers.provider.send('hardhat_mine', ['0x9c4']);
+        await registry.revokeRole(validator, first.address);
+        await registry.grantRole(validator, second.address);
+        await registry.revokeRole(validator, admin.address);
+
+        // Records the range of every getLogs request
+        const ranges: [number, number][] = [];
+        const provider = new Proxy(ethers.provider, {
+            get(target, key) {
+                if (key === 'getLogs') {
+                    return (filter: Filter) => {
+                        ranges.push([Number(filter.fromBlock), Number(filter.toBlock)]);
+                        return target.getLogs(filter);
+                    };
+                }
+                const value = Reflect.get(target, key);
+                return typeof value === 'function' ? value.bind(target) : value;
+            },
+        }) as Provider;
+
+        const grants = await replayRoleEvents(provider, await registry.getAddress(), deploymentBlock);
+
+        expect(grants.map(grant => [grant.roleId, grant.account])).to.deep.equal([
+            [ethers.ZeroHash, admin.address],
+            [getRoleId('REGISTRAR_ROLE'), admin.address],
+            [validator, second.address],
+        ]);
+        expect(ranges.length).to.equal(2);
+        expect(ranges[0]).to.deep.equal([deploymentBlock, deploymentBlock + 1999]);
+        expect(ranges[1][0]).to.equal(deploymentBlock + 2000);
+    });
+});
@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import hre, { deployments, ethers } from 'hardhat';
+import { LiquidityPool, SettlementController } from '../../../typechain';
+import { ROLE_MANIFEST } from '../../../src/constants/roles';
+import {
+    applyRoleManifest,
+    formatRoleGrant,
+    getRoleId,
+    resolveRoleManifest,
+    resolveRoleManifestFrom,
+    verifyRoleManifest,
+} from '../../../src/utils/role-manifest';
+
+describe('Role Manifest', () => {
+    beforeEach(async () => {
+        await deployments.fixture();
+    });
+
+    it('should match the roles of a fresh deployment', async () => {
+        const report = await verifyRoleManifest(hre);
+
+        expect(report.missing.map(formatRoleGrant)).to.be.empty;
+        expect(report.extra).to.be.empty;
+        expect(report.pending).to.be.empty;
+        expect(report.contracts).to.include.members(['SettlementController', 'WormholeSettlementReceiver']);
+        await hre.run('roles:verify');
+    });
+
+    it('should grant HANDLER_ROLE on the controller to the receiver', async () => {
+        const controller = await ethers.getContract<SettlementController>('SettlementController');
+        const receiver = await deployments.get('WormholeSettlementReceiver');
+
+        // Needed by processSettlement, the deploy scripts did not grant it before the manifest
+        expect(await controller.hasRole(getRoleId('HANDLER_ROLE'), receiver.address)).to.be.true;
+    });
+
+    it('should report and restore a revoked grant', async () => {
+        const controller = await ethers.getContract<SettlementController>('SettlementController');
+        const receiver = await deployments.get('WormholeSettlementReceiver');
+        await controller.revokeRole(getRoleId('HANDLER_ROLE'), receiver.address);
+
+        const involving = ['WormholeSettlementReceiver'];
+        const report = await verifyRoleManifest(hre, { involving });
+        expect(report.missing.map(formatRoleGrant)).to.deep.equal([
+            'SettlementController.HANDLER_ROLE -> WormholeSettlementReceiver',
+        ]);
+        await expect(hre.run('roles:verify', { contracts: 'WormholeSettlementReceiver' }))
+            .to.be.rejectedWith('roles:verify: 1 missing and 0 extra grants on hardhat');
+
+        const results = await applyRoleManifest(hre, { involving });
+        expect(results.filter(({ status }) => status === 'granted').map(({ grant }) => formatRoleGrant(grant)))
+            .to.deep.equal(['SettlementController.HANDLER_ROLE -> WormholeSettlementReceiver']);
+        expect((await verifyRoleManifest(hre, { involving })).missing).to.be.empty;
+    });
+
+    it('should flag grants the manifest does not declare', async () => {
+        const [, , stranger] = await ethers.getSigners();
+        const pool = await ethers.getContract<LiquidityPool>('LiquidityPool');
+        await pool.grantRole(getRoleId('EMERGENCY_ROLE'), stranger.address);
+
+        const { extra } = await verifyRoleManifest(hre, { involving: ['LiquidityPool'] });
+        expect(extra.map(({ contract, role, holder }) => [contract, role, holder])).to.deep.equal([
+            ['LiquidityPool', 'EMERGENCY_ROLE', stranger.address],
+        ]);
+    });
+
+    it('should keep entries of undeployed contracts pending', async () => {
+        const manifest = [
+            ...ROLE_MANIFEST.filter(({ contract }) => contract === 'MessageRouter'),
+            { contract: 'MessageRouter', role: 'RELAYER_ROLE', grantee: { contract: 'MissingRelayer' } },
+        ];
+
+        const { resolved, pending } = await resolveRoleManifest(hre, { manifest });
+        expect(resolved).to.have.length(manifest.length - 1);
+        expect(resolved[0]).to.include({
+            roleId: ethers.ZeroHash,
+            contractAddress: (await deployments.get('MessageRouter')).address,
+        });
+        expect(pending.map(formatRoleGrant)).to.deep.equal(['MessageRouter.RELAYER_ROLE -> MissingRelayer']);
+        expect(getRoleId('RELAYER_ROLE')).to.equal(ethers.id('RELAYER_ROLE'));
+    });
+
+    it('should resolve the manifest against explicit addresses like the deployments', async () => {
+        const contracts = Object.fromEntries(
+            Object.entries(await deployments.all()).map(([name, { address }]) => [name, address])
+        );
+        const [admin] = await ethers.getSigners();
+
+        const fromDeployments = await resolveRoleManifest(hre);
+        expect(resolveRoleManifestFrom(contracts, { admin: admin.address, deployer: admin.address }))
+            .to.deep.equal(fromDeployments);
+
+        // Without named accounts only the grants between contracts resolve
+        const { resolved, pending } = resolveRoleManifestFrom(contracts, {});
+        expect(resolved.every(({ grantee }) => 'contract' in grantee)).to.be.true;
+        expect(pending.every(({ grantee }) => 'account' in grantee)).to.be.true;
+        expect(resolved.length + pending.length).to.equal(ROLE_MANIFEST.length);
+    });
+});
@@ -0,0 +1,39 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import ArbitrumV1Market from '../../../src/config/arbitrum';
+import PolygonV1Market from '../../../src/config/polygon';
+import { eArbitrumNetwork, eEthereumNetwork, ePolygonNetwork } from '../../../src/types';
+import { getWormholeAddresses, verifyWormholeAddresses } from '../../../src/utils/wormhole-helper';
+
+describe('Wormhole Addresses', () => {
+    it('should resolve configured networks and name the missing entries of the others', () => {
+        expect(getWormholeAddresses(eArbitrumNetwork.arbitrum, ArbitrumV1Market)).to.deep.equal({
+            network: 'arbitrum',
+            wormholeChainId: 23,
+            wormhole: '0xa5f208e072434bC67592E4C49C1B991BA79BCA46',
+            wormholeRelayer: '0x27428DD2d3DD32A4D7f7C497eAaa23130d894911',
+            mocked: false,
+        });
+        expect(() => getWormholeAddresses(ePolygonNetwork.amoy, PolygonV1Market))
+            .to.throw('GFS Polygon Configuration has no valid WormHoleRelayContracts entry for amoy');
+        expect(() => getWormholeAddresses(eEthereumNetwork.hardhat, ArbitrumV1Market))
+            .to.throw('has no valid WormholeChainIds, WormHoleCoreContracts, WormHoleRelayContracts entry for hardhat');
+    });
+
+    it('should reject addresses without contract code', async () => {
+        const wormhole = await ethers.deployContract('MockWormhole');
+        const relayer = await ethers.deployContract('MockWormholeRelayer');
+        const [, account] = await ethers.getSigners();
+        const addresses = {
+            network: eEthereumNetwork.hardhat,
+            wormholeChainId: 1,
+            wormhole: await wormhole.getAddress(),
+            wormholeRelayer: await relayer.getAddress(),
+            mocked: true,
+        };
+
+        await verifyWormholeAddresses(ethers.provider, addresses);
+        await expect(verifyWormholeAddresses(ethers.provider, { ...addresses, wormholeRelayer: account.address }))
+            .to.be.rejectedWith(`No contract code on hardhat at Wormhole relayer ${account.address}`);
+    });
+});
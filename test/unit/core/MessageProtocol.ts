@@ -1,6 +1,8 @@
 import { expect } from "chai";
 import { ethers, deployments, getNamedAccounts } from "hardhat";
 import { MessageProtocol } from "../../../typechain";
+import { PACS002_SCHEMA, PACS008_REQUIRED_FIELDS, PACS008_SCHEMA, PACS009_SCHEMA } from "../../../src/types";
+import { createMessageCodec, decodeSchema } from "../../../src/utils/message-schema";
 
 describe("MessageProtocol", function () {
     let messageProtocol: MessageProtocol;
@@ -250,4 +252,69 @@ describe("MessageProtocol", function () {
                 .to.be.rejected;
         });
     });
+
+    describe("Schema Generated Formats", function () {
+        const pacs009 = createMessageCodec(PACS009_SCHEMA);
+        const values = {
+            debtorAgent: ethers.Wallet.createRandom().address,
+            creditorAgent: ethers.Wallet.createRandom().address,
+            token: ethers.Wallet.createRandom().address,
+            amount: ethers.parseEther("10"),
+            instructionId: ethers.encodeBytes32String("INSTR-009"),
+        };
+
+        beforeEach(async function () {
+            await messageProtocol.connect(await ethers.getSigner(formatAdmin))
+                .registerMessageFormat(pacs009.messageType, pacs009.requiredFields, pacs009.schemaBytes);
+        });
+
+        it("Should register the generated schema bytes", async function () {
+            const format = await messageProtocol.getMessageFormat(pacs009.messageType);
+            expect(format.messageType).to.equal(ethers.keccak256(ethers.toUtf8Bytes("pacs.009")));
+            expect(format.requiredFields).to.deep.equal(pacs009.requiredFields);
+            expect(decodeSchema(format.schema)).to.deep.equal({
+                ...PACS009_SCHEMA,
+                fields: PACS009_SCHEMA.fields.map(field => ({
+                    name: field.name,
+                    type: field.type,
+                    required: !("required" in field) || field.required,
+                })),
+            });
+        });
+
+        it("Should validate encoded payloads with and without optional fields", async function () {
+            const protocol = messageProtocol.connect(await ethers.getSigner(validator));
+
+            expect(await protocol.validateMessage(pacs009.messageType, pacs009.encode(values))).to.be.true;
+            expect(await protocol.validateMessage(
+                pacs009.messageType,
+                pacs009.encode({ ...values, settlementDate: 1_700_000_000n })
+            )).to.be.true;
+        });
+
+        it("Should reject payloads missing a required field", async function () {
+            const payload = pacs009.encode(values);
+            const withoutAmount = ethers.concat([ethers.dataSlice(payload, 0, 108), ethers.dataSlice(payload, 144)]);
+
+            expect(await messageProtocol.connect(await ethers.getSigner(validator))
+                .validateMessage(pacs009.messageType, withoutAmount)).to.be.false;
+            expect(() => pacs009.decode(withoutAmount)).to.throw("Missing required field amount");
+        });
+
+        it("Should round trip values through the codec", async function () {
+            const pacs002 = createMessageCodec(PACS002_SCHEMA);
+            const status = {
+                originalMessageId: ethers.id("message"),
+                originalInstructionId: ethers.encodeBytes32String("INSTR-009"),
+                transactionStatus: ethers.hexlify(ethers.toUtf8Bytes("ACSC")),
+            };
+
+            expect(pacs009.decode(pacs009.encode(values))).to.deep.equal(values);
+            expect(pacs002.decode(pacs002.encode(status))).to.deep.equal(status);
+        });
+
+        it("Should match the PACS.008 required fields", async function () {
+            expect(createMessageCodec(PACS008_SCHEMA).requiredFields).to.deep.equal(PACS008_REQUIRED_FIELDS);
+        });
+    });
 });
\ No newline at end of file
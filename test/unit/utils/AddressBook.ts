@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { Deployment } from "hardhat-deploy/types";
+import {
+    buildAddressBookEntries,
+    computeAbiHash,
+    getAddressBookPath,
+    getContractAddress,
+    loadAddressBook,
+    resolveContractAddress,
+    toGFSAddressBook,
+    writeAddressBook,
+} from "../../../src/utils/address-book";
+
+describe("AddressBook", function () {
+    const DEPLOYER = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+    const COORDINATOR = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+    const REGISTRY = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+    const IMPLEMENTATION = "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0";
+
+    let dir: string;
+
+    beforeEach(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "address-book-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    function write(contracts: Record<string, string>, deployer: string = DEPLOYER) {
+        return writeAddressBook({
+            network: "sepolia",
+            chainId: 11155111,
+            deployer,
+            contracts: Object.fromEntries(
+                Object.entries(contracts).map(([name, address]) => [name, { address, abiHash: "0x" }])
+            ),
+        }, dir);
+    }
+
+    it("Should bump the version only when the deployment changes", function () {
+        const first = write({ ProtocolCoordinator: COORDINATOR, MessageRegistry: REGISTRY });
+        expect(first.version).to.equal(1);
+        expect(Object.keys(first.contracts)).to.deep.equal(["MessageRegistry", "ProtocolCoordinator"]);
+
+        const unchanged = write({ MessageRegistry: REGISTRY, ProtocolCoordinator: COORDINATOR });
+        expect(unchanged).to.deep.equal(first);
+
+        expect(write({ ProtocolCoordinator: REGISTRY, MessageRegistry: REGISTRY }).version).to.equal(2);
+        expect(write({ ProtocolCoordinator: REGISTRY, MessageRegistry: REGISTRY }, COORDINATOR).version).to.equal(3);
+        expect(loadAddressBook("sepolia", dir)).to.deep.include({ version: 3, deployer: COORDINATOR });
+    });
+
+    it("Should reject missing books, other schema versions and unknown contracts", function () {
+        expect(() => loadAddressBook("sepolia", dir)).to.throw("No address book for network sepolia");
+
+        const book = write({ ProtocolCoordinator: COORDINATOR });
+        expect(getContractAddress(book, "ProtocolCoordinator")).to.equal(COORDINATOR);
+        expect(resolveContractAddress("sepolia", "ProtocolCoordinator", dir)).to.equal(COORDINATOR);
+        expect(() => getContractAddress(book, "MessageRouter"))
+            .to.throw("AddressBook: Contract MessageRouter not deployed on sepolia");
+        expect(() => toGFSAddressBook({ ...book, contracts: {} })).to.throw("Contract ProtocolCoordinator not deployed");
+
+        fs.writeFileSync(getAddressBookPath("sepolia", dir), JSON.stringify({ ...book, schemaVersion: 99 }));
+        expect(() => loadAddressBook("sepolia", dir)).to.throw("Unsupported schema version 99");
+    });
+
+    it("Should list a proxied contract once, with its proxy and implementation", function () {
+        const implementationAbi = [{ type: "function", name: "version", inputs: [], outputs: [] }];
+        const deployment = (address: string, fields: Partial<Deployment> = {}) =>
+            ({ address, abi: [], receipt: { from: DEPLOYER, blockNumber: 7 }, ...fields }) as unknown as Deployment;
+
+        const contracts = buildAddressBookEntries({
+            MessageRegistry: deployment(REGISTRY, { implementation: IMPLEMENTATION, transactionHash: "0x01" }),
+            MessageRegistry_Implementation: deployment(IMPLEMENTATION, { abi: implementationAbi }),
+            MessageRegistry_Proxy: deployment(REGISTRY),
+            ProtocolCoordinator: deployment(COORDINATOR),
+        });
+
+        expect(Object.keys(contracts)).to.deep.equal(["MessageRegistry", "ProtocolCoordinator"]);
+        expect(contracts.MessageRegistry).to.deep.equal({
+            address: REGISTRY,
+            abiHash: computeAbiHash(implementationAbi),
+            implementation: IMPLEMENTATION,
+            proxy: REGISTRY,
+            deployer: DEPLOYER,
+            transactionHash: "0x01",
+            blockNumber: 7,
+        });
+        expect(contracts.ProtocolCoordinator).to.not.have.any.keys("implementation", "proxy");
+        expect(contracts.ProtocolCoordinator.abiHash).to.equal(computeAbiHash([]));
+    });
+});
@@ -0,0 +1,123 @@
+import { expect } from "chai";
+import { HttpNetworkUserConfig } from "hardhat/types";
+import { DEFAULT_TX_CONFIG } from "../../../src/types";
+import {
+    ConfigNames,
+    getHardhatNetworks,
+    getNetworkConfigName,
+    getProtocolConfig,
+    getTxConfig,
+    loadProtocolConfig,
+} from "../../../src/utils/config-helpers";
+
+describe("ConfigHelpers", function () {
+    const MNEMONIC = "test test test test test test test test test test test junk";
+    const NETWORK_CONFIGS = [
+        ConfigNames.Polygon,
+        ConfigNames.Arbitrum,
+        ConfigNames.Optimistic,
+        ConfigNames.Base,
+        ConfigNames.Avalanche,
+    ];
+
+    let configName: string | undefined;
+
+    beforeEach(function () {
+        configName = process.env.PROTOCOL_CONFIG_NAME;
+    });
+
+    afterEach(function () {
+        if (configName === undefined) {
+            delete process.env.PROTOCOL_CONFIG_NAME;
+        } else {
+            process.env.PROTOCOL_CONFIG_NAME = configName;
+        }
+    });
+
+    it("Should generate a network with the chainId and tags of every config entry", function () {
+        const networks = getHardhatNetworks(MNEMONIC);
+        const expected: string[] = [];
+
+        for (const name of NETWORK_CONFIGS) {
+            const entries = Object.entries(loadProtocolConfig(name).Networks ?? {});
+            expect(entries, name).to.have.length(2);
+
+            for (const [network, connection] of entries) {
+                expected.push(network);
+                expect(networks[network], network).to.deep.include({
+                    chainId: connection.chainId,
+                    tags: [connection.production ? "production" : "test"],
+                    accounts: { mnemonic: MNEMONIC },
+                    live: true,
+                });
+            }
+        }
+        expect(Object.keys(networks)).to.have.members(expected);
+    });
+
+    it("Should map the network names to their chain IDs", function () {
+        const chainIds = Object.fromEntries(
+            Object.entries(getHardhatNetworks(MNEMONIC)).map(([network, config]) => [network, config!.chainId])
+        );
+
+        expect(chainIds).to.deep.equal({
+            polygon: 137,
+            amoy: 80002,
+            arbitrum: 42161,
+            "arbitrum-sepolia": 421614,
+            optimism: 10,
+            "optimism-sepolia": 11155420,
+            base: 8453,
+            "base-sepolia": 84532,
+            avalanche: 43114,
+            fuji: 43113,
+        });
+    });
+
+    it("Should read the RPC URL from the variable named by the entry", function () {
+        const previous = process.env.FUJI_RPC_URL;
+        process.env.FUJI_RPC_URL = "https://fuji.example";
+        try {
+            const fuji = getHardhatNetworks(MNEMONIC).fuji as HttpNetworkUserConfig;
+            expect(fuji.url).to.equal("https://fuji.example");
+        } finally {
+            if (previous === undefined) {
+                delete process.env.FUJI_RPC_URL;
+            } else {
+                process.env.FUJI_RPC_URL = previous;
+            }
+        }
+    });
+
+    it("Should select the config listing the network, and Test for the others", function () {
+        const test = loadProtocolConfig(ConfigNames.Test);
+        const avalanche = loadProtocolConfig(ConfigNames.Avalanche);
+        delete process.env.PROTOCOL_CONFIG_NAME;
+
+        expect(getProtocolConfig("fuji")).to.equal(avalanche);
+        expect(getProtocolConfig("optimism-sepolia")).to.equal(loadProtocolConfig(ConfigNames.Optimistic));
+        expect(getProtocolConfig("hardhat")).to.equal(test);
+        expect(getProtocolConfig()).to.equal(test);
+        expect(getNetworkConfigName("localhost")).to.be.undefined;
+
+        expect(getTxConfig("fuji")).to.deep.equal(avalanche.TransactionConfig.fuji);
+        expect(getTxConfig("localhost")).to.equal(DEFAULT_TX_CONFIG);
+
+        expect(() => loadProtocolConfig(ConfigNames.Fantom)).to.throw("Unsupported protocol configuration: Fantom");
+    });
+
+    it("Should reject unknown names and names contradicting the network", function () {
+        process.env.PROTOCOL_CONFIG_NAME = "Avalanche";
+        expect(getProtocolConfig("fuji")).to.equal(loadProtocolConfig(ConfigNames.Avalanche));
+        // Networks no configuration lists accept any of them
+        expect(getProtocolConfig("hardhat")).to.equal(loadProtocolConfig(ConfigNames.Avalanche));
+
+        process.env.PROTOCOL_CONFIG_NAME = "Test";
+        expect(() => getTxConfig("fuji"))
+            .to.throw("PROTOCOL_CONFIG_NAME Test does not match network fuji of the Avalanche configuration");
+
+        // Names are ConfigNames keys, Optimism is "Optimistic"
+        process.env.PROTOCOL_CONFIG_NAME = "Optimism";
+        expect(() => getProtocolConfig("hardhat")).to.throw("Unknown PROTOCOL_CONFIG_NAME Optimism");
+    });
+});
@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+    decodeInstructionId,
+    decodePACS008Payload,
+    encodeInstructionId,
+    encodePACS008Payload,
+    isValidPACS008Payload,
+} from "../../../src/utils/pacs008-codec";
+import { createMessageCodec } from "../../../src/utils/message-schema";
+import { PACS008_SCHEMA } from "../../../src/types/message-schema";
+import {
+    MESSAGE_SELECTORS,
+    PACS008_FIELD_SIZE,
+    PACS008_MAXIMUM_AMOUNT,
+    PACS008_MINIMUM_AMOUNT,
+    MESSAGE_TYPE_PACS008,
+    PACS008_PAYLOAD_SIZE,
+    PACS008_REQUIRED_FIELDS,
+    PACS008PayloadFields,
+} from "../../../src/types/pacs-008";
+
+describe("PACS008Codec", function () {
+    const HANDLER = "0x90F79bf6EB2c4f870365E785982E1f101E93b906";
+    const fields: PACS008PayloadFields = {
+        debtorAddr: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+        creditorAddr: "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
+        tokenAddr: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+        amount: ethers.parseEther("1"),
+        instructionId: "INSTR-0001",
+    };
+
+    /** Replaces the 32 byte value of the field at the given position */
+    function withValue(payload: string, index: number, value: string): string {
+        const offset = index * PACS008_FIELD_SIZE + 4;
+        return ethers.concat([
+            ethers.dataSlice(payload, 0, offset),
+            value,
+            ethers.dataSlice(payload, offset + 32),
+        ]);
+    }
+
+    it("Should round-trip a message", function () {
+        const payload = encodePACS008Payload(fields);
+
+        expect(ethers.dataLength(payload)).to.equal(PACS008_PAYLOAD_SIZE);
+        expect(ethers.dataSlice(payload, 0, 4)).to.equal(MESSAGE_SELECTORS.debtorAgent);
+        expect(decodePACS008Payload(payload, HANDLER)).to.deep.equal({
+            ...fields,
+            handlerAddr: HANDLER,
+            instructionId: encodeInstructionId(fields.instructionId),
+        });
+        expect(decodeInstructionId(encodeInstructionId(fields.instructionId))).to.equal("INSTR-0001");
+    });
+
+    it("Should produce the same bytes and registration data as the schema codec", function () {
+        const schemaCodec = createMessageCodec(PACS008_SCHEMA);
+        const values = {
+            debtorAgent: fields.debtorAddr,
+            creditorAgent: fields.creditorAddr,
+            token: fields.tokenAddr,
+            amount: fields.amount,
+            instructionId: encodeInstructionId(fields.instructionId),
+        };
+
+        expect(encodePACS008Payload(fields)).to.equal(schemaCodec.encode(values));
+        expect(schemaCodec.decode(encodePACS008Payload(fields))).to.deep.equal(values);
+        expect(MESSAGE_TYPE_PACS008).to.equal(schemaCodec.messageType);
+        expect(PACS008_REQUIRED_FIELDS).to.deep.equal(schemaCodec.requiredFields);
+        expect(MESSAGE_SELECTORS).to.deep.equal(schemaCodec.selectors);
+    });
+
+    it("Should decode fields in any order", function () {
+        const payload = encodePACS008Payload(fields);
+        const reordered = ethers.concat([
+            ethers.dataSlice(payload, 4 * PACS008_FIELD_SIZE),
+            ethers.dataSlice(payload, 0, 4 * PACS008_FIELD_SIZE),
+        ]);
+
+        expect(decodePACS008Payload(reordered)).to.deep.equal(decodePACS008Payload(payload));
+    });
+
+    it("Should accept the minimum and maximum amounts only", function () {
+        for (const amount of [PACS008_MINIMUM_AMOUNT, PACS008_MAXIMUM_AMOUNT]) {
+            expect(decodePACS008Payload(encodePACS008Payload({ ...fields, amount })).amount).to.equal(amount);
+        }
+        for (const amount of [PACS008_MINIMUM_AMOUNT - 1n, PACS008_MAXIMUM_AMOUNT + 1n]) {
+            expect(() => encodePACS008Payload({ ...fields, amount })).to.throw("outside");
+            const payload = encodePACS008Payload({ ...fields, amount }, { validate: false });
+            expect(() => decodePACS008Payload(payload)).to.throw("outside");
+        }
+    });
+
+    it("Should reject a wrong length", function () {
+        const payload = encodePACS008Payload(fields);
+
+        expect(() => decodePACS008Payload(ethers.dataSlice(payload, 1))).to.throw("Invalid payload length 179");
+        expect(() => decodePACS008Payload(ethers.concat([payload, "0x00"]))).to.throw("Invalid payload length 181");
+        expect(isValidPACS008Payload("0x")).to.be.false;
+    });
+
+    it("Should reject unknown and duplicate selectors", function () {
+        const payload = encodePACS008Payload(fields);
+        const unknown = ethers.concat(["0xdeadbeef", ethers.dataSlice(payload, 4)]);
+        const duplicate = ethers.concat([
+            ethers.dataSlice(payload, 0, PACS008_FIELD_SIZE),
+            ethers.dataSlice(payload, 0, PACS008_FIELD_SIZE),
+            ethers.dataSlice(payload, 2 * PACS008_FIELD_SIZE),
+        ]);
+
+        expect(() => decodePACS008Payload(unknown)).to.throw("Unknown selector 0xdeadbeef at offset 0");
+        expect(() => decodePACS008Payload(duplicate)).to.throw("Duplicate field debtorAgent at offset 36");
+    });
+
+    it("Should keep the low 20 bytes of address words like the handler", function () {
+        const payload = encodePACS008Payload(fields);
+        const dirty = withValue(payload, 0, ethers.concat(["0x" + "ff".repeat(12), fields.debtorAddr]));
+
+        expect(decodePACS008Payload(dirty).debtorAddr).to.equal(fields.debtorAddr);
+
+        const zero = withValue(payload, 2, ethers.concat(["0x" + "ff".repeat(12), ethers.ZeroAddress]));
+        expect(() => decodePACS008Payload(zero)).to.throw("Invalid token address");
+    });
+});
@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { parseXml } from "../../../src/utils/xml-parser";
+import {
+    computeMessageHash,
+    convertPACS008Xml,
+    parsePACS008Xml,
+    StaticInstitutionDirectory,
+} from "../../../src/utils/pacs008-xml-converter";
+import { decodePACS008Payload } from "../../../src/utils/pacs008-codec";
+import { getProtocolConfig } from "../../../src/utils/config-helpers";
+import { eEthereumNetwork, PACS008ConversionOptions } from "../../../src/types";
+
+const DEBTOR = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const CREDITOR = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const HANDLER = "0x90F79bf6EB2c4f870365E785982E1f101E93b906";
+const USDC = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const EURC = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+
+// Prefixed pacs.008.001.08 in a business application header envelope, with a DTD internal subset
+const PACS008_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE Envelope [
+  <!ENTITY note "amounts > 0">
+  <!-- declarations may hold > too -->
+]>
+<Envelope>
+  <head:AppHdr xmlns:head="urn:iso:std:iso:20022:tech:xsd:head.001.001.02">
+    <head:BizMsgIdr>MSG-0001</head:BizMsgIdr>
+  </head:AppHdr>
+  <doc:Document xmlns:doc="urn:iso:std:iso:20022:tech:xsd:pacs.008.001.08">
+    <doc:FIToFICstmrCdtTrf>
+      <doc:GrpHdr>
+        <doc:MsgId>MSG-0001</doc:MsgId>
+        <doc:CreDtTm>2024-06-01T09:00:00</doc:CreDtTm>
+        <doc:NbOfTxs>2</doc:NbOfTxs>
+      </doc:GrpHdr>
+      <doc:CdtTrfTxInf>
+        <doc:PmtId><doc:InstrId>INSTR-1</doc:InstrId><doc:EndToEndId>E2E-1</doc:EndToEndId></doc:PmtId>
+        <doc:IntrBkSttlmAmt Ccy="USD">1250.50</doc:IntrBkSttlmAmt>
+        <doc:DbtrAgt><doc:FinInstnId><doc:BICFI>DEUTDEFF500</doc:BICFI></doc:FinInstnId></doc:DbtrAgt>
+        <doc:CdtrAgt><doc:FinInstnId><doc:BICFI>BNPAFRPP</doc:BICFI></doc:FinInstnId></doc:CdtrAgt>
+      </doc:CdtTrfTxInf>
+      <doc:CdtTrfTxInf>
+        <doc:PmtId><doc:EndToEndId>NOTPROVIDED</doc:EndToEndId><doc:TxId>TX-2</doc:TxId></doc:PmtId>
+        <doc:IntrBkSttlmAmt Ccy="eur">10</doc:IntrBkSttlmAmt>
+        <doc:DbtrAgt><doc:FinInstnId><doc:BICFI>DEUTDEFF</doc:BICFI></doc:FinInstnId></doc:DbtrAgt>
+        <doc:CdtrAgt><doc:FinInstnId><doc:LEI>969500UP76J52A9OXU27</doc:LEI></doc:FinInstnId></doc:CdtrAgt>
+      </doc:CdtTrfTxInf>
+    </doc:FIToFICstmrCdtTrf>
+  </doc:Document>
+</Envelope>`;
+
+describe("PACS008XmlConverter", function () {
+    const options: PACS008ConversionOptions = {
+        directory: new StaticInstitutionDirectory({
+            bic: { DEUTDEFF: DEBTOR, BNPAFRPP: CREDITOR },
+            lei: { "969500UP76J52A9OXU27": CREDITOR },
+        }),
+        handlerAddr: HANDLER,
+        network: eEthereumNetwork.hardhat,
+        config: { ...getProtocolConfig(), ReserveAssets: { [eEthereumNetwork.hardhat]: { USDC, EURC } } },
+        currencySymbols: { USD: "USDC", EUR: "EURC" },
+        tokenDecimals: { [USDC]: 6, [EURC]: 6 },
+    };
+
+    describe("parseXml", function () {
+        it("Should keep > inside quoted attribute values", function () {
+            const root = parseXml(`<Amt Ccy="USD" note='a > b' other="c>d"/>`);
+            expect(root.attributes).to.deep.equal({ Ccy: "USD", note: "a > b", other: "c>d" });
+            expect(root.children).to.be.empty;
+        });
+
+        it("Should skip a DOCTYPE internal subset", function () {
+            const root = parseXml(`<!DOCTYPE Doc [<!ENTITY x "1 > 0"><!-- ] > -->]><Doc>&lt;ok&gt;</Doc>`);
+            expect(root.name).to.equal("Doc");
+            expect(root.text).to.equal("<ok>");
+        });
+
+        it("Should reject malformed documents", function () {
+            expect(() => parseXml(`<a><b></a>`)).to.throw("Unexpected closing tag </a>");
+            expect(() => parseXml(`<a note="open>`)).to.throw("Unterminated markup");
+            expect(() => parseXml(`<!DOCTYPE a [<!ENTITY x "y">`)).to.throw("Unterminated markup");
+            expect(() => parseXml(`<a></a><b/>`)).to.throw("Multiple root elements");
+        });
+    });
+
+    describe("parsePACS008Xml", function () {
+        it("Should parse every CdtTrfTxInf of a namespaced document", function () {
+            const document = parsePACS008Xml(PACS008_XML);
+
+            expect(document).to.include({
+                version: "pacs.008.001.08",
+                msgId: "MSG-0001",
+                creationDateTime: "2024-06-01T09:00:00",
+            });
+            expect(document.transactions).to.have.length(2);
+            expect(document.transactions[0]).to.deep.include({
+                instrId: "INSTR-1",
+                endToEndId: "E2E-1",
+                amount: "1250.50",
+                currency: "USD",
+                debtorAgent: { bic: "DEUTDEFF500", lei: undefined },
+            });
+            expect(document.transactions[1]).to.deep.include({
+                txId: "TX-2",
+                currency: "EUR",
+                creditorAgent: { bic: undefined, lei: "969500UP76J52A9OXU27" },
+            });
+        });
+
+        it("Should reject missing group header fields", function () {
+            expect(() => parsePACS008Xml(PACS008_XML.replace(/<doc:MsgId>MSG-0001<\/doc:MsgId>/, "")))
+                .to.throw("Missing GrpHdr/MsgId");
+            expect(() => parsePACS008Xml(PACS008_XML.replace(/<doc:GrpHdr>[\s\S]*<\/doc:GrpHdr>/, "")))
+                .to.throw("Missing GrpHdr/MsgId");
+            expect(() => parsePACS008Xml(`<Document><FIToFICstmrCdtTrf/></Document>`))
+                .to.throw("Document has no CdtTrfTxInf");
+        });
+    });
+
+    describe("convertPACS008Xml", function () {
+        it("Should convert each transaction into a payload", async function () {
+            const converted = await convertPACS008Xml(PACS008_XML, options);
+
+            expect(converted).to.have.length(2);
+            expect(converted[0].message).to.deep.equal({
+                debtorAddr: DEBTOR,
+                creditorAddr: CREDITOR,
+                tokenAddr: USDC,
+                amount: 1_250_500_000n,
+                handlerAddr: HANDLER,
+                instructionId: ethers.zeroPadBytes(ethers.toUtf8Bytes("E2E-1"), 32),
+            });
+            // NOTPROVIDED falls back to TxId
+            expect(converted[1].message).to.include({ tokenAddr: EURC, amount: 10_000_000n });
+            expect(converted[1].message.instructionId).to.equal(ethers.zeroPadBytes(ethers.toUtf8Bytes("TX-2"), 32));
+
+            for (const { message, payload, messageHash, payloadHash } of converted) {
+                expect(decodePACS008Payload(payload, HANDLER)).to.deep.equal(message);
+                expect(messageHash).to.equal(computeMessageHash(PACS008_XML));
+                expect(payloadHash).to.equal(ethers.keccak256(payload));
+            }
+        });
+
+        it("Should reject an unknown BIC", async function () {
+            const xml = PACS008_XML.replace("BNPAFRPP", "UNKNFRPP");
+            await expect(convertPACS008Xml(xml, options)).to.be.rejectedWith("Unknown creditor agent UNKNFRPP");
+        });
+
+        it("Should reject a currency without reserve asset", async function () {
+            const xml = PACS008_XML.replace(`Ccy="USD"`, `Ccy="CHF"`);
+            await expect(convertPACS008Xml(xml, options)).to.be.rejectedWith("No reserve asset for currency CHF");
+        });
+    });
+});